@@ -1,3 +1,4 @@
+import useReminders from '@/hooks/useReminders';
 import useTheme from '@/hooks/useTheme';
 import { Ionicons } from '@expo/vector-icons';
 import { Tabs } from 'expo-router';
@@ -6,6 +7,9 @@ import React from 'react';
 
 const TabsLayout = () => {
     const {colors} = useTheme();
+
+    // Keep reminder notifications in sync while the tabs are mounted
+    useReminders();
     
   return (
     <Tabs
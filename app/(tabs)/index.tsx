@@ -1,73 +1,250 @@
 import { createHomeStyles } from "@/assets/styles/home.styles";
+import DraggableList from "@/components/DraggableList";
+import DueDatePicker from "@/components/DueDatePicker";
 import EmptyState from "@/components/EmptyState";
 import Header from "@/components/Header";
+import HighlightedText from "@/components/HighlightedText";
+import ListPicker from "@/components/ListPicker";
+import ListSwitcher from "@/components/ListSwitcher";
 import LoadingSpinner from "@/components/LoadingSpinner";
+import PriorityPicker from "@/components/PriorityPicker";
+import RecurrencePicker from "@/components/RecurrencePicker";
+import ReminderPicker from "@/components/ReminderPicker";
+import SearchBar from "@/components/SearchBar";
+import SearchEmptyState from "@/components/SearchEmptyState";
+import SelectionBar from "@/components/SelectionBar";
+import SubtaskList from "@/components/SubtaskList";
+import SwipeableTodoRow, { DEFAULT_SWIPE_THRESHOLDS, TODO_ROW_ACTIONS } from "@/components/SwipeableTodoRow";
+import TagChip from "@/components/TagChip";
+import TagFilterBar, { TagMatch } from "@/components/TagFilterBar";
+import TagPicker from "@/components/TagPicker";
 import TodoInput from "@/components/TodoInput";
+import TodoViewBar from "@/components/TodoViewBar";
+import UndoSnackbar, { PendingDeletion } from "@/components/UndoSnackbar";
 import { api } from "@/convex/_generated/api";
 import { Doc, Id } from "@/convex/_generated/dataModel";
-import useDeviceId from "@/hooks/useDeviceId";
+import { formatTodoTxt } from "@/convex/lib/todoTxt";
+import useCachedQuery from "@/hooks/useCachedQuery";
+import useDebouncedValue from "@/hooks/useDebouncedValue";
+import useOfflineSync from "@/hooks/useOfflineSync";
+import usePreferences from "@/hooks/usePreferences";
 import useTheme from "@/hooks/useTheme";
+import useToast from "@/hooks/useToast";
+import useToday from "@/hooks/useToday";
+import { copyText } from "@/utils/copyText";
+import { DueSection, formatDueLabel, getDueSection, toDateKey } from "@/utils/dates";
+import { applyOutbox, diffTodoChanges, getPendingTodos, isTemporaryTodoId } from "@/utils/outbox";
+import { getPriorityColor, Priority, PRIORITY_LABELS } from "@/utils/priority";
+import { formatNextOccurrence, formatRecurrenceLabel } from "@/utils/recurrence";
+import { formatReminderLabel, Reminder } from "@/utils/reminders";
 import Ionicons from "@expo/vector-icons/Ionicons";
-import { useMutation, useQuery } from "convex/react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { LinearGradient } from "expo-linear-gradient";
-import { useState } from "react";
-import { Alert, FlatList, StatusBar, Text, TextInput, TouchableOpacity, View } from "react-native";
+import { router } from "expo-router";
+import { ReactElement, useCallback, useState } from "react";
+import { Alert, Pressable, SectionList, StatusBar, Text, TextInput, TouchableOpacity, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
-// Type definition for a Todo item based on the Convex database schema
-type Todo = Doc<"todos">;
+// Type definition for a Todo item based on the Convex database schema,
+// with its tag ids and checklist progress attached by the backend
+// (plus who added and finished it, for todos in shared lists)
+// isPendingSync marks local changes still waiting in the offline outbox
+type Todo = Doc<"todos"> & {
+  tagIds: Id<"tags">[];
+  subtaskProgress: { total: number; completed: number };
+  createdByName?: string;
+  completedByName?: string;
+  isPendingSync?: boolean;
+};
+
+// Keys of the due date sections returned by getTodoSections, in display order
+type SectionKey = DueSection;
+
+const SECTION_TITLES: Record<SectionKey, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  upcoming: "Upcoming",
+  noDate: "No date",
+};
 
 export default function Index() {
   // Get the current theme colors for consistent styling across the app
   const {colors} = useTheme();
   
-  // Get device ID for user identification
-  const { deviceId, isLoading: deviceIdLoading } = useDeviceId();
+  // Session state; queries wait until the user is signed in
+  const { isAuthenticated } = useConvexAuth();
+
+  // Device-local calendar day used to split todos into due date sections
+  const today = useToday();
+
+  // Persisted status filter and sort order, applied by the queries themselves
+  const { todoFilter: filter, todoSort: sortBy } = usePreferences();
+
+  // Toggles, edits and deletes go through the offline outbox and show up before the backend confirms them
+  const { outbox, queueSetCompleted, queueUpdate, queueDelete } = useOfflineSync();
+  const { showToast } = useToast();
+
+  // Currently selected list - undefined shows todos from every list
+  const [selectedListId, setSelectedListId] = useState<Id<"lists"> | undefined>();
+
+  // Active tag filter - when any tags are selected the list shows matching todos only
+  const [selectedTagIds, setSelectedTagIds] = useState<Id<"tags">[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>("any");
+
+  // Live search text; the query only runs once typing pauses
+  const [searchText, setSearchText] = useState("");
+  const searchQuery = useDebouncedValue(searchText.trim(), 300);
+
+  // Todos whose checklist is currently expanded
+  const [expandedIds, setExpandedIds] = useState<Id<"todos">[]>([]);
+
+  // Todos picked in selection mode; selection mode is on while any are picked
+  const [selectedIds, setSelectedIds] = useState<Id<"todos">[]>([]);
+  const isSelecting = selectedIds.length > 0;
+
+  // Most recent delete, offered for undo in the snackbar
+  const [pendingDeletion, setPendingDeletion] = useState<PendingDeletion | null>(null);
+  const dismissDeletion = useCallback(() => setPendingDeletion(null), []);
 
   // State management for inline editing functionality
   const [editingId, setEditingId] = useState<Id<"todos"> | null>(null);
   const [editText, setEditText] = useState("");
+  const [editDueDate, setEditDueDate] = useState<string | undefined>();
+  const [editDueTime, setEditDueTime] = useState<string | undefined>();
+  const [editReminder, setEditReminder] = useState<Reminder | undefined>();
+  const [editPriority, setEditPriority] = useState<Priority>("none");
+  const [editListId, setEditListId] = useState<Id<"lists"> | undefined>();
+  const [editTagIds, setEditTagIds] = useState<Id<"tags">[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<string | undefined>();
 
   // Create styles based on current theme colors
   const homeStyles = createHomeStyles(colors);
 
-  // Convex database operations - now include device ID for user isolation
-  const todos = useQuery(api.todos.getTodos, deviceId ? { deviceId } : "skip");
-  const toggleTodo = useMutation(api.todos.toggleTodo);
-  const deleteTodo = useMutation(api.todos.deleteTodo);
-  const updateTodo = useMutation(api.todos.updateTodo);
+  // Convex database operations - the backend scopes each one to the signed-in user
+  // An active search takes over the list; the section and tag queries stay warm for when it is cleared
+  // The manual order shows one flat, draggable list instead of due date sections
+  // Lists and tags come from the offline cache until the backend answers
+  const isSearchActive = searchQuery.length > 0;
+  const isTagFilterActive = selectedTagIds.length > 0;
+  const isManualOrder = sortBy === "manual" && !isSearchActive && !isTagFilterActive;
+  const todoSections = useCachedQuery(
+    api.todos.getTodoSections,
+    !isTagFilterActive && !isManualOrder ? { today, listId: selectedListId, filter, sortBy } : "skip"
+  );
+  const manualTodos = useCachedQuery(
+    api.todos.getTodos,
+    isManualOrder ? { listId: selectedListId, filter, sortBy } : "skip"
+  );
+  const taggedTodos = useCachedQuery(
+    api.todos.getTodosByTags,
+    isTagFilterActive ? { tagIds: selectedTagIds, match: tagMatch, listId: selectedListId, filter, sortBy } : "skip"
+  );
+  const searchResults = useQuery(
+    api.todos.searchTodos,
+    isAuthenticated && isSearchActive ? { query: searchQuery, listId: selectedListId, filter } : "skip"
+  );
+  const tags = useCachedQuery(api.tags.getTags, {});
+  const lists = useCachedQuery(api.lists.getLists, {});
+  const reorderTodo = useMutation(api.todos.reorderTodo);
+  const setTodosCompleted = useMutation(api.bulk.setTodosCompleted);
+  const deleteTodos = useMutation(api.bulk.deleteTodos);
+  const moveTodos = useMutation(api.bulk.moveTodos);
+  const tagTodos = useMutation(api.bulk.tagTodos);
 
-  // Check if data is still loading (either device ID or todos)
-  const isLoading = deviceIdLoading || todos === undefined;
+  // Check if data is still loading; cached results count, so this also ends without a connection
+  const isTodosLoading = isManualOrder
+    ? manualTodos === undefined
+    : isTagFilterActive ? taggedTodos === undefined : todoSections === undefined;
+  const isLoading = isTodosLoading || tags === undefined;
 
   // Show loading spinner while data is being fetched
   if(isLoading) return <LoadingSpinner/>
 
-  // Don't render anything if device ID is not available
-  if (!deviceId) return <LoadingSpinner/>
+  // Lookup for rendering tag chips on each row
+  const tagsById = new Map(tags.map((tag) => [tag._id, tag]));
+
+  // Todos added offline, shown at the top of their section until the backend confirms them
+  // One being sent is already in the loaded results through its optimistic update
+  const loadedIds = new Set(
+    [...(manualTodos ?? []), ...Object.values(todoSections ?? {}).flat()].map((todo) => todo._id as string)
+  );
+  const pendingTodos: Todo[] = isSearchActive || isTagFilterActive
+    ? []
+    : getPendingTodos(outbox, selectedListId, filter).filter((todo) => !loadedIds.has(todo._id));
+
+  // Only render sections that contain todos
+  // A search or tag filter replaces the due date sections with a single list of matches
+  const sections: { key: SectionKey | "tagged" | "search"; title: string; data: Todo[] }[] = (
+    isSearchActive
+      ? [{ key: "search" as const, title: "Search results", data: applyOutbox(searchResults ?? [], outbox) }]
+      : isTagFilterActive
+        ? [{ key: "tagged" as const, title: "Matching tags", data: applyOutbox(taggedTodos ?? [], outbox) }]
+        : (Object.keys(SECTION_TITLES) as SectionKey[])
+            .map((key) => ({
+              key,
+              title: SECTION_TITLES[key],
+              data: [
+                ...pendingTodos.filter((todo) => getDueSection(todo.dueDate, today) === key),
+                ...applyOutbox(todoSections?.[key] ?? [], outbox),
+              ],
+            }))
+  ).filter((section) => section.data.length > 0);
+  const orderedTodos = isManualOrder ? [...pendingTodos, ...applyOutbox(manualTodos ?? [], outbox)] : [];
+
+  // Todos currently on screen; bulk actions only ever apply to these (and never to ones added offline)
+  const visibleTodos = (isManualOrder ? orderedTodos : sections.flatMap((section) => section.data))
+    .filter((todo) => !isTemporaryTodoId(todo._id));
+  const visibleIds = new Set(visibleTodos.map((todo) => todo._id));
+  const selection = selectedIds.filter((id) => visibleIds.has(id));
 
   /**
    * Toggle the completion status of a todo item
-   * Now includes device ID for authorization
+   * Queued in the offline outbox as the new state and authorized against the signed-in user on the backend
+   * Completing a todo with open checklist items offers to complete them too
+   * Today's date lets a late-completed repeating todo skip occurrences already in the past
    */
-  const handleToggleTodo = async(id: Id<"todos">) => {
-    try {
-      await toggleTodo({id, deviceId});
-    } catch (error) {
-      console.log("Error toggling todo:", error);
-      Alert.alert("Error", "Failed to update todo. Please try again.");
+  const handleToggleTodo = (todo: Todo) => {
+    const runToggle = (completeSubtasks: boolean) => {
+      queueSetCompleted(todo._id, !todo.isCompleted, { completeSubtasks, today });
+    };
+
+    const openSubtasks = todo.subtaskProgress.total - todo.subtaskProgress.completed;
+    if (todo.isCompleted || openSubtasks === 0) {
+      runToggle(false);
+      return;
     }
+
+    Alert.alert("Complete Todo", `This todo has ${openSubtasks} unfinished checklist item${openSubtasks === 1 ? "" : "s"}.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Only This Todo", onPress: () => runToggle(false) },
+      { text: "Complete All", onPress: () => runToggle(true) },
+    ]);
+  };
+
+  /**
+   * Expand or collapse a todo's checklist
+   */
+  const toggleExpanded = (id: Id<"todos">) => {
+    setExpandedIds(expandedIds.includes(id) ? expandedIds.filter((expandedId) => expandedId !== id) : [...expandedIds, id]);
   };
 
   /**
-   * Delete a todo item with confirmation dialog
-   * Now includes device ID for authorization
+   * Move a todo item to the trash
+   * Queued in the offline outbox and authorized against the signed-in user on the backend
+   * No confirmation dialog: the Undo snackbar and the Trash screen make the delete reversible
+   * A todo added offline never reached the trash, so discarding it is confirmed instead
    */
-  const handleDeleteTodo = async(id: Id<"todos">) => {
-      Alert.alert("Delete Todo", "Are you sure you want to delete this todo?", [
-        { text: "Cancel", style: "cancel"},
-        { text: "Delete", style: "destructive", onPress: () => deleteTodo({id, deviceId}) },
+  const handleDeleteTodo = (id: Id<"todos">) => {
+    if (isTemporaryTodoId(id)) {
+      Alert.alert("Discard Todo", "This todo hasn't synced yet, so it can't be restored from the trash.", [
+        { text: "Cancel", style: "cancel" },
+        { text: "Discard", style: "destructive", onPress: () => queueDelete(id) },
       ]);
+      return;
+    }
+
+    queueDelete(id);
+    setPendingDeletion({ message: "Todo moved to trash", todoIds: [id] });
   };
 
   /**
@@ -76,23 +253,37 @@ export default function Index() {
   const handleEditTodo = (todo: Todo) => {
     setEditingId(todo._id);
     setEditText(todo.text);
+    setEditDueDate(todo.dueDate);
+    setEditDueTime(todo.dueTime);
+    setEditReminder(todo.reminder);
+    setEditPriority(todo.priority ?? "none");
+    setEditListId(todo.listId);
+    setEditTagIds(todo.tagIds);
+    setEditRecurrence(todo.recurrence);
   };
 
   /**
-   * Save the edited todo text to the database
-   * Now includes device ID for authorization
+   * Save the edited todo to the database
+   * Only the fields that changed are queued in the offline outbox, so edits made elsewhere
+   * to the other fields survive; authorized against the signed-in user on the backend
    */
-  const handleSaveEdit = async() => {
-    if(editingId) {
-      try {
-        await updateTodo({id: editingId, text: editText.trim(), deviceId});
-        setEditingId(null);
-        setEditText("");
-      } catch (error) {
-        console.log("Error updating todo:", error);
-        Alert.alert("Error", "Failed to update todo. Please try again.");
-      }
+  const handleSaveEdit = (todo: Todo) => {
+    if (!editText.trim()) {
+      Alert.alert("Invalid Input", "Todo text cannot be empty.");
+      return;
     }
+
+    queueUpdate(todo._id, diffTodoChanges(todo, {
+      text: editText.trim(),
+      dueDate: editDueDate ?? null,
+      dueTime: editDueTime ?? null,
+      reminder: editReminder ?? null,
+      priority: editPriority,
+      listId: editListId ?? null,
+      tagIds: editTagIds,
+      recurrence: editRecurrence ?? null,
+    }));
+    handleCancelEdit();
   };
 
   /**
@@ -101,27 +292,214 @@ export default function Index() {
   const handleCancelEdit = () => {
     setEditingId(null);
     setEditText("");
+    setEditDueDate(undefined);
+    setEditDueTime(undefined);
+    setEditReminder(undefined);
+    setEditPriority("none");
+    setEditListId(undefined);
+    setEditTagIds([]);
+    setEditRecurrence(undefined);
+  };
+
+  /**
+   * Save a drag-and-drop move in the manual order
+   * The list already shows the new position; the backend only needs the new neighbours
+   */
+  const handleReorderTodo = async (todo: Todo, before: Todo | undefined, after: Todo | undefined) => {
+    // Todos added offline have no place in the backend's order yet
+    const neighbourId = (neighbour: Todo | undefined) =>
+      neighbour && !isTemporaryTodoId(neighbour._id) ? neighbour._id : undefined;
+
+    try {
+      await reorderTodo({ id: todo._id, beforeId: neighbourId(before), afterId: neighbourId(after) });
+    } catch {
+      showToast("Failed to move todo. Please try again.");
+    }
+  };
+
+  /**
+   * Add a todo to the selection, or take it out again
+   * Long-pressing a row starts selection mode; it ends once nothing is selected
+   */
+  const toggleSelected = (id: Id<"todos">) => {
+    if (editingId) handleCancelEdit();
+    setSelectedIds(selectedIds.includes(id) ? selectedIds.filter((selectedId) => selectedId !== id) : [...selectedIds, id]);
+  };
+
+  /**
+   * Tell the user about todos a bulk action skipped, e.g. ones deleted elsewhere meanwhile
+   */
+  const reportSkipped = (failedCount: number, action: string) => {
+    if (failedCount > 0) {
+      showToast(`${failedCount} todo${failedCount === 1 ? "" : "s"} could not be ${action}.`);
+    }
+  };
+
+  /**
+   * Complete or un-complete every selected todo in one batch
+   */
+  const handleBulkSetCompleted = async (isCompleted: boolean) => {
+    try {
+      const result = await setTodosCompleted({ ids: selection, isCompleted, today });
+      setSelectedIds([]);
+      reportSkipped(result.failedCount, isCompleted ? "completed" : "reopened");
+    } catch {
+      showToast("Failed to update todos. Please try again.");
+    }
+  };
+
+  /**
+   * Move every selected todo to the trash in one batch, offering undo
+   */
+  const handleBulkDelete = async () => {
+    try {
+      const result = await deleteTodos({ ids: selection });
+      const deletedIds = result.results.flatMap((item) => (item.ok ? [item.id] : []));
+      setSelectedIds([]);
+      setPendingDeletion({
+        message: `${deletedIds.length} todo${deletedIds.length === 1 ? "" : "s"} moved to trash`,
+        todoIds: deletedIds,
+      });
+      reportSkipped(result.failedCount, "deleted");
+    } catch {
+      showToast("Failed to delete todos. Please try again.");
+    }
+  };
+
+  /**
+   * Move every selected todo into a list, or out of any list
+   */
+  const handleBulkMove = async (listId?: Id<"lists">) => {
+    try {
+      const result = await moveTodos({ ids: selection, listId: listId ?? null });
+      setSelectedIds([]);
+      reportSkipped(result.failedCount, "moved");
+    } catch {
+      showToast("Failed to move todos. Please try again.");
+    }
   };
 
   /**
-   * Render function for individual todo items in the FlatList
+   * Add or remove tags on every selected todo
+   */
+  const handleBulkTag = async (addTagIds: Id<"tags">[], removeTagIds: Id<"tags">[]) => {
+    try {
+      const result = await tagTodos({ ids: selection, addTagIds, removeTagIds });
+      setSelectedIds([]);
+      reportSkipped(result.failedCount, "tagged");
+    } catch {
+      showToast("Failed to tag todos. Please try again.");
+    }
+  };
+
+  /**
+   * Copy the selected todos as todo.txt lines, in the order they are shown
+   * Completion dates live in the todo's history, so completed todos are copied without them
+   */
+  const handleBulkCopy = async () => {
+    const listNames = new Map((lists ?? []).map((list) => [list._id, list.name]));
+    const content = formatTodoTxt(visibleTodos.filter((todo) => selection.includes(todo._id)).map((todo) => ({
+      text: todo.text,
+      isCompleted: todo.isCompleted,
+      priority: todo.priority,
+      createdOn: toDateKey(new Date(todo._creationTime)),
+      dueDate: todo.dueDate,
+      dueTime: todo.dueTime,
+      reminder: todo.reminder,
+      recurrence: todo.recurrence,
+      list: todo.listId ? listNames.get(todo.listId) : undefined,
+      tags: todo.tagIds.flatMap((tagId) => tagsById.get(tagId)?.name ?? []),
+      metadata: todo.metadata ?? {},
+    })));
+
+    try {
+      if (await copyText(content)) {
+        setSelectedIds([]);
+        showToast(`Copied ${selection.length} todo${selection.length === 1 ? "" : "s"} as todo.txt.`, "info");
+      } else {
+        showToast("Couldn't copy the todos. Please try again.");
+      }
+    } catch {
+      showToast("Couldn't copy the todos. Please try again.");
+    }
+  };
+
+  /**
+   * Screen reader equivalents of the row swipe gestures and long press
+   */
+  const handleRowAccessibilityAction = (todo: Todo, actionName: string) => {
+    if (actionName === "toggle") handleToggleTodo(todo);
+    if (actionName === "edit") handleEditTodo(todo);
+    if (actionName === "delete") handleDeleteTodo(todo._id);
+    if (isTemporaryTodoId(todo._id)) return;
+    if (actionName === "select") toggleSelected(todo._id);
+    if (actionName === "details") router.push(`/todo/${todo._id}`);
+  };
+
+  /**
+   * Render function for individual todo items in the SectionList or the draggable manual list
    * Handles both display and edit modes with conditional rendering
+   * In the manual order each row also gets a drag handle
+   * Rows swipe right to toggle completion and left to reveal edit and delete
+   * Tapping the text opens the todo's detail screen with its history
+   * In selection mode a tap selects the row instead, and swiping and dragging are off
+   * Todos added offline can be toggled, edited and discarded, but have no details, checklist or selection until synced
    */
-  const renderTodoItem = ({ item }: { item: Todo }) => {
+  const renderTodoItem = ({ item, dragHandle }: { item: Todo; dragHandle?: ReactElement }) => {
     const isEditing = editingId === item._id;
+    const isOverdue = !item.isCompleted && !!item.dueDate && item.dueDate < today;
+    const priorityColor = getPriorityColor(item.priority, colors);
+    const itemTags = item.tagIds.flatMap((tagId) => tagsById.get(tagId) ?? []);
+    const { total: subtaskTotal, completed: subtaskCompleted } = item.subtaskProgress;
+    const isPendingAdd = isTemporaryTodoId(item._id);
+    const isExpanded = expandedIds.includes(item._id) && !isPendingAdd;
+    const nextOccurrenceLabel = item.isCompleted ? null : formatNextOccurrence(item.recurrence, item.dueDate);
+    const isSelected = selectedIds.includes(item._id);
 
     return (
       <View style={homeStyles.todoItemWrapper}>
+        <SwipeableTodoRow
+        isCompleted={item.isCompleted}
+        onToggle={() => handleToggleTodo(item)}
+        onEdit={() => handleEditTodo(item)}
+        onDelete={() => handleDeleteTodo(item._id)}
+        enabled={!isEditing && !isSelecting}
+        thresholds={DEFAULT_SWIPE_THRESHOLDS}
+        >
         <LinearGradient 
         colors={colors.gradients.surface} 
-        style={homeStyles.todoItem}
+        style={[homeStyles.todoItem, isSelected && homeStyles.todoItemSelected]}
         start={{ x: 0, y: 0 }}
         end={{ x: 1, y: 1 }}
         >
+          {!isSelecting && !isPendingAdd && dragHandle}
+
+          {priorityColor && (
+            <View
+              style={[homeStyles.priorityMarker, { backgroundColor: priorityColor }]}
+              accessibilityLabel={`${PRIORITY_LABELS[item.priority ?? "none"]} priority`}
+            />
+          )}
+
+          {isSelecting ? (
+            <TouchableOpacity
+            style={homeStyles.checkbox}
+            activeOpacity={0.7}
+            onPress={() => toggleSelected(item._id)}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isSelected }}
+            accessibilityLabel="Select todo"
+            >
+              <Ionicons name={isSelected ? "checkmark-circle" : "ellipse-outline"} size={32} color={isSelected ? colors.primary : colors.textMuted} />
+            </TouchableOpacity>
+          ) : (
           <TouchableOpacity 
           style={homeStyles.checkbox} 
           activeOpacity={0.7}
-          onPress={() => handleToggleTodo(item._id)}
+          onPress={() => handleToggleTodo(item)}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: item.isCompleted }}
+          accessibilityLabel={item.isCompleted ? "Mark as not done" : "Mark as done"}
           >
             <LinearGradient 
             colors={item.isCompleted ? colors.gradients.success : colors.gradients.muted}
@@ -131,6 +509,7 @@ export default function Index() {
             ]}
             >{item.isCompleted && <Ionicons name="checkmark" size={18} color="#fff" />}</LinearGradient>
           </TouchableOpacity>
+          )}
 
           {isEditing  ? (
             <View style={homeStyles.editContainer}>
@@ -143,8 +522,42 @@ export default function Index() {
                 placeholder="Edit todo..."
                 placeholderTextColor={colors.textMuted}
               />
-              <View style={homeStyles.editButtons}>
-                <TouchableOpacity onPress={handleSaveEdit} activeOpacity={0.8}>
+              <DueDatePicker
+                dueDate={editDueDate}
+                dueTime={editDueTime}
+                onChange={(date, time) => {
+                  setEditDueDate(date);
+                  setEditDueTime(time);
+                  // Relative reminders and repeat rules cannot outlive the due date they depend on
+                  if (!date && editReminder?.type === "before") setEditReminder(undefined);
+                  if (!date) setEditRecurrence(undefined);
+                }}
+              >
+                <RecurrencePicker
+                  recurrence={editRecurrence}
+                  dueDate={editDueDate}
+                  onChange={setEditRecurrence}
+                />
+                <ReminderPicker
+                  reminder={editReminder}
+                  hasDueDate={!!editDueDate}
+                  onChange={setEditReminder}
+                />
+                <PriorityPicker
+                  priority={editPriority}
+                  onChange={setEditPriority}
+                />
+                <ListPicker
+                  listId={editListId}
+                  onChange={setEditListId}
+                />
+                <TagPicker
+                  tagIds={editTagIds}
+                  onChange={setEditTagIds}
+                />
+              </DueDatePicker>
+              <View style={[homeStyles.editButtons, { marginTop: 16 }]}>
+                <TouchableOpacity onPress={() => handleSaveEdit(item)} activeOpacity={0.8}>
                   <LinearGradient colors={colors.gradients.success} style={homeStyles.editButton}>
                     <Ionicons name="checkmark" size={16} color="#fff" />
                     <Text style={homeStyles.editButtonText}>Save</Text> 
@@ -160,7 +573,12 @@ export default function Index() {
               </View>
             </View>
           ) : (
-            <View style = {homeStyles.todoTextContainer}>
+            <Pressable
+            style={homeStyles.todoTextContainer}
+            onPress={isPendingAdd ? undefined : () => (isSelecting ? toggleSelected(item._id) : router.push(`/todo/${item._id}`))}
+            onLongPress={isPendingAdd ? undefined : () => toggleSelected(item._id)}
+            accessible={false}
+            >
               <Text style={[
                   homeStyles.todoText,
                   item.isCompleted && {
@@ -169,25 +587,114 @@ export default function Index() {
                     opacity: 0.6,
                   },
                 ]}
-              >{item.text}</Text>
+                accessibilityHint="Swipe right to toggle, swipe left for edit and delete, or use the actions menu"
+                accessibilityActions={[...TODO_ROW_ACTIONS(item.isCompleted), { name: "select", label: isSelected ? "Deselect" : "Select" }, { name: "details", label: "Show history" }]}
+                onAccessibilityAction={(event) => handleRowAccessibilityAction(item, event.nativeEvent.actionName)}
+              ><HighlightedText text={item.text} query={isSearchActive ? searchQuery : ""} /></Text>
+
+              {(item.dueDate || item.reminder || nextOccurrenceLabel || priorityColor || itemTags.length > 0 || subtaskTotal > 0 || item.createdByName || item.isPendingSync) && (
+                <View style={homeStyles.todoMetaRow}>
+                  {item.isPendingSync && (
+                    <View style={homeStyles.todoMetaItem} accessibilityLabel="Waiting to sync">
+                      <Ionicons name="cloud-upload-outline" size={13} color={colors.warning} />
+                      <Text style={homeStyles.todoMetaText}>Not synced</Text>
+                    </View>
+                  )}
+                  {subtaskTotal > 0 && (
+                    <TouchableOpacity
+                      style={homeStyles.todoMetaItem}
+                      onPress={() => toggleExpanded(item._id)}
+                      accessibilityLabel={`${subtaskCompleted} of ${subtaskTotal} checklist items done, ${isExpanded ? "collapse" : "expand"} checklist`}
+                    >
+                      <Ionicons name="checkbox-outline" size={13} color={subtaskCompleted === subtaskTotal ? colors.success : colors.textMuted} />
+                      <Text style={homeStyles.todoMetaText}>{subtaskCompleted}/{subtaskTotal}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {priorityColor && (
+                    <View style={homeStyles.todoMetaItem}>
+                      <Ionicons name="flag" size={13} color={priorityColor} />
+                      <Text style={[homeStyles.todoMetaText, { color: priorityColor }]}>
+                        {PRIORITY_LABELS[item.priority ?? "none"]}
+                      </Text>
+                    </View>
+                  )}
+                  {item.dueDate && (
+                    <View style={homeStyles.todoMetaItem}>
+                      <Ionicons name="calendar-outline" size={13} color={isOverdue ? colors.danger : colors.textMuted} />
+                      <Text style={[homeStyles.todoMetaText, isOverdue && homeStyles.todoMetaTextOverdue]}>
+                        {formatDueLabel(item.dueDate, item.dueTime)}
+                      </Text>
+                    </View>
+                  )}
+                  {item.recurrence && nextOccurrenceLabel && (
+                    <TouchableOpacity
+                      style={homeStyles.todoMetaItem}
+                      onPress={() => handleEditTodo(item)}
+                      accessibilityLabel={`Repeats ${formatRecurrenceLabel(item.recurrence)}, ${nextOccurrenceLabel}, edit repeat`}
+                    >
+                      <Ionicons name="repeat" size={13} color={colors.textMuted} />
+                      <Text style={homeStyles.todoMetaText}>{nextOccurrenceLabel}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {item.reminder && (
+                    <View style={homeStyles.todoMetaItem}>
+                      <Ionicons name="notifications-outline" size={13} color={colors.textMuted} />
+                      <Text style={homeStyles.todoMetaText}>{formatReminderLabel(item.reminder)}</Text>
+                    </View>
+                  )}
+                  {item.createdByName && (
+                    <View style={homeStyles.todoMetaItem} accessibilityLabel={`Added by ${item.createdByName}`}>
+                      <Ionicons name="person-outline" size={13} color={colors.textMuted} />
+                      <Text style={homeStyles.todoMetaText}>{item.createdByName}</Text>
+                    </View>
+                  )}
+                  {item.isCompleted && item.completedByName && (
+                    <View style={homeStyles.todoMetaItem} accessibilityLabel={`Completed by ${item.completedByName}`}>
+                      <Ionicons name="checkmark-done" size={13} color={colors.success} />
+                      <Text style={homeStyles.todoMetaText}>{item.completedByName}</Text>
+                    </View>
+                  )}
+                  {itemTags.map((tag) => (
+                    <TagChip
+                      key={tag._id}
+                      tag={tag}
+                      onPress={() => !selectedTagIds.includes(tag._id) && setSelectedTagIds([...selectedTagIds, tag._id])}
+                    />
+                  ))}
+                </View>
+              )}
 
+              {isExpanded && <SubtaskList todoId={item._id} />}
              
               <View style={homeStyles.todoActions}>
-                <TouchableOpacity onPress={() => handleEditTodo(item)} activeOpacity={0.8}>
+                <TouchableOpacity onPress={() => handleEditTodo(item)} activeOpacity={0.8} accessibilityLabel="Edit todo">
                   <LinearGradient colors={colors.gradients.warning} style={homeStyles.actionButton}>
                     <Ionicons name="pencil" size={14} color="#fff" />
                   </LinearGradient>
                 </TouchableOpacity>
+
+                {!isPendingAdd && (
+                  <TouchableOpacity
+                    onPress={() => toggleExpanded(item._id)}
+                    activeOpacity={0.8}
+                    accessibilityLabel={isExpanded ? "Hide checklist" : "Show checklist"}
+                  >
+                    <LinearGradient colors={isExpanded ? colors.gradients.primary : colors.gradients.muted} style={homeStyles.actionButton}>
+                      <Ionicons name="list" size={14} color="#fff" />
+                    </LinearGradient>
+                  </TouchableOpacity>
+                )}
                 
-                <TouchableOpacity onPress={() => handleDeleteTodo(item._id)} activeOpacity={0.8}>
+                <TouchableOpacity onPress={() => handleDeleteTodo(item._id)} activeOpacity={0.8} accessibilityLabel="Delete todo">
                   <LinearGradient colors={colors.gradients.danger} style={homeStyles.actionButton}>
                     <Ionicons name="trash" size={14} color="#fff" />
                   </LinearGradient>
                 </TouchableOpacity>
               </View>
-            </View>
+            </Pressable>
           )}
         </LinearGradient>
+        </SwipeableTodoRow>
       </View>
     );
   };
@@ -198,19 +705,77 @@ export default function Index() {
       <StatusBar barStyle={colors.statusBarStyle} />
         <SafeAreaView style={homeStyles.safeArea}>
           
-          <Header />
+          <Header listId={selectedListId} />
 
-          <TodoInput />
-        
-          <FlatList
-            data={todos}
-            renderItem={renderTodoItem}
-            keyExtractor={(item) => item._id}
-            style={homeStyles.todoList}
-            contentContainerStyle={homeStyles.todoListContent}
-            ListEmptyComponent={<EmptyState />}
+          <ListSwitcher selectedListId={selectedListId} onSelect={setSelectedListId} manageable />
+
+          <SearchBar value={searchText} onChange={setSearchText} />
+
+          <TagFilterBar
+            tags={tags}
+            selectedTagIds={selectedTagIds}
+            match={tagMatch}
+            onChangeSelection={setSelectedTagIds}
+            onChangeMatch={setTagMatch}
           />
 
+          {isSelecting ? (
+            <SelectionBar
+              selectedCount={selection.length}
+              totalCount={visibleTodos.length}
+              onSelectAll={() => setSelectedIds(visibleTodos.map((todo) => todo._id))}
+              onDeselectAll={() => setSelectedIds([])}
+              onCancel={() => setSelectedIds([])}
+              onSetCompleted={handleBulkSetCompleted}
+              onDelete={handleBulkDelete}
+              onMove={handleBulkMove}
+              onTag={handleBulkTag}
+              onCopy={handleBulkCopy}
+            />
+          ) : (
+            <>
+              <TodoInput listId={selectedListId} />
+
+              <TodoViewBar />
+            </>
+          )}
+        
+          {isManualOrder ? (
+            <DraggableList
+              data={orderedTodos}
+              keyExtractor={(item) => item._id}
+              renderItem={(item, dragHandle) => renderTodoItem({ item, dragHandle })}
+              onReorder={handleReorderTodo}
+              style={homeStyles.todoList}
+              contentContainerStyle={homeStyles.todoListContent}
+              ListEmptyComponent={<EmptyState />}
+            />
+          ) : (
+            <SectionList
+              sections={sections}
+              renderItem={renderTodoItem}
+              renderSectionHeader={({ section }) => (
+                <View style={homeStyles.sectionHeader}>
+                  <Text style={[homeStyles.sectionHeaderText, section.key === "overdue" && homeStyles.sectionHeaderOverdue]}>
+                    {section.title}
+                  </Text>
+                  <Text style={homeStyles.sectionCount}>{section.data.length}</Text>
+                </View>
+              )}
+              keyExtractor={(item) => item._id}
+              style={homeStyles.todoList}
+              contentContainerStyle={homeStyles.todoListContent}
+              ListEmptyComponent={
+                isSearchActive
+                  ? searchResults === undefined ? null : <SearchEmptyState query={searchQuery} />
+                  : <EmptyState />
+              }
+              stickySectionHeadersEnabled={false}
+            />
+          )}
+
+          <UndoSnackbar deletion={pendingDeletion} onDismiss={dismissDeletion} />
+
         </SafeAreaView>
     </LinearGradient>
   );
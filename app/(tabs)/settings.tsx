@@ -1,17 +1,25 @@
 import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import AccountSection from '@/components/AccountSection';
+import CalendarFeedSection from '@/components/CalendarFeedSection';
 import DangerZone from '@/components/DangerZone';
+import DevicesSection from '@/components/DevicesSection';
+import ExportSection from '@/components/ExportSection';
+import ImportSection from '@/components/ImportSection';
 import Preferences from '@/components/Preferences';
 import ProgressStats from '@/components/ProgressStats';
+import TrashSection from '@/components/TrashSection';
+import UndoSnackbar, { PendingDeletion } from '@/components/UndoSnackbar';
 import useTheme from '@/hooks/useTheme';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useCallback, useState } from 'react';
 import { ScrollView, Text, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 /**
  * Settings Screen Component
  * Main settings page that provides access to app configuration and statistics
- * Features: User preferences, progress tracking, and dangerous operations
+ * Features: The signed-in account, paired devices, the calendar feed, user preferences, progress tracking, data import and export, the trash, and dangerous operations
  */
 const SettingsScreen = () => {
 
@@ -21,6 +29,10 @@ const SettingsScreen = () => {
   // Create theme-aware styles for the settings screen
   const settingStyles = createSettingsStyles(colors);
 
+  // App reset, offered for undo in the snackbar
+  const [pendingDeletion, setPendingDeletion] = useState<PendingDeletion | null>(null);
+  const dismissDeletion = useCallback(() => setPendingDeletion(null), []);
+
   return (
     <LinearGradient colors={colors.gradients.background} style={settingStyles.container}>
       <SafeAreaView style={settingStyles.safeArea}>
@@ -41,10 +53,18 @@ const SettingsScreen = () => {
         >
 
           <ProgressStats />
+          <AccountSection />
+          <DevicesSection />
+          <CalendarFeedSection />
           <Preferences />
-          <DangerZone />
+          <ImportSection />
+          <ExportSection />
+          <TrashSection />
+          <DangerZone onCleared={setPendingDeletion} />
 
         </ScrollView>
+
+        <UndoSnackbar deletion={pendingDeletion} onDismiss={dismissDeletion} />
       </SafeAreaView>
     </LinearGradient>
   );
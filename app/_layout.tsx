@@ -1,20 +1,75 @@
+import SignInScreen from "@/components/SignInScreen";
+import useClaimDeviceData from "@/hooks/useClaimDeviceData";
+import useDeviceRegistration from "@/hooks/useDeviceRegistration";
+import { OfflineSyncProvider } from "@/hooks/useOfflineSync";
+import { PreferencesProvider } from "@/hooks/usePreferences";
 import { ThemeProvider } from "@/hooks/useTheme";
-import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { ToastProvider } from "@/hooks/useToast";
+import { ConvexAuthProvider } from "@convex-dev/auth/react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ConvexReactClient, useConvexAuth } from "convex/react";
+import * as Notifications from "expo-notifications";
 import { Stack } from "expo-router";
+import { Platform } from "react-native";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 
 
 const convex = new ConvexReactClient(process.env.EXPO_PUBLIC_CONVEX_URL!, {
   unsavedChangesWarning: false,
 });
 
+// Show todo reminders as banners even while the app is in the foreground
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// Keeps the session token across launches; the web build uses localStorage by default
+const tokenStorage = Platform.OS === "web" ? undefined : AsyncStorage;
+
+// The app's screens, shown once signed in
+function AppStack() {
+  // Move todos this device created before signing in into the account
+  useClaimDeviceData();
+
+  // List this device in Settings, and sign out if another device unlinks it
+  useDeviceRegistration();
+
+  return (
+    <Stack screenOptions={{ headerShown: false }}>
+      <Stack.Screen name="(tabs)" />
+      <Stack.Screen name="trash" />
+      <Stack.Screen name="todo/[id]" />
+    </Stack>
+  );
+}
+
+// The app also renders while a saved session is being confirmed, so a launch without
+// a connection shows the cached todos instead of a blank screen
+function SessionGate() {
+  const { isAuthenticated, isLoading } = useConvexAuth();
+
+  return isAuthenticated || isLoading ? <AppStack /> : <SignInScreen />;
+}
+
 export default function RootLayout() {
   return (
-    <ConvexProvider client={convex}>
-      <ThemeProvider>
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(tabs)" />
-        </Stack>
-      </ThemeProvider>
-    </ConvexProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ConvexAuthProvider client={convex} storage={tokenStorage}>
+        <ThemeProvider>
+          <ToastProvider>
+            <PreferencesProvider>
+              <OfflineSyncProvider>
+                <SessionGate />
+              </OfflineSyncProvider>
+            </PreferencesProvider>
+          </ToastProvider>
+        </ThemeProvider>
+      </ConvexAuthProvider>
+    </GestureHandlerRootView>
   );
 }
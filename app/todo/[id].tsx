@@ -0,0 +1,173 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { formatDueLabel } from '@/utils/dates';
+import { PRIORITY_LABELS } from '@/utils/priority';
+import { formatRecurrenceLabel } from '@/utils/recurrence';
+import { formatReminderLabel } from '@/utils/reminders';
+import { describeEventChanges, formatEventTime, TODO_EVENT_LABELS, TodoEventType } from '@/utils/todoEvents';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ComponentProps } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+type IconName = ComponentProps<typeof Ionicons>["name"];
+
+const EVENT_ICONS: Record<TodoEventType, IconName> = {
+    created: "add",
+    edited: "pencil",
+    completed: "checkmark",
+    reopened: "arrow-undo",
+    deleted: "trash",
+    restored: "refresh",
+};
+
+/**
+ * Todo Detail Screen Component
+ * Opened by tapping a todo on the home screen; shows the todo's details and its history timeline
+ * Todos created before history was recorded get a "Created" entry from their creation time
+ */
+const TodoDetailScreen = () => {
+    // Get current theme colors for consistent styling across the app
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles for the settings screens, which this screen shares
+    const settingStyles = createSettingsStyles(colors);
+
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const todoId = id as Id<"todos">;
+
+    const todo = useQuery(api.todos.getTodo, isAuthenticated ? { id: todoId } : "skip");
+    const events = useQuery(api.todoEvents.getTodoEvents, isAuthenticated ? { todoId } : "skip");
+    const lists = useQuery(api.lists.getLists, isAuthenticated ? {} : "skip");
+    const tags = useQuery(api.tags.getTags, isAuthenticated ? {} : "skip");
+
+    if (todo === undefined || events === undefined || lists === undefined || tags === undefined) return <LoadingSpinner />;
+
+    const names = {
+        listNames: new Map<string, string>(lists.map((list) => [list._id, list.name])),
+        tagNames: new Map<string, string>(tags.map((tag) => [tag._id, tag.name])),
+    };
+
+    const eventColors: Record<TodoEventType, [string, string]> = {
+        created: colors.gradients.primary,
+        edited: colors.gradients.warning,
+        completed: colors.gradients.success,
+        reopened: colors.gradients.muted,
+        deleted: colors.gradients.danger,
+        restored: colors.gradients.success,
+    };
+
+    // Older todos have no "created" event, so fall back to the document's creation time
+    const timeline = todo && !events.some((event) => event.type === "created")
+        ? [...events, { _id: "created", type: "created" as const, at: todo._creationTime, changes: [] }]
+        : events;
+
+    const list = todo?.listId ? lists.find((candidate) => candidate._id === todo.listId) : undefined;
+    const todoTags = todo ? tags.filter((tag) => todo.tagIds.includes(tag._id)) : [];
+
+    const renderMeta = (icon: IconName, text: string) => (
+        <View style={settingStyles.detailMetaRow}>
+            <Ionicons name={icon} size={16} color={colors.textMuted} />
+            <Text style={settingStyles.detailMetaText}>{text}</Text>
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={colors.gradients.background} style={settingStyles.container}>
+            <SafeAreaView style={settingStyles.safeArea}>
+
+                <View style={settingStyles.header}>
+                    <View style={settingStyles.titleContainer}>
+                        <TouchableOpacity style={settingStyles.backButton} onPress={() => router.back()} accessibilityLabel="Back">
+                            <Ionicons name="chevron-back" size={26} color={colors.text} />
+                        </TouchableOpacity>
+                        <LinearGradient colors={colors.gradients.primary} style={settingStyles.iconContainer}>
+                            <Ionicons name="time" size={28} color="#fff" />
+                        </LinearGradient>
+                        <Text style={settingStyles.title}>History</Text>
+                    </View>
+                </View>
+
+                <ScrollView
+                    style={settingStyles.scrollView}
+                    contentContainerStyle={settingStyles.content}
+                    showsVerticalScrollIndicator={false}
+                >
+                    {todo === null ? (
+                        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+                            <View style={settingStyles.emptyStatsContainer}>
+                                <Text style={settingStyles.emptyStatsText}>This todo no longer exists</Text>
+                            </View>
+                        </LinearGradient>
+                    ) : (
+                        <>
+                            <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+                                <Text
+                                    style={[
+                                        settingStyles.detailText,
+                                        todo.isCompleted && { textDecorationLine: "line-through", color: colors.textMuted },
+                                    ]}
+                                >
+                                    {todo.text}
+                                </Text>
+
+                                {todo.deletedAt !== undefined && (
+                                    <Text style={settingStyles.dangerWarning}>In the trash since {formatEventTime(todo.deletedAt)}</Text>
+                                )}
+                                {renderMeta(todo.isCompleted ? "checkmark-circle" : "ellipse-outline", todo.isCompleted ? "Completed" : "Not completed")}
+                                {todo.dueDate && renderMeta("calendar-outline", formatDueLabel(todo.dueDate, todo.dueTime))}
+                                {todo.priority && todo.priority !== "none" && renderMeta("flag", PRIORITY_LABELS[todo.priority])}
+                                {todo.recurrence && renderMeta("repeat", formatRecurrenceLabel(todo.recurrence))}
+                                {todo.reminder && renderMeta("notifications-outline", formatReminderLabel(todo.reminder))}
+                                {list && renderMeta("folder-outline", list.name)}
+                                {todoTags.length > 0 && renderMeta("pricetags-outline", todoTags.map((tag) => `#${tag.name}`).join(" "))}
+                                {todo.subtaskProgress.total > 0 && renderMeta(
+                                    "checkbox-outline",
+                                    `${todo.subtaskProgress.completed} of ${todo.subtaskProgress.total} checklist items done`,
+                                )}
+                            </LinearGradient>
+
+                            <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+                                <Text style={settingStyles.sectionTitle}>Timeline</Text>
+
+                                {timeline.map((event, index) => {
+                                    const changes = describeEventChanges(event, names);
+                                    const isLast = index === timeline.length - 1;
+                                    return (
+                                        <View key={event._id} style={settingStyles.timelineItem}>
+                                            <View style={settingStyles.timelineRail}>
+                                                <LinearGradient colors={eventColors[event.type]} style={settingStyles.timelineIcon}>
+                                                    <Ionicons name={EVENT_ICONS[event.type]} size={16} color="#fff" />
+                                                </LinearGradient>
+                                                {!isLast && <View style={settingStyles.timelineLine} />}
+                                            </View>
+
+                                            <View style={[settingStyles.timelineContent, isLast && { paddingBottom: 0 }]}>
+                                                <Text style={settingStyles.timelineTitle}>{TODO_EVENT_LABELS[event.type]}</Text>
+                                                <Text style={settingStyles.timelineTime}>{formatEventTime(event.at)}</Text>
+                                                {changes.map((change) => (
+                                                    <Text key={change} style={settingStyles.timelineChange}>{change}</Text>
+                                                ))}
+                                            </View>
+                                        </View>
+                                    );
+                                })}
+                            </LinearGradient>
+                        </>
+                    )}
+                </ScrollView>
+            </SafeAreaView>
+        </LinearGradient>
+    );
+};
+
+export default TodoDetailScreen;
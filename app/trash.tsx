@@ -0,0 +1,197 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import { Alert, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Describe when a todo was deleted and how long it has left, e.g. "Deleted yesterday · purged in 29 days"
+ */
+const formatTrashTimes = (deletedAt: number, purgeAt: number, now = Date.now()) => {
+    const daysAgo = Math.floor((now - deletedAt) / DAY_MS);
+    const daysLeft = Math.max(0, Math.ceil((purgeAt - now) / DAY_MS));
+
+    const deleted = daysAgo === 0 ? "Deleted today" : daysAgo === 1 ? "Deleted yesterday" : `Deleted ${daysAgo} days ago`;
+    const purged = daysLeft === 0 ? "purged today" : `purged in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`;
+    return `${deleted} · ${purged}`;
+};
+
+/**
+ * Trash Screen Component
+ * Opened from Settings; lists deleted todos so they can be restored or purged for good
+ * Anything left here is purged automatically once the retention period runs out
+ */
+const TrashScreen = () => {
+    // Get current theme colors for consistent styling across the app
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles for the settings screens
+    const settingStyles = createSettingsStyles(colors);
+
+    const trash = useQuery(api.trash.getTrash, isAuthenticated ? {} : "skip");
+    const restoreTodos = useMutation(api.trash.restoreTodos);
+    const purgeTodos = useMutation(api.trash.purgeTodos);
+    const emptyTrash = useMutation(api.trash.emptyTrash);
+
+    /**
+     * Move todos back into the todo list
+     */
+    const handleRestore = async (ids: Id<"todos">[]) => {
+        if (!isAuthenticated) return;
+
+        try {
+            await restoreTodos({ ids });
+        } catch (error) {
+            console.log("Error restoring todos:", error);
+            Alert.alert("Error", "Failed to restore todos. Please try again.");
+        }
+    };
+
+    /**
+     * Permanently delete one todo after confirmation
+     */
+    const handlePurge = (id: Id<"todos">) => {
+        if (!isAuthenticated) return;
+
+        Alert.alert("Delete Forever", "This todo will be permanently deleted. This cannot be undone.", [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await purgeTodos({ ids: [id] });
+                    } catch (error) {
+                        console.log("Error purging todo:", error);
+                        Alert.alert("Error", "Failed to delete todo. Please try again.");
+                    }
+                },
+            },
+        ]);
+    };
+
+    /**
+     * Permanently delete everything in the trash after confirmation
+     */
+    const handleEmptyTrash = () => {
+        if (!isAuthenticated) return;
+
+        Alert.alert("Empty Trash", "🚨 All todos in the trash will be permanently deleted. This cannot be undone.", [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Empty Trash",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await emptyTrash({});
+                    } catch (error) {
+                        console.log("Error emptying trash:", error);
+                        Alert.alert("Error", "Failed to empty trash. Please try again.");
+                    }
+                },
+            },
+        ]);
+    };
+
+    if (trash === undefined) return <LoadingSpinner />;
+
+    const now = Date.now();
+
+    return (
+        <LinearGradient colors={colors.gradients.background} style={settingStyles.container}>
+            <SafeAreaView style={settingStyles.safeArea}>
+
+                <View style={settingStyles.header}>
+                    <View style={settingStyles.titleContainer}>
+                        <TouchableOpacity style={settingStyles.backButton} onPress={() => router.back()} accessibilityLabel="Back to settings">
+                            <Ionicons name="chevron-back" size={26} color={colors.text} />
+                        </TouchableOpacity>
+                        <LinearGradient colors={colors.gradients.muted} style={settingStyles.iconContainer}>
+                            <Ionicons name="trash-bin" size={28} color="#fff" />
+                        </LinearGradient>
+                        <Text style={settingStyles.title}>Trash</Text>
+                    </View>
+                </View>
+
+                <ScrollView
+                    style={settingStyles.scrollView}
+                    contentContainerStyle={settingStyles.content}
+                    showsVerticalScrollIndicator={false}
+                >
+                    <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+                        <Text style={settingStyles.dangerWarning}>
+                            Deleted todos are permanently removed after {trash.retentionDays} day{trash.retentionDays === 1 ? "" : "s"}.
+                        </Text>
+
+                        {trash.todos.length > 0 && (
+                            <View style={settingStyles.trashToolbar}>
+                                <TouchableOpacity
+                                    onPress={() => handleRestore(trash.todos.map((todo) => todo._id))}
+                                    activeOpacity={0.8}
+                                    style={{ flex: 1 }}
+                                >
+                                    <LinearGradient colors={colors.gradients.success} style={settingStyles.trashToolbarButton}>
+                                        <Ionicons name="arrow-undo" size={16} color="#fff" />
+                                        <Text style={settingStyles.trashToolbarText}>Restore All</Text>
+                                    </LinearGradient>
+                                </TouchableOpacity>
+                                <TouchableOpacity onPress={handleEmptyTrash} activeOpacity={0.8} style={{ flex: 1 }}>
+                                    <LinearGradient colors={colors.gradients.danger} style={settingStyles.trashToolbarButton}>
+                                        <Ionicons name="trash" size={16} color="#fff" />
+                                        <Text style={settingStyles.trashToolbarText}>Empty Trash</Text>
+                                    </LinearGradient>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+
+                        {trash.todos.length === 0 ? (
+                            <View style={settingStyles.emptyStatsContainer}>
+                                <Text style={settingStyles.emptyStatsText}>Trash is empty</Text>
+                            </View>
+                        ) : (
+                            trash.todos.map((todo, index) => (
+                                <View
+                                    key={todo._id}
+                                    style={[settingStyles.trashItem, index === trash.todos.length - 1 && { borderBottomWidth: 0 }]}
+                                >
+                                    <View style={settingStyles.actionTextContainer}>
+                                        <Text style={settingStyles.trashItemText} numberOfLines={2}>{todo.text}</Text>
+                                        <Text style={settingStyles.actionSubtext}>
+                                            {formatTrashTimes(todo.deletedAt ?? now, todo.purgeAt, now)}
+                                        </Text>
+                                    </View>
+
+                                    <View style={settingStyles.trashItemActions}>
+                                        <TouchableOpacity onPress={() => handleRestore([todo._id])} activeOpacity={0.8} accessibilityLabel={`Restore ${todo.text}`}>
+                                            <LinearGradient colors={colors.gradients.success} style={settingStyles.trashItemButton}>
+                                                <Ionicons name="arrow-undo" size={16} color="#fff" />
+                                            </LinearGradient>
+                                        </TouchableOpacity>
+                                        <TouchableOpacity onPress={() => handlePurge(todo._id)} activeOpacity={0.8} accessibilityLabel={`Delete ${todo.text} forever`}>
+                                            <LinearGradient colors={colors.gradients.danger} style={settingStyles.trashItemButton}>
+                                                <Ionicons name="trash" size={16} color="#fff" />
+                                            </LinearGradient>
+                                        </TouchableOpacity>
+                                    </View>
+                                </View>
+                            ))
+                        )}
+                    </LinearGradient>
+                </ScrollView>
+            </SafeAreaView>
+        </LinearGradient>
+    );
+};
+
+export default TrashScreen;
@@ -264,6 +264,473 @@ export const createHomeStyles = (colors: ColorScheme) => {
       marginTop: 4,
       fontStyle: "italic",
     },
+    dueRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: 8,
+      marginTop: 10,
+    },
+    dueChip: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.backgrounds.input,
+    },
+    dueChipActive: {
+      borderColor: colors.primary,
+    },
+    dueChipText: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.textMuted,
+    },
+    dueChipTextActive: {
+      color: colors.primary,
+    },
+    pickerBackdrop: {
+      flex: 1,
+      justifyContent: "flex-end",
+      backgroundColor: "rgba(0, 0, 0, 0.4)",
+    },
+    pickerSheet: {
+      paddingHorizontal: 16,
+      paddingTop: 16,
+      paddingBottom: 40,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      backgroundColor: colors.surface,
+      maxHeight: "85%",
+    },
+    pickerDoneButton: {
+      alignSelf: "flex-end",
+      paddingHorizontal: 20,
+      paddingVertical: 10,
+    },
+    pickerDoneText: {
+      fontSize: 17,
+      fontWeight: "700",
+      color: colors.primary,
+    },
+    sheetTitle: {
+      fontSize: 18,
+      fontWeight: "700",
+      marginBottom: 8,
+      color: colors.text,
+    },
+    sheetOption: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingVertical: 14,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    sheetOptionDisabled: {
+      opacity: 0.4,
+    },
+    sheetOptionText: {
+      fontSize: 16,
+      fontWeight: "500",
+      color: colors.text,
+    },
+    sheetHint: {
+      fontSize: 13,
+      marginTop: 8,
+      color: colors.textMuted,
+    },
+    priorityDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginRight: 6,
+    },
+    priorityMarker: {
+      position: "absolute",
+      left: 0,
+      top: 16,
+      bottom: 16,
+      width: 4,
+      borderTopRightRadius: 2,
+      borderBottomRightRadius: 2,
+    },
+    listSwitcher: {
+      flexGrow: 0,
+      marginBottom: 12,
+    },
+    listSwitcherContent: {
+      paddingHorizontal: 24,
+      gap: 8,
+    },
+    listChip: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    listChipText: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    listChipTextActive: {
+      color: "#ffffff",
+    },
+    editorInput: {
+      borderWidth: 2,
+      borderRadius: 16,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      fontSize: 17,
+      fontWeight: "500",
+      marginBottom: 16,
+      backgroundColor: colors.backgrounds.input,
+      borderColor: colors.border,
+      color: colors.text,
+    },
+    editorLabel: {
+      fontSize: 13,
+      fontWeight: "700",
+      textTransform: "uppercase",
+      marginBottom: 8,
+      color: colors.textMuted,
+    },
+    swatchRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 12,
+      marginBottom: 16,
+    },
+    swatch: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    iconOption: {
+      width: 40,
+      height: 40,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    tagChip: {
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 10,
+      borderWidth: 1,
+    },
+    tagChipText: {
+      fontSize: 12,
+      fontWeight: "600",
+    },
+    tagFilterBar: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingLeft: 24,
+      marginBottom: 12,
+    },
+    tagFilterScroll: {
+      flex: 1,
+    },
+    tagFilterContent: {
+      gap: 8,
+      paddingRight: 24,
+    },
+    tagMatchToggle: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      marginRight: 8,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+    },
+    tagMatchToggleText: {
+      fontSize: 12,
+      fontWeight: "700",
+      color: "#ffffff",
+    },
+    sheetInputRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      marginTop: 12,
+    },
+    subtaskList: {
+      marginBottom: 12,
+      paddingTop: 4,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    subtaskItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 6,
+    },
+    subtaskText: {
+      flex: 1,
+      fontSize: 15,
+      color: colors.text,
+    },
+    subtaskTextCompleted: {
+      textDecorationLine: "line-through",
+      color: colors.textMuted,
+    },
+    subtaskInput: {
+      flex: 1,
+      fontSize: 15,
+      paddingVertical: 6,
+      color: colors.text,
+    },
+    sectionHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingTop: 16,
+      paddingBottom: 4,
+    },
+    sectionHeaderText: {
+      fontSize: 14,
+      fontWeight: "700",
+      letterSpacing: 0.5,
+      textTransform: "uppercase",
+      color: colors.textMuted,
+    },
+    sectionHeaderOverdue: {
+      color: colors.danger,
+    },
+    sectionCount: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.textMuted,
+    },
+    todoMetaRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: 8,
+      marginTop: -8,
+      marginBottom: 12,
+    },
+    todoMetaItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+    },
+    todoMetaText: {
+      fontSize: 13,
+      fontWeight: "500",
+      color: colors.textMuted,
+    },
+    todoMetaTextOverdue: {
+      color: colors.danger,
+    },
+    searchBar: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      marginHorizontal: 24,
+      marginBottom: 12,
+      paddingHorizontal: 16,
+      borderWidth: 1,
+      borderRadius: 16,
+      backgroundColor: colors.backgrounds.input,
+      borderColor: colors.border,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: colors.text,
+    },
+    searchHighlight: {
+      fontWeight: "800",
+      color: colors.primary,
+      backgroundColor: colors.primary + "22",
+    },
+    viewBar: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      gap: 8,
+      paddingHorizontal: 24,
+      marginBottom: 12,
+    },
+    viewFilterGroup: {
+      flexDirection: "row",
+      padding: 3,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    viewFilterOption: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 11,
+    },
+    viewFilterText: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    dragHandle: {
+      marginLeft: -8,
+      marginRight: 8,
+      paddingVertical: 6,
+      paddingHorizontal: 2,
+    },
+    repeatSectionLabel: {
+      marginTop: 16,
+    },
+    repeatRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: 8,
+      marginBottom: 8,
+    },
+    repeatInterval: {
+      minWidth: 24,
+      textAlign: "center",
+      fontSize: 17,
+      fontWeight: "700",
+      color: colors.text,
+    },
+    swipeCompleteAction: {
+      borderRadius: 20,
+      marginRight: 8,
+      justifyContent: "center",
+      alignItems: "center",
+      gap: 4,
+    },
+    swipeAction: {
+      flex: 1,
+      width: 72,
+      marginLeft: 8,
+      borderRadius: 20,
+      justifyContent: "center",
+      alignItems: "center",
+      gap: 4,
+    },
+    swipeActionText: {
+      fontSize: 12,
+      fontWeight: "700",
+      color: "#fff",
+    },
+    selectionBar: {
+      marginHorizontal: 24,
+      marginBottom: 12,
+      padding: 14,
+      gap: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      backgroundColor: colors.surface,
+    },
+    selectionHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+    },
+    selectionTitle: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+    },
+    selectionLink: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.primary,
+    },
+    selectionActions: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      alignItems: "center",
+      gap: 10,
+    },
+    todoItemSelected: {
+      borderWidth: 2,
+      borderColor: colors.primary,
+    },
+    snackbar: {
+      position: "absolute",
+      left: 20,
+      right: 20,
+      bottom: 24,
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 16,
+      paddingVertical: 14,
+      paddingHorizontal: 18,
+      borderRadius: 16,
+      backgroundColor: colors.text,
+      shadowColor: "#000",
+      shadowOffset: {
+        width: 0,
+        height: 4,
+      },
+      shadowOpacity: 0.2,
+      shadowRadius: 8,
+      elevation: 10,
+    },
+    snackbarText: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: "500",
+      color: colors.bg,
+    },
+    snackbarAction: {
+      fontSize: 15,
+      fontWeight: "800",
+      color: colors.primary,
+    },
+    toast: {
+      top: 60,
+      bottom: undefined,
+      gap: 10,
+    },
+    importInput: {
+      minHeight: 120,
+      maxHeight: 200,
+      fontSize: 14,
+      textAlignVertical: "top",
+    },
+    importPreview: {
+      maxHeight: 220,
+      marginBottom: 8,
+    },
+    importRow: {
+      flexDirection: "row",
+      alignItems: "flex-start",
+      gap: 8,
+      paddingVertical: 6,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    importRowText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    importRowError: {
+      fontSize: 12,
+      marginTop: 2,
+      color: colors.danger,
+    },
   });
 
   return styles;
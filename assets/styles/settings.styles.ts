@@ -235,6 +235,262 @@ export const createSettingsStyles = (colors: ColorScheme) => {
       textAlign: "center",
       fontStyle: "italic",
     },
+    backButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      justifyContent: "center",
+      alignItems: "center",
+      marginRight: 8,
+    },
+    trashToolbar: {
+      flexDirection: "row",
+      gap: 12,
+      marginBottom: 8,
+    },
+    trashToolbarButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 6,
+      paddingVertical: 12,
+      borderRadius: 12,
+    },
+    trashToolbarText: {
+      fontSize: 14,
+      fontWeight: "700",
+      color: "#fff",
+    },
+    trashItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      gap: 12,
+    },
+    trashItemText: {
+      fontSize: 16,
+      fontWeight: "500",
+      color: colors.text,
+    },
+    trashItemActions: {
+      flexDirection: "row",
+      gap: 8,
+    },
+    detailText: {
+      fontSize: 20,
+      fontWeight: "600",
+      lineHeight: 28,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    detailMetaRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 6,
+    },
+    detailMetaText: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    timelineItem: {
+      flexDirection: "row",
+      gap: 14,
+    },
+    timelineRail: {
+      alignItems: "center",
+    },
+    timelineIcon: {
+      width: 30,
+      height: 30,
+      borderRadius: 15,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    timelineLine: {
+      flex: 1,
+      width: 2,
+      marginVertical: 4,
+      backgroundColor: colors.border,
+    },
+    timelineContent: {
+      flex: 1,
+      paddingBottom: 20,
+    },
+    timelineTitle: {
+      fontSize: 15,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    timelineTime: {
+      fontSize: 12,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    timelineChange: {
+      fontSize: 13,
+      color: colors.text,
+      marginTop: 4,
+    },
+    trashItemButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    analyticsContainer: {
+      marginTop: 24,
+    },
+    rangeRow: {
+      flexDirection: "row",
+      gap: 8,
+      marginBottom: 16,
+    },
+    rangeChip: {
+      flex: 1,
+      paddingVertical: 8,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: "center",
+    },
+    rangeChipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    rangeChipText: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.textMuted,
+    },
+    rangeChipTextActive: {
+      color: "#fff",
+    },
+    metricRow: {
+      flexDirection: "row",
+      gap: 12,
+      marginBottom: 12,
+    },
+    metricCard: {
+      flex: 1,
+      padding: 16,
+      borderRadius: 16,
+      gap: 8,
+    },
+    metricValue: {
+      fontSize: 22,
+      fontWeight: "800",
+      letterSpacing: -0.5,
+      color: colors.text,
+    },
+    chartTitle: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: colors.text,
+      marginTop: 12,
+      marginBottom: 12,
+    },
+    chart: {
+      flexDirection: "row",
+      alignItems: "flex-end",
+      gap: 2,
+      height: 140,
+    },
+    chartColumn: {
+      flex: 1,
+      height: "100%",
+      alignItems: "center",
+    },
+    chartTrack: {
+      flex: 1,
+      width: "100%",
+      justifyContent: "flex-end",
+    },
+    chartBar: {
+      width: "100%",
+      borderRadius: 4,
+    },
+    chartValue: {
+      fontSize: 11,
+      fontWeight: "600",
+      color: colors.textMuted,
+      marginBottom: 4,
+    },
+    chartLabel: {
+      width: 48,
+      fontSize: 10,
+      textAlign: "center",
+      color: colors.textMuted,
+      marginTop: 4,
+    },
+    authLogo: {
+      width: 72,
+      height: 72,
+      borderRadius: 20,
+      justifyContent: "center",
+      alignItems: "center",
+      alignSelf: "center",
+      marginTop: 48,
+    },
+    authTitle: {
+      fontSize: 28,
+      fontWeight: "700",
+      letterSpacing: -0.5,
+      textAlign: "center",
+      color: colors.text,
+    },
+    authSubtitle: {
+      fontSize: 15,
+      lineHeight: 22,
+      textAlign: "center",
+      color: colors.textMuted,
+    },
+    authError: {
+      fontSize: 14,
+      fontWeight: "500",
+      color: colors.danger,
+      marginBottom: 12,
+    },
+    authButton: {
+      alignItems: "center",
+      justifyContent: "center",
+      paddingVertical: 14,
+      borderRadius: 16,
+    },
+    authButtonText: {
+      fontSize: 16,
+      fontWeight: "700",
+      color: "#fff",
+    },
+    authSwitchText: {
+      fontSize: 14,
+      fontWeight: "600",
+      textAlign: "center",
+      color: colors.primary,
+      marginTop: 16,
+    },
+    pairingContainer: {
+      alignItems: "center",
+      gap: 8,
+      paddingTop: 20,
+    },
+    pairingCode: {
+      fontSize: 32,
+      fontWeight: "800",
+      letterSpacing: 4,
+      color: colors.primary,
+    },
+    feedUrl: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.primary,
+      textAlign: "center",
+      paddingBottom: 12,
+    },
   });
 
   return styles;
@@ -0,0 +1,106 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import { api } from '@/convex/_generated/api';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import useTheme from '@/hooks/useTheme';
+import { useAuthActions } from '@convex-dev/auth/react';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * AccountSection Component
+ * Shows which account is signed in and lets the user sign out
+ * Signing out returns to the sign-in screen; todos stay in the account,
+ * while changes that haven't synced yet and the offline cache are cleared from the device
+ */
+const AccountSection = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles for settings components
+    const settingStyles = createSettingsStyles(colors);
+
+    const { signOut } = useAuthActions();
+    const viewer = useQuery(api.users.getViewer);
+    const forgetCurrentDevice = useMutation(api.devices.forgetCurrentDevice);
+    const { outbox, clearOfflineData } = useOfflineSync();
+
+    const [isSigningOut, setIsSigningOut] = useState(false);
+
+    /**
+     * Sign out after confirming, so a stray tap does not end the session
+     */
+    const handleSignOut = () => {
+        const unsynced = outbox.length > 0
+            ? ` ${outbox.length} change${outbox.length === 1 ? " hasn't" : "s haven't"} synced yet and will be lost.`
+            : "";
+
+        Alert.alert(
+            "Sign Out",
+            `You'll need your email and password to sign back in.${unsynced}`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Sign Out",
+                    style: "destructive",
+                    onPress: async () => {
+                        setIsSigningOut(true);
+                        try {
+                            // Drop off the device list first; that needs the session still active
+                            await forgetCurrentDevice({});
+                            await signOut();
+                            await clearOfflineData();
+                        } catch (error) {
+                            console.error("Error signing out:", error);
+                            Alert.alert("Error", "Failed to sign out. Please try again.");
+                            setIsSigningOut(false);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    return (
+        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+            <Text style={settingStyles.sectionTitle}>Account</Text>
+
+            <View style={settingStyles.actionButton}>
+                <View style={settingStyles.actionLeft}>
+                    <LinearGradient colors={colors.gradients.primary} style={settingStyles.actionIcon}>
+                        <Ionicons name="person" size={18} color="#fff" />
+                    </LinearGradient>
+                    <View style={settingStyles.actionTextContainer}>
+                        <Text style={settingStyles.actionText} numberOfLines={1}>
+                            {viewer?.email ?? "Signed in"}
+                        </Text>
+                        <Text style={settingStyles.actionSubtext}>Your todos are saved to this account</Text>
+                    </View>
+                </View>
+            </View>
+
+            <TouchableOpacity
+                style={[
+                    settingStyles.actionButton,
+                    { borderBottomWidth: 0 },
+                    isSigningOut && settingStyles.actionButtonDisabled
+                ]}
+                onPress={handleSignOut}
+                activeOpacity={0.7}
+                disabled={isSigningOut}
+            >
+                <View style={settingStyles.actionLeft}>
+                    <LinearGradient colors={colors.gradients.muted} style={settingStyles.actionIcon}>
+                        <Ionicons name="log-out-outline" size={18} color="#fff" />
+                    </LinearGradient>
+                    <Text style={settingStyles.actionText}>Sign Out</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+        </LinearGradient>
+    );
+};
+
+export default AccountSection;
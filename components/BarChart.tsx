@@ -0,0 +1,57 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import useTheme from '@/hooks/useTheme';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Text, View } from 'react-native';
+
+export interface BarChartBar {
+    key: string;
+    value: number;
+    label?: string;          // Axis label under the bar; leave out to keep dense charts readable
+    description: string;     // Spoken by screen readers, e.g. "Mar 3: 4 completed"
+}
+
+interface BarChartProps {
+    bars: BarChartBar[];
+    gradient: [string, string];
+    showValues?: boolean;    // Print each value above its bar, for charts with few bars
+    highlightKey?: string;   // Bar drawn with the primary gradient, e.g. today
+}
+
+/**
+ * BarChart Component
+ * Minimal vertical bar chart drawn with plain views, used by the analytics in Settings
+ * Bars are scaled to the largest value; empty bars keep a sliver so the axis stays visible
+ */
+const BarChart = ({ bars, gradient, showValues, highlightKey }: BarChartProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const settingStyles = createSettingsStyles(colors);
+
+    const max = Math.max(1, ...bars.map((bar) => bar.value));
+
+    return (
+        <View style={settingStyles.chart}>
+            {bars.map((bar) => (
+                <View
+                    key={bar.key}
+                    style={settingStyles.chartColumn}
+                    accessible
+                    accessibilityLabel={bar.description}
+                >
+                    {showValues && <Text style={settingStyles.chartValue}>{bar.value > 0 ? bar.value : ""}</Text>}
+                    <View style={settingStyles.chartTrack}>
+                        <LinearGradient
+                            colors={bar.key === highlightKey ? colors.gradients.primary : gradient}
+                            style={[settingStyles.chartBar, { height: `${Math.max(2, (bar.value / max) * 100)}%` }]}
+                        />
+                    </View>
+                    <Text style={settingStyles.chartLabel} numberOfLines={1}>{bar.label ?? ""}</Text>
+                </View>
+            ))}
+        </View>
+    );
+};
+
+export default BarChart;
@@ -0,0 +1,184 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import { api } from '@/convex/_generated/api';
+import useTheme from '@/hooks/useTheme';
+import useToast from '@/hooks/useToast';
+import { copyText } from '@/utils/copyText';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ComponentProps, useState } from 'react';
+import { Alert, Linking, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * CalendarFeedSection Component
+ * Turns this device's calendar feed on and off: a private .ics link that calendar apps subscribe to,
+ * so todos with due dates show up next to events. Anyone with the link can read the todos,
+ * so it can be replaced with a new one at any time
+ */
+const CalendarFeedSection = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles for settings components
+    const settingStyles = createSettingsStyles(colors);
+
+    const feed = useQuery(api.calendar.getCalendarFeed, isAuthenticated ? {} : "skip");
+    const enableCalendarFeed = useMutation(api.calendar.enableCalendarFeed);
+    const disableCalendarFeed = useMutation(api.calendar.disableCalendarFeed);
+    const { showToast } = useToast();
+
+    const [isUpdating, setIsUpdating] = useState(false);
+
+    const url = feed?.url ?? null;
+    const canEnable = !!feed && !isUpdating;
+
+    /**
+     * Create the link, or replace the current one
+     */
+    const handleEnable = async () => {
+        setIsUpdating(true);
+        try {
+            await enableCalendarFeed({});
+        } catch (error) {
+            console.error("Error enabling calendar feed:", error);
+            showToast("Couldn't create a calendar link. Please try again.");
+        } finally {
+            setIsUpdating(false);
+        }
+    };
+
+    const handleReset = () => {
+        Alert.alert(
+            "Reset Calendar Link",
+            "Calendars subscribed to the current link will stop updating until you subscribe to the new one.",
+            [
+                { text: "Cancel", style: "cancel" },
+                { text: "Reset", style: "destructive", onPress: handleEnable },
+            ]
+        );
+    };
+
+    const handleDisable = () => {
+        Alert.alert(
+            "Turn Off Calendar Feed",
+            "Calendars subscribed to this link will stop updating.",
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Turn Off",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await disableCalendarFeed({});
+                        } catch (error) {
+                            console.error("Error disabling calendar feed:", error);
+                            showToast("Couldn't turn off the calendar feed. Please try again.");
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const handleCopy = async () => {
+        if (!url) return;
+        try {
+            if (await copyText(url)) showToast("Calendar link copied.", "info");
+            else showToast("Couldn't copy the link.");
+        } catch (error) {
+            console.error("Error copying calendar link:", error);
+            showToast("Couldn't copy the link.");
+        }
+    };
+
+    /**
+     * Hand the link to the system's calendar app through the webcal scheme
+     */
+    const handleSubscribe = async () => {
+        if (!url) return;
+        try {
+            await Linking.openURL(url.replace(/^https?:/, "webcal:"));
+        } catch (error) {
+            console.error("Error opening calendar link:", error);
+            showToast("No calendar app could open the link. Copy it and add it in your calendar instead.");
+        }
+    };
+
+    const renderAction = (
+        icon: ComponentProps<typeof Ionicons>["name"],
+        label: string,
+        subtext: string,
+        gradient: [string, string],
+        onPress: () => void,
+        isLast = false,
+    ) => (
+        <TouchableOpacity
+            style={[settingStyles.actionButton, isLast && { borderBottomWidth: 0 }, isUpdating && settingStyles.actionButtonDisabled]}
+            onPress={onPress}
+            activeOpacity={0.7}
+            disabled={isUpdating}
+            accessibilityRole="button"
+        >
+            <View style={settingStyles.actionLeft}>
+                <LinearGradient colors={gradient} style={settingStyles.actionIcon}>
+                    <Ionicons name={icon} size={18} color="#fff" />
+                </LinearGradient>
+                <View style={settingStyles.actionTextContainer}>
+                    <Text style={settingStyles.actionText}>{label}</Text>
+                    <Text style={settingStyles.actionSubtext}>{subtext}</Text>
+                </View>
+            </View>
+        </TouchableOpacity>
+    );
+
+    return (
+        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+            <Text style={settingStyles.sectionTitle}>Calendar</Text>
+
+            {url ? (
+                <>
+                    <View style={settingStyles.pairingContainer}>
+                        <Text style={settingStyles.actionSubtext}>
+                            Subscribe to this private link in your calendar app:
+                        </Text>
+                        <Text style={settingStyles.feedUrl} selectable numberOfLines={2}>{url}</Text>
+                    </View>
+
+                    {renderAction("calendar", "Subscribe", "Open the link in your calendar app", colors.gradients.primary, handleSubscribe)}
+                    {renderAction("copy", "Copy Link", "Paste it into any calendar that takes .ics links", colors.gradients.primary, handleCopy)}
+                    {renderAction("refresh", "Reset Link", "Replace the link if it was shared by mistake", colors.gradients.warning, handleReset)}
+                    {renderAction("close-circle", "Turn Off", "Stop serving your todos to calendars", colors.gradients.danger, handleDisable, true)}
+                </>
+            ) : (
+                <TouchableOpacity
+                    style={[settingStyles.actionButton, { borderBottomWidth: 0 }, !canEnable && settingStyles.actionButtonDisabled]}
+                    onPress={handleEnable}
+                    activeOpacity={0.7}
+                    disabled={!canEnable}
+                    accessibilityRole="button"
+                >
+                    <View style={settingStyles.actionLeft}>
+                        <LinearGradient
+                            colors={canEnable ? colors.gradients.primary : colors.gradients.muted}
+                            style={settingStyles.actionIcon}
+                        >
+                            <Ionicons name="calendar" size={18} color="#fff" />
+                        </LinearGradient>
+                        <View style={settingStyles.actionTextContainer}>
+                            <Text style={[settingStyles.actionText, !canEnable && settingStyles.actionTextDisabled]}>
+                                Show Todos in Your Calendar
+                            </Text>
+                            <Text style={settingStyles.actionSubtext}>Get a private link calendar apps can subscribe to</Text>
+                        </View>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={canEnable ? colors.textMuted : colors.border} />
+                </TouchableOpacity>
+            )}
+        </LinearGradient>
+    );
+};
+
+export default CalendarFeedSection;
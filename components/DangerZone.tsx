@@ -1,48 +1,53 @@
 import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import { PendingDeletion } from '@/components/UndoSnackbar';
 import { api } from '@/convex/_generated/api';
-import useDeviceId from '@/hooks/useDeviceId';
 import useTheme from '@/hooks/useTheme';
 import { Ionicons } from '@expo/vector-icons';
-import { useMutation } from 'convex/react';
+import { useConvexAuth, useMutation } from 'convex/react';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Alert, Text, TouchableOpacity, View } from 'react-native';
 
+interface DangerZoneProps {
+    onCleared?: (deletion: PendingDeletion) => void;   // Offers the reset for undo
+}
+
 /**
  * DangerZone Component
  * Provides destructive actions that can permanently alter or delete user data
- * Only affects data belonging to the current device for proper user isolation
+ * Only affects data belonging to the signed-in user
  * Styled with warning colors and requires user confirmation for safety
+ * Reset moves every todo to the trash, so it can still be undone or restored
  */
-const DangerZone = () => {
+const DangerZone = ({ onCleared }: DangerZoneProps) => {
     // Get current theme colors for consistent styling
     const { colors } = useTheme();
 
-    // Get device ID for user-specific data operations
-    const { deviceId } = useDeviceId();
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
 
     // Create theme-aware styles for settings components
     const settingStyles = createSettingsStyles(colors);
 
-    // Convex mutation hook to clear all todos for the current device
+    // Convex mutation hook to clear all todos for the signed-in user
     const clearAllTodos = useMutation(api.todos.clearAllTodos);
 
     /**
      * Handle App Reset Function
-     * Clears all user data for the current device with confirmation dialogs for safety
+     * Clears all of the user's todos with a confirmation dialog for safety
      * Provides user feedback on operation success/failure
-     * Only deletes todos belonging to the current device
+     * Only deletes todos belonging to the signed-in user
      */
     const handleResetApp = async () => {
-        // Safety check: Don't proceed if device ID is not available
-        if (!deviceId) {
-            Alert.alert("Error", "Device not initialized. Please try again.");
+        // Safety check: Don't proceed until signed in
+        if (!isAuthenticated) {
+            Alert.alert("Error", "You need to be signed in. Please try again.");
             return;
         }
 
-        // First confirmation dialog - prevents accidental clicks
+        // Confirmation dialog - prevents accidental clicks
         Alert.alert(
             "Reset App",
-            "⚠️ This will delete all your todos and cannot be undone. Are you sure you want to proceed?",
+            "⚠️ This will move all your todos to the trash. Are you sure you want to proceed?",
             [
                 // Cancel option - styled as safe action
                 { text: "Cancel", style: "cancel" },
@@ -50,50 +55,30 @@ const DangerZone = () => {
                     // Destructive action - styled with red/warning colors
                     text: "Delete All",
                     style: "destructive",
-                    onPress: () => {
-                        // Second confirmation dialog for extra safety
-                        Alert.alert(
-                            "Final Confirmation",
-                            "🚨 This action cannot be reversed. All your todos will be permanently deleted.",
-                            [
-                                { text: "Cancel", style: "cancel" },
-                                {
-                                    text: "I'm Sure - Delete Everything",
-                                    style: "destructive",
-                                    onPress: async () => {
-                                        try {
-                                            // Execute the database clear operation with device ID
-                                            const result = await clearAllTodos({ deviceId });
-                                            
-                                            // Success feedback with count of deleted items
-                                            Alert.alert(
-                                                "App Reset Complete", 
-                                                `Successfully deleted ${result.deletedCount} todo${result.deletedCount === 1 ? "" : "s"}. Your app has been reset.`,
-                                                [
-                                                    {
-                                                        text: "OK",
-                                                        style: "default"
-                                                    }
-                                                ]
-                                            );
-                                        } catch (error) {
-                                            // Error handling with user-friendly message
-                                            console.error("Error deleting all todos:", error);
-                                            Alert.alert(
-                                                "Error", 
-                                                "Failed to reset app. Please try again or contact support if the problem persists.",
-                                                [
-                                                    {
-                                                        text: "OK",
-                                                        style: "default"
-                                                    }
-                                                ]
-                                            );
-                                        }
+                    onPress: async () => {
+                        try {
+                            // Execute the database clear operation for the signed-in user
+                            const result = await clearAllTodos({});
+
+                            // Success feedback with count of deleted items, undoable from the snackbar
+                            onCleared?.({
+                                message: `Moved ${result.deletedCount} todo${result.deletedCount === 1 ? "" : "s"} to trash`,
+                                todoIds: result.deletedTodoIds,
+                            });
+                        } catch (error) {
+                            // Error handling with user-friendly message
+                            console.error("Error deleting all todos:", error);
+                            Alert.alert(
+                                "Error", 
+                                "Failed to reset app. Please try again or contact support if the problem persists.",
+                                [
+                                    {
+                                        text: "OK",
+                                        style: "default"
                                     }
-                                }
-                            ]
-                        );
+                                ]
+                            );
+                        }
                     }
                 }
             ]
@@ -104,22 +89,22 @@ const DangerZone = () => {
         <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
             <Text style={settingStyles.sectionTitleDanger}>Danger Zone</Text>
             <Text style={settingStyles.dangerWarning}>
-                Actions in this section are permanent and cannot be undone. Proceed with caution.
+                Deleted todos stay in the trash until they expire or are purged. Proceed with caution.
             </Text>
             
             <TouchableOpacity
                 style={[
                     settingStyles.actionButton, 
                     { borderBottomWidth: 0 },
-                    !deviceId && settingStyles.actionButtonDisabled 
+                    !isAuthenticated && settingStyles.actionButtonDisabled 
                 ]}
                 onPress={handleResetApp}
                 activeOpacity={0.7} 
-                disabled={!deviceId}
+                disabled={!isAuthenticated}
             >
                 <View style={settingStyles.actionLeft}>
                     <LinearGradient 
-                        colors={deviceId ? colors.gradients.danger : colors.gradients.muted} 
+                        colors={isAuthenticated ? colors.gradients.danger : colors.gradients.muted} 
                         style={settingStyles.actionIcon}
                     >
                         <Ionicons name="trash" size={18} color="#fff" />
@@ -128,12 +113,12 @@ const DangerZone = () => {
                     <View style={settingStyles.actionTextContainer}>
                         <Text style={[
                             settingStyles.actionTextDanger,
-                            !deviceId && settingStyles.actionTextDisabled
+                            !isAuthenticated && settingStyles.actionTextDisabled
                         ]}>
                             Reset App
                         </Text>
                         <Text style={settingStyles.actionSubtext}>
-                            Delete all todos from this device
+                            Move all your todos to the trash
                         </Text>
                     </View>
                 </View>
@@ -141,7 +126,7 @@ const DangerZone = () => {
                 <Ionicons 
                     name="chevron-forward" 
                     size={18} 
-                    color={deviceId ? colors.textMuted : colors.border} 
+                    color={isAuthenticated ? colors.textMuted : colors.border} 
                 />
             </TouchableOpacity>
         </LinearGradient>
@@ -0,0 +1,168 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import { api } from '@/convex/_generated/api';
+import { Doc } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { devicePlatformIcon, formatLastSeen, formatPairingCode, minutesUntil } from '@/utils/devices';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useEffect, useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+interface PairingCode {
+    code: string;
+    expiresAt: number;
+}
+
+/**
+ * DevicesSection Component
+ * Lists the devices signed in to the account and pairs new ones with a one-time code
+ * The code is entered on the other device's sign-in screen; unlinking a device signs it out
+ */
+const DevicesSection = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles for settings components
+    const settingStyles = createSettingsStyles(colors);
+
+    const devices = useQuery(api.devices.getDevices, isAuthenticated ? {} : "skip");
+    const createPairingCode = useMutation(api.devices.createPairingCode);
+    const unlinkDevice = useMutation(api.devices.unlinkDevice);
+
+    const [pairing, setPairing] = useState<PairingCode | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+
+    // Re-render while a code is showing so the countdown stays current, and drop it once expired
+    const [now, setNow] = useState(Date.now());
+    useEffect(() => {
+        if (!pairing) return;
+        const interval = setInterval(() => setNow(Date.now()), 15_000);
+        return () => clearInterval(interval);
+    }, [pairing]);
+
+    const isPairingExpired = pairing !== null && pairing.expiresAt <= now;
+    useEffect(() => {
+        if (isPairingExpired) setPairing(null);
+    }, [isPairingExpired]);
+
+    /**
+     * Create a fresh pairing code, replacing any earlier one
+     */
+    const handlePair = async () => {
+        setIsCreating(true);
+        try {
+            const result = await createPairingCode({});
+            setNow(Date.now());
+            setPairing(result);
+        } catch (error) {
+            console.error("Error creating pairing code:", error);
+            Alert.alert("Error", "Failed to create a pairing code. Please try again.");
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    /**
+     * Unlink another device after confirming
+     */
+    const handleUnlink = (device: Doc<"devices">) => {
+        Alert.alert(
+            "Unlink Device",
+            `"${device.name}" will be signed out and stop syncing your todos.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Unlink",
+                    style: "destructive",
+                    onPress: async () => {
+                        try {
+                            await unlinkDevice({ id: device._id });
+                        } catch (error) {
+                            console.error("Error unlinking device:", error);
+                            Alert.alert("Error", "Failed to unlink device. Please try again.");
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    return (
+        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+            <Text style={settingStyles.sectionTitle}>Devices</Text>
+
+            {devices?.map((device) => (
+                <View key={device._id} style={settingStyles.trashItem}>
+                    <LinearGradient
+                        colors={device.isCurrent ? colors.gradients.primary : colors.gradients.muted}
+                        style={settingStyles.actionIcon}
+                    >
+                        <Ionicons name={devicePlatformIcon(device.platform)} size={18} color="#fff" />
+                    </LinearGradient>
+
+                    <View style={settingStyles.actionTextContainer}>
+                        <Text style={settingStyles.trashItemText} numberOfLines={1}>{device.name}</Text>
+                        <Text style={settingStyles.actionSubtext}>
+                            {device.isCurrent ? "This device" : formatLastSeen(device.lastSeenAt)}
+                        </Text>
+                    </View>
+
+                    {!device.isCurrent && (
+                        <TouchableOpacity
+                            onPress={() => handleUnlink(device)}
+                            activeOpacity={0.7}
+                            accessibilityRole="button"
+                            accessibilityLabel={`Unlink ${device.name}`}
+                        >
+                            <LinearGradient colors={colors.gradients.danger} style={settingStyles.trashItemButton}>
+                                <Ionicons name="unlink" size={16} color="#fff" />
+                            </LinearGradient>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            ))}
+
+            {pairing && !isPairingExpired ? (
+                <View style={settingStyles.pairingContainer}>
+                    <Text style={settingStyles.actionSubtext}>
+                        On the other device, choose &quot;Pair with a code&quot; and enter:
+                    </Text>
+                    <Text style={settingStyles.pairingCode} selectable accessibilityLabel={`Pairing code ${pairing.code.split("").join(" ")}`}>
+                        {formatPairingCode(pairing.code)}
+                    </Text>
+                    <Text style={settingStyles.actionSubtext}>
+                        Works once · expires in {minutesUntil(pairing.expiresAt, now)} min
+                    </Text>
+                </View>
+            ) : (
+                <TouchableOpacity
+                    style={[
+                        settingStyles.actionButton,
+                        { borderBottomWidth: 0 },
+                        (!isAuthenticated || isCreating) && settingStyles.actionButtonDisabled
+                    ]}
+                    onPress={handlePair}
+                    activeOpacity={0.7}
+                    disabled={!isAuthenticated || isCreating}
+                >
+                    <View style={settingStyles.actionLeft}>
+                        <LinearGradient colors={colors.gradients.primary} style={settingStyles.actionIcon}>
+                            <Ionicons name="add" size={18} color="#fff" />
+                        </LinearGradient>
+                        <View style={settingStyles.actionTextContainer}>
+                            <Text style={settingStyles.actionText}>Pair a Device</Text>
+                            <Text style={settingStyles.actionSubtext}>Get a one-time code for your phone or tablet</Text>
+                        </View>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
+        </LinearGradient>
+    );
+};
+
+export default DevicesSection;
@@ -0,0 +1,227 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { ReactElement, useEffect, useLayoutEffect, useState } from 'react';
+import { LayoutChangeEvent, StyleProp, View, ViewStyle } from 'react-native';
+import { Gesture, GestureDetector, ScrollView } from 'react-native-gesture-handler';
+import Animated, { runOnJS, SharedValue, useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+
+interface DraggableListProps<T> {
+    data: T[];
+    keyExtractor: (item: T) => string;
+    renderItem: (item: T, dragHandle: ReactElement) => ReactElement;   // Place dragHandle somewhere in the row
+    onReorder: (item: T, before: T | undefined, after: T | undefined) => void;  // New neighbours of the moved item
+    ListEmptyComponent?: ReactElement | null;
+    style?: StyleProp<ViewStyle>;
+    contentContainerStyle?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Index the dragged row would land on, from the row heights and how far it has been dragged
+ * Runs on the UI thread while dragging
+ */
+const getTargetIndex = (heights: number[], from: number, offset: number) => {
+    'worklet';
+    const tops: number[] = [];
+    let top = 0;
+    for (const height of heights) {
+        tops.push(top);
+        top += height;
+    }
+
+    const center = tops[from] + heights[from] / 2 + offset;
+    let target = from;
+    for (let index = from + 1; index < heights.length; index++) {
+        if (center > tops[index] + heights[index] / 2) target = index;
+    }
+    for (let index = from - 1; index >= 0; index--) {
+        if (center < tops[index] + heights[index] / 2) target = index;
+    }
+    return target;
+};
+
+interface DraggableRowProps {
+    index: number;
+    count: number;
+    activeIndex: SharedValue<number>;
+    offset: SharedValue<number>;
+    heights: SharedValue<number[]>;
+    onDragStateChange: (dragging: boolean) => void;
+    onDrop: (from: number, to: number) => void;
+    children: (dragHandle: ReactElement) => ReactElement;
+}
+
+/**
+ * One row of the list: follows the finger while dragged, slides aside while another row passes over it
+ */
+const DraggableRow = ({ index, count, activeIndex, offset, heights, onDragStateChange, onDrop, children }: DraggableRowProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const pan = Gesture.Pan()
+        .activateAfterLongPress(150)
+        .onStart(() => {
+            activeIndex.value = index;
+            offset.value = 0;
+            runOnJS(onDragStateChange)(true);
+        })
+        .onUpdate((event) => {
+            offset.value = event.translationY;
+        })
+        .onEnd(() => {
+            runOnJS(onDrop)(index, getTargetIndex(heights.value.slice(0, count), index, offset.value));
+        })
+        .onFinalize((_event, success) => {
+            if (!success) {
+                activeIndex.value = -1;
+                offset.value = 0;
+            }
+            runOnJS(onDragStateChange)(false);
+        });
+
+    const animatedStyle = useAnimatedStyle(() => {
+        const from = activeIndex.value;
+        if (from < 0) {
+            return { transform: [{ translateY: 0 }], zIndex: 0, opacity: 1 };
+        }
+        if (from === index) {
+            return { transform: [{ translateY: offset.value }], zIndex: 10, opacity: 0.9 };
+        }
+
+        // Rows between the dragged row's origin and target make room for it
+        const target = getTargetIndex(heights.value.slice(0, count), from, offset.value);
+        const draggedHeight = heights.value[from] ?? 0;
+        let shift = 0;
+        if (from < index && index <= target) shift = -draggedHeight;
+        if (target <= index && index < from) shift = draggedHeight;
+        return { transform: [{ translateY: withTiming(shift, { duration: 150 }) }], zIndex: 0, opacity: 1 };
+    });
+
+    /**
+     * Record the row height so other rows know how far to move
+     */
+    const handleLayout = (event: LayoutChangeEvent) => {
+        const next = [...heights.value];
+        next[index] = event.nativeEvent.layout.height;
+        heights.value = next;
+    };
+
+    const dragHandle = (
+        <GestureDetector gesture={pan}>
+            <View
+                style={homeStyles.dragHandle}
+                accessible
+                accessibilityRole="adjustable"
+                accessibilityLabel="Reorder"
+                accessibilityHint="Long press and drag to move, or use the actions to move up or down"
+                accessibilityActions={[
+                    { name: "moveUp", label: "Move up" },
+                    { name: "moveDown", label: "Move down" },
+                ]}
+                onAccessibilityAction={(event) => {
+                    if (event.nativeEvent.actionName === "moveUp" && index > 0) onDrop(index, index - 1);
+                    if (event.nativeEvent.actionName === "moveDown" && index < count - 1) onDrop(index, index + 1);
+                }}
+            >
+                <Ionicons name="reorder-three" size={22} color={colors.textMuted} />
+            </View>
+        </GestureDetector>
+    );
+
+    return (
+        <Animated.View style={animatedStyle} onLayout={handleLayout}>
+            {children(dragHandle)}
+        </Animated.View>
+    );
+};
+
+/**
+ * DraggableList Component
+ * Vertical list whose rows can be rearranged by long-pressing and dragging their handle
+ * Built directly on react-native-gesture-handler and react-native-reanimated
+ * The new order is shown immediately and reported through onReorder as the moved item's new neighbours
+ */
+const DraggableList = <T,>({
+    data,
+    keyExtractor,
+    renderItem,
+    onReorder,
+    ListEmptyComponent,
+    style,
+    contentContainerStyle,
+}: DraggableListProps<T>) => {
+    // Shared drag state, read by every row on the UI thread
+    const activeIndex = useSharedValue(-1);
+    const offset = useSharedValue(0);
+    const heights = useSharedValue<number[]>([]);
+
+    const [isDragging, setIsDragging] = useState(false);
+
+    // Local order shown between a drop and the server confirming it
+    const [localKeys, setLocalKeys] = useState<string[] | null>(null);
+
+    // Fresh data from the server replaces the local order
+    useEffect(() => {
+        setLocalKeys(null);
+    }, [data]);
+
+    const items = localKeys
+        ? localKeys.flatMap((key) => data.find((item) => keyExtractor(item) === key) ?? [])
+        : data;
+
+    // Clear the drag state once the reordered rows have rendered, so they do not jump back first
+    useLayoutEffect(() => {
+        activeIndex.value = -1;
+        offset.value = 0;
+    }, [localKeys, activeIndex, offset]);
+
+    /**
+     * Apply a drop locally and report the moved item's new neighbours
+     */
+    const handleDrop = (from: number, to: number) => {
+        if (from === to) {
+            activeIndex.value = -1;
+            offset.value = 0;
+            return;
+        }
+
+        const reordered = [...items];
+        const [moved] = reordered.splice(from, 1);
+        reordered.splice(to, 0, moved);
+
+        // Row heights travel with their rows
+        const nextHeights = [...heights.value];
+        const [movedHeight] = nextHeights.splice(from, 1);
+        nextHeights.splice(to, 0, movedHeight);
+        heights.value = nextHeights;
+
+        setLocalKeys(reordered.map(keyExtractor));
+        onReorder(moved, reordered[to - 1], reordered[to + 1]);
+    };
+
+    return (
+        <ScrollView style={style} contentContainerStyle={contentContainerStyle} scrollEnabled={!isDragging}>
+            {items.length === 0
+                ? ListEmptyComponent
+                : items.map((item, index) => (
+                    <DraggableRow
+                        key={keyExtractor(item)}
+                        index={index}
+                        count={items.length}
+                        activeIndex={activeIndex}
+                        offset={offset}
+                        heights={heights}
+                        onDragStateChange={setIsDragging}
+                        onDrop={handleDrop}
+                    >
+                        {(dragHandle) => renderItem(item, dragHandle)}
+                    </DraggableRow>
+                ))}
+        </ScrollView>
+    );
+};
+
+export default DraggableList;
@@ -0,0 +1,135 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { formatDueLabel, fromDueFields, toDateKey, toTimeKey } from '@/utils/dates';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { ReactNode, useState } from 'react';
+import { Modal, Platform, Text, TouchableOpacity, View } from 'react-native';
+
+interface DueDatePickerProps {
+    dueDate?: string;
+    dueTime?: string;
+    onChange: (dueDate?: string, dueTime?: string) => void;
+    disabled?: boolean;
+    children?: ReactNode;   // Extra chips rendered at the end of the row
+}
+
+type PickerMode = "date" | "time";
+
+/**
+ * DueDatePicker Component
+ * Compact chip row for choosing an optional due date and time
+ * Android uses the native dialog, iOS shows the picker in a bottom sheet with a Done button
+ */
+const DueDatePicker = ({ dueDate, dueTime, onChange, disabled, children }: DueDatePickerProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    // Which native picker is currently open, if any
+    const [pickerMode, setPickerMode] = useState<PickerMode | null>(null);
+
+    // Value shown in the picker - defaults to now when nothing is set yet
+    const pickerValue = dueDate ? fromDueFields(dueDate, dueTime) : new Date();
+
+    /**
+     * Apply a picked value to the due fields
+     * Picking a time without a date also pins the date to the picked day
+     */
+    const applyValue = (mode: PickerMode, value: Date) => {
+        if (mode === "date") {
+            onChange(toDateKey(value), dueTime);
+        } else {
+            onChange(dueDate ?? toDateKey(value), toTimeKey(value));
+        }
+    };
+
+    /**
+     * Handle native picker changes
+     * Android closes its dialog after every event, iOS keeps the sheet open until Done
+     */
+    const handlePickerChange = (event: DateTimePickerEvent, value?: Date) => {
+        const mode = pickerMode;
+        if (Platform.OS === "android") {
+            setPickerMode(null);
+        }
+        if (event.type === "set" && value && mode) {
+            applyValue(mode, value);
+        }
+    };
+
+    const picker = pickerMode && (
+        <DateTimePicker
+            value={pickerValue}
+            mode={pickerMode}
+            display={Platform.OS === "ios" ? (pickerMode === "date" ? "inline" : "spinner") : "default"}
+            onChange={handlePickerChange}
+            themeVariant={colors.statusBarStyle === "light-content" ? "dark" : "light"}
+        />
+    );
+
+    return (
+        <View style={homeStyles.dueRow}>
+            <TouchableOpacity
+                style={[homeStyles.dueChip, dueDate && homeStyles.dueChipActive]}
+                onPress={() => setPickerMode("date")}
+                activeOpacity={0.7}
+                disabled={disabled}
+                accessibilityLabel={dueDate ? `Due ${formatDueLabel(dueDate)}, change date` : "Add due date"}
+            >
+                <Ionicons name="calendar-outline" size={14} color={dueDate ? colors.primary : colors.textMuted} />
+                <Text style={[homeStyles.dueChipText, dueDate && homeStyles.dueChipTextActive]}>
+                    {dueDate ? formatDueLabel(dueDate) : "Add date"}
+                </Text>
+            </TouchableOpacity>
+
+            {dueDate && (
+                <TouchableOpacity
+                    style={[homeStyles.dueChip, dueTime && homeStyles.dueChipActive]}
+                    onPress={() => setPickerMode("time")}
+                    activeOpacity={0.7}
+                    disabled={disabled}
+                    accessibilityLabel={dueTime ? `Due at ${dueTime}, change time` : "Add due time"}
+                >
+                    <Ionicons name="time-outline" size={14} color={dueTime ? colors.primary : colors.textMuted} />
+                    <Text style={[homeStyles.dueChipText, dueTime && homeStyles.dueChipTextActive]}>
+                        {dueTime ?? "Add time"}
+                    </Text>
+                </TouchableOpacity>
+            )}
+
+            {dueDate && (
+                <TouchableOpacity
+                    style={homeStyles.dueChip}
+                    onPress={() => onChange(undefined, undefined)}
+                    activeOpacity={0.7}
+                    disabled={disabled}
+                    accessibilityLabel="Clear due date"
+                >
+                    <Ionicons name="close" size={14} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
+
+            {children}
+
+            {Platform.OS === "ios" ? (
+                <Modal visible={pickerMode !== null} transparent animationType="slide" onRequestClose={() => setPickerMode(null)}>
+                    <View style={homeStyles.pickerBackdrop}>
+                        <View style={homeStyles.pickerSheet}>
+                            {picker}
+                            <TouchableOpacity onPress={() => setPickerMode(null)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                                <Text style={homeStyles.pickerDoneText}>Done</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </Modal>
+            ) : (
+                picker
+            )}
+        </View>
+    );
+};
+
+export default DueDatePicker;
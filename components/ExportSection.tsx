@@ -0,0 +1,119 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import { api } from '@/convex/_generated/api';
+import { EXPORT_FORMATS } from '@/convex/schema';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import useTheme from '@/hooks/useTheme';
+import useToast from '@/hooks/useToast';
+import useToday from '@/hooks/useToday';
+import { getUtcOffsetMinutes } from '@/utils/analytics';
+import { shareFile } from '@/utils/shareFile';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvex, useConvexAuth } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+    { format: "json", label: "JSON Backup", description: "Everything, including lists, tags and checklists", icon: "code-slash" },
+    { format: "csv", label: "CSV", description: "One row per todo, for spreadsheets", icon: "grid" },
+    { format: "markdown", label: "Markdown Checklist", description: "For notes apps and documents", icon: "document-text" },
+    { format: "todotxt", label: "todo.txt", description: "Plain text for todo.txt apps", icon: "reader" },
+    { format: "ical", label: "iCalendar", description: "An .ics file for calendar apps", icon: "calendar" },
+];
+
+/**
+ * ExportSection Component
+ * Settings section that exports the user's todos in one of several formats
+ * The file is built by the backend and handed to the share sheet, or downloaded on web
+ */
+const ExportSection = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Exports are built from the backend's data, so they need a session and a connection
+    const { isAuthenticated } = useConvexAuth();
+    const { isOnline } = useOfflineSync();
+    const canExport = isAuthenticated && isOnline;
+
+    // Create theme-aware styles for settings components
+    const settingStyles = createSettingsStyles(colors);
+
+    const convex = useConvex();
+    const today = useToday();
+    const { showToast } = useToast();
+
+    // Format being prepared, so its row can show progress
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+    /**
+     * Fetch the export once and pass it on; a dismissed share sheet is not an error
+     */
+    const handleExport = async (format: ExportFormat) => {
+        if (exportingFormat) return;
+        setExportingFormat(format);
+
+        try {
+            const file = await convex.query(api.exports.exportTodos, { format, today, utcOffsetMinutes: getUtcOffsetMinutes() });
+            if (!file) {
+                showToast("Please sign in before exporting.");
+                return;
+            }
+            await shareFile(file);
+        } catch (error) {
+            console.error("Error exporting todos:", error);
+            showToast("Couldn't export your todos. Please try again.");
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    return (
+        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+            <Text style={settingStyles.sectionTitle}>Export</Text>
+
+            {EXPORT_OPTIONS.map((option, index) => (
+                <TouchableOpacity
+                    key={option.format}
+                    style={[
+                        settingStyles.actionButton,
+                        index === EXPORT_OPTIONS.length - 1 && { borderBottomWidth: 0 },
+                        !canExport && settingStyles.actionButtonDisabled,
+                    ]}
+                    onPress={() => handleExport(option.format)}
+                    activeOpacity={0.7}
+                    disabled={!canExport || exportingFormat !== null}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Export as ${option.label}`}
+                >
+                    <View style={settingStyles.actionLeft}>
+                        <LinearGradient
+                            colors={canExport ? colors.gradients.primary : colors.gradients.muted}
+                            style={settingStyles.actionIcon}
+                        >
+                            <Ionicons name={option.icon} size={18} color="#fff" />
+                        </LinearGradient>
+
+                        <View style={settingStyles.actionTextContainer}>
+                            <Text style={[settingStyles.actionText, !canExport && settingStyles.actionTextDisabled]}>
+                                {option.label}
+                            </Text>
+                            <Text style={settingStyles.actionSubtext}>
+                                {isAuthenticated && !isOnline ? "Available when you're back online" : option.description}
+                            </Text>
+                        </View>
+                    </View>
+
+                    {exportingFormat === option.format ? (
+                        <ActivityIndicator size="small" color={colors.primary} />
+                    ) : (
+                        <Ionicons name="share-outline" size={18} color={canExport ? colors.textMuted : colors.border} />
+                    )}
+                </TouchableOpacity>
+            ))}
+        </LinearGradient>
+    );
+};
+
+export default ExportSection;
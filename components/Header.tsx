@@ -1,9 +1,10 @@
 import { createHomeStyles } from '@/assets/styles/home.styles';
 import { api } from '@/convex/_generated/api';
-import useDeviceId from '@/hooks/useDeviceId';
+import { Id } from '@/convex/_generated/dataModel';
 import useTheme from '@/hooks/useTheme';
+import useToday from '@/hooks/useToday';
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery } from 'convex/react';
+import { useConvexAuth, useQuery } from 'convex/react';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Text, View } from 'react-native';
 
@@ -11,24 +12,29 @@ import { Text, View } from 'react-native';
  * Header Component
  * Displays the app title, progress statistics, and completion tracking
  * Provides real-time updates of todo completion status with visual progress indicators
- * Shows motivational messaging and current productivity metrics for the specific device
+ * Shows motivational messaging and current productivity metrics for the signed-in user
+ * Progress only counts todos due today, matching the "Today's Tasks" title
+ * Scoped to a single list when listId is given, otherwise covers every list
  */
-const Header = () => {
+const Header = ({ listId }: { listId?: Id<"lists"> }) => {
     // Get current theme colors for consistent styling across light/dark modes
     const { colors } = useTheme();
 
-    // Get device ID for user-specific data isolation
-    const { deviceId } = useDeviceId();
+    // Session state; the query waits until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Device-local calendar day, shared with the home screen's section query
+    const today = useToday();
 
     // Create theme-aware styles for home screen components
     const homeStyles = createHomeStyles(colors);
 
-    // Real-time query to fetch device-specific todos from the database
-    // Always call the query, deviceId might be undefined initially but that's handled by the backend
-    const todos = useQuery(api.todos.getTodos, { deviceId: deviceId ?? undefined });
+    // Real-time query to fetch the user's todos grouped by due date
+    const todoSections = useQuery(api.todos.getTodoSections, isAuthenticated ? { today, listId } : "skip");
+    const todos = todoSections?.today;
 
     // Calculate completion statistics with comprehensive null safety
-    // Handle cases where todos is undefined (loading) or deviceId is not ready
+    // Handle cases where todos is undefined (loading) or the session is not ready
     const totalTodos = todos ? todos.length : 0;
     const completedTodos = todos ? todos.filter((todo) => todo.isCompleted).length : 0;
 
@@ -0,0 +1,46 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { Text } from 'react-native';
+
+interface HighlightedTextProps {
+    text: string;
+    query: string;     // Whitespace-separated search terms; empty renders plain text
+}
+
+// Escape a search term for use inside a regular expression
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * HighlightedText Component
+ * Renders text with every occurrence of the search terms emphasized
+ * Meant to be nested inside a parent <Text> that carries the base style
+ */
+const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const terms = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+    if (terms.length === 0) return <>{text}</>;
+
+    // Longest terms first so overlapping terms highlight the full match
+    terms.sort((a, b) => b.length - a.length);
+    const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+
+    // split() with a capturing group puts the matches at odd indexes
+    return (
+        <>
+            {text.split(pattern).map((part, index) =>
+                index % 2 === 1 ? (
+                    <Text key={index} style={homeStyles.searchHighlight}>{part}</Text>
+                ) : (
+                    part
+                )
+            )}
+        </>
+    );
+};
+
+export default HighlightedText;
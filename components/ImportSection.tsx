@@ -0,0 +1,67 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import ImportSheet from '@/components/ImportSheet';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * ImportSection Component
+ * Settings entry that opens the import sheet for bringing todos over from other tools
+ */
+const ImportSection = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Imports belong to the signed-in user
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles for settings components
+    const settingStyles = createSettingsStyles(colors);
+
+    const [isSheetOpen, setIsSheetOpen] = useState(false);
+
+    return (
+        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+            <Text style={settingStyles.sectionTitle}>Import</Text>
+
+            <TouchableOpacity
+                style={[
+                    settingStyles.actionButton,
+                    { borderBottomWidth: 0 },
+                    !isAuthenticated && settingStyles.actionButtonDisabled,
+                ]}
+                onPress={() => setIsSheetOpen(true)}
+                activeOpacity={0.7}
+                disabled={!isAuthenticated}
+                accessibilityRole="button"
+            >
+                <View style={settingStyles.actionLeft}>
+                    <LinearGradient
+                        colors={isAuthenticated ? colors.gradients.success : colors.gradients.muted}
+                        style={settingStyles.actionIcon}
+                    >
+                        <Ionicons name="download" size={18} color="#fff" />
+                    </LinearGradient>
+
+                    <View style={settingStyles.actionTextContainer}>
+                        <Text style={[settingStyles.actionText, !isAuthenticated && settingStyles.actionTextDisabled]}>
+                            Import Todos
+                        </Text>
+                        <Text style={settingStyles.actionSubtext}>
+                            From a JSON export, CSV, Markdown checklist, todo.txt, .ics or plain text
+                        </Text>
+                    </View>
+                </View>
+
+                <Ionicons name="chevron-forward" size={18} color={isAuthenticated ? colors.textMuted : colors.border} />
+            </TouchableOpacity>
+
+            {isSheetOpen && <ImportSheet onClose={() => setIsSheetOpen(false)} />}
+        </LinearGradient>
+    );
+};
+
+export default ImportSection;
@@ -0,0 +1,265 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { MAX_IMPORT_ROWS } from '@/convex/schema';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import useTheme from '@/hooks/useTheme';
+import useToast from '@/hooks/useToast';
+import {
+    CSV_FIELD_LABELS,
+    CSV_FIELDS,
+    CsvField,
+    CsvMapping,
+    detectImportFormat,
+    guessCsvMapping,
+    IMPORT_FORMAT_LABELS,
+    IMPORT_FORMATS,
+    ImportFormat,
+    parseCsvTable,
+    parseImport,
+} from '@/utils/importTodos';
+import { canPickFiles, pickTextFile } from '@/utils/pickTextFile';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useMemo, useState } from 'react';
+import { Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// Rows listed in the preview; the summary still counts all of them
+const PREVIEW_LIMIT = 100;
+
+// File types offered by the browser's file dialog
+const ACCEPTED_FILE_TYPES = ".json,.csv,.tsv,.md,.markdown,.txt,.ics,application/json,text/*";
+
+interface ImportSheetProps {
+    onClose: () => void;
+}
+
+/**
+ * ImportSheet Component
+ * Bottom sheet for importing todos from pasted text, or a picked file on web
+ * The format is detected from the content and can be changed; CSV columns can be remapped
+ * Every row is previewed with the problem that would make the import skip it
+ * Callers mount it only while open
+ */
+const ImportSheet = ({ onClose }: ImportSheetProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    // Imports are written straight to the backend, so they need a connection
+    const { isOnline } = useOfflineSync();
+    const { showToast } = useToast();
+
+    const [content, setContent] = useState("");
+    const [chosenFormat, setChosenFormat] = useState<ImportFormat | null>(null);
+    const [csvMapping, setCsvMapping] = useState<CsvMapping | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const importTodos = useMutation(api.imports.importTodos);
+
+    // The detected format applies until the user picks one
+    const format = chosenFormat ?? detectImportFormat(content);
+    const csvHeader = useMemo(() => (format === "csv" ? parseCsvTable(content)[0] ?? [] : []), [content, format]);
+    const mapping = useMemo(() => csvMapping ?? guessCsvMapping(csvHeader), [csvMapping, csvHeader]);
+
+    const preview = useMemo(() => {
+        if (!content.trim()) return { rows: [], error: null };
+        try {
+            return { rows: parseImport(content, format, mapping), error: null };
+        } catch (error) {
+            return { rows: [], error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [content, format, mapping]);
+
+    const validRows = preview.rows.filter((row) => !row.error).map((row) => row.row);
+    const invalidCount = preview.rows.length - validRows.length;
+
+    /**
+     * Replace the content; a new file gets a fresh format detection and column mapping
+     */
+    const handleContentChange = (text: string) => {
+        setContent(text);
+        setChosenFormat(null);
+        setCsvMapping(null);
+    };
+
+    const handlePickFile = async () => {
+        try {
+            const file = await pickTextFile(ACCEPTED_FILE_TYPES);
+            if (file) handleContentChange(file.content);
+        } catch (error) {
+            console.error("Error reading import file:", error);
+            showToast("Couldn't read that file.");
+        }
+    };
+
+    /**
+     * Point a todo field at the next column, wrapping around through "not imported"
+     */
+    const cycleColumn = (field: CsvField) => {
+        const current = mapping[field];
+        const next = current === null ? 0 : current + 1 < csvHeader.length ? current + 1 : null;
+        setCsvMapping({ ...mapping, [field]: next });
+    };
+
+    /**
+     * Send the valid rows in batches the backend accepts and report the totals
+     */
+    const handleImport = async () => {
+        if (validRows.length === 0 || isImporting) return;
+
+        setIsImporting(true);
+        let insertedCount = 0;
+        let skippedCount = invalidCount;
+        try {
+            for (let start = 0; start < validRows.length; start += MAX_IMPORT_ROWS) {
+                const result = await importTodos({ rows: validRows.slice(start, start + MAX_IMPORT_ROWS) });
+                insertedCount += result.insertedCount;
+                skippedCount += result.skippedCount;
+            }
+            showToast(
+                `Imported ${insertedCount} todo${insertedCount === 1 ? "" : "s"}${skippedCount > 0 ? `, skipped ${skippedCount}` : ""}.`,
+                "info"
+            );
+            onClose();
+        } catch (error) {
+            console.error("Error importing todos:", error);
+            showToast(
+                insertedCount > 0
+                    ? `The import stopped early. ${insertedCount} todo${insertedCount === 1 ? " was" : "s were"} imported.`
+                    : "Failed to import todos. Please try again."
+            );
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const canImport = isOnline && validRows.length > 0 && !isImporting;
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <View style={homeStyles.pickerBackdrop}>
+                <View style={homeStyles.pickerSheet}>
+                    <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                        <Text style={homeStyles.sheetTitle}>Import Todos</Text>
+
+                        <TextInput
+                            style={[homeStyles.editorInput, homeStyles.importInput]}
+                            value={content}
+                            onChangeText={handleContentChange}
+                            placeholder="Paste a JSON export, CSV, Markdown checklist, todo.txt, iCalendar or one todo per line"
+                            placeholderTextColor={colors.textMuted}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            multiline
+                        />
+
+                        <View style={[homeStyles.dueRow, { marginTop: 0, marginBottom: 16 }]}>
+                            {canPickFiles && (
+                                <TouchableOpacity style={homeStyles.dueChip} onPress={handlePickFile} accessibilityRole="button">
+                                    <Ionicons name="folder-open-outline" size={14} color={colors.textMuted} />
+                                    <Text style={homeStyles.dueChipText}>Choose File</Text>
+                                </TouchableOpacity>
+                            )}
+                            {IMPORT_FORMATS.map((option) => (
+                                <TouchableOpacity
+                                    key={option}
+                                    style={[homeStyles.dueChip, format === option && homeStyles.dueChipActive]}
+                                    onPress={() => setChosenFormat(option)}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected: format === option }}
+                                >
+                                    <Text style={[homeStyles.dueChipText, format === option && homeStyles.dueChipTextActive]}>
+                                        {IMPORT_FORMAT_LABELS[option]}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        {format === "csv" && csvHeader.length > 0 && (
+                            <View style={{ marginBottom: 16 }}>
+                                <Text style={homeStyles.editorLabel}>Columns</Text>
+                                {CSV_FIELDS.map((field) => {
+                                    const column = mapping[field];
+                                    return (
+                                        <TouchableOpacity
+                                            key={field}
+                                            style={homeStyles.sheetOption}
+                                            onPress={() => cycleColumn(field)}
+                                            accessibilityRole="button"
+                                            accessibilityLabel={`${CSV_FIELD_LABELS[field]} column`}
+                                        >
+                                            <Text style={homeStyles.sheetOptionText}>{CSV_FIELD_LABELS[field]}</Text>
+                                            <Text style={homeStyles.dueChipText}>
+                                                {column === null ? "Not imported" : csvHeader[column] || `Column ${column + 1}`}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                                <Text style={homeStyles.sheetHint}>Tap a field to use the next column for it.</Text>
+                            </View>
+                        )}
+
+                        {preview.error ? (
+                            <Text style={homeStyles.importRowError}>{preview.error}</Text>
+                        ) : preview.rows.length > 0 && (
+                            <>
+                                <Text style={homeStyles.editorLabel}>Preview</Text>
+                                <ScrollView style={homeStyles.importPreview} nestedScrollEnabled>
+                                    {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                                        <View key={row.line} style={homeStyles.importRow}>
+                                            <Ionicons
+                                                name={row.error ? "alert-circle" : row.row.isCompleted ? "checkmark-circle" : "ellipse-outline"}
+                                                size={18}
+                                                color={row.error ? colors.danger : colors.success}
+                                            />
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={homeStyles.importRowText} numberOfLines={2}>
+                                                    {row.row.text.trim() || "(empty)"}
+                                                </Text>
+                                                {row.error && (
+                                                    <Text style={homeStyles.importRowError}>Line {row.line}: {row.error}</Text>
+                                                )}
+                                            </View>
+                                        </View>
+                                    ))}
+                                </ScrollView>
+                                <Text style={homeStyles.sheetHint}>
+                                    {validRows.length} ready to import
+                                    {invalidCount > 0 ? ` · ${invalidCount} will be skipped` : ""}
+                                    {preview.rows.length > PREVIEW_LIMIT ? ` · showing the first ${PREVIEW_LIMIT}` : ""}
+                                    {!isOnline ? " · importing needs a connection" : ""}
+                                </Text>
+                            </>
+                        )}
+
+                        <View style={homeStyles.editButtons}>
+                            <TouchableOpacity onPress={handleImport} activeOpacity={0.8} disabled={!canImport}>
+                                <LinearGradient
+                                    colors={canImport ? colors.gradients.success : colors.gradients.muted}
+                                    style={homeStyles.editButton}
+                                >
+                                    <Ionicons name="download-outline" size={16} color="#fff" />
+                                    <Text style={homeStyles.editButtonText}>
+                                        {isImporting ? "Importing…" : `Import ${validRows.length}`}
+                                    </Text>
+                                </LinearGradient>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity onPress={onClose} activeOpacity={0.8}>
+                                <LinearGradient colors={colors.gradients.muted} style={homeStyles.editButton}>
+                                    <Ionicons name="close" size={16} color="#fff" />
+                                    <Text style={homeStyles.editButtonText}>Cancel</Text>
+                                </LinearGradient>
+                            </TouchableOpacity>
+                        </View>
+                    </ScrollView>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+export default ImportSheet;
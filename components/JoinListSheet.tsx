@@ -0,0 +1,99 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface JoinListSheetProps {
+    onJoined: (listId: Id<"lists">) => void;
+    onClose: () => void;
+}
+
+/**
+ * JoinListSheet Component
+ * Bottom sheet for joining someone else's list with the invite code they shared
+ * Callers mount it only while open
+ */
+const JoinListSheet = ({ onJoined, onClose }: JoinListSheetProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [code, setCode] = useState("");
+    const [isJoining, setIsJoining] = useState(false);
+
+    const joinList = useMutation(api.sharing.joinList);
+
+    /**
+     * Join the list and switch to it
+     */
+    const handleJoin = async () => {
+        if (!code.trim()) {
+            Alert.alert("Invalid Input", "Please enter an invite code.");
+            return;
+        }
+
+        setIsJoining(true);
+        try {
+            const result = await joinList({ code });
+            onJoined(result.listId);
+            onClose();
+        } catch (error) {
+            console.error("Error joining list:", error);
+            if (error instanceof Error && error.message.includes('not found')) {
+                Alert.alert("Code Not Found", "Check the code, or ask the list owner for a new one.");
+            } else {
+                Alert.alert("Error", "Failed to join list. Please try again.");
+            }
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <View style={homeStyles.pickerBackdrop}>
+                <View style={homeStyles.pickerSheet}>
+                    <Text style={homeStyles.sheetTitle}>Join a Shared List</Text>
+
+                    <TextInput
+                        style={homeStyles.editorInput}
+                        value={code}
+                        onChangeText={setCode}
+                        placeholder="Invite code, e.g. ABCDE-FGHJK"
+                        placeholderTextColor={colors.textMuted}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        maxLength={20}
+                        onSubmitEditing={handleJoin}
+                        autoFocus
+                    />
+
+                    <View style={homeStyles.editButtons}>
+                        <TouchableOpacity onPress={handleJoin} activeOpacity={0.8} disabled={isJoining}>
+                            <LinearGradient colors={colors.gradients.success} style={homeStyles.editButton}>
+                                <Ionicons name="enter-outline" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Join</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity onPress={onClose} activeOpacity={0.8}>
+                            <LinearGradient colors={colors.gradients.muted} style={homeStyles.editButton}>
+                                <Ionicons name="close" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Cancel</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+export default JoinListSheet;
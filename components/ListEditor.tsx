@@ -0,0 +1,138 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Doc } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, LIST_COLORS, LIST_ICONS, toListIcon } from '@/utils/lists';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface ListEditorProps {
+    visible: boolean;
+    list?: Doc<"lists">;   // Existing list to edit; omitted when creating a new one
+    onClose: () => void;
+}
+
+/**
+ * ListEditor Component
+ * Bottom sheet for creating a new list or renaming/restyling an existing one
+ * Form state is seeded from the list on mount, so callers mount it only while open
+ */
+const ListEditor = ({ visible, list, onClose }: ListEditorProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [name, setName] = useState(list?.name ?? "");
+    const [color, setColor] = useState(list?.color ?? DEFAULT_LIST_COLOR);
+    const [icon, setIcon] = useState<string>(list?.icon ?? DEFAULT_LIST_ICON);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const addList = useMutation(api.lists.addList);
+    const updateList = useMutation(api.lists.updateList);
+
+    /**
+     * Save the list, creating it or updating the existing one
+     */
+    const handleSave = async () => {
+        if (!name.trim()) {
+            Alert.alert("Invalid Input", "Please enter a list name.");
+            return;
+        }
+
+        if (!isAuthenticated) {
+            Alert.alert("Not Signed In", "Please sign in before editing lists.");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (list) {
+                await updateList({ id: list._id, name: name.trim(), color, icon });
+            } else {
+                await addList({ name: name.trim(), color, icon });
+            }
+            onClose();
+        } catch (error) {
+            console.error("Error saving list:", error);
+            Alert.alert("Error", "Failed to save list. Please try again.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <View style={homeStyles.pickerBackdrop}>
+                <View style={homeStyles.pickerSheet}>
+                    <Text style={homeStyles.sheetTitle}>{list ? "Edit List" : "New List"}</Text>
+
+                    <TextInput
+                        style={homeStyles.editorInput}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="List name"
+                        placeholderTextColor={colors.textMuted}
+                        maxLength={40}
+                        autoFocus
+                    />
+
+                    <Text style={homeStyles.editorLabel}>Color</Text>
+                    <View style={homeStyles.swatchRow}>
+                        {LIST_COLORS.map((swatch) => (
+                            <TouchableOpacity
+                                key={swatch}
+                                style={[homeStyles.swatch, { backgroundColor: swatch }]}
+                                onPress={() => setColor(swatch)}
+                                accessibilityLabel={`Color ${swatch}`}
+                                accessibilityState={{ selected: swatch === color }}
+                            >
+                                {swatch === color && <Ionicons name="checkmark" size={18} color="#fff" />}
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <Text style={homeStyles.editorLabel}>Icon</Text>
+                    <View style={homeStyles.swatchRow}>
+                        {LIST_ICONS.map((option) => (
+                            <TouchableOpacity
+                                key={option}
+                                style={[homeStyles.iconOption, option === icon && { borderColor: color, borderWidth: 2 }]}
+                                onPress={() => setIcon(option)}
+                                accessibilityLabel={`Icon ${option}`}
+                                accessibilityState={{ selected: option === icon }}
+                            >
+                                <Ionicons name={option} size={20} color={option === icon ? color : colors.textMuted} />
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <View style={homeStyles.editButtons}>
+                        <TouchableOpacity onPress={handleSave} activeOpacity={0.8} disabled={isSaving}>
+                            <LinearGradient colors={colors.gradients.success} style={homeStyles.editButton}>
+                                <Ionicons name={toListIcon(icon)} size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Save</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity onPress={onClose} activeOpacity={0.8}>
+                            <LinearGradient colors={colors.gradients.muted} style={homeStyles.editButton}>
+                                <Ionicons name="close" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Cancel</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+export default ListEditor;
@@ -0,0 +1,98 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { toListIcon } from '@/utils/lists';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useQuery } from 'convex/react';
+import { useState } from 'react';
+import { Modal, Text, TouchableOpacity, View } from 'react-native';
+
+interface ListPickerProps {
+    listId?: Id<"lists">;
+    onChange: (listId?: Id<"lists">) => void;
+    disabled?: boolean;
+}
+
+/**
+ * ListPicker Component
+ * Chip that opens a sheet for moving a todo into another list, or out of any list
+ * Lists shared with the user as a viewer are left out, since todos can't be added to them
+ */
+const ListPicker = ({ listId, onChange, disabled }: ListPickerProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const lists = useQuery(api.lists.getLists, isAuthenticated ? {} : "skip");
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+    // Nothing to pick from until the user has lists
+    if (!lists || lists.length === 0) return null;
+
+    const selectedList = lists.find((list) => list._id === listId);
+    const editableLists = lists.filter((list) => list.role !== "viewer");
+
+    /**
+     * Select a list and close the sheet
+     */
+    const selectList = (value?: Id<"lists">) => {
+        onChange(value);
+        setIsMenuOpen(false);
+    };
+
+    return (
+        <>
+            <TouchableOpacity
+                style={[homeStyles.dueChip, selectedList && { borderColor: selectedList.color }]}
+                onPress={() => setIsMenuOpen(true)}
+                activeOpacity={0.7}
+                disabled={disabled}
+                accessibilityLabel={selectedList ? `In list ${selectedList.name}, change list` : "Move to a list"}
+            >
+                <Ionicons
+                    name={selectedList ? toListIcon(selectedList.icon) : "folder-outline"}
+                    size={14}
+                    color={selectedList?.color ?? colors.textMuted}
+                />
+                <Text style={[homeStyles.dueChipText, selectedList && { color: selectedList.color }]}>
+                    {selectedList?.name ?? "List"}
+                </Text>
+            </TouchableOpacity>
+
+            <Modal visible={isMenuOpen} transparent animationType="slide" onRequestClose={() => setIsMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <Text style={homeStyles.sheetTitle}>List</Text>
+
+                        <TouchableOpacity style={homeStyles.sheetOption} onPress={() => selectList(undefined)}>
+                            <Text style={homeStyles.sheetOptionText}>No list</Text>
+                            {!selectedList && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                        </TouchableOpacity>
+
+                        {editableLists.map((list) => (
+                            <TouchableOpacity key={list._id} style={homeStyles.sheetOption} onPress={() => selectList(list._id)}>
+                                <View style={homeStyles.todoMetaItem}>
+                                    <Ionicons name={toListIcon(list.icon)} size={16} color={list.color} />
+                                    <Text style={homeStyles.sheetOptionText}>{list.name}</Text>
+                                </View>
+                                {list._id === listId && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                            </TouchableOpacity>
+                        ))}
+
+                        <TouchableOpacity onPress={() => setIsMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                            <Text style={homeStyles.pickerDoneText}>Close</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+};
+
+export default ListPicker;
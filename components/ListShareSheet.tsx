@@ -0,0 +1,188 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { formatInviteCode, LIST_ROLE_LABELS, ListMemberRole } from '@/utils/lists';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Alert, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+interface ListShareSheetProps {
+    listId: Id<"lists">;
+    listName: string;
+    onClose: () => void;
+    onLeft: () => void;     // Called after the user leaves the list
+}
+
+const INVITE_ROLES: ListMemberRole[] = ["editor", "viewer"];
+
+/**
+ * ListShareSheet Component
+ * Bottom sheet showing who a list is shared with
+ * The owner hands out invite codes per role, changes roles and removes people;
+ * everyone else can see the members and leave the list
+ * Callers mount it only while open
+ */
+const ListShareSheet = ({ listId, listName, onClose, onLeft }: ListShareSheetProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const sharing = useQuery(api.sharing.getListMembers, { listId });
+    const createInvite = useMutation(api.sharing.createListInvite);
+    const revokeInvite = useMutation(api.sharing.revokeListInvite);
+    const updateRole = useMutation(api.sharing.updateListMemberRole);
+    const removeMember = useMutation(api.sharing.removeListMember);
+
+    const isOwner = sharing?.role === "owner";
+
+    /**
+     * Run a sharing change, reporting failures the same way for every action
+     */
+    const run = async (action: () => Promise<unknown>, failure: string) => {
+        try {
+            await action();
+        } catch (error) {
+            console.error("Error updating list sharing:", error);
+            Alert.alert("Error", failure);
+        }
+    };
+
+    /**
+     * Owner options for one member: switch role or remove them
+     */
+    const handleMemberOptions = (member: { userId: Id<"users">; name: string; role: ListMemberRole }) => {
+        const otherRole: ListMemberRole = member.role === "editor" ? "viewer" : "editor";
+        Alert.alert(member.name, LIST_ROLE_LABELS[member.role], [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: otherRole === "editor" ? "Allow Editing" : "Make View-Only",
+                onPress: () => run(() => updateRole({ listId, userId: member.userId, role: otherRole }), "Failed to change role. Please try again."),
+            },
+            {
+                text: "Remove",
+                style: "destructive",
+                onPress: () => run(() => removeMember({ listId, userId: member.userId }), "Failed to remove member. Please try again."),
+            },
+        ]);
+    };
+
+    /**
+     * Options for an existing invite code: replace it or turn it off
+     */
+    const handleInviteOptions = (role: ListMemberRole) => {
+        Alert.alert("Invite Code", "A new code stops the old one from working. People who already joined stay.", [
+            { text: "Cancel", style: "cancel" },
+            { text: "New Code", onPress: () => run(() => createInvite({ listId, role }), "Failed to create invite. Please try again.") },
+            { text: "Turn Off", style: "destructive", onPress: () => run(() => revokeInvite({ listId, role }), "Failed to revoke invite. Please try again.") },
+        ]);
+    };
+
+    /**
+     * Leave a list shared with the user, after confirming
+     */
+    const handleLeave = (userId: Id<"users">) => {
+        Alert.alert("Leave List", `You'll lose access to "${listName}" and its todos.`, [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Leave",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await removeMember({ listId, userId });
+                        onLeft();
+                    } catch (error) {
+                        console.error("Error leaving list:", error);
+                        Alert.alert("Error", "Failed to leave list. Please try again.");
+                    }
+                },
+            },
+        ]);
+    };
+
+    const currentMember = sharing?.members.find((member) => member.isCurrentUser);
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <View style={homeStyles.pickerBackdrop}>
+                <View style={homeStyles.pickerSheet}>
+                    <Text style={homeStyles.sheetTitle}>Share &quot;{listName}&quot;</Text>
+
+                    <ScrollView>
+                        <Text style={homeStyles.editorLabel}>People</Text>
+                        {sharing?.members.map((member) => {
+                            const memberRole = member.role;
+                            const canManage = isOwner && memberRole !== "owner";
+                            return (
+                                <TouchableOpacity
+                                    key={member.userId}
+                                    style={homeStyles.sheetOption}
+                                    onPress={canManage ? () => handleMemberOptions({ ...member, role: memberRole }) : undefined}
+                                    disabled={!canManage}
+                                    accessibilityHint={canManage ? "Change role or remove" : undefined}
+                                >
+                                    <View style={homeStyles.todoMetaItem}>
+                                        <Ionicons name={memberRole === "owner" ? "person-circle" : "person-circle-outline"} size={20} color={colors.textMuted} />
+                                        <Text style={homeStyles.sheetOptionText}>
+                                            {member.name}{member.isCurrentUser ? " (you)" : ""}
+                                        </Text>
+                                    </View>
+                                    <Text style={homeStyles.todoMetaText}>{LIST_ROLE_LABELS[memberRole]}</Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+
+                        {isOwner && (
+                            <>
+                                <Text style={homeStyles.editorLabel}>Invite codes</Text>
+                                {INVITE_ROLES.map((role) => {
+                                    const invite = sharing.invites.find((candidate) => candidate.role === role);
+                                    return (
+                                        <TouchableOpacity
+                                            key={role}
+                                            style={homeStyles.sheetOption}
+                                            onPress={() => invite
+                                                ? handleInviteOptions(role)
+                                                : run(() => createInvite({ listId, role }), "Failed to create invite. Please try again.")}
+                                        >
+                                            <Text style={homeStyles.sheetOptionText}>{LIST_ROLE_LABELS[role]}</Text>
+                                            {invite
+                                                ? <Text style={[homeStyles.sheetOptionText, { color: colors.primary }]} selectable>{formatInviteCode(invite.code)}</Text>
+                                                : <Text style={homeStyles.todoMetaText}>Create code</Text>}
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                                <Text style={homeStyles.sheetHint}>
+                                    Others join by tapping &quot;Join&quot; in their list bar and entering a code.
+                                </Text>
+                            </>
+                        )}
+                    </ScrollView>
+
+                    <View style={[homeStyles.editButtons, { marginTop: 16 }]}>
+                        {currentMember && currentMember.role !== "owner" && (
+                            <TouchableOpacity onPress={() => handleLeave(currentMember.userId)} activeOpacity={0.8}>
+                                <LinearGradient colors={colors.gradients.danger} style={homeStyles.editButton}>
+                                    <Ionicons name="exit-outline" size={16} color="#fff" />
+                                    <Text style={homeStyles.editButtonText}>Leave</Text>
+                                </LinearGradient>
+                            </TouchableOpacity>
+                        )}
+
+                        <TouchableOpacity onPress={onClose} activeOpacity={0.8}>
+                            <LinearGradient colors={colors.gradients.muted} style={homeStyles.editButton}>
+                                <Ionicons name="close" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Close</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+export default ListShareSheet;
@@ -0,0 +1,197 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import JoinListSheet from '@/components/JoinListSheet';
+import ListEditor from '@/components/ListEditor';
+import ListShareSheet from '@/components/ListShareSheet';
+import { api } from '@/convex/_generated/api';
+import { Doc, Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { ListRole, toListIcon } from '@/utils/lists';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { useEffect, useState } from 'react';
+import { Alert, ScrollView, Text, TouchableOpacity } from 'react-native';
+
+interface ListSwitcherProps {
+    selectedListId?: Id<"lists">;              // Undefined means "All"
+    onSelect: (listId?: Id<"lists">) => void;
+    manageable?: boolean;                      // Show create/edit/delete controls
+    flush?: boolean;                           // Drop the horizontal inset when nested in a padded card
+}
+
+// A list as getLists returns it, with the user's role and how many people share it
+type SwitcherList = Doc<"lists"> & { role: ListRole; memberCount: number };
+
+/**
+ * ListSwitcher Component
+ * Horizontal row of list chips for scoping the todo list or statistics
+ * When manageable, a "+" chip creates lists, a "Join" chip joins a shared list with an invite code,
+ * and long-pressing a list edits, shares or deletes it (or shows its members and leaves it when shared with the user)
+ */
+const ListSwitcher = ({ selectedListId, onSelect, manageable, flush }: ListSwitcherProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const lists = useQuery(api.lists.getLists, isAuthenticated ? {} : "skip");
+    const deleteList = useMutation(api.lists.deleteList);
+
+    // Fall back to "All" when the selected list is deleted, e.g. from another screen
+    useEffect(() => {
+        if (lists && selectedListId && !lists.some((list) => list._id === selectedListId)) {
+            onSelect(undefined);
+        }
+    }, [lists, selectedListId, onSelect]);
+
+    // List editor state - "new" creates a list, a document edits it
+    const [editorTarget, setEditorTarget] = useState<Doc<"lists"> | "new" | null>(null);
+
+    // Sharing sheets - the list whose members are showing, and whether the join sheet is open
+    const [shareTarget, setShareTarget] = useState<SwitcherList | null>(null);
+    const [isJoining, setIsJoining] = useState(false);
+
+    /**
+     * Delete a list after asking what should happen to its todos
+     */
+    const handleDeleteList = (list: Doc<"lists">) => {
+        if (!isAuthenticated) return;
+
+        const runDelete = async (todoAction: "move" | "delete") => {
+            try {
+                await deleteList({ id: list._id, todoAction });
+                if (selectedListId === list._id) {
+                    onSelect(undefined);
+                }
+            } catch (error) {
+                console.error("Error deleting list:", error);
+                Alert.alert("Error", "Failed to delete list. Please try again.");
+            }
+        };
+
+        Alert.alert(
+            "Delete List",
+            `What should happen to the todos in "${list.name}"?`,
+            [
+                { text: "Cancel", style: "cancel" },
+                { text: "Keep Todos", onPress: () => runDelete("move") },
+                { text: "Delete Todos", style: "destructive", onPress: () => runDelete("delete") },
+            ]
+        );
+    };
+
+    /**
+     * Show management options for a list
+     */
+    const handleListOptions = (list: SwitcherList) => {
+        if (list.role !== "owner") {
+            Alert.alert(list.name, "Shared with you", [
+                { text: "Cancel", style: "cancel" },
+                { text: "Members", onPress: () => setShareTarget(list) },
+            ]);
+            return;
+        }
+
+        Alert.alert(list.name, undefined, [
+            { text: "Cancel", style: "cancel" },
+            { text: "Edit", onPress: () => setEditorTarget(list) },
+            { text: "Share", onPress: () => setShareTarget(list) },
+            { text: "Delete", style: "destructive", onPress: () => handleDeleteList(list) },
+        ]);
+    };
+
+    const renderChip = (key: string, label: string, icon: ReturnType<typeof toListIcon>, color: string, isActive: boolean, onPress: () => void, onLongPress?: () => void, isShared?: boolean) => (
+        <TouchableOpacity
+            key={key}
+            style={[homeStyles.listChip, isActive && { backgroundColor: color, borderColor: color }]}
+            onPress={onPress}
+            onLongPress={onLongPress}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isActive }}
+            accessibilityHint={onLongPress ? "Long press to manage this list" : undefined}
+        >
+            <Ionicons name={icon} size={14} color={isActive ? "#fff" : color} />
+            <Text style={[homeStyles.listChipText, isActive && homeStyles.listChipTextActive]}>{label}</Text>
+            {isShared && <Ionicons name="people" size={12} color={isActive ? "#fff" : colors.textMuted} accessibilityLabel="Shared" />}
+        </TouchableOpacity>
+    );
+
+    return (
+        <>
+            <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={homeStyles.listSwitcher}
+                contentContainerStyle={[homeStyles.listSwitcherContent, flush && { paddingHorizontal: 0 }]}
+            >
+                {renderChip("all", "All", "albums", colors.primary, !selectedListId, () => onSelect(undefined))}
+
+                {lists?.map((list) =>
+                    renderChip(
+                        list._id,
+                        list.name,
+                        toListIcon(list.icon),
+                        list.color,
+                        selectedListId === list._id,
+                        () => onSelect(list._id),
+                        manageable ? () => handleListOptions(list) : undefined,
+                        list.memberCount > 1,
+                    )
+                )}
+
+                {manageable && (
+                    <TouchableOpacity
+                        style={homeStyles.listChip}
+                        onPress={() => setEditorTarget("new")}
+                        activeOpacity={0.7}
+                        accessibilityLabel="Create list"
+                    >
+                        <Ionicons name="add" size={16} color={colors.textMuted} />
+                    </TouchableOpacity>
+                )}
+
+                {manageable && (
+                    <TouchableOpacity
+                        style={homeStyles.listChip}
+                        onPress={() => setIsJoining(true)}
+                        activeOpacity={0.7}
+                        accessibilityLabel="Join a shared list"
+                    >
+                        <Ionicons name="enter-outline" size={16} color={colors.textMuted} />
+                        <Text style={homeStyles.listChipText}>Join</Text>
+                    </TouchableOpacity>
+                )}
+            </ScrollView>
+
+            {manageable && editorTarget !== null && (
+                <ListEditor
+                    visible
+                    list={editorTarget === "new" ? undefined : editorTarget}
+                    onClose={() => setEditorTarget(null)}
+                />
+            )}
+
+            {manageable && shareTarget !== null && (
+                <ListShareSheet
+                    listId={shareTarget._id}
+                    listName={shareTarget.name}
+                    onClose={() => setShareTarget(null)}
+                    onLeft={() => {
+                        if (selectedListId === shareTarget._id) onSelect(undefined);
+                        setShareTarget(null);
+                    }}
+                />
+            )}
+
+            {manageable && isJoining && (
+                <JoinListSheet onJoined={onSelect} onClose={() => setIsJoining(false)} />
+            )}
+        </>
+    );
+};
+
+export default ListSwitcher;
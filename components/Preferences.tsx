@@ -1,9 +1,11 @@
 import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import usePreferences from '@/hooks/usePreferences';
 import useTheme from '@/hooks/useTheme';
+import { notificationScheduler } from '@/utils/notificationScheduler';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useState } from 'react';
-import { Switch, Text, View } from 'react-native';
+import { Alert, Switch, Text, TouchableOpacity, View } from 'react-native';
 
 /**
  * Preferences Component
@@ -13,10 +15,11 @@ import { Switch, Text, View } from 'react-native';
  */
 const Preferences = () => {
 
-    // Local state management for preference toggles
-    // These would typically be connected to AsyncStorage for persistence
-    const [isAutoSync, setIsAutoSync] = useState(true);
-    const [isNotificationsEnabled, setIsNotificationsEnabled] = useState(true); 
+    // Persisted preferences - reminders on or off, where new todos go, and whether offline changes upload on their own
+    const { notificationsEnabled, setNotificationsEnabled, newTodoPosition, setNewTodoPosition, autoSync, setAutoSync } = usePreferences();
+
+    // Changes waiting in the offline outbox, sent from here when Auto Sync is off
+    const { outbox, isOnline, isSyncing, syncNow } = useOfflineSync();
 
     // Get theme context including current mode and toggle function
     const { colors, isDarkMode, toggleDarkMode } = useTheme();
@@ -24,6 +27,24 @@ const Preferences = () => {
     // Create theme-aware styles for settings components
     const settingsStyles = createSettingsStyles(colors);
 
+    /**
+     * Toggle reminder notifications
+     * Asks for notification permission before resuming reminders
+     */
+    const handleToggleNotifications = async (enabled: boolean) => {
+        if (enabled) {
+            const granted = await notificationScheduler.requestPermission();
+            if (!granted) {
+                Alert.alert(
+                    "Notifications Disabled",
+                    "Allow notifications for this app in your device settings to receive todo reminders."
+                );
+                return;
+            }
+        }
+        await setNotificationsEnabled(enabled);
+    };
+
     return (
         <LinearGradient colors={colors.gradients.surface} style={settingsStyles.section}>
             <Text style={settingsStyles.title}>Preferences</Text>
@@ -54,14 +75,31 @@ const Preferences = () => {
                 </View>
                 
                 <Switch
-                    value={isNotificationsEnabled}  
-                    onValueChange={() => setIsNotificationsEnabled(!isNotificationsEnabled)}  
+                    value={notificationsEnabled}  
+                    onValueChange={handleToggleNotifications}  
                     thumbColor={"#fff"}
                     trackColor={{ false: colors.border, true: colors.warning }} 
                     ios_backgroundColor={colors.border}
                 />
             </View>
 
+            <View style={settingsStyles.settingItem}>
+                <View style={settingsStyles.settingLeft}>
+                    <LinearGradient colors={colors.gradients.primary} style={settingsStyles.settingIcon}>
+                        <Ionicons name="arrow-up" size={18} color="#fff" />
+                    </LinearGradient>
+                    <Text style={settingsStyles.settingText}>New Todos on Top</Text>
+                </View>
+
+                <Switch
+                    value={newTodoPosition === "top"}
+                    onValueChange={(onTop) => setNewTodoPosition(onTop ? "top" : "bottom")}
+                    thumbColor={"#fff"}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    ios_backgroundColor={colors.border}
+                />
+            </View>
+
             <View style={settingsStyles.settingItem}>
                 <View style={settingsStyles.settingLeft}>
                     <LinearGradient colors={colors.gradients.success} style={settingsStyles.settingIcon}>
@@ -71,14 +109,36 @@ const Preferences = () => {
                 </View>
                 
                 <Switch
-                    value={isAutoSync}           
-                    onValueChange={() => setIsAutoSync(!isAutoSync)}  
+                    value={autoSync}
+                    onValueChange={setAutoSync}
                     thumbColor={"#fff"}
                     trackColor={{ false: colors.border, true: colors.success }}  
                     ios_backgroundColor={colors.border}
                 />
             </View>
 
+            {outbox.length > 0 && (
+                <TouchableOpacity
+                    style={[settingsStyles.actionButton, { borderBottomWidth: 0 }, isSyncing && settingsStyles.actionButtonDisabled]}
+                    onPress={syncNow}
+                    activeOpacity={0.7}
+                    disabled={isSyncing}
+                >
+                    <View style={settingsStyles.actionLeft}>
+                        <LinearGradient colors={colors.gradients.warning} style={settingsStyles.actionIcon}>
+                            <Ionicons name="cloud-upload" size={18} color="#fff" />
+                        </LinearGradient>
+                        <View style={settingsStyles.actionTextContainer}>
+                            <Text style={settingsStyles.actionText}>{isSyncing ? "Syncing..." : "Sync Now"}</Text>
+                            <Text style={settingsStyles.actionSubtext}>
+                                {outbox.length} change{outbox.length === 1 ? "" : "s"} waiting{isOnline ? "" : " · offline"}
+                            </Text>
+                        </View>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
+
         </LinearGradient>
     );
 };
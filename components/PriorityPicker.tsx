@@ -0,0 +1,76 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { getPriorityColor, Priority, PRIORITY_LABELS, PRIORITY_OPTIONS } from '@/utils/priority';
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { Modal, Text, TouchableOpacity, View } from 'react-native';
+
+interface PriorityPickerProps {
+    priority?: Priority;
+    onChange: (priority: Priority) => void;
+    disabled?: boolean;
+}
+
+/**
+ * PriorityPicker Component
+ * Chip that opens a sheet for choosing a todo's priority level
+ */
+const PriorityPicker = ({ priority = "none", onChange, disabled }: PriorityPickerProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+
+    const markerColor = getPriorityColor(priority, colors);
+
+    return (
+        <>
+            <TouchableOpacity
+                style={[homeStyles.dueChip, markerColor && { borderColor: markerColor }]}
+                onPress={() => setIsMenuOpen(true)}
+                activeOpacity={0.7}
+                disabled={disabled}
+                accessibilityLabel={`${PRIORITY_LABELS[priority]}, change priority`}
+            >
+                <Ionicons name="flag" size={14} color={markerColor ?? colors.textMuted} />
+                <Text style={[homeStyles.dueChipText, markerColor && { color: markerColor }]}>
+                    {priority === "none" ? "Priority" : PRIORITY_LABELS[priority]}
+                </Text>
+            </TouchableOpacity>
+
+            <Modal visible={isMenuOpen} transparent animationType="slide" onRequestClose={() => setIsMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <Text style={homeStyles.sheetTitle}>Priority</Text>
+
+                        {PRIORITY_OPTIONS.map((option) => (
+                            <TouchableOpacity
+                                key={option}
+                                style={homeStyles.sheetOption}
+                                onPress={() => {
+                                    onChange(option);
+                                    setIsMenuOpen(false);
+                                }}
+                            >
+                                <View style={homeStyles.todoMetaItem}>
+                                    <View style={[homeStyles.priorityDot, { backgroundColor: getPriorityColor(option, colors) ?? colors.border }]} />
+                                    <Text style={homeStyles.sheetOptionText}>{PRIORITY_LABELS[option]}</Text>
+                                </View>
+                                {option === priority && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                            </TouchableOpacity>
+                        ))}
+
+                        <TouchableOpacity onPress={() => setIsMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                            <Text style={homeStyles.pickerDoneText}>Close</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+};
+
+export default PriorityPicker;
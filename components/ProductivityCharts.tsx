@@ -0,0 +1,148 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import BarChart, { BarChartBar } from '@/components/BarChart';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { STATS_RANGES } from '@/convex/schema';
+import useTheme from '@/hooks/useTheme';
+import {
+    DEFAULT_STATS_RANGE,
+    formatChartDay,
+    formatDuration,
+    getUtcOffsetMinutes,
+    STATS_RANGE_LABELS,
+    StatsRange,
+    WEEKDAY_LABELS,
+    weekdayLabelOf,
+} from '@/utils/analytics';
+import { toDateKey } from '@/utils/dates';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ComponentProps, useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+
+interface ProductivityChartsProps {
+    listId?: Id<"lists">;    // Same list scope as the counters above; undefined means every list
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * ProductivityCharts Component
+ * Streaks, average completion time and completion charts under the Progress Stats counters
+ * Short ranges chart completions per day, longer ones per week; the weekday chart shows the busiest days
+ */
+const ProductivityCharts = ({ listId }: ProductivityChartsProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const settingStyles = createSettingsStyles(colors);
+
+    const [range, setRange] = useState<StatsRange>(DEFAULT_STATS_RANGE);
+
+    // Days are bucketed in the device's time zone
+    const today = toDateKey(new Date());
+    const stats = useQuery(
+        api.todos.getProductivityStats,
+        isAuthenticated ? { listId, range, today, utcOffsetMinutes: getUtcOffsetMinutes() } : "skip",
+    );
+
+    const isDaily = range === "week" || range === "month";
+
+    let seriesBars: BarChartBar[] = [];
+    if (stats && isDaily) {
+        seriesBars = stats.days.map((day, index) => ({
+            key: day.date,
+            value: day.completed,
+            label: range === "week"
+                ? weekdayLabelOf(day.date)
+                : (stats.days.length - 1 - index) % 7 === 0 ? formatChartDay(day.date) : undefined,
+            description: `${formatChartDay(day.date)}: ${day.completed} completed`,
+        }));
+    } else if (stats) {
+        const labelEvery = Math.ceil(stats.weeks.length / 4);
+        seriesBars = stats.weeks.map((week, index) => ({
+            key: week.weekStart,
+            value: week.completed,
+            label: (stats.weeks.length - 1 - index) % labelEvery === 0 ? formatChartDay(week.weekStart) : undefined,
+            description: `Week of ${formatChartDay(week.weekStart)}: ${week.completed} completed`,
+        }));
+    }
+
+    const weekdayBars: BarChartBar[] = (stats?.weekdays ?? []).map((count, index) => ({
+        key: WEEKDAY_LABELS[index],
+        value: count,
+        label: WEEKDAY_LABELS[index],
+        description: `${WEEKDAY_LABELS[index]}: ${count} completed`,
+    }));
+    const busiestCount = Math.max(0, ...(stats?.weekdays ?? []));
+    const busiestDays = busiestCount > 0
+        ? WEEKDAY_LABELS.filter((_, index) => stats?.weekdays[index] === busiestCount)
+        : [];
+
+    const renderMetric = (icon: ComponentProps<typeof Ionicons>["name"], gradient: [string, string], value: string, label: string) => (
+        <LinearGradient colors={colors.gradients.background} style={settingStyles.metricCard}>
+            <LinearGradient colors={gradient} style={settingStyles.statIcon}>
+                <Ionicons name={icon} size={18} color="#fff" />
+            </LinearGradient>
+            <Text style={settingStyles.metricValue}>{value}</Text>
+            <Text style={settingStyles.statLabel}>{label}</Text>
+        </LinearGradient>
+    );
+
+    return (
+        <View style={settingStyles.analyticsContainer}>
+            <View style={settingStyles.rangeRow}>
+                {STATS_RANGES.map((option) => (
+                    <TouchableOpacity
+                        key={option}
+                        onPress={() => setRange(option)}
+                        style={[settingStyles.rangeChip, option === range && settingStyles.rangeChipActive]}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: option === range }}
+                    >
+                        <Text style={[settingStyles.rangeChipText, option === range && settingStyles.rangeChipTextActive]}>
+                            {STATS_RANGE_LABELS[option]}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            <View style={settingStyles.metricRow}>
+                {renderMetric("flame", colors.gradients.warning, plural(stats?.streak.current ?? 0, "day"), "Current streak")}
+                {renderMetric("trophy", colors.gradients.success, plural(stats?.streak.longest ?? 0, "day"), "Longest streak")}
+            </View>
+            <View style={settingStyles.metricRow}>
+                {renderMetric("checkmark-done", colors.gradients.primary, String(stats?.completedInRange ?? 0), "Completed")}
+                {renderMetric(
+                    "hourglass",
+                    colors.gradients.muted,
+                    stats?.averageCompletionMs != null ? formatDuration(stats.averageCompletionMs) : "–",
+                    "Avg. time to done",
+                )}
+            </View>
+
+            <Text style={settingStyles.chartTitle}>Completions per {isDaily ? "day" : "week"}</Text>
+            <BarChart
+                bars={seriesBars}
+                gradient={colors.gradients.success}
+                showValues={range === "week"}
+                highlightKey={isDaily ? today : stats?.weeks[stats.weeks.length - 1]?.weekStart}
+            />
+
+            <Text style={settingStyles.chartTitle}>Busiest weekdays</Text>
+            <BarChart bars={weekdayBars} gradient={colors.gradients.warning} showValues />
+            <Text style={settingStyles.statPercentage}>
+                {busiestDays.length > 0
+                    ? `Most completions on ${busiestDays.join(", ")}`
+                    : `No completions in the last ${STATS_RANGE_LABELS[range].toLowerCase()}`}
+            </Text>
+        </View>
+    );
+};
+
+export default ProductivityCharts;
@@ -1,43 +1,52 @@
 import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import ListSwitcher from '@/components/ListSwitcher';
+import ProductivityCharts from '@/components/ProductivityCharts';
 import { api } from '@/convex/_generated/api';
-import useDeviceId from '@/hooks/useDeviceId';
+import { Id } from '@/convex/_generated/dataModel';
 import useTheme from '@/hooks/useTheme';
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery } from 'convex/react';
+import { useConvexAuth, useQuery } from 'convex/react';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
 import { Text, View } from 'react-native';
 
 /**
  * ProgressStats Component
- * Displays real-time productivity statistics and task completion metrics for the current device
+ * Displays real-time productivity statistics and task completion metrics for the signed-in user
  * Provides visual dashboard with animated cards showing todo progress
  * Helps users track their productivity and task completion patterns
- * All data is isolated per device for privacy and security
+ * All data is isolated per account for privacy and security
+ * Stats can be viewed overall or for a single list
+ * Streaks and completion charts for a selectable range follow the counters
  */
 const ProgressStats = () => {
     // Get current theme colors for consistent styling across light/dark modes
     const { colors } = useTheme();
     
-    // Get device ID for user-specific data isolation
-    const { deviceId } = useDeviceId();
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
     
     // Create theme-aware styles for settings components
     const settingStyles = createSettingsStyles(colors);
 
-    // Real-time query to fetch device-specific todos from database
-    // Always call the query, deviceId might be undefined initially but that's handled by the backend
-    // Automatically updates when todos are added, completed, or deleted for this specific device
-    const todos = useQuery(api.todos.getTodos, { deviceId: deviceId ?? undefined });
+    // Selected list scope - undefined means overall stats across every list
+    const [selectedListId, setSelectedListId] = useState<Id<"lists"> | undefined>();
+
+    // Real-time query to fetch the user's statistics from database
+    // Skipped until signed in, then scoped to the selected list
+    // Automatically updates when todos are added, completed, or deleted for this user
+    const stats = useQuery(api.todos.getUserStats, isAuthenticated ? { listId: selectedListId } : "skip");
     
-    // Calculate statistics with comprehensive null safety for loading states
-    const totalTodos = todos ? todos.length : 0;                                    
-    const completedTodos = todos ? todos.filter((todo) => todo.isCompleted).length : 0; 
-    const pendingTodos = totalTodos - completedTodos;                              
+    // Statistics with comprehensive null safety for loading states
+    const totalTodos = stats ? stats.total : 0;                                    
+    const completedTodos = stats ? stats.completed : 0; 
+    const pendingTodos = stats ? stats.pending : 0;                              
 
     
     return (
         <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
             <Text style={settingStyles.sectionTitle}>Progress Stats</Text>
+            <ListSwitcher selectedListId={selectedListId} onSelect={setSelectedListId} flush />
             <View style={settingStyles.statsContainer}>
                 <LinearGradient
                     colors={colors.gradients.background}    
@@ -87,6 +96,7 @@ const ProgressStats = () => {
                     </View>
                 </LinearGradient>
             </View>
+            <ProductivityCharts listId={selectedListId} />
         </LinearGradient>
     );
 };
@@ -0,0 +1,70 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { Doc } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { formatDueLabel } from '@/utils/dates';
+import { getPriorityColor, PRIORITY_LABELS } from '@/utils/priority';
+import { hasQuickAddFields, QuickAddResult } from '@/utils/quickAdd';
+import { formatRecurrenceLabel } from '@/utils/recurrence';
+import { Ionicons } from '@expo/vector-icons';
+import { Text, View } from 'react-native';
+
+interface QuickAddPreviewProps {
+    result: QuickAddResult;
+    tags: Doc<"tags">[];    // Known tags, so existing ones keep their color
+}
+
+/**
+ * QuickAddPreview Component
+ * Read-only chips for the fields the quick-add parser found in the input,
+ * shown before submitting so the user can see how the text will be understood
+ */
+const QuickAddPreview = ({ result, tags }: QuickAddPreviewProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    if (!hasQuickAddFields(result)) return null;
+
+    const priorityColor = getPriorityColor(result.priority, colors);
+
+    return (
+        <View style={homeStyles.dueRow} accessibilityLabel="Detected details">
+            {result.dueDate && (
+                <View style={[homeStyles.dueChip, homeStyles.dueChipActive]}>
+                    <Ionicons name="calendar-outline" size={14} color={colors.primary} />
+                    <Text style={[homeStyles.dueChipText, homeStyles.dueChipTextActive]}>
+                        {formatDueLabel(result.dueDate, result.dueTime)}
+                    </Text>
+                </View>
+            )}
+            {result.recurrence && (
+                <View style={[homeStyles.dueChip, homeStyles.dueChipActive]}>
+                    <Ionicons name="repeat" size={14} color={colors.primary} />
+                    <Text style={[homeStyles.dueChipText, homeStyles.dueChipTextActive]}>
+                        {formatRecurrenceLabel(result.recurrence)}
+                    </Text>
+                </View>
+            )}
+            {result.priority && priorityColor && (
+                <View style={[homeStyles.dueChip, { borderColor: priorityColor }]}>
+                    <Ionicons name="flag" size={14} color={priorityColor} />
+                    <Text style={[homeStyles.dueChipText, { color: priorityColor }]}>{PRIORITY_LABELS[result.priority]}</Text>
+                </View>
+            )}
+            {result.tagNames.map((name) => {
+                const tag = tags.find((candidate) => candidate.name === name);
+                return (
+                    <View key={name} style={[homeStyles.tagChip, { borderColor: tag?.color ?? colors.border }]}>
+                        <Text style={[homeStyles.tagChipText, { color: tag?.color ?? colors.textMuted }]}>
+                            #{name}{tag ? "" : " (new)"}
+                        </Text>
+                    </View>
+                );
+            })}
+        </View>
+    );
+};
+
+export default QuickAddPreview;
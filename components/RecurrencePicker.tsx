@@ -0,0 +1,232 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import {
+    formatRecurrence,
+    parseRecurrence,
+    RecurrenceRule,
+    Weekday,
+    weekdayName,
+    weekdayOf,
+    WEEKDAYS,
+} from '@/convex/lib/recurrence';
+import useTheme from '@/hooks/useTheme';
+import { formatRecurrenceLabel, getRecurrencePresets } from '@/utils/recurrence';
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface RecurrencePickerProps {
+    recurrence?: string;
+    dueDate?: string;    // Repeating todos are anchored to their due date
+    onChange: (recurrence?: string) => void;
+    disabled?: boolean;
+}
+
+type CustomUnit = "DAILY" | "WEEKLY" | "MONTHLY";
+
+const CUSTOM_UNITS: { value: CustomUnit; label: string }[] = [
+    { value: "DAILY", label: "Days" },
+    { value: "WEEKLY", label: "Weeks" },
+    { value: "MONTHLY", label: "Months" },
+];
+
+/**
+ * RecurrencePicker Component
+ * Chip that opens a sheet of repeat options: presets, an "every N days/weeks/months" builder
+ * and a raw RRULE field for anything else the backend understands
+ */
+const RecurrencePicker = ({ recurrence, dueDate, onChange, disabled }: RecurrencePickerProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [unit, setUnit] = useState<CustomUnit>("WEEKLY");
+    const [repeatInterval, setRepeatInterval] = useState(1);
+    const [days, setDays] = useState<Weekday[]>([]);
+    const [ruleText, setRuleText] = useState("");
+    const [ruleError, setRuleError] = useState<string | null>(null);
+
+    const presets = dueDate ? getRecurrencePresets(dueDate) : [];
+
+    /**
+     * Open the sheet with the builder seeded from the due date's weekday
+     */
+    const openMenu = () => {
+        setDays(dueDate ? [weekdayOf(dueDate)] : []);
+        setRuleText(recurrence ?? "");
+        setRuleError(null);
+        setIsMenuOpen(true);
+    };
+
+    /**
+     * Select a rule and close the sheet
+     */
+    const selectRule = (value?: string) => {
+        onChange(value);
+        setIsMenuOpen(false);
+    };
+
+    /**
+     * Toggle a weekday for the weekly builder, keeping at least one selected
+     */
+    const toggleDay = (day: Weekday) => {
+        setDays((current) => {
+            if (current.includes(day)) {
+                return current.length > 1 ? current.filter((value) => value !== day) : current;
+            }
+            return WEEKDAYS.filter((value) => value === day || current.includes(value));
+        });
+    };
+
+    /**
+     * Build an "every N units" rule from the builder controls
+     */
+    const applyCustomRule = () => {
+        if (!dueDate) return;
+
+        const rule: RecurrenceRule = { freq: unit, interval: repeatInterval };
+        if (unit === "WEEKLY" && days.length > 0) {
+            rule.byDay = days.map((weekday) => ({ weekday }));
+        }
+        if (unit === "MONTHLY") {
+            rule.byMonthDay = [Number(dueDate.slice(8, 10))];
+        }
+        selectRule(formatRecurrence(rule));
+    };
+
+    /**
+     * Apply a hand-written RRULE, normalized, or show why it was rejected
+     */
+    const applyRuleText = () => {
+        try {
+            selectRule(formatRecurrence(parseRecurrence(ruleText)));
+        } catch (error) {
+            setRuleError(error instanceof Error ? error.message : "Invalid rule");
+        }
+    };
+
+    return (
+        <>
+            <TouchableOpacity
+                style={[homeStyles.dueChip, recurrence && homeStyles.dueChipActive]}
+                onPress={openMenu}
+                activeOpacity={0.7}
+                disabled={disabled}
+                accessibilityLabel={recurrence ? `Repeats ${formatRecurrenceLabel(recurrence)}, change repeat` : "Set repeat"}
+            >
+                <Ionicons name="repeat" size={14} color={recurrence ? colors.primary : colors.textMuted} />
+                <Text style={[homeStyles.dueChipText, recurrence && homeStyles.dueChipTextActive]} numberOfLines={1}>
+                    {recurrence ? formatRecurrenceLabel(recurrence) : "Repeat"}
+                </Text>
+            </TouchableOpacity>
+
+            <Modal visible={isMenuOpen} transparent animationType="slide" onRequestClose={() => setIsMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <ScrollView keyboardShouldPersistTaps="handled">
+                            <Text style={homeStyles.sheetTitle}>Repeat</Text>
+
+                            <TouchableOpacity style={homeStyles.sheetOption} onPress={() => selectRule(undefined)}>
+                                <Text style={homeStyles.sheetOptionText}>Does not repeat</Text>
+                                {!recurrence && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                            </TouchableOpacity>
+
+                            {presets.map((preset) => (
+                                <TouchableOpacity key={preset.rule} style={homeStyles.sheetOption} onPress={() => selectRule(preset.rule)}>
+                                    <Text style={homeStyles.sheetOptionText}>{preset.label}</Text>
+                                    {recurrence === preset.rule && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                                </TouchableOpacity>
+                            ))}
+
+                            {dueDate ? (
+                                <>
+                                    <Text style={[homeStyles.editorLabel, homeStyles.repeatSectionLabel]}>Custom</Text>
+                                    <View style={homeStyles.repeatRow}>
+                                        <Text style={homeStyles.sheetOptionText}>Every</Text>
+                                        <TouchableOpacity
+                                            onPress={() => setRepeatInterval((value) => Math.max(1, value - 1))}
+                                            accessibilityLabel="Decrease interval"
+                                        >
+                                            <Ionicons name="remove-circle-outline" size={26} color={colors.primary} />
+                                        </TouchableOpacity>
+                                        <Text style={homeStyles.repeatInterval}>{repeatInterval}</Text>
+                                        <TouchableOpacity
+                                            onPress={() => setRepeatInterval((value) => Math.min(99, value + 1))}
+                                            accessibilityLabel="Increase interval"
+                                        >
+                                            <Ionicons name="add-circle-outline" size={26} color={colors.primary} />
+                                        </TouchableOpacity>
+                                        {CUSTOM_UNITS.map((option) => (
+                                            <TouchableOpacity
+                                                key={option.value}
+                                                style={[homeStyles.dueChip, unit === option.value && homeStyles.dueChipActive]}
+                                                onPress={() => setUnit(option.value)}
+                                            >
+                                                <Text style={[homeStyles.dueChipText, unit === option.value && homeStyles.dueChipTextActive]}>
+                                                    {option.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+
+                                    {unit === "WEEKLY" && (
+                                        <View style={homeStyles.repeatRow}>
+                                            {WEEKDAYS.map((day) => (
+                                                <TouchableOpacity
+                                                    key={day}
+                                                    style={[homeStyles.dueChip, days.includes(day) && homeStyles.dueChipActive]}
+                                                    onPress={() => toggleDay(day)}
+                                                    accessibilityLabel={`${weekdayName(day)}${days.includes(day) ? ", selected" : ""}`}
+                                                >
+                                                    <Text style={[homeStyles.dueChipText, days.includes(day) && homeStyles.dueChipTextActive]}>
+                                                        {weekdayName(day).slice(0, 2)}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </View>
+                                    )}
+
+                                    <TouchableOpacity onPress={applyCustomRule} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                                        <Text style={homeStyles.pickerDoneText}>Use custom repeat</Text>
+                                    </TouchableOpacity>
+
+                                    <Text style={[homeStyles.editorLabel, homeStyles.repeatSectionLabel]}>RRULE</Text>
+                                    <View style={homeStyles.sheetInputRow}>
+                                        <TextInput
+                                            style={[homeStyles.editorInput, { flex: 1, marginBottom: 0 }]}
+                                            value={ruleText}
+                                            onChangeText={(value) => {
+                                                setRuleText(value);
+                                                setRuleError(null);
+                                            }}
+                                            onSubmitEditing={applyRuleText}
+                                            placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+                                            placeholderTextColor={colors.textMuted}
+                                            autoCapitalize="characters"
+                                            autoCorrect={false}
+                                            returnKeyType="done"
+                                        />
+                                        <TouchableOpacity onPress={applyRuleText} disabled={!ruleText.trim()} accessibilityLabel="Apply rule">
+                                            <Ionicons name="checkmark-circle" size={36} color={ruleText.trim() ? colors.primary : colors.border} />
+                                        </TouchableOpacity>
+                                    </View>
+                                    {ruleError && <Text style={[homeStyles.sheetHint, { color: colors.danger }]}>{ruleError}</Text>}
+                                </>
+                            ) : (
+                                <Text style={homeStyles.sheetHint}>Set a due date to make this todo repeat</Text>
+                            )}
+
+                            <TouchableOpacity onPress={() => setIsMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                                <Text style={homeStyles.pickerDoneText}>Close</Text>
+                            </TouchableOpacity>
+                        </ScrollView>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+};
+
+export default RecurrencePicker;
@@ -0,0 +1,160 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { toTimeKey } from '@/utils/dates';
+import { formatReminderLabel, Reminder } from '@/utils/reminders';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { useState } from 'react';
+import { Modal, Platform, Text, TouchableOpacity, View } from 'react-native';
+
+interface ReminderPickerProps {
+    reminder?: Reminder;
+    hasDueDate: boolean;   // Relative reminders are only offered for todos with a due date
+    onChange: (reminder?: Reminder) => void;
+    disabled?: boolean;
+}
+
+// Preset offsets for "before due" reminders, in minutes
+const BEFORE_PRESETS = [0, 15, 30, 60, 24 * 60];
+
+/**
+ * ReminderPicker Component
+ * Chip that opens a sheet of reminder options: a time of day or an offset before the due time
+ */
+const ReminderPicker = ({ reminder, hasDueDate, onChange, disabled }: ReminderPickerProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [isTimePickerOpen, setIsTimePickerOpen] = useState(false);
+
+    // Default the time picker to the current reminder time, or 09:00
+    const timeValue = (() => {
+        const [hours, minutes] = (reminder?.type === "at" ? reminder.time : "09:00").split(":").map(Number);
+        const date = new Date();
+        date.setHours(hours, minutes, 0, 0);
+        return date;
+    })();
+
+    /**
+     * Select a reminder option and close the sheet
+     */
+    const selectReminder = (value?: Reminder) => {
+        onChange(value);
+        setIsMenuOpen(false);
+    };
+
+    /**
+     * Handle native time picker changes
+     * Android closes its dialog after every event, iOS keeps the sheet open until Done
+     */
+    const handleTimeChange = (event: DateTimePickerEvent, value?: Date) => {
+        if (Platform.OS === "android") {
+            setIsTimePickerOpen(false);
+        }
+        if (event.type === "set" && value) {
+            onChange({ type: "at", time: toTimeKey(value) });
+        }
+    };
+
+    const timePicker = isTimePickerOpen && (
+        <DateTimePicker
+            value={timeValue}
+            mode="time"
+            display={Platform.OS === "ios" ? "spinner" : "default"}
+            onChange={handleTimeChange}
+            themeVariant={colors.statusBarStyle === "light-content" ? "dark" : "light"}
+        />
+    );
+
+    return (
+        <>
+            <TouchableOpacity
+                style={[homeStyles.dueChip, reminder && homeStyles.dueChipActive]}
+                onPress={() => setIsMenuOpen(true)}
+                activeOpacity={0.7}
+                disabled={disabled}
+                accessibilityLabel={reminder ? `Reminder ${formatReminderLabel(reminder)}, change reminder` : "Add reminder"}
+            >
+                <Ionicons
+                    name={reminder ? "notifications" : "notifications-outline"}
+                    size={14}
+                    color={reminder ? colors.primary : colors.textMuted}
+                />
+                <Text style={[homeStyles.dueChipText, reminder && homeStyles.dueChipTextActive]}>
+                    {reminder ? formatReminderLabel(reminder) : "Remind"}
+                </Text>
+            </TouchableOpacity>
+
+            <Modal visible={isMenuOpen} transparent animationType="slide" onRequestClose={() => setIsMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <Text style={homeStyles.sheetTitle}>Reminder</Text>
+
+                        <TouchableOpacity style={homeStyles.sheetOption} onPress={() => selectReminder(undefined)}>
+                            <Text style={homeStyles.sheetOptionText}>No reminder</Text>
+                            {!reminder && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                        </TouchableOpacity>
+
+                        <TouchableOpacity
+                            style={homeStyles.sheetOption}
+                            onPress={() => {
+                                setIsMenuOpen(false);
+                                setIsTimePickerOpen(true);
+                            }}
+                        >
+                            <Text style={homeStyles.sheetOptionText}>
+                                {reminder?.type === "at" ? `At ${reminder.time}` : "At a time…"}
+                            </Text>
+                            {reminder?.type === "at" && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                        </TouchableOpacity>
+
+                        {BEFORE_PRESETS.map((minutes) => {
+                            const option: Reminder = { type: "before", minutes };
+                            const isSelected = reminder?.type === "before" && reminder.minutes === minutes;
+                            return (
+                                <TouchableOpacity
+                                    key={minutes}
+                                    style={[homeStyles.sheetOption, !hasDueDate && homeStyles.sheetOptionDisabled]}
+                                    onPress={() => selectReminder(option)}
+                                    disabled={!hasDueDate}
+                                >
+                                    <Text style={homeStyles.sheetOptionText}>{formatReminderLabel(option)}</Text>
+                                    {isSelected && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                                </TouchableOpacity>
+                            );
+                        })}
+
+                        {!hasDueDate && (
+                            <Text style={homeStyles.sheetHint}>Set a due date to remind relative to it</Text>
+                        )}
+
+                        <TouchableOpacity onPress={() => setIsMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                            <Text style={homeStyles.pickerDoneText}>Close</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+
+            {Platform.OS === "ios" ? (
+                <Modal visible={isTimePickerOpen} transparent animationType="slide" onRequestClose={() => setIsTimePickerOpen(false)}>
+                    <View style={homeStyles.pickerBackdrop}>
+                        <View style={homeStyles.pickerSheet}>
+                            {timePicker}
+                            <TouchableOpacity onPress={() => setIsTimePickerOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                                <Text style={homeStyles.pickerDoneText}>Done</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </Modal>
+            ) : (
+                timePicker
+            )}
+        </>
+    );
+};
+
+export default ReminderPicker;
@@ -0,0 +1,45 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { TextInput, TouchableOpacity, View } from 'react-native';
+
+interface SearchBarProps {
+    value: string;
+    onChange: (value: string) => void;
+}
+
+/**
+ * SearchBar Component
+ * Search field above the todo list with a clear button while text is entered
+ */
+const SearchBar = ({ value, onChange }: SearchBarProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    return (
+        <View style={homeStyles.searchBar}>
+            <Ionicons name="search" size={18} color={colors.textMuted} />
+            <TextInput
+                style={homeStyles.searchInput}
+                value={value}
+                onChangeText={onChange}
+                placeholder="Search todos..."
+                placeholderTextColor={colors.textMuted}
+                returnKeyType="search"
+                autoCapitalize="none"
+                autoCorrect={false}
+                accessibilityLabel="Search todos"
+            />
+            {value.length > 0 && (
+                <TouchableOpacity onPress={() => onChange("")} accessibilityLabel="Clear search">
+                    <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+};
+
+export default SearchBar;
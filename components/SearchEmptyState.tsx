@@ -0,0 +1,41 @@
+import { createHomeStyles } from "@/assets/styles/home.styles";
+import useTheme from "@/hooks/useTheme";
+import { Ionicons } from "@expo/vector-icons";
+import { LinearGradient } from "expo-linear-gradient";
+import { Text, View } from "react-native";
+
+/**
+ * SearchEmptyState Component
+ * Shown instead of EmptyState when a search finds nothing,
+ * so an unmatched search is never mistaken for an empty todo list
+ */
+const SearchEmptyState = ({ query }: { query: string }) => {
+    // Get current theme colors for consistent styling across light/dark modes
+    const { colors } = useTheme();
+
+    // Create theme-aware styles for home screen components
+    const homeStyles = createHomeStyles(colors);
+
+    return (
+        <View style={homeStyles.emptyContainer}>
+            <LinearGradient 
+                colors={colors.gradients.empty} 
+                style={homeStyles.emptyIconContainer}
+            >
+                <Ionicons 
+                    name="search-outline" 
+                    size={60} 
+                    color={colors.textMuted} 
+                />
+            </LinearGradient>
+
+            <Text style={homeStyles.emptyText}>No matches</Text>
+
+            <Text style={homeStyles.emptySubtext}>
+                No todos match &ldquo;{query}&rdquo;. Try a shorter or different word.
+            </Text>
+        </View>
+    );
+};
+
+export default SearchEmptyState;
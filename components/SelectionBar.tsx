@@ -0,0 +1,156 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import ListPicker from '@/components/ListPicker';
+import TagChip from '@/components/TagChip';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ComponentProps, useState } from 'react';
+import { Modal, Text, TouchableOpacity, View } from 'react-native';
+
+interface SelectionBarProps {
+    selectedCount: number;
+    totalCount: number;                 // Todos currently shown, for "Select all"
+    onSelectAll: () => void;
+    onDeselectAll: () => void;
+    onCancel: () => void;               // Leave selection mode
+    onSetCompleted: (isCompleted: boolean) => void;
+    onDelete: () => void;
+    onMove: (listId?: Id<"lists">) => void;
+    onTag: (addTagIds: Id<"tags">[], removeTagIds: Id<"tags">[]) => void;
+    onCopy: () => void;                 // Copy the selection as todo.txt lines
+}
+
+/**
+ * SelectionBar Component
+ * Replaces the input and view bar while todos are selected on the home screen
+ * Offers select all and the bulk actions: complete, un-complete, move, tag, copy as todo.txt and delete
+ */
+const SelectionBar = ({
+    selectedCount,
+    totalCount,
+    onSelectAll,
+    onDeselectAll,
+    onCancel,
+    onSetCompleted,
+    onDelete,
+    onMove,
+    onTag,
+    onCopy,
+}: SelectionBarProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const tags = useQuery(api.tags.getTags, isAuthenticated ? {} : "skip");
+    const [isTagMenuOpen, setIsTagMenuOpen] = useState(false);
+    const [tagIds, setTagIds] = useState<Id<"tags">[]>([]);
+
+    const isAllSelected = totalCount > 0 && selectedCount >= totalCount;
+    const hasSelection = selectedCount > 0;
+
+    /**
+     * Apply the picked tags to the selection, adding or removing them
+     */
+    const applyTags = (mode: "add" | "remove") => {
+        if (mode === "add") onTag(tagIds, []);
+        else onTag([], tagIds);
+        setTagIds([]);
+        setIsTagMenuOpen(false);
+    };
+
+    const renderAction = (
+        icon: ComponentProps<typeof Ionicons>["name"],
+        label: string,
+        gradient: [string, string],
+        onPress: () => void,
+    ) => (
+        <TouchableOpacity onPress={onPress} activeOpacity={0.8} disabled={!hasSelection} accessibilityLabel={label}>
+            <LinearGradient colors={hasSelection ? gradient : colors.gradients.muted} style={homeStyles.actionButton}>
+                <Ionicons name={icon} size={16} color="#fff" />
+            </LinearGradient>
+        </TouchableOpacity>
+    );
+
+    return (
+        <View style={homeStyles.selectionBar}>
+            <View style={homeStyles.selectionHeader}>
+                <TouchableOpacity onPress={onCancel} accessibilityLabel="Cancel selection">
+                    <Ionicons name="close" size={22} color={colors.text} />
+                </TouchableOpacity>
+                <Text style={homeStyles.selectionTitle} accessibilityLiveRegion="polite">
+                    {selectedCount} selected
+                </Text>
+                <TouchableOpacity onPress={isAllSelected ? onDeselectAll : onSelectAll} disabled={totalCount === 0}>
+                    <Text style={homeStyles.selectionLink}>{isAllSelected ? "Deselect all" : "Select all"}</Text>
+                </TouchableOpacity>
+            </View>
+
+            <View style={homeStyles.selectionActions}>
+                {renderAction("checkmark-done", "Complete selected", colors.gradients.success, () => onSetCompleted(true))}
+                {renderAction("arrow-undo", "Mark selected as not done", colors.gradients.primary, () => onSetCompleted(false))}
+                <ListPicker onChange={onMove} disabled={!hasSelection} />
+                {tags && tags.length > 0 && (
+                    renderAction("pricetags", "Tag selected", colors.gradients.warning, () => setIsTagMenuOpen(true))
+                )}
+                {renderAction("copy", "Copy selected as todo.txt", colors.gradients.primary, onCopy)}
+                {renderAction("trash", "Delete selected", colors.gradients.danger, onDelete)}
+            </View>
+
+            <Modal visible={isTagMenuOpen} transparent animationType="slide" onRequestClose={() => setIsTagMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <Text style={homeStyles.sheetTitle}>Tag {selectedCount} todo{selectedCount === 1 ? "" : "s"}</Text>
+
+                        <View style={homeStyles.swatchRow}>
+                            {tags?.map((tag) => (
+                                <TagChip
+                                    key={tag._id}
+                                    tag={tag}
+                                    selected={tagIds.includes(tag._id)}
+                                    onPress={() => setTagIds(tagIds.includes(tag._id)
+                                        ? tagIds.filter((id) => id !== tag._id)
+                                        : [...tagIds, tag._id])}
+                                />
+                            ))}
+                        </View>
+
+                        <View style={homeStyles.editButtons}>
+                            <TouchableOpacity onPress={() => applyTags("add")} activeOpacity={0.8} disabled={tagIds.length === 0}>
+                                <LinearGradient
+                                    colors={tagIds.length > 0 ? colors.gradients.success : colors.gradients.muted}
+                                    style={homeStyles.editButton}
+                                >
+                                    <Ionicons name="add" size={16} color="#fff" />
+                                    <Text style={homeStyles.editButtonText}>Add tags</Text>
+                                </LinearGradient>
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={() => applyTags("remove")} activeOpacity={0.8} disabled={tagIds.length === 0}>
+                                <LinearGradient
+                                    colors={tagIds.length > 0 ? colors.gradients.danger : colors.gradients.muted}
+                                    style={homeStyles.editButton}
+                                >
+                                    <Ionicons name="remove" size={16} color="#fff" />
+                                    <Text style={homeStyles.editButtonText}>Remove tags</Text>
+                                </LinearGradient>
+                            </TouchableOpacity>
+                        </View>
+
+                        <TouchableOpacity onPress={() => setIsTagMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                            <Text style={homeStyles.pickerDoneText}>Close</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+};
+
+export default SelectionBar;
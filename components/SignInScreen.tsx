@@ -0,0 +1,191 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import useTheme from '@/hooks/useTheme';
+import { useAuthActions } from '@convex-dev/auth/react';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { ActivityIndicator, KeyboardAvoidingView, Platform, ScrollView, Text, TextInput, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// "pair" signs in with a one-time code from a device that is already signed in
+type AuthFlow = "signIn" | "signUp" | "pair";
+
+// Same minimum the backend's password provider enforces
+const MIN_PASSWORD_LENGTH = 8;
+
+// Pairing codes are 8 letters and digits, shown with a dash in the middle
+const PAIRING_CODE_LENGTH = 8;
+
+const TITLES: Record<AuthFlow, string> = {
+    signIn: "Welcome back",
+    signUp: "Create your account",
+    pair: "Pair this device",
+};
+
+/**
+ * Pull a readable message out of a failed sign-in
+ * Convex Auth reports wrong credentials with a generic error, so fall back to a friendly hint
+ */
+const describeAuthError = (error: unknown, flow: AuthFlow) => {
+    const message = error instanceof Error ? error.message : "";
+    if (flow === "pair") return "That code didn't work. Codes expire after 10 minutes and work once; create a new one and try again.";
+    if (message.includes("valid email")) return "Enter a valid email address.";
+    if (flow === "signUp" && message.includes("already exists")) return "An account with this email already exists. Sign in instead.";
+    if (flow === "signIn") return "Wrong email or password.";
+    return "Could not create the account. Please try again.";
+};
+
+/**
+ * SignInScreen Component
+ * Shown instead of the app while signed out; signs in or creates an email and password account
+ * A device can also join an account with a pairing code shown in another device's Settings
+ * Todos this device made before accounts existed move into the account after the first sign-in
+ */
+const SignInScreen = () => {
+    // Get current theme colors for consistent styling across the app
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const settingStyles = createSettingsStyles(colors);
+    const homeStyles = createHomeStyles(colors);
+
+    const { signIn } = useAuthActions();
+
+    const [flow, setFlow] = useState<AuthFlow>("signIn");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [pairingCode, setPairingCode] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const canSubmit = !isSubmitting && (flow === "pair"
+        ? pairingCode.replace(/[^A-Za-z0-9]/g, "").length === PAIRING_CODE_LENGTH
+        : email.trim().length > 0 && password.length >= MIN_PASSWORD_LENGTH);
+
+    /**
+     * Switch between signing in, signing up and pairing, clearing any error from the last attempt
+     */
+    const switchFlow = (next: AuthFlow) => {
+        setFlow(next);
+        setError(null);
+    };
+
+    /**
+     * Sign in with a password or a pairing code, or create the account first when signing up
+     */
+    const handleSubmit = async () => {
+        if (!canSubmit) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            if (flow === "pair") {
+                await signIn("pairing", { code: pairingCode });
+            } else {
+                await signIn("password", { email: email.trim(), password, flow });
+            }
+        } catch (signInError) {
+            console.log("Error signing in:", signInError);
+            setError(describeAuthError(signInError, flow));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <LinearGradient colors={colors.gradients.background} style={settingStyles.container}>
+            <SafeAreaView style={settingStyles.safeArea}>
+                <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === "ios" ? "padding" : undefined}>
+                    <ScrollView contentContainerStyle={settingStyles.content} keyboardShouldPersistTaps="handled">
+
+                        <LinearGradient colors={colors.gradients.primary} style={settingStyles.authLogo}>
+                            <Ionicons name="checkmark-done" size={36} color="#fff" />
+                        </LinearGradient>
+                        <Text style={settingStyles.authTitle}>{TITLES[flow]}</Text>
+                        <Text style={settingStyles.authSubtitle}>
+                            {flow === "pair"
+                                ? "On a device that's already signed in, open Settings, tap \"Pair a Device\" and enter the code here."
+                                : "Your todos are saved to your account, so they survive reinstalls and follow you to new devices."}
+                        </Text>
+
+                        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+                            {flow === "pair" ? (
+                                <TextInput
+                                    style={homeStyles.editInput}
+                                    value={pairingCode}
+                                    onChangeText={setPairingCode}
+                                    placeholder="Pairing code, e.g. ABCD-EFGH"
+                                    placeholderTextColor={colors.textMuted}
+                                    autoCapitalize="characters"
+                                    autoCorrect={false}
+                                    maxLength={PAIRING_CODE_LENGTH + 1}
+                                    onSubmitEditing={handleSubmit}
+                                    returnKeyType="go"
+                                    editable={!isSubmitting}
+                                />
+                            ) : (
+                                <>
+                                    <TextInput
+                                        style={homeStyles.editInput}
+                                        value={email}
+                                        onChangeText={setEmail}
+                                        placeholder="Email"
+                                        placeholderTextColor={colors.textMuted}
+                                        autoCapitalize="none"
+                                        autoCorrect={false}
+                                        autoComplete="email"
+                                        keyboardType="email-address"
+                                        textContentType="emailAddress"
+                                        editable={!isSubmitting}
+                                    />
+                                    <TextInput
+                                        style={homeStyles.editInput}
+                                        value={password}
+                                        onChangeText={setPassword}
+                                        placeholder={flow === "signUp" ? `Password (at least ${MIN_PASSWORD_LENGTH} characters)` : "Password"}
+                                        placeholderTextColor={colors.textMuted}
+                                        secureTextEntry
+                                        autoCapitalize="none"
+                                        autoComplete={flow === "signUp" ? "new-password" : "current-password"}
+                                        textContentType={flow === "signUp" ? "newPassword" : "password"}
+                                        onSubmitEditing={handleSubmit}
+                                        returnKeyType="go"
+                                        editable={!isSubmitting}
+                                    />
+                                </>
+                            )}
+
+                            {error && <Text style={settingStyles.authError} accessibilityLiveRegion="polite">{error}</Text>}
+
+                            <TouchableOpacity onPress={handleSubmit} activeOpacity={0.8} disabled={!canSubmit}>
+                                <LinearGradient
+                                    colors={canSubmit ? colors.gradients.primary : colors.gradients.muted}
+                                    style={settingStyles.authButton}
+                                >
+                                    {isSubmitting
+                                        ? <ActivityIndicator color="#fff" />
+                                        : <Text style={settingStyles.authButtonText}>{flow === "signUp" ? "Create Account" : flow === "pair" ? "Pair Device" : "Sign In"}</Text>}
+                                </LinearGradient>
+                            </TouchableOpacity>
+
+                            <TouchableOpacity onPress={() => switchFlow(flow === "signIn" ? "signUp" : "signIn")} disabled={isSubmitting}>
+                                <Text style={settingStyles.authSwitchText}>
+                                    {flow === "signIn" ? "New here? Create an account" : "Already have an account? Sign in"}
+                                </Text>
+                            </TouchableOpacity>
+
+                            {flow !== "pair" && (
+                                <TouchableOpacity onPress={() => switchFlow("pair")} disabled={isSubmitting}>
+                                    <Text style={settingStyles.authSwitchText}>Pair with a code from another device</Text>
+                                </TouchableOpacity>
+                            )}
+                        </LinearGradient>
+                    </ScrollView>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </LinearGradient>
+    );
+};
+
+export default SignInScreen;
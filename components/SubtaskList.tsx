@@ -0,0 +1,125 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { useState } from 'react';
+import { ActivityIndicator, Alert, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+/**
+ * SubtaskList Component
+ * Expandable checklist shown inside a todo row
+ * Items can be toggled, reordered with the arrows, deleted, and added at the bottom
+ */
+const SubtaskList = ({ todoId }: { todoId: Id<"todos"> }) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const subtasks = useQuery(api.subtasks.getSubtasks, isAuthenticated ? { todoId } : "skip");
+    const addSubtask = useMutation(api.subtasks.addSubtask);
+    const toggleSubtask = useMutation(api.subtasks.toggleSubtask);
+    const moveSubtask = useMutation(api.subtasks.moveSubtask);
+    const deleteSubtask = useMutation(api.subtasks.deleteSubtask);
+
+    const [newSubtask, setNewSubtask] = useState("");
+
+    /**
+     * Run a checklist mutation with shared error handling
+     */
+    const runMutation = async (action: () => Promise<unknown>, errorMessage: string) => {
+        try {
+            await action();
+        } catch (error) {
+            console.error("Error updating checklist:", error);
+            Alert.alert("Error", errorMessage);
+        }
+    };
+
+    /**
+     * Add a new checklist item to the end of the list
+     */
+    const handleAddSubtask = async () => {
+        if (!newSubtask.trim() || !isAuthenticated) return;
+
+        await runMutation(
+            () => addSubtask({ todoId, text: newSubtask }),
+            "Failed to add checklist item. Please try again."
+        );
+        setNewSubtask("");
+    };
+
+    if (!isAuthenticated || subtasks === undefined) {
+        return <ActivityIndicator size="small" color={colors.primary} />;
+    }
+
+    return (
+        <View style={homeStyles.subtaskList}>
+            {subtasks.map((subtask, index) => (
+                <View key={subtask._id} style={homeStyles.subtaskItem}>
+                    <TouchableOpacity
+                        onPress={() => runMutation(() => toggleSubtask({ id: subtask._id }), "Failed to update checklist item.")}
+                        accessibilityRole="checkbox"
+                        accessibilityState={{ checked: subtask.isCompleted }}
+                        accessibilityLabel={subtask.text}
+                    >
+                        <Ionicons
+                            name={subtask.isCompleted ? "checkbox" : "square-outline"}
+                            size={20}
+                            color={subtask.isCompleted ? colors.success : colors.textMuted}
+                        />
+                    </TouchableOpacity>
+
+                    <Text style={[homeStyles.subtaskText, subtask.isCompleted && homeStyles.subtaskTextCompleted]}>
+                        {subtask.text}
+                    </Text>
+
+                    <TouchableOpacity
+                        onPress={() => runMutation(() => moveSubtask({ id: subtask._id, direction: "up" }), "Failed to move checklist item.")}
+                        disabled={index === 0}
+                        accessibilityLabel={`Move ${subtask.text} up`}
+                    >
+                        <Ionicons name="chevron-up" size={18} color={index === 0 ? colors.border : colors.textMuted} />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        onPress={() => runMutation(() => moveSubtask({ id: subtask._id, direction: "down" }), "Failed to move checklist item.")}
+                        disabled={index === subtasks.length - 1}
+                        accessibilityLabel={`Move ${subtask.text} down`}
+                    >
+                        <Ionicons name="chevron-down" size={18} color={index === subtasks.length - 1 ? colors.border : colors.textMuted} />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        onPress={() => runMutation(() => deleteSubtask({ id: subtask._id }), "Failed to delete checklist item.")}
+                        accessibilityLabel={`Delete ${subtask.text}`}
+                    >
+                        <Ionicons name="close" size={18} color={colors.danger} />
+                    </TouchableOpacity>
+                </View>
+            ))}
+
+            <View style={homeStyles.subtaskItem}>
+                <Ionicons name="add" size={20} color={colors.textMuted} />
+                <TextInput
+                    style={homeStyles.subtaskInput}
+                    value={newSubtask}
+                    onChangeText={setNewSubtask}
+                    onSubmitEditing={handleAddSubtask}
+                    placeholder="Add checklist item..."
+                    placeholderTextColor={colors.textMuted}
+                    returnKeyType="done"
+                    maxLength={200}
+                />
+            </View>
+        </View>
+    );
+};
+
+export default SubtaskList;
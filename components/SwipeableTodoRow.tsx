@@ -0,0 +1,116 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ReactNode, useRef } from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+import Swipeable, { SwipeableMethods } from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+/**
+ * Swipe distances in points
+ * complete: how far to swipe right before releasing toggles completion
+ * actions: how far to swipe left before the edit and delete actions stay open
+ */
+export interface SwipeThresholds {
+    complete: number;
+    actions: number;
+}
+
+export const DEFAULT_SWIPE_THRESHOLDS: SwipeThresholds = {
+    complete: 96,
+    actions: 48,
+};
+
+interface SwipeableTodoRowProps {
+    isCompleted: boolean;
+    onToggle: () => void;
+    onEdit: () => void;
+    onDelete: () => void;
+    enabled?: boolean;              // Disabled while the row is being edited
+    thresholds?: SwipeThresholds;
+    children: ReactNode;
+}
+
+/**
+ * SwipeableTodoRow Component
+ * Wraps a todo row: swiping right toggles completion, swiping left reveals edit and delete
+ * Screen reader users get the same actions from the row's accessibility actions (see TODO_ROW_ACTIONS)
+ */
+const SwipeableTodoRow = ({
+    isCompleted,
+    onToggle,
+    onEdit,
+    onDelete,
+    enabled = true,
+    thresholds = DEFAULT_SWIPE_THRESHOLDS,
+    children,
+}: SwipeableTodoRowProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const swipeableRef = useRef<SwipeableMethods>(null);
+
+    /**
+     * Run a revealed action and slide the row back
+     */
+    const runAction = (action: () => void) => {
+        swipeableRef.current?.close();
+        action();
+    };
+
+    return (
+        <Swipeable
+            ref={swipeableRef}
+            enabled={enabled}
+            friction={1.5}
+            leftThreshold={thresholds.complete}
+            rightThreshold={thresholds.actions}
+            overshootLeft={false}
+            onSwipeableOpen={(direction) => {
+                // The row moved right, uncovering the completion panel
+                if (`${direction}` === "right") runAction(onToggle);
+            }}
+            renderLeftActions={() => (
+                <LinearGradient
+                    colors={isCompleted ? colors.gradients.muted : colors.gradients.success}
+                    style={[homeStyles.swipeCompleteAction, { width: thresholds.complete }]}
+                >
+                    <Ionicons name={isCompleted ? "arrow-undo" : "checkmark"} size={22} color="#fff" />
+                    <Text style={homeStyles.swipeActionText}>{isCompleted ? "Reopen" : "Done"}</Text>
+                </LinearGradient>
+            )}
+            renderRightActions={() => (
+                <>
+                    <TouchableOpacity onPress={() => runAction(onEdit)} activeOpacity={0.8} accessibilityLabel="Edit todo">
+                        <LinearGradient colors={colors.gradients.warning} style={homeStyles.swipeAction}>
+                            <Ionicons name="pencil" size={20} color="#fff" />
+                            <Text style={homeStyles.swipeActionText}>Edit</Text>
+                        </LinearGradient>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => runAction(onDelete)} activeOpacity={0.8} accessibilityLabel="Delete todo">
+                        <LinearGradient colors={colors.gradients.danger} style={homeStyles.swipeAction}>
+                            <Ionicons name="trash" size={20} color="#fff" />
+                            <Text style={homeStyles.swipeActionText}>Delete</Text>
+                        </LinearGradient>
+                    </TouchableOpacity>
+                </>
+            )}
+        >
+            {children}
+        </Swipeable>
+    );
+};
+
+/**
+ * Accessibility actions mirroring the swipe gestures, for the row's main text element
+ */
+export const TODO_ROW_ACTIONS = (isCompleted: boolean) => [
+    { name: "toggle", label: isCompleted ? "Mark as not done" : "Mark as done" },
+    { name: "edit", label: "Edit" },
+    { name: "delete", label: "Delete" },
+];
+
+export default SwipeableTodoRow;
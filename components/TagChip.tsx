@@ -0,0 +1,44 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { Doc } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { Text, TouchableOpacity } from 'react-native';
+
+interface TagChipProps {
+    tag: Doc<"tags">;
+    selected?: boolean;           // Filled style for selected tags
+    onPress?: () => void;
+    onLongPress?: () => void;
+}
+
+/**
+ * TagChip Component
+ * Small "#name" chip rendered in the tag's own color
+ */
+const TagChip = ({ tag, selected, onPress, onLongPress }: TagChipProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    return (
+        <TouchableOpacity
+            style={[
+                homeStyles.tagChip,
+                { borderColor: tag.color },
+                selected && { backgroundColor: tag.color },
+            ]}
+            onPress={onPress}
+            onLongPress={onLongPress}
+            disabled={!onPress && !onLongPress}
+            activeOpacity={0.7}
+            accessibilityRole={onPress ? "button" : "text"}
+            accessibilityLabel={`Tag ${tag.name}`}
+            accessibilityState={onPress ? { selected: !!selected } : undefined}
+        >
+            <Text style={[homeStyles.tagChipText, { color: selected ? "#fff" : tag.color }]}>#{tag.name}</Text>
+        </TouchableOpacity>
+    );
+};
+
+export default TagChip;
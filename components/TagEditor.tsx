@@ -0,0 +1,138 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Doc } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { LIST_COLORS } from '@/utils/lists';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useState } from 'react';
+import { Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface TagEditorProps {
+    tag: Doc<"tags">;
+    onClose: () => void;
+}
+
+/**
+ * TagEditor Component
+ * Bottom sheet for renaming, recoloring or deleting a tag
+ * Changes apply to every todo carrying the tag
+ */
+const TagEditor = ({ tag, onClose }: TagEditorProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [name, setName] = useState(tag.name);
+    const [color, setColor] = useState(tag.color);
+
+    const updateTag = useMutation(api.tags.updateTag);
+    const deleteTag = useMutation(api.tags.deleteTag);
+
+    /**
+     * Save the new name and color
+     */
+    const handleSave = async () => {
+        if (!isAuthenticated) return;
+
+        try {
+            await updateTag({ id: tag._id, name, color });
+            onClose();
+        } catch (error) {
+            console.error("Error updating tag:", error);
+            Alert.alert("Error", error instanceof Error && error.message.includes("already exists")
+                ? "A tag with that name already exists."
+                : "Failed to update tag. Please try again.");
+        }
+    };
+
+    /**
+     * Delete the tag after confirmation; todos keep everything else
+     */
+    const handleDelete = () => {
+        if (!isAuthenticated) return;
+
+        Alert.alert("Delete Tag", `Remove #${tag.name} from all todos?`, [
+            { text: "Cancel", style: "cancel" },
+            {
+                text: "Delete",
+                style: "destructive",
+                onPress: async () => {
+                    try {
+                        await deleteTag({ id: tag._id });
+                        onClose();
+                    } catch (error) {
+                        console.error("Error deleting tag:", error);
+                        Alert.alert("Error", "Failed to delete tag. Please try again.");
+                    }
+                },
+            },
+        ]);
+    };
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <View style={homeStyles.pickerBackdrop}>
+                <View style={homeStyles.pickerSheet}>
+                    <Text style={homeStyles.sheetTitle}>Edit Tag</Text>
+
+                    <TextInput
+                        style={homeStyles.editorInput}
+                        value={name}
+                        onChangeText={setName}
+                        placeholder="Tag name"
+                        placeholderTextColor={colors.textMuted}
+                        autoCapitalize="none"
+                        maxLength={30}
+                    />
+
+                    <Text style={homeStyles.editorLabel}>Color</Text>
+                    <View style={homeStyles.swatchRow}>
+                        {LIST_COLORS.map((swatch) => (
+                            <TouchableOpacity
+                                key={swatch}
+                                style={[homeStyles.swatch, { backgroundColor: swatch }]}
+                                onPress={() => setColor(swatch)}
+                                accessibilityLabel={`Color ${swatch}`}
+                                accessibilityState={{ selected: swatch === color }}
+                            >
+                                {swatch === color && <Ionicons name="checkmark" size={18} color="#fff" />}
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <View style={homeStyles.editButtons}>
+                        <TouchableOpacity onPress={handleSave} activeOpacity={0.8}>
+                            <LinearGradient colors={colors.gradients.success} style={homeStyles.editButton}>
+                                <Ionicons name="checkmark" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Save</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity onPress={handleDelete} activeOpacity={0.8}>
+                            <LinearGradient colors={colors.gradients.danger} style={homeStyles.editButton}>
+                                <Ionicons name="trash" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Delete</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity onPress={onClose} activeOpacity={0.8}>
+                            <LinearGradient colors={colors.gradients.muted} style={homeStyles.editButton}>
+                                <Ionicons name="close" size={16} color="#fff" />
+                                <Text style={homeStyles.editButtonText}>Cancel</Text>
+                            </LinearGradient>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+};
+
+export default TagEditor;
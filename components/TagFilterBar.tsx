@@ -0,0 +1,83 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import TagChip from '@/components/TagChip';
+import TagEditor from '@/components/TagEditor';
+import { Doc, Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { useState } from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+export type TagMatch = "any" | "all";
+
+interface TagFilterBarProps {
+    tags: Doc<"tags">[];
+    selectedTagIds: Id<"tags">[];
+    match: TagMatch;
+    onChangeSelection: (tagIds: Id<"tags">[]) => void;
+    onChangeMatch: (match: TagMatch) => void;
+}
+
+/**
+ * TagFilterBar Component
+ * Horizontal row of tag chips that narrows the home list to matching todos
+ * The leading toggle switches between matching any or all selected tags
+ * Long-pressing a tag opens the tag editor to rename, recolor or delete it
+ */
+const TagFilterBar = ({ tags, selectedTagIds, match, onChangeSelection, onChangeMatch }: TagFilterBarProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    // Tag currently open in the editor, if any
+    const [editingTag, setEditingTag] = useState<Doc<"tags"> | null>(null);
+
+    if (tags.length === 0) return null;
+
+    /**
+     * Toggle a tag in the active filter
+     */
+    const toggleTag = (tagId: Id<"tags">) => {
+        onChangeSelection(
+            selectedTagIds.includes(tagId)
+                ? selectedTagIds.filter((id) => id !== tagId)
+                : [...selectedTagIds, tagId]
+        );
+    };
+
+    return (
+        <View style={homeStyles.tagFilterBar}>
+            {selectedTagIds.length > 1 && (
+                <TouchableOpacity
+                    style={homeStyles.tagMatchToggle}
+                    onPress={() => onChangeMatch(match === "any" ? "all" : "any")}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Matching ${match} selected tags, tap to switch`}
+                >
+                    <Text style={homeStyles.tagMatchToggleText}>{match === "any" ? "ANY" : "ALL"}</Text>
+                </TouchableOpacity>
+            )}
+
+            <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={homeStyles.tagFilterScroll}
+                contentContainerStyle={homeStyles.tagFilterContent}
+            >
+                {tags.map((tag) => (
+                    <TagChip
+                        key={tag._id}
+                        tag={tag}
+                        selected={selectedTagIds.includes(tag._id)}
+                        onPress={() => toggleTag(tag._id)}
+                        onLongPress={() => setEditingTag(tag)}
+                    />
+                ))}
+            </ScrollView>
+
+            {editingTag && <TagEditor tag={editingTag} onClose={() => setEditingTag(null)} />}
+        </View>
+    );
+};
+
+export default TagFilterBar;
@@ -0,0 +1,127 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import TagChip from '@/components/TagChip';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useTheme from '@/hooks/useTheme';
+import { LIST_COLORS } from '@/utils/lists';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { useState } from 'react';
+import { Alert, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface TagPickerProps {
+    tagIds: Id<"tags">[];
+    onChange: (tagIds: Id<"tags">[]) => void;
+    disabled?: boolean;
+}
+
+/**
+ * TagPicker Component
+ * Chip that opens a sheet for toggling a todo's tags and creating new ones
+ */
+const TagPicker = ({ tagIds, onChange, disabled }: TagPickerProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const tags = useQuery(api.tags.getTags, isAuthenticated ? {} : "skip");
+    const addTag = useMutation(api.tags.addTag);
+
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [newTagName, setNewTagName] = useState("");
+
+    /**
+     * Toggle a tag on or off for the todo
+     */
+    const toggleTag = (tagId: Id<"tags">) => {
+        onChange(tagIds.includes(tagId) ? tagIds.filter((id) => id !== tagId) : [...tagIds, tagId]);
+    };
+
+    /**
+     * Create a tag and select it straight away
+     * New tags cycle through the preset palette
+     */
+    const handleCreateTag = async () => {
+        if (!newTagName.trim() || !isAuthenticated) return;
+
+        try {
+            const color = LIST_COLORS[(tags?.length ?? 0) % LIST_COLORS.length];
+            const tagId = await addTag({ name: newTagName, color });
+            onChange([...tagIds, tagId]);
+            setNewTagName("");
+        } catch (error) {
+            console.error("Error adding tag:", error);
+            Alert.alert("Error", error instanceof Error && error.message.includes("already exists")
+                ? "A tag with that name already exists."
+                : "Failed to add tag. Tags may only contain letters, numbers, \"-\" and \"_\".");
+        }
+    };
+
+    return (
+        <>
+            <TouchableOpacity
+                style={[homeStyles.dueChip, tagIds.length > 0 && homeStyles.dueChipActive]}
+                onPress={() => setIsMenuOpen(true)}
+                activeOpacity={0.7}
+                disabled={disabled}
+                accessibilityLabel={tagIds.length > 0 ? `${tagIds.length} tags, change tags` : "Add tags"}
+            >
+                <Ionicons name="pricetags-outline" size={14} color={tagIds.length > 0 ? colors.primary : colors.textMuted} />
+                <Text style={[homeStyles.dueChipText, tagIds.length > 0 && homeStyles.dueChipTextActive]}>
+                    {tagIds.length > 0 ? `${tagIds.length} tag${tagIds.length === 1 ? "" : "s"}` : "Tags"}
+                </Text>
+            </TouchableOpacity>
+
+            <Modal visible={isMenuOpen} transparent animationType="slide" onRequestClose={() => setIsMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <Text style={homeStyles.sheetTitle}>Tags</Text>
+
+                        <View style={homeStyles.swatchRow}>
+                            {tags?.map((tag) => (
+                                <TagChip
+                                    key={tag._id}
+                                    tag={tag}
+                                    selected={tagIds.includes(tag._id)}
+                                    onPress={() => toggleTag(tag._id)}
+                                />
+                            ))}
+                        </View>
+
+                        {tags?.length === 0 && (
+                            <Text style={homeStyles.sheetHint}>No tags yet - create your first one below</Text>
+                        )}
+
+                        <View style={homeStyles.sheetInputRow}>
+                            <TextInput
+                                style={[homeStyles.editorInput, { flex: 1, marginBottom: 0 }]}
+                                value={newTagName}
+                                onChangeText={setNewTagName}
+                                onSubmitEditing={handleCreateTag}
+                                placeholder="New tag, e.g. work"
+                                placeholderTextColor={colors.textMuted}
+                                autoCapitalize="none"
+                                returnKeyType="done"
+                                maxLength={30}
+                            />
+                            <TouchableOpacity onPress={handleCreateTag} disabled={!newTagName.trim()} accessibilityLabel="Create tag">
+                                <Ionicons name="add-circle" size={36} color={newTagName.trim() ? colors.primary : colors.border} />
+                            </TouchableOpacity>
+                        </View>
+
+                        <TouchableOpacity onPress={() => setIsMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                            <Text style={homeStyles.pickerDoneText}>Done</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+};
+
+export default TagPicker;
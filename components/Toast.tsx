@@ -0,0 +1,61 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect } from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+
+// How long a toast stays up unless tapped away
+export const TOAST_DURATION_MS = 4000;
+
+/**
+ * A short message shown on top of whatever screen is open
+ */
+export interface ToastMessage {
+    id: number;                 // Changes with every toast, so repeating a message restarts the timer
+    message: string;
+    type: "error" | "info";
+}
+
+interface ToastProps {
+    toast: ToastMessage | null;
+    onDismiss: () => void;
+    duration?: number;
+}
+
+/**
+ * Toast Component
+ * Non-blocking bar near the top of the screen, e.g. for a change that failed and was undone
+ * Disappears on its own after a few seconds or when tapped; the screen underneath stays usable
+ */
+const Toast = ({ toast, onDismiss, duration = TOAST_DURATION_MS }: ToastProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    // Hide the toast once its time is up
+    useEffect(() => {
+        if (!toast) return;
+        const timer = setTimeout(onDismiss, duration);
+        return () => clearTimeout(timer);
+    }, [toast, duration, onDismiss]);
+
+    if (!toast) return null;
+
+    return (
+        <TouchableOpacity
+            style={[homeStyles.snackbar, homeStyles.toast, toast.type === "error" && { backgroundColor: colors.danger }]}
+            onPress={onDismiss}
+            activeOpacity={0.9}
+            accessibilityRole="alert"
+            accessibilityLiveRegion="polite"
+            accessibilityHint="Tap to dismiss"
+        >
+            <Ionicons name={toast.type === "error" ? "alert-circle" : "information-circle"} size={20} color={toast.type === "error" ? "#fff" : colors.bg} />
+            <Text style={[homeStyles.snackbarText, toast.type === "error" && { color: "#fff" }]} numberOfLines={3}>{toast.message}</Text>
+        </TouchableOpacity>
+    );
+};
+
+export default Toast;
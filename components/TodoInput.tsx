@@ -1,9 +1,24 @@
 import { createHomeStyles } from '@/assets/styles/home.styles';
+import DueDatePicker from '@/components/DueDatePicker';
+import PriorityPicker from '@/components/PriorityPicker';
+import QuickAddPreview from '@/components/QuickAddPreview';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import ReminderPicker from '@/components/ReminderPicker';
+import TagPicker from '@/components/TagPicker';
 import { api } from '@/convex/_generated/api';
-import useDeviceId from '@/hooks/useDeviceId';
+import { Id } from '@/convex/_generated/dataModel';
+import { MAX_TODO_TEXT_LENGTH } from '@/convex/lib/todoFields';
+import useCachedQuery from '@/hooks/useCachedQuery';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import usePreferences from '@/hooks/usePreferences';
 import useTheme from '@/hooks/useTheme';
+import useToast from '@/hooks/useToast';
+import { LIST_COLORS } from '@/utils/lists';
+import { Priority } from '@/utils/priority';
+import { parseQuickAdd } from '@/utils/quickAdd';
+import { Reminder } from '@/utils/reminders';
 import { Ionicons } from '@expo/vector-icons';
-import { useMutation } from 'convex/react';
+import { useConvexAuth, useMutation } from 'convex/react';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useState } from 'react';
 import { Alert, Keyboard, TextInput, TouchableOpacity, View } from 'react-native';
@@ -11,41 +26,103 @@ import { Alert, Keyboard, TextInput, TouchableOpacity, View } from 'react-native
 /**
  * TodoInput Component
  * Provides input interface for adding new todos to the database
- * Ensures todos are properly associated with the current device for user isolation
+ * Ensures todos are properly owned by the signed-in user
  * Includes validation, error handling, and enhanced user experience features
+ * New todos are added to the currently selected list, if any
+ * Typed dates, times, #tags, !priorities and "every ..." phrases are parsed out of the text;
+ * parsed values take precedence over the pickers, and parsed tags are added to the picked ones
+ * Todos are queued in the offline outbox, so adding works without a connection too
  */
-const TodoInput = () => {
+const TodoInput = ({ listId }: { listId?: Id<"lists"> }) => {
     // Get current theme colors for consistent styling
     const { colors } = useTheme();
     
-    // Get device ID for user-specific data operations
-    const { deviceId, isLoading: deviceIdLoading } = useDeviceId();
+    // Session state; a saved session that is still being confirmed (e.g. offline) can queue todos too
+    const { isAuthenticated, isLoading: isAuthLoading } = useConvexAuth();
+    const hasSession = isAuthenticated || isAuthLoading;
+
+    // Outbox for the new todo, and whether new tags can be created right now
+    const { queueAdd, isOnline } = useOfflineSync();
     
+    // Where new todos land in the manual order
+    const { newTodoPosition } = usePreferences();
+
+    // Failures are reported without interrupting typing
+    const { showToast } = useToast();
+
     // Create theme-aware styles
     const homeStyles = createHomeStyles(colors);
     
     // State management for todo input and loading states
     const [newTodo, setNewTodo] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Optional due date ("YYYY-MM-DD") and time ("HH:mm") for the new todo
+    const [dueDate, setDueDate] = useState<string | undefined>();
+    const [dueTime, setDueTime] = useState<string | undefined>();
+    const [reminder, setReminder] = useState<Reminder | undefined>();
+    const [priority, setPriority] = useState<Priority>("none");
+    const [tagIds, setTagIds] = useState<Id<"tags">[]>([]);
+    const [recurrence, setRecurrence] = useState<string | undefined>();
     
-    // Convex mutation hook for adding todos to the database
-    const addTodo = useMutation(api.todos.addTodo);
+    // Convex mutation hook for creating tags typed into the text
+    const addTag = useMutation(api.tags.addTag);
+
+    // Known tags, to resolve "#name" markers to existing tags; lists, to catch read-only ones
+    const tags = useCachedQuery(api.tags.getTags, {});
+    const lists = useCachedQuery(api.lists.getLists, {});
+
+    // Structured fields typed into the input, previewed below it
+    const parsed = parseQuickAdd(newTodo);
+
+    /**
+     * Resolve parsed tag names to tag ids, creating tags that do not exist yet
+     * New tags cycle through the preset palette like the tag picker does
+     * Offline, new tags can't be created; their names are returned so they stay in the text
+     */
+    const resolveTagNames = async (names: string[]) => {
+        const resolved: Id<"tags">[] = [];
+        const unresolved: string[] = [];
+        let created = 0;
+
+        for (const name of names) {
+            const existing = tags?.find((tag) => tag.name === name);
+            if (existing) {
+                resolved.push(existing._id);
+                continue;
+            }
+            if (!isOnline || !isAuthenticated) {
+                unresolved.push(name);
+                continue;
+            }
+            const color = LIST_COLORS[((tags?.length ?? 0) + created) % LIST_COLORS.length];
+            resolved.push(await addTag({ name, color }));
+            created += 1;
+        }
+        return { resolved, unresolved };
+    };
 
     /**
      * Handle Add Todo Function
-     * Validates input, adds todo to database with device ID, and provides user feedback
+     * Validates input, adds todo to the user's database, and provides user feedback
      * Includes comprehensive error handling and loading states
      */
     const handleAddTodo = async () => {
-        // Validate input text is not empty after trimming whitespace
-        if (!newTodo.trim()) {
+        // Validate input text is not empty once the parsed phrases are removed
+        if (!parsed.text) {
             Alert.alert("Invalid Input", "Please enter a todo before adding.");
             return;
         }
 
-        // Validate device ID is available for user association
-        if (!deviceId) {
-            Alert.alert("Device Error", "Device not initialized. Please try again in a moment.");
+        // Todos belong to the signed-in user
+        if (!hasSession) {
+            Alert.alert("Not Signed In", "Please sign in before adding todos.");
+            return;
+        }
+
+        // Lists shared with the user as a viewer don't take new todos
+        if (listId && lists?.find((list) => list._id === listId)?.role === "viewer") {
+            Alert.alert("Read-Only List", "You can only view this list. Ask its owner for edit access.");
             return;
         }
 
@@ -57,14 +134,29 @@ const TodoInput = () => {
         setIsSubmitting(true);
 
         try {
-            // Add todo to database with device ID for user isolation
-            await addTodo({ 
-                text: newTodo.trim(), 
-                deviceId 
+            const { resolved: parsedTagIds, unresolved } = await resolveTagNames(parsed.tagNames);
+
+            // Queue the todo; the backend assigns it to the signed-in user once it is sent
+            queueAdd({
+                text: [parsed.text, ...unresolved.map((name) => `#${name}`)].join(" "),
+                dueDate: parsed.dueDate ?? dueDate,
+                dueTime: parsed.dueDate ? parsed.dueTime : dueTime,
+                reminder,
+                priority: parsed.priority ?? priority,
+                listId,
+                tagIds: [...new Set([...tagIds, ...parsedTagIds])],
+                recurrence: parsed.recurrence ?? recurrence,
+                position: newTodoPosition,
             });
 
             // Success feedback and cleanup
             setNewTodo(''); // Clear input field
+            setDueDate(undefined);
+            setDueTime(undefined);
+            setReminder(undefined);
+            setPriority("none");
+            setTagIds([]);
+            setRecurrence(undefined);
             Keyboard.dismiss(); // Hide keyboard on mobile
             
             // Optional: Show success feedback (can be removed if too intrusive)
@@ -74,17 +166,17 @@ const TodoInput = () => {
             // Comprehensive error handling with user-friendly messages
             console.error("Error adding todo:", error);
             
-            // Determine error type and show appropriate message
+            // Determine error type and report it without interrupting typing
             if (error instanceof Error) {
-                if (error.message.includes('Device ID is required')) {
-                    Alert.alert("Authorization Error", "Please restart the app and try again.");
+                if (error.message.includes('signed in')) {
+                    showToast("Please sign in again and retry.");
                 } else if (error.message.includes('empty')) {
-                    Alert.alert("Invalid Input", "Todo text cannot be empty.");
+                    showToast("Todo text cannot be empty.");
                 } else {
-                    Alert.alert("Error", "Failed to add todo. Please check your connection and try again.");
+                    showToast("Failed to add todo. Please try again.");
                 }
             } else {
-                Alert.alert("Error", "An unexpected error occurred. Please try again.");
+                showToast("An unexpected error occurred. Please try again.");
             }
         } finally {
             setIsSubmitting(false);
@@ -97,7 +189,7 @@ const TodoInput = () => {
      */
     const handleTextChange = (text: string) => {
         // Limit text length for better UX and database efficiency
-        if (text.length <= 200) {
+        if (text.length <= MAX_TODO_TEXT_LENGTH) {
             setNewTodo(text);
         }
     };
@@ -107,13 +199,13 @@ const TodoInput = () => {
      * Allows users to add todos by pressing "Done" on keyboard
      */
     const handleSubmitEditing = () => {
-        if (newTodo.trim() && deviceId && !isSubmitting) {
+        if (newTodo.trim() && hasSession && !isSubmitting) {
             handleAddTodo();
         }
     };
 
     // Calculate if the add button should be enabled
-    const isAddButtonEnabled = newTodo.trim().length > 0 && deviceId && !isSubmitting && !deviceIdLoading;
+    const isAddButtonEnabled = newTodo.trim().length > 0 && hasSession && !isSubmitting;
 
     return (
         <View style={homeStyles.inputSection}>
@@ -123,15 +215,15 @@ const TodoInput = () => {
                         homeStyles.input,
                         isSubmitting && homeStyles.inputDisabled 
                     ]}
-                    placeholder="Add a new task..."
+                    placeholder="Add a task, e.g. Call Sam tomorrow 3pm #work"
                     value={newTodo}
                     onChangeText={handleTextChange}
                     onSubmitEditing={handleSubmitEditing}
                     placeholderTextColor={colors.textMuted}
                     returnKeyType="done"
                     multiline={false}
-                    maxLength={200}
-                    editable={!isSubmitting && !deviceIdLoading} 
+                    maxLength={MAX_TODO_TEXT_LENGTH}
+                    editable={!isSubmitting} 
                     autoCorrect={true} 
                     autoCapitalize="sentences" 
                 />
@@ -157,6 +249,44 @@ const TodoInput = () => {
                     </LinearGradient>
                 </TouchableOpacity>
             </View>
+
+            <QuickAddPreview result={parsed} tags={tags ?? []} />
+
+            <DueDatePicker
+                dueDate={dueDate}
+                dueTime={dueTime}
+                onChange={(date, time) => {
+                    setDueDate(date);
+                    setDueTime(time);
+                    // Relative reminders and repeat rules cannot outlive the due date they depend on
+                    if (!date && reminder?.type === "before") setReminder(undefined);
+                    if (!date) setRecurrence(undefined);
+                }}
+                disabled={isSubmitting}
+            >
+                <ReminderPicker
+                    reminder={reminder}
+                    hasDueDate={!!dueDate}
+                    onChange={setReminder}
+                    disabled={isSubmitting}
+                />
+                <RecurrencePicker
+                    recurrence={recurrence}
+                    dueDate={dueDate}
+                    onChange={setRecurrence}
+                    disabled={isSubmitting}
+                />
+                <PriorityPicker
+                    priority={priority}
+                    onChange={setPriority}
+                    disabled={isSubmitting}
+                />
+                <TagPicker
+                    tagIds={tagIds}
+                    onChange={setTagIds}
+                    disabled={isSubmitting}
+                />
+            </DueDatePicker>
         </View>
     );
 };
@@ -0,0 +1,88 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { TODO_FILTERS, TODO_SORTS } from '@/convex/schema';
+import usePreferences from '@/hooks/usePreferences';
+import useTheme from '@/hooks/useTheme';
+import { TODO_FILTER_LABELS, TODO_SORT_LABELS } from '@/utils/todoView';
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { Modal, Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * TodoViewBar Component
+ * All / Active / Completed filter plus a sort menu for the home list
+ * Both choices are persisted through the preferences context
+ */
+const TodoViewBar = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Persisted filter and sort preferences
+    const { todoFilter, setTodoFilter, todoSort, setTodoSort } = usePreferences();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const [isSortMenuOpen, setIsSortMenuOpen] = useState(false);
+
+    return (
+        <View style={homeStyles.viewBar}>
+            <View style={homeStyles.viewFilterGroup} accessibilityRole="tablist">
+                {TODO_FILTERS.map((filter) => {
+                    const isSelected = todoFilter === filter;
+                    return (
+                        <TouchableOpacity
+                            key={filter}
+                            style={[homeStyles.viewFilterOption, isSelected && { backgroundColor: colors.primary }]}
+                            onPress={() => setTodoFilter(filter)}
+                            activeOpacity={0.7}
+                            accessibilityRole="tab"
+                            accessibilityState={{ selected: isSelected }}
+                        >
+                            <Text style={[homeStyles.viewFilterText, isSelected && homeStyles.listChipTextActive]}>
+                                {TODO_FILTER_LABELS[filter]}
+                            </Text>
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+
+            <TouchableOpacity
+                style={homeStyles.dueChip}
+                onPress={() => setIsSortMenuOpen(true)}
+                activeOpacity={0.7}
+                accessibilityLabel={`Sorted by ${TODO_SORT_LABELS[todoSort]}, change sort order`}
+            >
+                <Ionicons name="swap-vertical" size={14} color={colors.textMuted} />
+                <Text style={homeStyles.dueChipText}>{TODO_SORT_LABELS[todoSort]}</Text>
+            </TouchableOpacity>
+
+            <Modal visible={isSortMenuOpen} transparent animationType="slide" onRequestClose={() => setIsSortMenuOpen(false)}>
+                <View style={homeStyles.pickerBackdrop}>
+                    <View style={homeStyles.pickerSheet}>
+                        <Text style={homeStyles.sheetTitle}>Sort by</Text>
+
+                        {TODO_SORTS.map((sort) => (
+                            <TouchableOpacity
+                                key={sort}
+                                style={homeStyles.sheetOption}
+                                onPress={() => {
+                                    setTodoSort(sort);
+                                    setIsSortMenuOpen(false);
+                                }}
+                            >
+                                <Text style={homeStyles.sheetOptionText}>{TODO_SORT_LABELS[sort]}</Text>
+                                {todoSort === sort && <Ionicons name="checkmark" size={18} color={colors.primary} />}
+                            </TouchableOpacity>
+                        ))}
+
+                        <TouchableOpacity onPress={() => setIsSortMenuOpen(false)} activeOpacity={0.8} style={homeStyles.pickerDoneButton}>
+                            <Text style={homeStyles.pickerDoneText}>Close</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+};
+
+export default TodoViewBar;
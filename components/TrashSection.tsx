@@ -0,0 +1,58 @@
+import { createSettingsStyles } from '@/assets/styles/settings.styles';
+import { api } from '@/convex/_generated/api';
+import useTheme from '@/hooks/useTheme';
+import { Ionicons } from '@expo/vector-icons';
+import { useConvexAuth, useQuery } from 'convex/react';
+import { LinearGradient } from 'expo-linear-gradient';
+import { router } from 'expo-router';
+import { Text, TouchableOpacity, View } from 'react-native';
+
+/**
+ * TrashSection Component
+ * Settings entry that opens the Trash screen, showing how many deleted todos are waiting there
+ */
+const TrashSection = () => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Session state; queries wait until the user is signed in
+    const { isAuthenticated } = useConvexAuth();
+
+    // Create theme-aware styles for settings components
+    const settingStyles = createSettingsStyles(colors);
+
+    const trash = useQuery(api.trash.getTrash, isAuthenticated ? {} : "skip");
+    const count = trash?.todos.length ?? 0;
+
+    return (
+        <LinearGradient colors={colors.gradients.surface} style={settingStyles.section}>
+            <Text style={settingStyles.sectionTitle}>Trash</Text>
+
+            <TouchableOpacity
+                style={[settingStyles.actionButton, { borderBottomWidth: 0 }]}
+                onPress={() => router.push("/trash")}
+                activeOpacity={0.7}
+                accessibilityRole="button"
+                accessibilityLabel={`Open trash, ${count} item${count === 1 ? "" : "s"}`}
+            >
+                <View style={settingStyles.actionLeft}>
+                    <LinearGradient colors={colors.gradients.muted} style={settingStyles.actionIcon}>
+                        <Ionicons name="trash-bin" size={18} color="#fff" />
+                    </LinearGradient>
+
+                    <View style={settingStyles.actionTextContainer}>
+                        <Text style={settingStyles.actionText}>Deleted Todos</Text>
+                        <Text style={settingStyles.actionSubtext}>
+                            {count === 0 ? "Trash is empty" : `${count} item${count === 1 ? "" : "s"}`}
+                            {trash ? ` · kept for ${trash.retentionDays} day${trash.retentionDays === 1 ? "" : "s"}` : ""}
+                        </Text>
+                    </View>
+                </View>
+
+                <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
+            </TouchableOpacity>
+        </LinearGradient>
+    );
+};
+
+export default TrashSection;
@@ -0,0 +1,80 @@
+import { createHomeStyles } from '@/assets/styles/home.styles';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import useTheme from '@/hooks/useTheme';
+import { useConvexAuth, useMutation } from 'convex/react';
+import { useEffect } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+// How long the snackbar stays up before the delete is final (apart from the Trash screen)
+export const UNDO_SNACKBAR_DURATION_MS = 5000;
+
+/**
+ * A delete that can still be undone from the snackbar
+ */
+export interface PendingDeletion {
+    message: string;            // e.g. "Todo moved to trash"
+    todoIds: Id<'todos'>[];
+}
+
+interface UndoSnackbarProps {
+    deletion: PendingDeletion | null;
+    onDismiss: () => void;
+    duration?: number;
+}
+
+/**
+ * UndoSnackbar Component
+ * Bottom bar shown for a few seconds after todos are moved to the trash
+ * Undo restores them; each new deletion replaces the previous one and restarts the timer
+ * Deletes still waiting in the offline outbox are simply taken off it
+ */
+const UndoSnackbar = ({ deletion, onDismiss, duration = UNDO_SNACKBAR_DURATION_MS }: UndoSnackbarProps) => {
+    // Get current theme colors for consistent styling
+    const { colors } = useTheme();
+
+    // Create theme-aware styles
+    const homeStyles = createHomeStyles(colors);
+
+    const { isAuthenticated } = useConvexAuth();
+    const restoreTodos = useMutation(api.trash.restoreTodos);
+    const { cancelQueuedDeletes } = useOfflineSync();
+
+    // Hide the snackbar once its time is up
+    useEffect(() => {
+        if (!deletion) return;
+        const timer = setTimeout(onDismiss, duration);
+        return () => clearTimeout(timer);
+    }, [deletion, duration, onDismiss]);
+
+    if (!deletion) return null;
+
+    /**
+     * Bring the deleted todos back out of the trash
+     */
+    const handleUndo = async () => {
+        onDismiss();
+
+        const sentIds = cancelQueuedDeletes(deletion.todoIds);
+        if (sentIds.length === 0 || !isAuthenticated) return;
+
+        try {
+            await restoreTodos({ ids: sentIds });
+        } catch (error) {
+            console.log("Error restoring todos:", error);
+            Alert.alert("Error", "Failed to restore. The todos are still in the trash.");
+        }
+    };
+
+    return (
+        <View style={homeStyles.snackbar} accessibilityLiveRegion="polite">
+            <Text style={homeStyles.snackbarText} numberOfLines={2}>{deletion.message}</Text>
+            <TouchableOpacity onPress={handleUndo} activeOpacity={0.7} accessibilityRole="button" accessibilityLabel="Undo delete">
+                <Text style={homeStyles.snackbarAction}>UNDO</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+export default UndoSnackbar;
@@ -13,7 +13,42 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as auth from "../auth.js";
+import type * as bulk from "../bulk.js";
+import type * as calendar from "../calendar.js";
+import type * as crons from "../crons.js";
+import type * as devices from "../devices.js";
+import type * as exports from "../exports.js";
+import type * as http from "../http.js";
+import type * as imports from "../imports.js";
+import type * as lib_analytics from "../lib/analytics.js";
+import type * as lib_auth from "../lib/auth.js";
+import type * as lib_bulk from "../lib/bulk.js";
+import type * as lib_codes from "../lib/codes.js";
+import type * as lib_completion from "../lib/completion.js";
+import type * as lib_errors from "../lib/errors.js";
+import type * as lib_events from "../lib/events.js";
+import type * as lib_exports from "../lib/exports.js";
+import type * as lib_ical from "../lib/ical.js";
+import type * as lib_lists from "../lib/lists.js";
+import type * as lib_rank from "../lib/rank.js";
+import type * as lib_recurrence from "../lib/recurrence.js";
+import type * as lib_sharing from "../lib/sharing.js";
+import type * as lib_subtasks from "../lib/subtasks.js";
+import type * as lib_tags from "../lib/tags.js";
+import type * as lib_todoFields from "../lib/todoFields.js";
+import type * as lib_todoRelations from "../lib/todoRelations.js";
+import type * as lib_todoTxt from "../lib/todoTxt.js";
+import type * as lib_todoView from "../lib/todoView.js";
+import type * as lib_trash from "../lib/trash.js";
+import type * as lists from "../lists.js";
+import type * as sharing from "../sharing.js";
+import type * as subtasks from "../subtasks.js";
+import type * as tags from "../tags.js";
+import type * as todoEvents from "../todoEvents.js";
 import type * as todos from "../todos.js";
+import type * as trash from "../trash.js";
+import type * as users from "../users.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -24,7 +59,42 @@ import type * as todos from "../todos.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  auth: typeof auth;
+  bulk: typeof bulk;
+  calendar: typeof calendar;
+  crons: typeof crons;
+  devices: typeof devices;
+  exports: typeof exports;
+  http: typeof http;
+  imports: typeof imports;
+  "lib/analytics": typeof lib_analytics;
+  "lib/auth": typeof lib_auth;
+  "lib/bulk": typeof lib_bulk;
+  "lib/codes": typeof lib_codes;
+  "lib/completion": typeof lib_completion;
+  "lib/errors": typeof lib_errors;
+  "lib/events": typeof lib_events;
+  "lib/exports": typeof lib_exports;
+  "lib/ical": typeof lib_ical;
+  "lib/lists": typeof lib_lists;
+  "lib/rank": typeof lib_rank;
+  "lib/recurrence": typeof lib_recurrence;
+  "lib/sharing": typeof lib_sharing;
+  "lib/subtasks": typeof lib_subtasks;
+  "lib/tags": typeof lib_tags;
+  "lib/todoFields": typeof lib_todoFields;
+  "lib/todoRelations": typeof lib_todoRelations;
+  "lib/todoTxt": typeof lib_todoTxt;
+  "lib/todoView": typeof lib_todoView;
+  "lib/trash": typeof lib_trash;
+  lists: typeof lists;
+  sharing: typeof sharing;
+  subtasks: typeof subtasks;
+  tags: typeof tags;
+  todoEvents: typeof todoEvents;
   todos: typeof todos;
+  trash: typeof trash;
+  users: typeof users;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,9 @@
+// Convex validates the app's session tokens against its own deployment, local or hosted
+export default {
+    providers: [
+        {
+            domain: process.env.CONVEX_SITE_URL,
+            applicationID: 'convex',
+        },
+    ],
+};
@@ -0,0 +1,37 @@
+import { ConvexCredentials } from '@convex-dev/auth/providers/ConvexCredentials';
+import { Password } from '@convex-dev/auth/providers/Password';
+import { convexAuth } from '@convex-dev/auth/server';
+import { ConvexError } from 'convex/values';
+import { internal } from './_generated/api';
+
+// Loose shape check; the address is only used as a login name, nothing is sent to it
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Convex Auth Setup
+ * Email and password accounts; emails are trimmed and lowercased so "Me@x.com" and "me@x.com" are one account
+ * A second device can also sign in with a one-time pairing code created on a signed-in device
+ * Needs JWT_PRIVATE_KEY, JWKS and SITE_URL on the deployment (see the README)
+ */
+export const { auth, signIn, signOut, store, isAuthenticated } = convexAuth({
+    providers: [
+        Password({
+            profile: (params) => {
+                const email = String(params.email ?? '').trim().toLowerCase();
+                if (!EMAIL_PATTERN.test(email)) {
+                    throw new ConvexError('Enter a valid email address');
+                }
+                return { email };
+            },
+        }),
+        ConvexCredentials({
+            id: 'pairing',
+            authorize: async (credentials, ctx) => {
+                const userId = await ctx.runMutation(internal.devices.redeemPairingCode, {
+                    code: String(credentials.code ?? ''),
+                });
+                return userId ? { userId } : null;
+            },
+        }),
+    ],
+});
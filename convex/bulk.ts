@@ -0,0 +1,176 @@
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { mutation } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { loadBulkTodos, summarizeBulk } from './lib/bulk';
+import { setTodoCompletion } from './lib/completion';
+import { codedError } from './lib/errors';
+import { diffTodoSnapshots, recordTodoEvent, snapshotTodo } from './lib/events';
+import { assertListAccess } from './lib/sharing';
+import { assertTagOwnership, getTodoTagIds, setTodoTagLinks } from './lib/tags';
+import { DUE_DATE_PATTERN } from './lib/todoFields';
+
+/**
+ * Bulk mutations behind the home screen's selection mode
+ * Every id is checked for edit access inside the same transaction as the writes;
+ * ids that fail are reported in the per-item results and skipped, the rest are applied
+ * Each changed todo gets the same history event as the matching single-todo mutation
+ */
+
+/**
+ * Mutation: Complete or Un-complete Several Todos
+ * Todos already in the requested state count as successes without being written
+ * Completing repeating todos spawns their next occurrences, just like toggleTodo
+ */
+export const setTodosCompleted = mutation({
+    args: {
+        ids: v.array(v.id('todos')),
+        isCompleted: v.boolean(),
+        today: v.optional(v.string()), // Device's local "YYYY-MM-DD", as in toggleTodo
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        if (args.today && !DUE_DATE_PATTERN.test(args.today)) {
+            throw codedError('INVALID_INPUT', 'Today must use the YYYY-MM-DD format');
+        }
+
+        try {
+            const { ids, todos, errors } = await loadBulkTodos(ctx.db, args.ids, userId);
+
+            for (const todo of todos) {
+                if (todo.isCompleted === args.isCompleted) continue;
+                await setTodoCompletion(ctx.db, todo, args.isCompleted, { today: args.today, completedBy: userId });
+            }
+
+            return summarizeBulk(ids, errors);
+        } catch (error) {
+            console.error('Error bulk updating todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to update todos');
+        }
+    },
+});
+
+/**
+ * Mutation: Move Several Todos to the Trash
+ * All todos share one deletedAt, so the Undo snackbar can restore them together
+ */
+export const deleteTodos = mutation({
+    args: {
+        ids: v.array(v.id('todos')),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const { ids, todos, errors } = await loadBulkTodos(ctx.db, args.ids, userId);
+
+            const deletedAt = Date.now();
+            for (const todo of todos) {
+                await ctx.db.patch(todo._id, { deletedAt });
+                await recordTodoEvent(ctx.db, todo, 'deleted', [], deletedAt);
+            }
+
+            return { ...summarizeBulk(ids, errors), deletedAt };
+        } catch (error) {
+            console.error('Error bulk deleting todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to delete todos');
+        }
+    },
+});
+
+/**
+ * Mutation: Move Several Todos Into a List
+ * listId null takes the todos out of any list; the user must be able to edit the target list
+ * Only a todo's creator can move it, so nobody pulls someone else's todo out of a shared list
+ */
+export const moveTodos = mutation({
+    args: {
+        ids: v.array(v.id('todos')),
+        listId: v.union(v.id('lists'), v.null()),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            if (args.listId) {
+                await assertListAccess(ctx.db, args.listId, userId, 'edit');
+            }
+
+            const { ids, todos, errors } = await loadBulkTodos(ctx.db, args.ids, userId);
+
+            const listId = args.listId ?? undefined;
+            for (const todo of todos) {
+                if (todo.listId !== listId) {
+                    if (todo.userId !== userId) {
+                        errors.set(todo._id, 'Not authorized: Only the creator can move this todo');
+                        continue;
+                    }
+                    await ctx.db.patch(todo._id, { listId });
+                    await recordTodoEvent(ctx.db, todo, 'edited', diffTodoSnapshots(snapshotTodo(todo), snapshotTodo({ ...todo, listId })));
+                }
+            }
+
+            return summarizeBulk(ids, errors);
+        } catch (error) {
+            console.error('Error bulk moving todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to move todos');
+        }
+    },
+});
+
+/**
+ * Mutation: Add or Remove Tags on Several Todos
+ * Other tags on each todo are left alone; every tag must belong to the user
+ */
+export const tagTodos = mutation({
+    args: {
+        ids: v.array(v.id('todos')),
+        addTagIds: v.optional(v.array(v.id('tags'))),
+        removeTagIds: v.optional(v.array(v.id('tags'))),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const addTagIds = args.addTagIds ?? [];
+            const removeTagIds = new Set(args.removeTagIds ?? []);
+            await assertTagOwnership(ctx.db, [...addTagIds, ...removeTagIds], userId);
+
+            const { ids, todos, errors } = await loadBulkTodos(ctx.db, args.ids, userId);
+
+            for (const todo of todos) {
+                const previousTagIds = await getTodoTagIds(ctx.db, todo._id);
+                const tagIds = [...previousTagIds, ...addTagIds].filter((tagId) => !removeTagIds.has(tagId));
+
+                const changes = diffTodoSnapshots(snapshotTodo(todo, previousTagIds), snapshotTodo(todo, tagIds));
+                if (changes.length > 0) {
+                    await setTodoTagLinks(ctx.db, todo, tagIds);
+                    await recordTodoEvent(ctx.db, todo, 'edited', changes);
+                }
+            }
+
+            return summarizeBulk(ids, errors);
+        } catch (error) {
+            console.error('Error bulk tagging todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to tag todos');
+        }
+    },
+});
@@ -0,0 +1,151 @@
+import { getAuthSessionId, getAuthUserId } from '@convex-dev/auth/server';
+import { ConvexError, v } from 'convex/values';
+import { internal } from './_generated/api';
+import { httpAction, internalQuery, mutation, query, QueryCtx } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { generateSecretToken } from './lib/codes';
+import { buildTodoExport, formatICalendarExport } from './lib/exports';
+
+// Feed URLs look like https://<deployment>.convex.site/calendar/<token>.ics; http.ts routes the prefix here
+const CALENDAR_FEED_PATH = '/calendar/';
+
+const feedUrl = (token: string) => `${process.env.CONVEX_SITE_URL}${CALENDAR_FEED_PATH}${token}.ics`;
+
+/**
+ * Load the device row for the session making the request
+ */
+const getCurrentDevice = async (ctx: QueryCtx) => {
+    const sessionId = await getAuthSessionId(ctx);
+    return sessionId
+        ? await ctx.db.query('devices').withIndex('by_session', (q) => q.eq('sessionId', sessionId)).unique()
+        : null;
+};
+
+/**
+ * Query: Get This Device's Calendar Feed
+ * The feed's URL, or a null url while the feed is off
+ * Returns null while signed out or before the device is registered
+ */
+export const getCalendarFeed = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return null;
+        }
+
+        try {
+            const device = await getCurrentDevice(ctx);
+            if (!device) {
+                return null;
+            }
+
+            return { url: device.calendarToken ? feedUrl(device.calendarToken) : null };
+        } catch (error) {
+            console.error('Error fetching calendar feed for user:', userId, error);
+            throw new ConvexError('Failed to fetch calendar feed');
+        }
+    },
+});
+
+/**
+ * Mutation: Turn On This Device's Calendar Feed
+ * Creates a new secret URL; calling it again replaces the URL, so anyone holding the old one loses access
+ * The feed goes away with the device when it is unlinked or signs out
+ */
+export const enableCalendarFeed = mutation({
+    args: {},
+    handler: async (ctx) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const device = await getCurrentDevice(ctx);
+            if (!device) {
+                throw new ConvexError('This device is not registered yet');
+            }
+
+            const calendarToken = generateSecretToken();
+            await ctx.db.patch(device._id, { calendarToken });
+
+            return { url: feedUrl(calendarToken) };
+        } catch (error) {
+            console.error('Error enabling calendar feed for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to turn on the calendar feed');
+        }
+    },
+});
+
+/**
+ * Mutation: Turn Off This Device's Calendar Feed
+ * Calendars subscribed to it stop updating
+ */
+export const disableCalendarFeed = mutation({
+    args: {},
+    handler: async (ctx) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const device = await getCurrentDevice(ctx);
+            if (device?.calendarToken) {
+                await ctx.db.patch(device._id, { calendarToken: undefined });
+            }
+            return { success: true };
+        } catch (error) {
+            console.error('Error disabling calendar feed for user:', userId, error);
+            throw new ConvexError('Failed to turn off the calendar feed');
+        }
+    },
+});
+
+/**
+ * Internal Query: Render a Calendar Feed
+ * The account's todos as iCalendar content, or null when no device has this token
+ */
+export const getCalendarFeedContent = internalQuery({
+    args: {
+        token: v.string(),
+    },
+    handler: async (ctx, args): Promise<string | null> => {
+        const device = await ctx.db
+            .query('devices')
+            .withIndex('by_calendar_token', (q) => q.eq('calendarToken', args.token))
+            .unique();
+        if (!device) {
+            return null;
+        }
+
+        const data = await buildTodoExport(ctx.db, device.userId, Date.now());
+        return formatICalendarExport(data);
+    },
+});
+
+/**
+ * HTTP Action: Serve a Calendar Feed
+ * GET /calendar/<token>.ics, polled by calendar apps; the token in the path is the only credential
+ */
+export const serveCalendarFeed = httpAction(async (ctx, request) => {
+    const name = new URL(request.url).pathname.slice(CALENDAR_FEED_PATH.length);
+    const token = name.replace(/\.ics$/, '');
+    if (!/^[0-9a-f]{64}$/.test(token)) {
+        return new Response('Not found', { status: 404 });
+    }
+
+    const content = await ctx.runQuery(internal.calendar.getCalendarFeedContent, { token });
+    if (content === null) {
+        return new Response('Not found', { status: 404 });
+    }
+
+    return new Response(content, {
+        status: 200,
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="todos.ics"',
+            'Cache-Control': 'private, no-store',
+        },
+    });
+});
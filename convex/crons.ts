@@ -0,0 +1,12 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+/**
+ * Scheduled Jobs
+ * Trashed todos are purged once a day after the retention period (TRASH_RETENTION_DAYS, 30 by default)
+ */
+const crons = cronJobs();
+
+crons.daily('purge expired trash', { hourUTC: 3, minuteUTC: 0 }, internal.trash.purgeExpiredTodos);
+
+export default crons;
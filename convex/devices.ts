@@ -0,0 +1,271 @@
+import { getAuthSessionId, getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+import { Id } from './_generated/dataModel';
+// Import Convex server functions to define database operations
+import { internalMutation, mutation, MutationCtx, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { generateCode, normalizeCode } from './lib/codes';
+import { codedError } from './lib/errors';
+
+// Pairing codes are short enough to type and only live for a few minutes
+const PAIRING_CODE_LENGTH = 8;
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+
+const MAX_DEVICE_NAME_LENGTH = 60;
+
+/**
+ * Sign a session out by deleting it along with its refresh tokens
+ * The device's current access token stops being renewed, so it is signed out within the hour
+ * (or right away, since the app signs itself out once its device row is gone)
+ */
+const endSession = async (ctx: MutationCtx, sessionId: Id<'authSessions'>) => {
+    const refreshTokens = await ctx.db
+        .query('authRefreshTokens')
+        .withIndex('sessionId', (q) => q.eq('sessionId', sessionId))
+        .collect();
+    for (const token of refreshTokens) {
+        await ctx.db.delete(token._id);
+    }
+    if (await ctx.db.get(sessionId)) {
+        await ctx.db.delete(sessionId);
+    }
+};
+
+/**
+ * Query: Get the Account's Devices
+ * Returns empty array when signed out (handles loading states)
+ * Most recently seen first; the device making the request is flagged with isCurrent
+ */
+export const getDevices = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return [];
+        }
+
+        try {
+            const sessionId = await getAuthSessionId(ctx);
+            const devices = await ctx.db
+                .query('devices')
+                .withIndex('by_user', (q) => q.eq('userId', userId))
+                .order('desc')
+                .collect();
+
+            return devices.map((device) => ({ ...device, isCurrent: device.sessionId === sessionId }));
+        } catch (error) {
+            console.error('Error fetching devices for user:', userId, error);
+            throw new ConvexError('Failed to fetch devices');
+        }
+    },
+});
+
+/**
+ * Query: Is This Device Still Linked
+ * False once another device unlinked this one, so the app can sign itself out;
+ * null while signed out
+ */
+export const isCurrentDeviceLinked = query({
+    args: {},
+    handler: async (ctx) => {
+        const sessionId = await getAuthSessionId(ctx);
+        if (!sessionId) {
+            return null;
+        }
+
+        const device = await ctx.db
+            .query('devices')
+            .withIndex('by_session', (q) => q.eq('sessionId', sessionId))
+            .unique();
+        return device !== null;
+    },
+});
+
+/**
+ * Mutation: Register the Signed-In Device
+ * Called on every sign-in and app launch; records the installation against the current session
+ * so it shows up in the device list. Signing in again on the same installation reuses its row
+ */
+export const registerDevice = mutation({
+    args: {
+        deviceId: v.string(), // The installation's stored ID
+        name: v.string(),
+        platform: v.string(),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        const sessionId = await getAuthSessionId(ctx);
+        if (!sessionId) {
+            throw codedError('UNAUTHENTICATED', 'You need to be signed in');
+        }
+
+        const name = args.name.trim().slice(0, MAX_DEVICE_NAME_LENGTH) || 'Unknown device';
+        const now = Date.now();
+
+        try {
+            const existing = await ctx.db
+                .query('devices')
+                .withIndex('by_user_device', (q) => q.eq('userId', userId).eq('deviceId', args.deviceId))
+                .unique();
+
+            if (existing) {
+                // A fresh sign-in on the same installation replaces the old session
+                if (existing.sessionId !== sessionId) {
+                    await endSession(ctx, existing.sessionId);
+                }
+                await ctx.db.patch(existing._id, { name, platform: args.platform, sessionId, lastSeenAt: now });
+                return existing._id;
+            }
+
+            return await ctx.db.insert('devices', {
+                userId,
+                deviceId: args.deviceId,
+                name,
+                platform: args.platform,
+                sessionId,
+                linkedAt: now,
+                lastSeenAt: now,
+            });
+        } catch (error) {
+            console.error('Error registering device for user:', userId, error);
+            throw new ConvexError('Failed to register device');
+        }
+    },
+});
+
+/**
+ * Mutation: Forget the Current Device
+ * Called right before signing out, so the device drops off the account's list
+ */
+export const forgetCurrentDevice = mutation({
+    args: {},
+    handler: async (ctx) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const sessionId = await getAuthSessionId(ctx);
+            const device = sessionId
+                ? await ctx.db.query('devices').withIndex('by_session', (q) => q.eq('sessionId', sessionId)).unique()
+                : null;
+            if (device) {
+                await ctx.db.delete(device._id);
+            }
+            return { success: true };
+        } catch (error) {
+            console.error('Error forgetting device for user:', userId, error);
+            throw new ConvexError('Failed to forget device');
+        }
+    },
+});
+
+/**
+ * Mutation: Create a Pairing Code
+ * Returns a one-time code another device can enter on its sign-in screen to join this account
+ * Creating a new code replaces any earlier one that hasn't been used
+ */
+export const createPairingCode = mutation({
+    args: {},
+    handler: async (ctx) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const previous = await ctx.db
+                .query('pairingCodes')
+                .withIndex('by_user', (q) => q.eq('userId', userId))
+                .collect();
+            for (const pairing of previous) {
+                await ctx.db.delete(pairing._id);
+            }
+
+            // Regenerate on the rare collision with another account's live code
+            let code = generateCode(PAIRING_CODE_LENGTH);
+            while (await ctx.db.query('pairingCodes').withIndex('by_code', (q) => q.eq('code', code)).first()) {
+                code = generateCode(PAIRING_CODE_LENGTH);
+            }
+
+            const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+            await ctx.db.insert('pairingCodes', { userId, code, expiresAt });
+
+            return { code, expiresAt };
+        } catch (error) {
+            console.error('Error creating pairing code for user:', userId, error);
+            throw new ConvexError('Failed to create pairing code');
+        }
+    },
+});
+
+/**
+ * Internal Mutation: Redeem a Pairing Code
+ * Used by the "pairing" sign-in provider. Returns the account the code belongs to,
+ * or null when the code is unknown or expired. Codes work once
+ */
+export const redeemPairingCode = internalMutation({
+    args: {
+        code: v.string(),
+    },
+    handler: async (ctx, args): Promise<Id<'users'> | null> => {
+        const code = normalizeCode(args.code);
+        if (code.length !== PAIRING_CODE_LENGTH) {
+            return null;
+        }
+
+        const pairing = await ctx.db
+            .query('pairingCodes')
+            .withIndex('by_code', (q) => q.eq('code', code))
+            .first();
+        if (!pairing) {
+            return null;
+        }
+
+        await ctx.db.delete(pairing._id);
+        return pairing.expiresAt > Date.now() ? pairing.userId : null;
+    },
+});
+
+/**
+ * Mutation: Unlink a Device
+ * Signs the device out and removes it from the list; it needs a password or a new code to come back
+ * The current device can't unlink itself - that's what Sign Out is for
+ */
+export const unlinkDevice = mutation({
+    args: {
+        id: v.id('devices'),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const device = await ctx.db.get(args.id);
+
+            if (!device) {
+                throw codedError('NOT_FOUND', 'Device not found');
+            }
+
+            // Critical security check: Verify the device belongs to the signed-in user
+            if (device.userId !== userId) {
+                throw codedError('FORBIDDEN', 'Not authorized: Device belongs to a different user');
+            }
+
+            if (device.sessionId === await getAuthSessionId(ctx)) {
+                throw codedError('INVALID_INPUT', 'Use Sign Out to remove this device');
+            }
+
+            await endSession(ctx, device.sessionId);
+            await ctx.db.delete(args.id);
+
+            return { success: true, unlinkedDeviceId: args.id };
+        } catch (error) {
+            console.error('Error unlinking device for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to unlink device');
+        }
+    },
+});
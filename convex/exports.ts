@@ -0,0 +1,53 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+import { ConvexError, v } from 'convex/values';
+import { query } from './_generated/server';
+import { codedError } from './lib/errors';
+import { buildTodoExport, EXPORT_FILE_TYPES, formatTodoExport } from './lib/exports';
+import { DUE_DATE_PATTERN } from './lib/todoFields';
+import { exportFormatValidator } from './schema';
+
+/**
+ * Query: Export the User's Data
+ * Renders the user's lists, tags and todos (with their checklists) as a file in the given format
+ * The app hands the result to the share sheet, or downloads it on web
+ * today names the file after the device's local date, and utcOffsetMinutes puts todo.txt dates on its days
+ * Returns null while signed out
+ */
+export const exportTodos = query({
+    args: {
+        format: exportFormatValidator,
+        today: v.string(),
+        utcOffsetMinutes: v.number(),     // Device offset from UTC, e.g. 120 for UTC+2
+    },
+    handler: async (ctx, args) => {
+        if (!DUE_DATE_PATTERN.test(args.today)) {
+            throw codedError('INVALID_INPUT', 'Today must use the YYYY-MM-DD format');
+        }
+        if (!Number.isInteger(args.utcOffsetMinutes) || Math.abs(args.utcOffsetMinutes) > 14 * 60) {
+            throw codedError('INVALID_INPUT', 'UTC offset must be a whole number of minutes between -840 and 840');
+        }
+
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return null;
+        }
+
+        try {
+            const data = await buildTodoExport(ctx.db, userId, Date.now());
+            const { extension, mimeType } = EXPORT_FILE_TYPES[args.format];
+
+            return {
+                filename: `todos-${args.today}.${extension}`,
+                mimeType,
+                content: formatTodoExport(data, args.format, args.utcOffsetMinutes),
+                todoCount: data.todos.length,
+            };
+        } catch (error) {
+            console.error('Error exporting todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to export todos');
+        }
+    },
+});
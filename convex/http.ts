@@ -0,0 +1,17 @@
+import { httpRouter } from 'convex/server';
+import { auth } from './auth';
+import { serveCalendarFeed } from './calendar';
+
+const http = httpRouter();
+
+// Sign-in endpoints and the JWKS used to verify session tokens
+auth.addHttpRoutes(http);
+
+// Calendar feeds, one secret URL per device: /calendar/<token>.ics
+http.route({
+    pathPrefix: '/calendar/',
+    method: 'GET',
+    handler: serveCalendarFeed,
+});
+
+export default http;
@@ -0,0 +1,178 @@
+// Import Convex utilities for database operations and input validation
+import { ConvexError, Infer, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { Id } from './_generated/dataModel';
+import { DatabaseWriter, mutation } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { codedError } from './lib/errors';
+import { diffTodoSnapshots, recordTodoEvent, snapshotTodo } from './lib/events';
+import { COLOR_PATTERN, validateListFields } from './lib/lists';
+import { rankBetween, rankForNewTodo } from './lib/rank';
+import { normalizeTagName, setTodoTagLinks } from './lib/tags';
+import { validateDueFields, validateMetadata, validateRecurrence, validateReminder, validateTodoText } from './lib/todoFields';
+import { MAX_IMPORT_ROWS, priorityValidator, reminderValidator, todoMetadataValidator } from './schema';
+
+// Style for lists and tags an import creates without one of its own
+const DEFAULT_IMPORT_COLOR = '#3b82f6';
+const DEFAULT_IMPORT_ICON = 'list';
+
+/**
+ * One todo to import, as parsed by the app from a JSON, CSV, Markdown, todo.txt or plain text file
+ * Lists and tags are given by name, so they match existing ones or are created on the way
+ */
+const importRowValidator = v.object({
+    text: v.string(),
+    isCompleted: v.optional(v.boolean()),
+    dueDate: v.optional(v.string()),
+    dueTime: v.optional(v.string()),
+    reminder: v.optional(reminderValidator),
+    priority: v.optional(priorityValidator),
+    recurrence: v.optional(v.string()),
+    list: v.optional(v.object({ name: v.string(), color: v.optional(v.string()), icon: v.optional(v.string()) })),
+    tags: v.optional(v.array(v.object({ name: v.string(), color: v.optional(v.string()) }))),
+    subtasks: v.optional(v.array(v.object({ text: v.string(), isCompleted: v.boolean() }))),
+    metadata: v.optional(todoMetadataValidator),
+});
+
+type ImportRow = Infer<typeof importRowValidator>;
+
+/**
+ * Validate every field of a row before anything is written, so a rejected row leaves no trace
+ * Returns the cleaned values; throws a ConvexError naming the first problem
+ */
+const prepareRow = (row: ImportRow) => {
+    const text = validateTodoText(row.text);
+    validateDueFields(row.dueDate, row.dueTime);
+    validateReminder(row.reminder, row.dueDate);
+    const recurrence = validateRecurrence(row.recurrence, row.dueDate);
+    validateMetadata(row.metadata);
+
+    const listColor = row.list?.color && COLOR_PATTERN.test(row.list.color) ? row.list.color : DEFAULT_IMPORT_COLOR;
+    const listIcon = row.list?.icon?.trim() || DEFAULT_IMPORT_ICON;
+    const list = row.list && { name: validateListFields(row.list.name, listColor, listIcon), color: listColor, icon: listIcon };
+
+    const tags = (row.tags ?? []).map((tag) => ({
+        name: normalizeTagName(tag.name),
+        color: tag.color && COLOR_PATTERN.test(tag.color) ? tag.color : DEFAULT_IMPORT_COLOR,
+    }));
+
+    const subtasks = (row.subtasks ?? []).map((subtask) => ({
+        text: validateTodoText(subtask.text),
+        isCompleted: subtask.isCompleted,
+    }));
+
+    return { text, recurrence, list, tags, subtasks };
+};
+
+/**
+ * Find the user's own list or tag by name, creating it the first time an import refers to it
+ * Lookups are cached per import so every row naming "Work" lands in the same list
+ */
+const createNameResolver = (db: DatabaseWriter, userId: Id<'users'>) => {
+    const listIds = new Map<string, Id<'lists'>>();
+    const tagIds = new Map<string, Id<'tags'>>();
+
+    const resolveList = async (list: { name: string; color: string; icon: string }) => {
+        const key = list.name.toLowerCase();
+        if (!listIds.has(key)) {
+            const lists = await db.query('lists').withIndex("by_user", (q) => q.eq("userId", userId)).collect();
+            const existing = lists.find((candidate) => candidate.name.toLowerCase() === key);
+            listIds.set(key, existing?._id ?? await db.insert('lists', { ...list, userId }));
+        }
+        return listIds.get(key)!;
+    };
+
+    const resolveTag = async (tag: { name: string; color: string }) => {
+        if (!tagIds.has(tag.name)) {
+            const existing = await db
+                .query('tags')
+                .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("name", tag.name))
+                .first();
+            tagIds.set(tag.name, existing?._id ?? await db.insert('tags', { ...tag, userId }));
+        }
+        return tagIds.get(tag.name)!;
+    };
+
+    return { resolveList, resolveTag };
+};
+
+/**
+ * Mutation: Import Todos
+ * Adds a batch of parsed rows to the bottom of the user's manual order, in file order
+ * Rows that break the same rules as addTodo (empty or too long text, malformed dates,
+ * reminders or repeat rules, unusable list or tag names) are skipped instead of failing the batch
+ * Lists and tags are matched by name among the user's own, and created when missing
+ * Returns how many rows were inserted and how many skipped
+ */
+export const importTodos = mutation({
+    args: {
+        rows: v.array(importRowValidator),
+    },
+    handler: async (ctx, args) => {
+        if (args.rows.length > MAX_IMPORT_ROWS) {
+            throw codedError('INVALID_INPUT', `An import can have at most ${MAX_IMPORT_ROWS} rows`);
+        }
+
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const { resolveList, resolveTag } = createNameResolver(ctx.db, userId);
+            let rank = await rankForNewTodo(ctx.db, userId, 'bottom');
+            let insertedCount = 0;
+            let skippedCount = 0;
+
+            for (const row of args.rows) {
+                let prepared;
+                try {
+                    prepared = prepareRow(row);
+                } catch (error) {
+                    if (!(error instanceof ConvexError)) throw error;
+                    skippedCount++;
+                    continue;
+                }
+
+                const listId = prepared.list ? await resolveList(prepared.list) : undefined;
+                const tagIds: Id<'tags'>[] = [];
+                for (const tag of prepared.tags) tagIds.push(await resolveTag(tag));
+
+                const todoId = await ctx.db.insert('todos', {
+                    text: prepared.text,
+                    isCompleted: row.isCompleted ?? false,
+                    userId,
+                    dueDate: row.dueDate,
+                    dueTime: row.dueDate ? row.dueTime : undefined,
+                    reminder: row.reminder,
+                    priority: row.priority === 'none' ? undefined : row.priority,
+                    listId,
+                    recurrence: prepared.recurrence,
+                    rank,
+                    completedBy: row.isCompleted ? userId : undefined,
+                    metadata: row.metadata && Object.keys(row.metadata).length > 0 ? row.metadata : undefined,
+                });
+                rank = rankBetween(rank, undefined);
+
+                for (const [index, subtask] of prepared.subtasks.entries()) {
+                    await ctx.db.insert('subtasks', { todoId, ...subtask, rank: index, userId });
+                }
+
+                const todo = await ctx.db.get(todoId);
+                if (todo) {
+                    if (tagIds.length > 0) {
+                        await setTodoTagLinks(ctx.db, todo, tagIds);
+                    }
+                    await recordTodoEvent(ctx.db, todo, 'created', diffTodoSnapshots({}, snapshotTodo(todo, tagIds)));
+                }
+                insertedCount++;
+            }
+
+            return { insertedCount, skippedCount };
+        } catch (error) {
+            console.error('Error importing todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to import todos');
+        }
+    },
+});
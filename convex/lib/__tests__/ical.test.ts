@@ -0,0 +1,88 @@
+import { formatICalendar, ICalTodo, parseICalendar } from '../ical';
+
+const NOW = Date.UTC(2026, 9, 19, 14, 0);
+
+/**
+ * The content lines of the single VTODO written for a todo, unfolded
+ */
+const vtodoLines = (todo: ICalTodo) => {
+    const lines = formatICalendar([todo], { name: 'Todos', now: NOW }).replace(/\r\n /g, '').split('\r\n');
+    return lines.slice(lines.indexOf('BEGIN:VTODO') + 1, lines.indexOf('END:VTODO'));
+};
+
+const roundTrip = (todo: ICalTodo) =>
+    parseICalendar(formatICalendar([todo], { name: 'Todos', now: NOW })).map((entry) => entry.todo);
+
+describe('formatICalendar', () => {
+    it('writes a DUE for todos that do not repeat', () => {
+        expect(vtodoLines({ text: 'Pay rent', isCompleted: false, tags: [], dueDate: '2026-10-20' }))
+            .toContain('DUE;VALUE=DATE:20261020');
+        expect(vtodoLines({ text: 'Call', isCompleted: false, tags: [], dueDate: '2026-10-20', dueTime: '09:30' }))
+            .toContain('DUE:20261020T093000');
+    });
+
+    it.each<[string, Partial<ICalTodo>, string, string]>([
+        ['an all-day todo', { dueDate: '2026-10-20' }, 'DTSTART;VALUE=DATE:20261020', 'RRULE:FREQ=WEEKLY;UNTIL=20261231'],
+        [
+            'a timed todo',
+            { dueDate: '2026-10-20', dueTime: '09:30' },
+            'DTSTART:20261020T093000',
+            'RRULE:FREQ=WEEKLY;UNTIL=20261231T235959',
+        ],
+    ])('anchors a repeating %s with DTSTART instead of DUE, and UNTIL of the same type', (_, fields, start, rule) => {
+        const lines = vtodoLines({ text: 'Review', isCompleted: false, tags: [], recurrence: 'FREQ=WEEKLY;UNTIL=20261231', ...fields });
+        expect(lines).toContain(start);
+        expect(lines).toContain(rule);
+        expect(lines.some((line) => line.startsWith('DUE'))).toBe(false);
+    });
+
+    it('folds long lines at 75 octets', () => {
+        const content = formatICalendar([{ text: 'é'.repeat(100), isCompleted: false, tags: [] }], { name: 'Todos', now: NOW });
+        for (const line of content.split('\r\n')) {
+            expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+        }
+    });
+});
+
+describe('parseICalendar', () => {
+    it.each<[string, ICalTodo]>([
+        ['a plain todo', { text: 'Buy milk', isCompleted: false, tags: [] }],
+        ['a todo due on a day', { text: 'Pay rent', isCompleted: false, tags: ['home'], dueDate: '2026-10-20', priority: 'high' }],
+        ['a todo due at a time', { text: 'Call; then, write', isCompleted: false, tags: [], dueDate: '2026-10-20', dueTime: '09:30' }],
+        [
+            'a repeating all-day todo',
+            { text: 'Review', isCompleted: false, tags: [], dueDate: '2026-10-20', recurrence: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3' },
+        ],
+        [
+            'a repeating timed todo that ends',
+            { text: 'Standup', isCompleted: false, tags: [], dueDate: '2026-10-20', dueTime: '09:30', recurrence: 'FREQ=DAILY;UNTIL=20261231' },
+        ],
+        [
+            'a completed todo',
+            { uid: 'abc', text: 'Done', isCompleted: true, tags: [], createdAt: NOW - 60000, completedAt: NOW },
+        ],
+    ])('reads back %s', (_, todo) => {
+        expect(roundTrip(todo)).toEqual([expect.objectContaining(todo)]);
+    });
+
+    it('takes a due date from DTSTART when there is no DUE, and skips other components', () => {
+        const content = [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT',
+            'SUMMARY:Meeting',
+            'END:VEVENT',
+            'BEGIN:VTODO',
+            'SUMMARY:Plan',
+            'DTSTART;VALUE=DATE:20261022',
+            'BEGIN:VALARM',
+            'DESCRIPTION:Soon',
+            'END:VALARM',
+            'END:VTODO',
+            'END:VCALENDAR',
+        ].join('\r\n');
+
+        expect(parseICalendar(content)).toEqual([
+            { line: 5, todo: { text: 'Plan', isCompleted: false, tags: [], dueDate: '2026-10-22' } },
+        ]);
+    });
+});
@@ -0,0 +1,85 @@
+import { isCurrentRank, rankBetween } from '../rank';
+
+/**
+ * Add `count` todos one after another at the top or bottom, returning the ranks in order
+ */
+const insertAtEnd = (count: number, position: 'top' | 'bottom') => {
+    const ranks: string[] = [];
+    for (let index = 0; index < count; index++) {
+        if (position === 'top') ranks.unshift(rankBetween(undefined, ranks[0]));
+        else ranks.push(rankBetween(ranks.at(-1), undefined));
+    }
+    return ranks;
+};
+
+const expectSorted = (ranks: string[]) => {
+    expect([...ranks].sort()).toEqual(ranks);
+    expect(new Set(ranks).size).toBe(ranks.length);
+};
+
+describe('rankBetween', () => {
+    it('starts an empty order in the middle', () => {
+        expect(rankBetween()).toBe('a0');
+    });
+
+    it.each(['top', 'bottom'] as const)('keeps ranks short when adding to the %s over and over', (position) => {
+        const ranks = insertAtEnd(5000, position);
+        expectSorted(ranks);
+        expect(Math.max(...ranks.map((rank) => rank.length))).toBeLessThanOrEqual(4);
+    });
+
+    it('keeps ranks short when importing rows one after another', () => {
+        let rank = rankBetween();
+        for (let index = 0; index < 20000; index++) rank = rankBetween(rank, undefined);
+        expect(rank.length).toBeLessThanOrEqual(4);
+    });
+
+    it('places a rank strictly between neighbours', () => {
+        const cases: [string, string][] = [
+            ['a0', 'a1'],
+            ['a0', 'a0V'],
+            ['a0V', 'a1'],
+            ['Zz', 'a0'],
+            ['a0', 'b00'],
+            ['az', 'b00'],
+            ['a01', 'a02'],
+            ['a0zzz', 'a1'],
+        ];
+        for (const [lower, upper] of cases) {
+            const rank = rankBetween(lower, upper);
+            expect(rank > lower && rank < upper).toBe(true);
+            expect(isCurrentRank(rank)).toBe(true);
+        }
+    });
+
+    it('keeps the order through random moves', () => {
+        // Deterministic pseudo-random positions
+        let seed = 42;
+        const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+        const ranks = insertAtEnd(50, 'bottom');
+        for (let move = 0; move < 2000; move++) {
+            const index = Math.floor(random() * (ranks.length + 1));
+            ranks.splice(index, 0, rankBetween(ranks[index - 1], ranks[index]));
+        }
+        expectSorted(ranks);
+        expect(ranks.every(isCurrentRank)).toBe(true);
+    });
+
+    it('rejects out-of-order and outdated neighbours', () => {
+        expect(() => rankBetween('a1', 'a0')).toThrow();
+        expect(() => rankBetween('a0', 'a0')).toThrow();
+        expect(() => rankBetween('V', undefined)).toThrow();
+        expect(() => rankBetween(undefined, '0V')).toThrow();
+    });
+});
+
+describe('isCurrentRank', () => {
+    it('accepts integer-and-fraction ranks', () => {
+        expect(['a0', 'a0V', 'Zz', 'b00', 'zzzzzzzzzzzzzzzzzzzzzzzzzzz'].every(isCurrentRank)).toBe(true);
+    });
+
+    it('rejects ranks from the earlier plain-fraction format and malformed ones', () => {
+        expect(['V', 'F', '0V', 'k', 'a', 'a00', 'a0-', ''].some(isCurrentRank)).toBe(false);
+    });
+});
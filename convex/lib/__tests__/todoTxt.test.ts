@@ -0,0 +1,98 @@
+import { formatTodoTxtLine, parseTodoTxt, parseTodoTxtLine, TodoTxtTask } from '../todoTxt';
+import { validateMetadata } from '../todoFields';
+
+const task = (fields: Partial<TodoTxtTask>): TodoTxtTask => ({
+    text: 'Task',
+    isCompleted: false,
+    tags: [],
+    metadata: {},
+    ...fields,
+});
+
+const roundTrip = (fields: Partial<TodoTxtTask>) => parseTodoTxtLine(formatTodoTxtLine(task(fields)));
+
+describe('formatTodoTxtLine', () => {
+    it.each<[string, Partial<TodoTxtTask>, string]>([
+        ['a plain task', {}, 'Task'],
+        ['priority and creation date', { priority: 'high', createdOn: '2026-10-01' }, '(B) 2026-10-01 Task'],
+        [
+            'a completed task',
+            { isCompleted: true, priority: 'urgent', completedOn: '2026-10-19', createdOn: '2026-10-01' },
+            'x 2026-10-19 2026-10-01 Task pri:A',
+        ],
+        [
+            'every field',
+            {
+                list: 'Home chores',
+                tags: ['errand'],
+                dueDate: '2026-10-20',
+                dueTime: '09:30',
+                reminder: { type: 'before', minutes: 30 },
+                recurrence: 'FREQ=WEEKLY;BYDAY=TU',
+                metadata: { id: '42' },
+            },
+            'Task +Home_chores @errand due:2026-10-20 time:0930 remind:30m rrule:FREQ=WEEKLY;BYDAY=TU id:42',
+        ],
+        ['words that read as fields', { text: 'Email +1 @home about due:friday' }, 'Email \\+1 \\@home about \\due:friday'],
+        ['a first word that reads as a date', { text: '2026-10-19 retro notes' }, '\\2026-10-19 retro notes'],
+        ['a list name with underscores', { list: 'my_list two' }, 'Task +my\\_list_two'],
+    ])('writes %s', (_, fields, line) => {
+        expect(formatTodoTxtLine(task(fields))).toBe(line);
+    });
+});
+
+describe('parseTodoTxtLine', () => {
+    it('reads fields from a hand-written line', () => {
+        expect(parseTodoTxtLine('(A) 2026-10-01 Call Mom +Family @phone due:2026-10-20 rec:2w url:https://example.com')).toEqual({
+            text: 'Call Mom url:https://example.com',
+            isCompleted: false,
+            priority: 'urgent',
+            createdOn: '2026-10-01',
+            list: 'Family',
+            tags: ['phone'],
+            dueDate: '2026-10-20',
+            recurrence: 'FREQ=WEEKLY;INTERVAL=2',
+            metadata: {},
+        });
+    });
+
+    it('keeps a time without a due date in metadata', () => {
+        expect(parseTodoTxtLine('Stretch time:0730')).toMatchObject({ dueTime: undefined, metadata: { time: '0730' } });
+    });
+
+    it('leaves backslashes alone in words that need no escaping', () => {
+        expect(parseTodoTxtLine('\\o/ for a\\b')?.text).toBe('\\o/ for a\\b');
+    });
+
+    it('skips blank lines and remembers line numbers', () => {
+        expect(parseTodoTxt('One\n\nTwo\r\n').map(({ line, task }) => [line, task.text])).toEqual([[1, 'One'], [3, 'Two']]);
+    });
+});
+
+describe('todo.txt round trip', () => {
+    it.each<[string, Partial<TodoTxtTask>]>([
+        ['a project-like word', { text: 'Buy +1 cable' }],
+        ['a context-like word', { text: 'Meet @home later', tags: ['work'] }],
+        ['a key:value-like word', { text: 'Set due:friday and id:7 in the form', dueDate: '2026-10-20' }],
+        ['words already starting with a backslash', { text: '\\+x \\\\@y \\o/' }],
+        ['a first word of "x"', { text: 'x marks the spot' }],
+        ['a first word like a priority', { text: '(A) is the grade', priority: 'low' }],
+        ['a first word like a date', { text: '2026-10-19 retro', createdOn: '2026-10-01' }],
+        ['two dates at the start of a completed task', { text: '2026-10-19 2026-10-18 notes', isCompleted: true }],
+        ['a list with underscores and spaces', { list: 'a_b c\\d' }],
+        ['metadata', { metadata: { id: 'abc-1', 'ical-rrule': 'FREQ=HOURLY;INTERVAL=2' } }],
+        ['an "at" reminder', { reminder: { type: 'at', time: '08:00' } }],
+    ])('keeps %s', (_, fields) => {
+        expect(roundTrip(fields)).toEqual(expect.objectContaining(task(fields)));
+    });
+
+    it('keeps any metadata that passes validation', () => {
+        const metadata = { id: 'x', url: 'example.com/a', code: 'A+B@C' };
+        expect(() => validateMetadata(metadata)).not.toThrow();
+        expect(roundTrip({ metadata })?.metadata).toEqual(metadata);
+    });
+
+    it.each(['two words', 'a:b', '/path', ''])('rejects metadata values that cannot be written back: %j', (value) => {
+        expect(() => validateMetadata({ key: value })).toThrow();
+    });
+});
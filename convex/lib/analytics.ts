@@ -0,0 +1,137 @@
+// Bucketing and streak math for the productivity analytics query
+import { Infer } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import { statsRangeValidator } from '../schema';
+
+export type StatsRange = Infer<typeof statsRangeValidator>;
+
+// Days covered by each range, ending with (and including) today
+export const STATS_RANGE_DAYS: Record<StatsRange, number> = {
+    week: 7,
+    month: 30,
+    quarter: 90,
+    year: 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// Calendar days are handled in UTC so arithmetic never crosses a DST boundary
+const toUtc = (day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return Date.UTC(year, month - 1, date);
+};
+
+const fromUtc = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const addDaysToKey = (day: string, days: number) => fromUtc(toUtc(day) + days * DAY_MS);
+
+// Monday-based weekday index, 0 = Monday
+const weekdayIndexOf = (day: string) => (new Date(toUtc(day)).getUTCDay() + 6) % 7;
+
+const weekStartOf = (day: string) => addDaysToKey(day, -weekdayIndexOf(day));
+
+/**
+ * Local calendar day "YYYY-MM-DD" of a timestamp
+ * utcOffsetMinutes is the device's offset from UTC, e.g. 120 for UTC+2
+ */
+export const toLocalDay = (at: number, utcOffsetMinutes: number) => fromUtc(at + utcOffsetMinutes * MINUTE_MS);
+
+/**
+ * Current and longest run of consecutive days with at least one completion
+ * A streak that ended yesterday is still current, since today isn't over yet
+ */
+export const computeStreaks = (days: Set<string>, today: string) => {
+    let longest = 0;
+    let run = 0;
+    let previous: string | undefined;
+    for (const day of [...days].sort()) {
+        run = previous && addDaysToKey(previous, 1) === day ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = day;
+    }
+
+    let current = 0;
+    let day = days.has(today) ? today : addDaysToKey(today, -1);
+    while (days.has(day)) {
+        current++;
+        day = addDaysToKey(day, -1);
+    }
+
+    return { current, longest };
+};
+
+/**
+ * Turn a user's history into the analytics series for a range ending today
+ * Completions come from "completed" events; a todo completed, reopened and completed again
+ * on one day counts once. Only events of todos in the given map are used, which is how the
+ * stats are scoped to a list; only the user's own todos count as created.
+ * Streaks look at the whole history, everything else at the range
+ */
+export const buildProductivityStats = (
+    events: Doc<'todoEvents'>[],
+    todos: Map<Id<'todos'>, { _creationTime: number; isOwn: boolean }>,
+    range: StatsRange,
+    today: string,
+    utcOffsetMinutes: number,
+) => {
+    const rangeDays = STATS_RANGE_DAYS[range];
+    const firstDay = addDaysToKey(today, 1 - rangeDays);
+    const days = Array.from({ length: rangeDays }, (_, index) => ({
+        date: addDaysToKey(firstDay, index),
+        completed: 0,
+        created: 0,
+    }));
+    const dayIndex = new Map(days.map((day, index) => [day.date, index]));
+
+    // Creation times come from the todos themselves so todos older than the history still count
+    for (const todo of todos.values()) {
+        if (!todo.isOwn) continue;
+        const index = dayIndex.get(toLocalDay(todo._creationTime, utcOffsetMinutes));
+        if (index !== undefined) days[index].created++;
+    }
+
+    const weekdays = [0, 0, 0, 0, 0, 0, 0];
+    const completionDays = new Set<string>();
+    const counted = new Set<string>();
+    let durationTotal = 0;
+    let durationCount = 0;
+
+    for (const event of events) {
+        if (event.type !== 'completed') continue;
+        const todo = todos.get(event.todoId);
+        if (!todo) continue;
+
+        const day = toLocalDay(event.at, utcOffsetMinutes);
+        const key = `${event.todoId}:${day}`;
+        if (counted.has(key)) continue;
+        counted.add(key);
+        completionDays.add(day);
+
+        const index = dayIndex.get(day);
+        if (index === undefined) continue;
+        days[index].completed++;
+        weekdays[weekdayIndexOf(day)]++;
+        durationTotal += event.at - todo._creationTime;
+        durationCount++;
+    }
+
+    // Monday-based weeks overlapping the range; the first one may be partial
+    const weeks: { weekStart: string; completed: number }[] = [];
+    for (const day of days) {
+        const weekStart = weekStartOf(day.date);
+        const week = weeks[weeks.length - 1];
+        if (week?.weekStart === weekStart) week.completed += day.completed;
+        else weeks.push({ weekStart, completed: day.completed });
+    }
+
+    return {
+        range,
+        days,
+        weeks,
+        weekdays,
+        streak: computeStreaks(completionDays, today),
+        completedInRange: durationCount,
+        averageCompletionMs: durationCount > 0 ? Math.round(durationTotal / durationCount) : null,
+    };
+};
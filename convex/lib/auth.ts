@@ -0,0 +1,17 @@
+// Identity helpers: every public function resolves the signed-in user through these
+import { getAuthUserId } from '@convex-dev/auth/server';
+import { ConvexError } from 'convex/values';
+import { MutationCtx, QueryCtx } from '../_generated/server';
+import { codedError } from './errors';
+
+/**
+ * Resolve the signed-in user for a function that can't run signed out
+ * Throws a ConvexError when the request carries no valid session
+ */
+export const requireUserId = async (ctx: QueryCtx | MutationCtx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+        throw codedError('UNAUTHENTICATED', 'You need to be signed in');
+    }
+    return userId;
+};
@@ -0,0 +1,58 @@
+// Helpers for the bulk mutations: load every selected todo up front and report per-item outcomes
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader } from '../_generated/server';
+import { codedError } from './errors';
+import { canAccessTodo } from './sharing';
+
+// Upper bound on todos per bulk call, keeping each call well inside one transaction's limits
+export const MAX_BULK_TODOS = 500;
+
+export type BulkItemResult =
+    | { id: Id<'todos'>; ok: true }
+    | { id: Id<'todos'>; ok: false; error: string };
+
+/**
+ * Load the selected todos, verifying each exists outside the trash and the signed-in user may edit it
+ * Todos that fail a check are recorded in errors and left out of todos, so the rest can still be processed
+ */
+export const loadBulkTodos = async (db: DatabaseReader, ids: Id<'todos'>[], userId: Id<'users'>) => {
+    if (ids.length > MAX_BULK_TODOS) {
+        throw codedError('INVALID_INPUT', `Select at most ${MAX_BULK_TODOS} todos at a time`);
+    }
+
+    const uniqueIds = [...new Set(ids)];
+    const todos: Doc<'todos'>[] = [];
+    const errors = new Map<Id<'todos'>, string>();
+
+    for (const id of uniqueIds) {
+        const todo = await db.get(id);
+
+        if (!todo || todo.deletedAt !== undefined) {
+            errors.set(id, 'Todo not found');
+        } else if (!(await canAccessTodo(db, todo, userId, 'edit'))) {
+            // Critical security check: never touch a todo outside the user's own and editable shared lists
+            errors.set(id, 'Not authorized: Todo belongs to a different user');
+        } else {
+            todos.push(todo);
+        }
+    }
+
+    return { ids: uniqueIds, todos, errors };
+};
+
+/**
+ * Build the response of a bulk mutation, with one result per selected id in the order given
+ */
+export const summarizeBulk = (ids: Id<'todos'>[], errors: Map<Id<'todos'>, string>) => {
+    const results: BulkItemResult[] = ids.map((id) => {
+        const error = errors.get(id);
+        return error ? { id, ok: false, error } : { id, ok: true };
+    });
+
+    return {
+        success: errors.size === 0,
+        succeededCount: ids.length - errors.size,
+        failedCount: errors.size,
+        results,
+    };
+};
@@ -0,0 +1,23 @@
+// Short human-typed codes shared by device pairing and list invites, and secret tokens for URLs
+
+// No 0/O or 1/I/L, so a code read off another screen can't be mistyped
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a random code of the given length from the unambiguous alphabet
+ */
+export const generateCode = (length: number) => {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+/**
+ * Normalize a typed code: uppercase, with spaces and dashes removed
+ */
+export const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Generate an unguessable token for URLs that work without signing in, as 64 hex digits
+ */
+export const generateSecretToken = () =>
+    Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, '0')).join('');
@@ -0,0 +1,86 @@
+// Completion logic shared by toggleTodo and the bulk complete mutation
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseWriter } from '../_generated/server';
+import { diffTodoSnapshots, recordTodoEvent, snapshotTodo } from './events';
+import { rankAfter } from './rank';
+import { advanceRecurrence, formatRecurrence, nextOccurrence, parseRecurrence } from './recurrence';
+import { copyTodoRelations } from './todoRelations';
+
+interface CompletionOptions {
+    completeSubtasks?: boolean;   // Also check off every checklist item when completing
+    today?: string;               // Device's local "YYYY-MM-DD", keeps late completions from spawning past dates
+    completedBy?: Id<'users'>;    // Who is checking it off, shown on todos in shared lists
+}
+
+/**
+ * Mark a todo completed or not completed, recording a "completed" or "reopened" event
+ * Completing a repeating todo creates its next occurrence, whose id is returned (null otherwise)
+ * Callers are responsible for checking edit access and the today format first
+ */
+export const setTodoCompletion = async (
+    db: DatabaseWriter,
+    todo: Doc<'todos'>,
+    isCompleted: boolean,
+    options: CompletionOptions = {},
+) => {
+    await db.patch(todo._id, { isCompleted, completedBy: isCompleted ? options.completedBy : undefined });
+
+    // Optionally cascade completion down to the checklist
+    if (isCompleted && options.completeSubtasks) {
+        const subtasks = await db
+            .query('subtasks')
+            .withIndex("by_todo", (q) => q.eq("todoId", todo._id))
+            .collect();
+
+        for (const subtask of subtasks) {
+            if (!subtask.isCompleted) {
+                await db.patch(subtask._id, { isCompleted: true });
+            }
+        }
+    }
+
+    // Completing a repeating todo hands its rule on to a fresh copy due on the next occurrence
+    // The completed todo keeps its history but stops repeating, so un-checking it never spawns twice
+    let nextTodoId: Id<'todos'> | null = null;
+    let recurrence = todo.recurrence;
+    if (isCompleted && !todo.isCompleted && todo.recurrence && todo.dueDate) {
+        const rule = parseRecurrence(todo.recurrence);
+        const nextDueDate = nextOccurrence(rule, todo.dueDate, todo.dueDate, options.today);
+
+        await db.patch(todo._id, { recurrence: undefined });
+        recurrence = undefined;
+
+        if (nextDueDate) {
+            nextTodoId = await db.insert('todos', {
+                text: todo.text,
+                isCompleted: false,
+                userId: todo.userId,
+                dueDate: nextDueDate,
+                dueTime: todo.dueTime,
+                reminder: todo.reminder,
+                priority: todo.priority,
+                listId: todo.listId,
+                recurrence: formatRecurrence(advanceRecurrence(rule)),
+                metadata: todo.metadata,
+                rank: todo.rank && todo.userId ? await rankAfter(db, todo.userId, todo.rank) : undefined,
+            });
+
+            const nextTodo = await db.get(nextTodoId);
+            if (nextTodo) {
+                const tagIds = await copyTodoRelations(db, todo._id, nextTodo);
+                await recordTodoEvent(db, nextTodo, 'created', diffTodoSnapshots({}, snapshotTodo(nextTodo, tagIds)));
+            }
+        }
+    }
+
+    if (isCompleted !== todo.isCompleted) {
+        const changes = diffTodoSnapshots(snapshotTodo(todo), snapshotTodo({ ...todo, isCompleted, recurrence }));
+        if (isCompleted) {
+            await recordTodoEvent(db, todo, 'completed', changes, Date.now(), options.completedBy ?? todo.userId);
+        } else {
+            await recordTodoEvent(db, todo, 'reopened', changes);
+        }
+    }
+
+    return nextTodoId;
+};
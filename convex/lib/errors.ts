@@ -0,0 +1,35 @@
+// Errors the app tells apart by a code in the ConvexError data rather than by their wording
+import { ConvexError, Value } from 'convex/values';
+
+export type ErrorCode =
+    | 'UNAUTHENTICATED'     // No valid session; worth retrying once signed in again
+    | 'NOT_FOUND'           // The record is gone, e.g. deleted on another device
+    | 'FORBIDDEN'           // The user's role does not allow the change
+    | 'INVALID_INPUT';      // The arguments break a validation rule
+
+export type CodedErrorData = {
+    code: ErrorCode;
+    message: string;
+};
+
+/**
+ * Create a ConvexError carrying a code along with its message
+ */
+export const codedError = (code: ErrorCode, message: string) => new ConvexError<CodedErrorData>({ code, message });
+
+/**
+ * The code of a ConvexError thrown through codedError, or undefined for any other error
+ */
+export const getErrorCode = (error: unknown): ErrorCode | undefined => {
+    if (!(error instanceof ConvexError)) return undefined;
+    const data: unknown = error.data;
+    return typeof data === 'object' && data !== null && 'code' in data ? (data as CodedErrorData).code : undefined;
+};
+
+/**
+ * The message of a ConvexError, whether it carries a code or just a string
+ */
+export const getErrorMessage = (error: ConvexError<Value>) => {
+    const data: unknown = error.data;
+    return typeof data === 'object' && data !== null && 'message' in data ? String((data as CodedErrorData).message) : String(data);
+};
@@ -0,0 +1,69 @@
+// History helpers: every mutation that changes a todo records what changed through these
+import { Infer } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader, DatabaseWriter } from '../_generated/server';
+import { todoEventTypeValidator, todoFieldChangeValidator } from '../schema';
+
+export type TodoEventType = Infer<typeof todoEventTypeValidator>;
+export type TodoFieldChange = Infer<typeof todoFieldChangeValidator>;
+
+// Todo fields whose old and new values are recorded, plus the todo's tags
+const TRACKED_FIELDS = ["text", "isCompleted", "dueDate", "dueTime", "reminder", "priority", "listId", "recurrence", "tagIds"] as const;
+
+type TrackedField = typeof TRACKED_FIELDS[number];
+export type TodoSnapshot = Partial<Pick<Doc<'todos'>, Exclude<TrackedField, "tagIds">>> & { tagIds?: Id<'tags'>[] };
+
+/**
+ * Pick the tracked fields of a todo; tags are only part of the snapshot when given
+ * Tag ids are sorted so the same set always encodes the same way
+ */
+export const snapshotTodo = (todo: Doc<'todos'>, tagIds?: Id<'tags'>[]): TodoSnapshot => ({
+    text: todo.text,
+    isCompleted: todo.isCompleted,
+    dueDate: todo.dueDate,
+    dueTime: todo.dueTime,
+    reminder: todo.reminder,
+    priority: todo.priority,
+    listId: todo.listId,
+    recurrence: todo.recurrence,
+    tagIds: tagIds && tagIds.length > 0 ? [...new Set(tagIds)].sort() : undefined,
+});
+
+/**
+ * List the tracked fields that differ between two snapshots, with JSON-encoded old and new values
+ */
+export const diffTodoSnapshots = (before: TodoSnapshot, after: TodoSnapshot): TodoFieldChange[] => {
+    const changes: TodoFieldChange[] = [];
+    for (const field of TRACKED_FIELDS) {
+        const from = before[field] === undefined ? undefined : JSON.stringify(before[field]);
+        const to = after[field] === undefined ? undefined : JSON.stringify(after[field]);
+        if (from !== to) changes.push({ field, from, to });
+    }
+    return changes;
+};
+
+/**
+ * Append an event to a todo's history
+ * Pass the same timestamp as the write it describes where there is one (e.g. deletedAt),
+ * and on "completed" events the user who checked it off, who may not be the owner in a shared list
+ */
+export const recordTodoEvent = async (
+    db: DatabaseWriter,
+    todo: Pick<Doc<'todos'>, '_id' | 'userId'>,
+    type: TodoEventType,
+    changes: TodoFieldChange[] = [],
+    at = Date.now(),
+    actorId?: Id<'users'>,
+) => {
+    await db.insert('todoEvents', { todoId: todo._id, userId: todo.userId, actorId, type, changes, at });
+};
+
+/**
+ * Load a todo's history, newest first
+ */
+export const getTodoEventsFor = async (db: DatabaseReader, todoId: Id<'todos'>) =>
+    await db
+        .query('todoEvents')
+        .withIndex("by_todo", (q) => q.eq("todoId", todoId))
+        .order("desc")
+        .collect();
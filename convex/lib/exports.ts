@@ -0,0 +1,248 @@
+// Builds the user's data export and renders it as JSON, CSV, a Markdown checklist, todo.txt or iCalendar
+import { Infer } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader } from '../_generated/server';
+import { EXPORT_APP_NAME, EXPORT_VERSION, exportFormatValidator, PRIORITY_LEVELS, reminderValidator } from '../schema';
+import { toLocalDay } from './analytics';
+import { formatICalendar } from './ical';
+import { getListRole } from './sharing';
+import { getTagIdsByTodo } from './tags';
+import { formatTodoTxt } from './todoTxt';
+import { sortTodos } from './todoView';
+import { withoutDeleted } from './trash';
+
+export type ExportFormat = Infer<typeof exportFormatValidator>;
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+    json: { extension: 'json', mimeType: 'application/json' },
+    csv: { extension: 'csv', mimeType: 'text/csv' },
+    markdown: { extension: 'md', mimeType: 'text/markdown' },
+    todotxt: { extension: 'txt', mimeType: 'text/plain' },
+    ical: { extension: 'ics', mimeType: 'text/calendar' },
+};
+
+/**
+ * One todo in the JSON export
+ * Lists and tags are referenced by the ids they have in the same export; timestamps are ISO 8601
+ */
+export interface ExportedTodo {
+    id: string;
+    text: string;
+    isCompleted: boolean;
+    createdAt: string;
+    completedAt?: string;       // Last time it was checked off, when it is completed
+    dueDate?: string;
+    dueTime?: string;
+    reminder?: Infer<typeof reminderValidator>;
+    priority: (typeof PRIORITY_LEVELS)[number];
+    listId?: string;
+    tagIds: string[];
+    recurrence?: string;
+    subtasks: { text: string; isCompleted: boolean }[];
+    metadata?: Record<string, string>;  // Extension fields kept from an import
+}
+
+export interface TodoExport {
+    app: typeof EXPORT_APP_NAME;
+    version: typeof EXPORT_VERSION;
+    exportedAt: string;
+    lists: { id: string; name: string; color: string; icon: string }[];
+    tags: { id: string; name: string; color: string }[];
+    todos: ExportedTodo[];      // In the manual order
+}
+
+const toIsoTime = (time: number) => new Date(time).toISOString();
+
+/**
+ * Load when each completed todo was last checked off, from its history
+ */
+const getCompletionTimes = async (db: DatabaseReader, userId: Id<'users'>) => {
+    const events = await db
+        .query('todoEvents')
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+
+    const completedAt = new Map<Id<'todos'>, number>();
+    for (const event of events) {
+        if (event.type === 'completed') completedAt.set(event.todoId, Math.max(event.at, completedAt.get(event.todoId) ?? 0));
+    }
+    return completedAt;
+};
+
+/**
+ * Load everything the user owns into the JSON export shape
+ * Todos in lists shared with the user belong to their creators and are left out, like the trash
+ * The user's own todos in someone else's list bring that list along; in a list they lost access to, they export unlisted
+ */
+export const buildTodoExport = async (db: DatabaseReader, userId: Id<'users'>, exportedAt: number): Promise<TodoExport> => {
+    const lists = await db.query('lists').withIndex("by_user", (q) => q.eq("userId", userId)).collect();
+    const tags = await db.query('tags').withIndex("by_user", (q) => q.eq("userId", userId)).collect();
+    const todos = withoutDeleted(await db.query('todos').withIndex("by_user", (q) => q.eq("userId", userId)).collect());
+
+    const listIds = new Set(lists.map((list) => list._id));
+    for (const todo of todos) {
+        if (!todo.listId || listIds.has(todo.listId)) continue;
+        listIds.add(todo.listId);
+
+        const list = await db.get(todo.listId);
+        if (list && await getListRole(db, list, userId)) lists.push(list);
+    }
+    const exportedListIds = new Set(lists.map((list) => list._id));
+    const subtasks = await db.query('subtasks').withIndex("by_user", (q) => q.eq("userId", userId)).collect();
+
+    const tagIdsByTodo = await getTagIdsByTodo(db, userId);
+    const completedAt = await getCompletionTimes(db, userId);
+
+    const subtasksByTodo = new Map<Id<'todos'>, Doc<'subtasks'>[]>();
+    for (const subtask of subtasks) {
+        subtasksByTodo.set(subtask.todoId, [...(subtasksByTodo.get(subtask.todoId) ?? []), subtask]);
+    }
+
+    return {
+        app: EXPORT_APP_NAME,
+        version: EXPORT_VERSION,
+        exportedAt: toIsoTime(exportedAt),
+        lists: lists.map((list) => ({ id: list._id, name: list.name, color: list.color, icon: list.icon })),
+        tags: tags.map((tag) => ({ id: tag._id, name: tag.name, color: tag.color })),
+        todos: sortTodos(todos, 'manual').map((todo) => {
+            const completedTime = todo.isCompleted ? completedAt.get(todo._id) : undefined;
+            return {
+                id: todo._id,
+                text: todo.text,
+                isCompleted: todo.isCompleted,
+                createdAt: toIsoTime(todo._creationTime),
+                completedAt: completedTime === undefined ? undefined : toIsoTime(completedTime),
+                dueDate: todo.dueDate,
+                dueTime: todo.dueTime,
+                reminder: todo.reminder,
+                priority: todo.priority ?? 'none',
+                listId: todo.listId && exportedListIds.has(todo.listId) ? todo.listId : undefined,
+                tagIds: tagIdsByTodo.get(todo._id) ?? [],
+                recurrence: todo.recurrence,
+                subtasks: (subtasksByTodo.get(todo._id) ?? [])
+                    .sort((a, b) => a.rank - b.rank)
+                    .map((subtask) => ({ text: subtask.text, isCompleted: subtask.isCompleted })),
+                metadata: todo.metadata,
+            };
+        }),
+    };
+};
+
+export const CSV_COLUMNS = [
+    'text', 'completed', 'due_date', 'due_time', 'priority', 'list', 'tags', 'repeat', 'created_at', 'completed_at',
+] as const;
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break (RFC 4180)
+ */
+const toCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * One row per todo; tags are space-separated names, checklists are left out
+ */
+const formatCsv = (data: TodoExport) => {
+    const listNames = new Map(data.lists.map((list) => [list.id, list.name]));
+    const tagNames = new Map(data.tags.map((tag) => [tag.id, tag.name]));
+
+    const rows = data.todos.map((todo) => [
+        todo.text,
+        String(todo.isCompleted),
+        todo.dueDate ?? '',
+        todo.dueTime ?? '',
+        todo.priority,
+        (todo.listId && listNames.get(todo.listId)) ?? '',
+        todo.tagIds.flatMap((tagId) => tagNames.get(tagId) ?? []).join(' '),
+        todo.recurrence ?? '',
+        todo.createdAt,
+        todo.completedAt ?? '',
+    ]);
+
+    return [[...CSV_COLUMNS], ...rows].map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * A checklist with checklist items nested under their todo
+ * Todos without a list come first, then one section per list
+ */
+const formatMarkdown = (data: TodoExport) => {
+    const checklist = (todos: ExportedTodo[]) =>
+        todos.flatMap((todo) => [
+            `- [${todo.isCompleted ? 'x' : ' '}] ${todo.text}`,
+            ...todo.subtasks.map((subtask) => `  - [${subtask.isCompleted ? 'x' : ' '}] ${subtask.text}`),
+        ]);
+
+    const lines = ['# Todos', ''];
+    const unlisted = data.todos.filter((todo) => !todo.listId);
+    if (unlisted.length > 0) lines.push(...checklist(unlisted), '');
+
+    for (const list of [...data.lists].sort((a, b) => a.name.localeCompare(b.name))) {
+        const todos = data.todos.filter((todo) => todo.listId === list.id);
+        if (todos.length > 0) lines.push(`## ${list.name}`, '', ...checklist(todos), '');
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * One todo.txt line per todo, with its list as the project and its tags as contexts
+ * Checklists have no place in todo.txt and are left out; dates are the device's local days
+ */
+const formatTodoTxtExport = (data: TodoExport, utcOffsetMinutes: number) => {
+    const listNames = new Map(data.lists.map((list) => [list.id, list.name]));
+    const tagNames = new Map(data.tags.map((tag) => [tag.id, tag.name]));
+
+    return formatTodoTxt(data.todos.map((todo) => ({
+        text: todo.text,
+        isCompleted: todo.isCompleted,
+        priority: todo.priority,
+        createdOn: toLocalDay(Date.parse(todo.createdAt), utcOffsetMinutes),
+        completedOn: todo.completedAt === undefined ? undefined : toLocalDay(Date.parse(todo.completedAt), utcOffsetMinutes),
+        dueDate: todo.dueDate,
+        dueTime: todo.dueTime,
+        reminder: todo.reminder,
+        recurrence: todo.recurrence,
+        list: todo.listId ? listNames.get(todo.listId) : undefined,
+        tags: todo.tagIds.flatMap((tagId) => tagNames.get(tagId) ?? []),
+        metadata: todo.metadata ?? {},
+    })));
+};
+
+/**
+ * One VTODO per todo, with its tags as categories; lists and checklists are left out
+ * The calendar feed serves the same content
+ */
+export const formatICalendarExport = (data: TodoExport) => {
+    const tagNames = new Map(data.tags.map((tag) => [tag.id, tag.name]));
+
+    return formatICalendar(data.todos.map((todo) => ({
+        uid: `${todo.id}@${EXPORT_APP_NAME}`,
+        text: todo.text,
+        isCompleted: todo.isCompleted,
+        priority: todo.priority,
+        dueDate: todo.dueDate,
+        dueTime: todo.dueTime,
+        recurrence: todo.recurrence,
+        createdAt: Date.parse(todo.createdAt),
+        completedAt: todo.completedAt === undefined ? undefined : Date.parse(todo.completedAt),
+        tags: todo.tagIds.flatMap((tagId) => tagNames.get(tagId) ?? []),
+    })), { name: 'Todos', now: Date.parse(data.exportedAt) });
+};
+
+/**
+ * Render an export in the given format
+ * utcOffsetMinutes is the device's offset from UTC, for formats that write calendar days
+ */
+export const formatTodoExport = (data: TodoExport, format: ExportFormat, utcOffsetMinutes: number) => {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(data, null, 2);
+        case 'csv':
+            return formatCsv(data);
+        case 'markdown':
+            return formatMarkdown(data);
+        case 'todotxt':
+            return formatTodoTxtExport(data, utcOffsetMinutes);
+        case 'ical':
+            return formatICalendarExport(data);
+    }
+};
@@ -0,0 +1,325 @@
+// iCalendar (RFC 5545) VTODO components, for calendar apps
+// Shared by the backend (the .ics export and calendar feed) and the app (.ics import)
+//
+// How todo fields map onto a VTODO:
+//   text             SUMMARY
+//   completed        STATUS:COMPLETED or NEEDS-ACTION, plus COMPLETED with when it was checked off
+//   due date, time   DUE;VALUE=DATE:20261019, or DUE:20261019T093000 in the device's local time
+//   priority         PRIORITY 1 urgent, 3 high, 5 medium, 9 low; read back as 1, 2-4, 5 and 6-9
+//   repeat rule      RRULE, anchored by a DTSTART on the due date that takes the place of DUE,
+//                    since DUE would have to fall after DTSTART; its UNTIL has the same value type
+//   tags             CATEGORIES; categories with other characters are dropped on import
+// Repeat rules the app can't evaluate are kept in metadata as "ical-rrule" on import
+
+import { PRIORITY_LEVELS } from "../schema";
+import { formatRecurrence, parseRecurrence } from "./recurrence";
+
+type Priority = (typeof PRIORITY_LEVELS)[number];
+
+export interface ICalTodo {
+    uid?: string;
+    text: string;
+    isCompleted: boolean;
+    priority?: Priority;
+    dueDate?: string;           // "YYYY-MM-DD"
+    dueTime?: string;           // "HH:mm"
+    recurrence?: string;
+    createdAt?: number;         // Milliseconds since the epoch
+    completedAt?: number;
+    tags: string[];
+    metadata?: Record<string, string>;
+}
+
+interface ICalProperty {
+    name: string;       // Uppercased, without its parameters
+    value: string;
+}
+
+const PRIORITY_VALUES: Record<Exclude<Priority, "none">, number> = {
+    urgent: 1,
+    high: 3,
+    medium: 5,
+    low: 9,
+};
+
+const PRODUCT_ID = "-//todo-app//Todos//EN";
+
+const DATE_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+
+// Categories that can become tags once their spaces are joined with "-"; others are dropped
+const TAG_PATTERN = /^[\p{L}\p{N}_\s-]+$/u;
+
+// Content lines are folded once they reach 75 octets
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const escapeText = (text: string) =>
+    text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (text: string) =>
+    text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+/**
+ * Split a comma-separated list of TEXT values, leaving escaped commas alone
+ */
+const splitTextList = (value: string) => {
+    const items: string[] = [];
+    let item = "";
+    for (let index = 0; index < value.length; index++) {
+        if (value[index] === "\\") {
+            item += value.slice(index, index + 2);
+            index++;
+        } else if (value[index] === ",") {
+            items.push(item);
+            item = "";
+        } else {
+            item += value[index];
+        }
+    }
+    items.push(item);
+    return items.map(unescapeText);
+};
+
+const utf8Length = (char: string) => {
+    const codePoint = char.codePointAt(0) ?? 0;
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line into 75-octet pieces, continuing each on a line starting with a space
+ */
+const foldLine = (line: string) => {
+    const pieces: string[] = [];
+    let piece = "";
+    let octets = 0;
+    for (const char of line) {
+        // Continuation lines spend one octet on their leading space
+        const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + utf8Length(char) > limit) {
+            pieces.push(piece);
+            piece = "";
+            octets = 0;
+        }
+        piece += char;
+        octets += utf8Length(char);
+    }
+    pieces.push(piece);
+    return pieces.join("\r\n ");
+};
+
+const formatUtcDateTime = (time: number) => {
+    const date = new Date(time);
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+        + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+};
+
+/**
+ * A due date as a DATE value, or a floating DATE-TIME when it has a time
+ * Floating times are read in whatever time zone the calendar app is in, like due times in this app
+ */
+const formatDueValue = (dueDate: string, dueTime?: string) => {
+    const day = dueDate.replace(/-/g, "");
+    return dueTime ? `:${day}T${dueTime.replace(":", "")}00` : `;VALUE=DATE:${day}`;
+};
+
+/**
+ * A repeat rule for an RRULE whose DTSTART is written by formatDueValue
+ * UNTIL must have the same value type as DTSTART, so a timed todo's last day becomes its last second
+ */
+const formatRuleValue = (recurrence: string, dueTime?: string) => {
+    const rule = formatRecurrence(parseRecurrence(recurrence));
+    return dueTime ? rule.replace(/UNTIL=(\d{8})/, "UNTIL=$1T235959") : rule;
+};
+
+const priorityFromValue = (value: string): Priority | undefined => {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1 || number > 9) return undefined;
+    return number === 1 ? "urgent" : number <= 4 ? "high" : number === 5 ? "medium" : "low";
+};
+
+/**
+ * Read a DATE or DATE-TIME value as a due date and time
+ * UTC times are converted to the device's time zone; times with a TZID are taken as written
+ */
+const parseDueValue = (value: string): { dueDate: string; dueTime?: string } | undefined => {
+    const date = DATE_VALUE_PATTERN.exec(value);
+    if (date) return { dueDate: `${date[1]}-${date[2]}-${date[3]}` };
+
+    const dateTime = DATE_TIME_VALUE_PATTERN.exec(value);
+    if (!dateTime) return undefined;
+
+    const [, year, month, day, hours, minutes, seconds, utc] = dateTime;
+    if (!utc) return { dueDate: `${year}-${month}-${day}`, dueTime: `${hours}:${minutes}` };
+
+    const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+    return {
+        dueDate: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+        dueTime: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+    };
+};
+
+const parseUtcDateTime = (value: string) => {
+    const match = DATE_TIME_VALUE_PATTERN.exec(value);
+    if (!match) return undefined;
+    const [, year, month, day, hours, minutes, seconds] = match;
+    return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+};
+
+/**
+ * Split a content line into its name and value; parameters such as VALUE=DATE or TZID are dropped,
+ * since values are recognized by their shape
+ * Returns null for lines without a ":" outside quoted parameter values
+ */
+const parseProperty = (line: string): ICalProperty | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let index = 0; index < line.length && colon < 0; index++) {
+        if (line[index] === '"') inQuotes = !inQuotes;
+        else if (line[index] === ":" && !inQuotes) colon = index;
+    }
+    if (colon < 0) return null;
+
+    const name = line.slice(0, colon).split(";")[0];
+    return { name: name.toUpperCase(), value: line.slice(colon + 1) };
+};
+
+/**
+ * Turn the properties of one VTODO into a todo
+ * Todos without a DUE fall back to their DTSTART, which some apps use for the day a task is planned
+ */
+const todoFromProperties = (properties: ICalProperty[]): ICalTodo => {
+    const todo: ICalTodo = { text: "", isCompleted: false, tags: [] };
+    let start: ReturnType<typeof parseDueValue>;
+    let rule: string | undefined;
+
+    for (const { name, value } of properties) {
+        switch (name) {
+            case "UID":
+                todo.uid = value;
+                break;
+            case "SUMMARY":
+                todo.text = unescapeText(value).replace(/\s+/g, " ").trim();
+                break;
+            case "STATUS":
+                if (value.toUpperCase() === "COMPLETED") todo.isCompleted = true;
+                break;
+            case "COMPLETED":
+                todo.isCompleted = true;
+                todo.completedAt = parseUtcDateTime(value);
+                break;
+            case "PERCENT-COMPLETE":
+                if (Number(value) >= 100) todo.isCompleted = true;
+                break;
+            case "DUE":
+                Object.assign(todo, parseDueValue(value));
+                break;
+            case "DTSTART":
+                start = parseDueValue(value);
+                break;
+            case "PRIORITY":
+                todo.priority = priorityFromValue(value);
+                break;
+            case "RRULE":
+                rule = value;
+                break;
+            case "CREATED":
+                todo.createdAt = parseUtcDateTime(value);
+                break;
+            case "CATEGORIES":
+                todo.tags.push(...splitTextList(value).map((tag) => tag.trim()).filter((tag) => TAG_PATTERN.test(tag)));
+                break;
+        }
+    }
+
+    if (!todo.dueDate && start) Object.assign(todo, start);
+
+    if (rule) {
+        try {
+            const recurrence = formatRecurrence(parseRecurrence(rule));
+            if (!todo.dueDate) throw new Error("Repeating todos need a due date");
+            todo.recurrence = recurrence;
+        } catch {
+            todo.metadata = { "ical-rrule": rule };
+        }
+    }
+
+    return todo;
+};
+
+/**
+ * Write todos as an iCalendar object with one VTODO each
+ * now stamps every component, as DTSTAMP requires
+ */
+export const formatICalendar = (todos: ICalTodo[], { name, now }: { name: string; now: number }) => {
+    const stamp = formatUtcDateTime(now);
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        `PRODID:${PRODUCT_ID}`,
+        "CALSCALE:GREGORIAN",
+        `X-WR-CALNAME:${escapeText(name)}`,
+    ];
+
+    for (const todo of todos) {
+        lines.push("BEGIN:VTODO");
+        if (todo.uid) lines.push(`UID:${todo.uid}`);
+        lines.push(`DTSTAMP:${stamp}`);
+        if (todo.createdAt !== undefined) lines.push(`CREATED:${formatUtcDateTime(todo.createdAt)}`);
+        lines.push(`SUMMARY:${escapeText(todo.text)}`);
+        lines.push(`STATUS:${todo.isCompleted ? "COMPLETED" : "NEEDS-ACTION"}`);
+        if (todo.dueDate) {
+            const due = formatDueValue(todo.dueDate, todo.dueTime);
+            lines.push(todo.recurrence ? `DTSTART${due}` : `DUE${due}`);
+        }
+        if (todo.priority && todo.priority !== "none") lines.push(`PRIORITY:${PRIORITY_VALUES[todo.priority]}`);
+        if (todo.recurrence && todo.dueDate) lines.push(`RRULE:${formatRuleValue(todo.recurrence, todo.dueTime)}`);
+        if (todo.tags.length > 0) lines.push(`CATEGORIES:${todo.tags.map(escapeText).join(",")}`);
+        if (todo.isCompleted && todo.completedAt !== undefined) lines.push(`COMPLETED:${formatUtcDateTime(todo.completedAt)}`);
+        lines.push("END:VTODO");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map((line) => `${foldLine(line)}\r\n`).join("");
+};
+
+/**
+ * Read every VTODO in iCalendar content, remembering the line each one starts on
+ * Events, alarms and other components are skipped
+ */
+export const parseICalendar = (content: string) => {
+    // Unfold continuation lines first, keeping the line number where each content line starts
+    const lines: { line: number; text: string }[] = [];
+    content.split(/\r?\n/).forEach((raw, index) => {
+        const previous = lines[lines.length - 1];
+        if ((raw.startsWith(" ") || raw.startsWith("\t")) && previous) previous.text += raw.slice(1);
+        else if (raw.trim()) lines.push({ line: index + 1, text: raw });
+    });
+
+    const todos: { line: number; todo: ICalTodo }[] = [];
+    let current: { line: number; properties: ICalProperty[] } | null = null;
+    let depth = 0; // Components nested inside the current VTODO, such as VALARM
+
+    for (const { line, text } of lines) {
+        const property = parseProperty(text);
+        if (!property) continue;
+        const component = property.value.trim().toUpperCase();
+
+        if (property.name === "BEGIN") {
+            if (!current && component === "VTODO") current = { line, properties: [] };
+            else if (current) depth++;
+        } else if (property.name === "END" && current) {
+            if (depth > 0) {
+                depth--;
+            } else if (component === "VTODO") {
+                todos.push({ line: current.line, todo: todoFromProperties(current.properties) });
+                current = null;
+            }
+        } else if (current && depth === 0) {
+            current.properties.push(property);
+        }
+    }
+
+    return todos;
+};
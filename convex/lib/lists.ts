@@ -0,0 +1,27 @@
+// Shared list helpers used by the lists and imports modules
+import { codedError } from './errors';
+
+// Keep list names short enough to fit in the list switcher
+export const MAX_LIST_NAME_LENGTH = 40;
+export const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Validate list name, color and icon
+ * Returns the trimmed name
+ */
+export const validateListFields = (name: string, color: string, icon: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+        throw codedError('INVALID_INPUT', 'List name cannot be empty');
+    }
+    if (trimmedName.length > MAX_LIST_NAME_LENGTH) {
+        throw codedError('INVALID_INPUT', `List name cannot be longer than ${MAX_LIST_NAME_LENGTH} characters`);
+    }
+    if (!COLOR_PATTERN.test(color)) {
+        throw codedError('INVALID_INPUT', 'List color must be a hex color like #3b82f6');
+    }
+    if (!icon.trim()) {
+        throw codedError('INVALID_INPUT', 'List icon cannot be empty');
+    }
+    return trimmedName;
+};
@@ -0,0 +1,235 @@
+// Lexicographic ranks for the manual todo order
+// A rank is a base-62 string; a todo is moved by giving it a rank between its new neighbours,
+// so a reorder only ever touches the moved document
+// The format follows fractional indexing: a length-prefixed integer part, then an optional fraction
+import { ConvexError } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader, DatabaseWriter } from '../_generated/server';
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = DIGITS[0];
+const LAST_DIGIT = DIGITS[DIGITS.length - 1];
+
+// The lowest integer part; nothing can be placed below a rank that starts with it and has no fraction
+const SMALLEST_INTEGER = 'A' + ZERO.repeat(26);
+
+export type NewTodoPosition = 'top' | 'bottom';
+
+/**
+ * Length of a rank's integer part, encoded by its first character:
+ * "a".."z" are 1 to 26 digits counting up, "Z".."A" are 1 to 26 digits counting down
+ * Returns null for other characters, which only appear in ranks from before this format
+ */
+const integerLength = (head: string) => {
+    if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+    if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+    return null;
+};
+
+/**
+ * Whether a rank has the integer-and-fraction shape; older ranks were plain fractions and get reassigned
+ */
+export const isCurrentRank = (rank: string) => {
+    const length = integerLength(rank[0] ?? '');
+    return length !== null
+        && rank.length >= length
+        && rank !== SMALLEST_INTEGER
+        && [...rank].every((char) => DIGITS.includes(char))
+        && (rank.length === length || !rank.endsWith(ZERO));
+};
+
+const splitRank = (rank: string) => {
+    const length = integerLength(rank[0])!;
+    return { integer: rank.slice(0, length), fraction: rank.slice(length) };
+};
+
+/**
+ * Midpoint between two fractions, where `upper` is null for the end
+ * Fractions never end in "0", so there is always room below any of them
+ */
+const midpoint = (lower: string, upper: string | null): string => {
+    if (upper !== null) {
+        // Keep the shared prefix and recurse on the rest
+        let prefix = 0;
+        while ((lower[prefix] ?? ZERO) === upper[prefix]) prefix += 1;
+        if (prefix > 0) {
+            return upper.slice(0, prefix) + midpoint(lower.slice(prefix), upper.slice(prefix));
+        }
+    }
+
+    const low = lower ? DIGITS.indexOf(lower[0]) : 0;
+    const high = upper !== null ? DIGITS.indexOf(upper[0]) : DIGITS.length;
+
+    if (high - low > 1) {
+        return DIGITS[Math.round((low + high) / 2)];
+    }
+
+    // Adjacent digits: the shorter upper fraction already sits between them
+    if (upper !== null && upper.length > 1) {
+        return upper.slice(0, 1);
+    }
+    return DIGITS[low] + midpoint(lower.slice(1), null);
+};
+
+/**
+ * The next integer part up, growing by a digit when one length runs out; null past the largest
+ */
+const incrementInteger = (integer: string) => {
+    const [head, ...digits] = integer;
+    for (let index = digits.length - 1; index >= 0; index--) {
+        if (digits[index] !== LAST_DIGIT) {
+            digits[index] = DIGITS[DIGITS.indexOf(digits[index]) + 1];
+            return head + digits.join('');
+        }
+        digits[index] = ZERO;
+    }
+
+    if (head === 'z') return null;
+    if (head === 'Z') return 'a' + ZERO;
+    const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+    return nextHead > 'a' ? nextHead + digits.join('') + ZERO : nextHead + digits.slice(1).join('');
+};
+
+/**
+ * The next integer part down, growing by a digit when one length runs out; null below the smallest
+ */
+const decrementInteger = (integer: string) => {
+    const [head, ...digits] = integer;
+    for (let index = digits.length - 1; index >= 0; index--) {
+        if (digits[index] !== ZERO) {
+            digits[index] = DIGITS[DIGITS.indexOf(digits[index]) - 1];
+            return head + digits.join('');
+        }
+        digits[index] = LAST_DIGIT;
+    }
+
+    if (head === 'A') return null;
+    if (head === 'a') return 'Z' + LAST_DIGIT;
+    const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+    return nextHead < 'Z' ? nextHead + digits.join('') + LAST_DIGIT : nextHead + digits.slice(1).join('');
+};
+
+/**
+ * Rank strictly between two ranks; either side may be missing for the start or end of the order
+ * A rank is an integer part whose first character encodes its length, plus an optional fraction.
+ * At either end the integer part counts up or down, so adding to the top or bottom over and over
+ * only adds a character every few thousand todos; only inserts between neighbours grow the fraction
+ */
+export const rankBetween = (lower?: string, upper?: string): string => {
+    for (const rank of [lower, upper]) {
+        if (rank !== undefined && !isCurrentRank(rank)) {
+            throw new ConvexError('Cannot rank next to a todo with an outdated rank');
+        }
+    }
+    if (lower !== undefined && upper !== undefined && lower >= upper) {
+        throw new ConvexError('Cannot rank between out-of-order neighbours');
+    }
+
+    if (lower === undefined && upper === undefined) {
+        return 'a' + ZERO;
+    }
+
+    if (lower === undefined) {
+        const { integer, fraction } = splitRank(upper!);
+        if (integer === SMALLEST_INTEGER) return integer + midpoint('', fraction);
+        if (fraction) return integer;
+        return decrementInteger(integer)!;
+    }
+
+    const { integer, fraction } = splitRank(lower);
+    if (upper === undefined) {
+        return incrementInteger(integer) ?? integer + midpoint(fraction, null);
+    }
+
+    const split = splitRank(upper);
+    if (integer === split.integer) {
+        return integer + midpoint(fraction, split.fraction);
+    }
+    const next = incrementInteger(integer);
+    return next !== null && next < upper ? next : integer + midpoint(fraction, null);
+};
+
+/**
+ * Lowest and highest ranks in use for a user
+ * gt("") skips todos that have not been ranked yet
+ */
+const getRankBounds = async (db: DatabaseReader, userId: Id<'users'>) => {
+    const first = await db
+        .query('todos')
+        .withIndex("by_user_rank", (q) => q.eq("userId", userId).gt("rank", ""))
+        .first();
+    const last = await db
+        .query('todos')
+        .withIndex("by_user_rank", (q) => q.eq("userId", userId).gt("rank", ""))
+        .order("desc")
+        .first();
+    return { first: first?.rank, last: last?.rank };
+};
+
+/**
+ * Rank for a todo added at the top or bottom of the manual order
+ * Outdated ranks at either end are reassigned first, see ensureRanks
+ */
+export const rankForNewTodo = async (db: DatabaseWriter, userId: Id<'users'>, position: NewTodoPosition) => {
+    let { first, last } = await getRankBounds(db, userId);
+    if ((first && !isCurrentRank(first)) || (last && !isCurrentRank(last))) {
+        await ensureRanks(db, userId);
+        ({ first, last } = await getRankBounds(db, userId));
+    }
+    return position === 'top' ? rankBetween(undefined, first) : rankBetween(last, undefined);
+};
+
+/**
+ * Rank directly after an existing rank, before whatever todo currently follows it
+ * Outdated ranks are reassigned first, and `rank` is looked up again on the todo that held it
+ */
+export const rankAfter = async (db: DatabaseWriter, userId: Id<'users'>, rank: string) => {
+    const findNext = (after: string) => db
+        .query('todos')
+        .withIndex("by_user_rank", (q) => q.eq("userId", userId).gt("rank", after))
+        .first();
+
+    let next = await findNext(rank);
+    if (!isCurrentRank(rank) || (next?.rank && !isCurrentRank(next.rank))) {
+        const holder = await db
+            .query('todos')
+            .withIndex("by_user_rank", (q) => q.eq("userId", userId).lte("rank", rank))
+            .order("desc")
+            .first();
+        await ensureRanks(db, userId);
+        const reranked = holder && await db.get(holder._id);
+        if (!reranked?.rank) return rankForNewTodo(db, userId, 'bottom');
+        rank = reranked.rank;
+        next = await findNext(rank);
+    }
+    return rankBetween(rank, next?.rank);
+};
+
+/**
+ * Give every unranked todo for a user a rank after the ranked ones, newest first
+ * Todos created before manual ordering existed are ranked lazily, the first time anything is reordered
+ * Ranks from before the integer-and-fraction format are reassigned the same way, keeping their order
+ * Returns the user's todos with their (possibly new) ranks
+ */
+export const ensureRanks = async (db: DatabaseWriter, userId: Id<'users'>) => {
+    const todos = await db
+        .query('todos')
+        .withIndex("by_user_rank", (q) => q.eq("userId", userId))
+        .collect();
+
+    const unranked = todos.filter((todo) => !todo.rank).sort((a, b) => b._creationTime - a._creationTime);
+    const hasOutdated = todos.some((todo) => todo.rank && !isCurrentRank(todo.rank));
+    if (unranked.length === 0 && !hasOutdated) return todos;
+
+    // With outdated ranks around, every todo is ranked again from the top
+    const ranked: Doc<'todos'>[] = hasOutdated ? [] : todos.filter((todo) => todo.rank);
+    const toRank = hasOutdated ? [...todos.filter((todo) => todo.rank), ...unranked] : unranked;
+
+    let last = ranked.at(-1)?.rank;
+    for (const todo of toRank) {
+        last = rankBetween(last, undefined);
+        await db.patch(todo._id, { rank: last });
+        ranked.push({ ...todo, rank: last });
+    }
+    return ranked;
+};
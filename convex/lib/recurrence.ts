@@ -0,0 +1,277 @@
+// Recurrence rules for repeating todos
+// A practical subset of iCalendar RRULE (RFC 5545) evaluated on "YYYY-MM-DD" calendar days
+// Shared by the backend (rolling todos forward) and the app (editor and "next" hints)
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export interface WeekdayRule {
+    weekday: Weekday;
+    ordinal?: number;   // Monthly only: 1 = first, -1 = last, etc.
+}
+
+export interface RecurrenceRule {
+    freq: Frequency;
+    interval: number;
+    byDay?: WeekdayRule[];
+    byMonthDay?: number[];   // 1..31, or -1..-31 counted from the end of the month
+    count?: number;          // Occurrences left, including the current one
+    until?: string;          // Last allowed day "YYYY-MM-DD"
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Calendar days are handled in UTC so arithmetic never crosses a DST boundary
+const toUtc = (day: string) => {
+    const match = DATE_PATTERN.exec(day);
+    if (!match) throw new Error(`Invalid date: ${day}`);
+    return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+const fromUtc = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Monday-based weekday index, matching WEEKDAYS
+const weekdayIndex = (time: number) => (new Date(time).getUTCDay() + 6) % 7;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE"
+ * Accepts an optional "RRULE:" prefix; throws an Error for unsupported or malformed rules
+ */
+export const parseRecurrence = (value: string): RecurrenceRule => {
+    const body = value.trim().replace(/^RRULE:/i, "");
+    const parts = new Map<string, string>();
+
+    for (const part of body.split(";")) {
+        if (!part) continue;
+        const [key, raw] = part.split("=");
+        if (!key || raw === undefined) throw new Error(`Malformed rule part: ${part}`);
+        parts.set(key.toUpperCase(), raw.toUpperCase());
+    }
+
+    const freq = parts.get("FREQ");
+    if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+        throw new Error("FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY");
+    }
+
+    const rule: RecurrenceRule = { freq, interval: 1 };
+
+    for (const [key, raw] of parts) {
+        switch (key) {
+            case "FREQ":
+                break;
+            case "INTERVAL": {
+                const interval = Number(raw);
+                if (!Number.isInteger(interval) || interval < 1 || interval > 999) {
+                    throw new Error("INTERVAL must be a whole number between 1 and 999");
+                }
+                rule.interval = interval;
+                break;
+            }
+            case "BYDAY":
+                rule.byDay = raw.split(",").map((token) => {
+                    const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token);
+                    if (!match) throw new Error(`Unsupported BYDAY value: ${token}`);
+                    const ordinal = match[1] ? Number(match[1]) : undefined;
+                    if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5 || freq !== "MONTHLY")) {
+                        throw new Error(`Unsupported BYDAY value: ${token}`);
+                    }
+                    return { weekday: match[2] as Weekday, ordinal };
+                });
+                break;
+            case "BYMONTHDAY":
+                rule.byMonthDay = raw.split(",").map((token) => {
+                    const day = Number(token);
+                    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+                        throw new Error(`Unsupported BYMONTHDAY value: ${token}`);
+                    }
+                    return day;
+                });
+                break;
+            case "COUNT": {
+                const count = Number(raw);
+                if (!Number.isInteger(count) || count < 1) throw new Error("COUNT must be a positive whole number");
+                rule.count = count;
+                break;
+            }
+            case "UNTIL": {
+                const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(raw);
+                if (!match) throw new Error("UNTIL must look like 20251231 or 20251231T000000Z");
+                rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+                break;
+            }
+            case "WKST":
+                if (raw !== "MO") throw new Error("Only WKST=MO is supported");
+                break;
+            default:
+                throw new Error(`Unsupported rule part: ${key}`);
+        }
+    }
+
+    if (rule.count !== undefined && rule.until !== undefined) {
+        throw new Error("COUNT and UNTIL cannot be combined");
+    }
+
+    return rule;
+};
+
+/**
+ * Serialize a rule back to its canonical RRULE string (without the "RRULE:" prefix)
+ */
+export const formatRecurrence = (rule: RecurrenceRule) => {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byDay?.length) {
+        parts.push(`BYDAY=${rule.byDay.map((day) => `${day.ordinal ?? ""}${day.weekday}`).join(",")}`);
+    }
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+    return parts.join(";");
+};
+
+/**
+ * Check whether a day belongs to the series that starts at the anchor day
+ */
+const matchesRule = (rule: RecurrenceRule, time: number, anchorTime: number) => {
+    const date = new Date(time);
+    const anchor = new Date(anchorTime);
+    const weekday = WEEKDAYS[weekdayIndex(time)];
+
+    switch (rule.freq) {
+        case "DAILY": {
+            const days = Math.round((time - anchorTime) / DAY_MS);
+            if (days % rule.interval !== 0) return false;
+            return !rule.byDay || rule.byDay.some((day) => day.weekday === weekday);
+        }
+        case "WEEKLY": {
+            // Compare Monday-based week starts so BYDAY days within a week share an interval
+            const weekStart = time - weekdayIndex(time) * DAY_MS;
+            const anchorWeekStart = anchorTime - weekdayIndex(anchorTime) * DAY_MS;
+            const weeks = Math.round((weekStart - anchorWeekStart) / (7 * DAY_MS));
+            if (weeks % rule.interval !== 0) return false;
+            const days = rule.byDay?.map((day) => day.weekday) ?? [WEEKDAYS[weekdayIndex(anchorTime)]];
+            return days.includes(weekday);
+        }
+        case "MONTHLY": {
+            const months = (date.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + date.getUTCMonth() - anchor.getUTCMonth();
+            if (months % rule.interval !== 0) return false;
+
+            const dayOfMonth = date.getUTCDate();
+            const monthLength = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+
+            if (rule.byDay?.length) {
+                return rule.byDay.some((day) => {
+                    if (day.weekday !== weekday) return false;
+                    if (day.ordinal === undefined) return true;
+                    const ordinal = day.ordinal > 0
+                        ? Math.ceil(dayOfMonth / 7)
+                        : -Math.ceil((monthLength - dayOfMonth + 1) / 7);
+                    return ordinal === day.ordinal;
+                });
+            }
+
+            const monthDays = rule.byMonthDay ?? [anchor.getUTCDate()];
+            return monthDays.some((day) => (day > 0 ? day : monthLength + day + 1) === dayOfMonth);
+        }
+        case "YEARLY": {
+            const years = date.getUTCFullYear() - anchor.getUTCFullYear();
+            if (years % rule.interval !== 0) return false;
+            return date.getUTCMonth() === anchor.getUTCMonth() && date.getUTCDate() === anchor.getUTCDate();
+        }
+    }
+};
+
+/**
+ * Find the first occurrence strictly after `after`, and on or after `notBefore` when given
+ * The anchor is the day the series is measured from (usually the todo's current due date)
+ * Returns null when the rule has run out (COUNT reached or UNTIL passed)
+ */
+export const nextOccurrence = (rule: RecurrenceRule, anchor: string, after: string, notBefore?: string) => {
+    // The current occurrence is the last one allowed
+    if (rule.count !== undefined && rule.count <= 1) return null;
+
+    const anchorTime = toUtc(anchor);
+    const start = Math.max(toUtc(after) + DAY_MS, notBefore ? toUtc(notBefore) : 0);
+    const untilTime = rule.until ? toUtc(rule.until) : Infinity;
+
+    // Bounded search: enough to cover any interval of the supported frequencies
+    const searchDays = 366 * 8 * (rule.freq === "YEARLY" ? rule.interval : Math.max(1, Math.ceil(rule.interval / 12)));
+
+    for (let offset = 0; offset <= searchDays; offset++) {
+        const time = start + offset * DAY_MS;
+        if (time > untilTime) return null;
+        if (matchesRule(rule, time, anchorTime)) return fromUtc(time);
+    }
+    return null;
+};
+
+/**
+ * The rule to store on the next occurrence: COUNT counts down by one
+ */
+export const advanceRecurrence = (rule: RecurrenceRule): RecurrenceRule =>
+    rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    MO: "Mon", TU: "Tue", WE: "Wed", TH: "Thu", FR: "Fri", SA: "Sat", SU: "Sun",
+};
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+    DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly", YEARLY: "Yearly",
+};
+
+const FREQUENCY_UNITS: Record<Frequency, string> = {
+    DAILY: "days", WEEKLY: "weeks", MONTHLY: "months", YEARLY: "years",
+};
+
+const ordinalSuffix = (value: number) => {
+    const abs = Math.abs(value);
+    if (abs % 100 >= 11 && abs % 100 <= 13) return `${abs}th`;
+    return `${abs}${["th", "st", "nd", "rd"][abs % 10] ?? "th"}`;
+};
+
+/**
+ * Weekday code ("TU") of a calendar day
+ */
+export const weekdayOf = (day: string) => WEEKDAYS[weekdayIndex(toUtc(day))];
+
+/**
+ * Short weekday name ("Tue") for a weekday code
+ */
+export const weekdayName = (weekday: Weekday) => WEEKDAY_NAMES[weekday];
+
+/**
+ * Human readable summary, e.g. "Every 2 days", "Weekdays" or "Monthly on the 15th"
+ */
+export const describeRecurrence = (rule: RecurrenceRule) => {
+    const every = () => (rule.interval === 1 ? FREQUENCY_LABELS[rule.freq] : `Every ${rule.interval} ${FREQUENCY_UNITS[rule.freq]}`);
+    const days = rule.byDay?.map((day) => day.weekday) ?? [];
+    const isWeekdays = days.length === 5 && ["MO", "TU", "WE", "TH", "FR"].every((day) => days.includes(day as Weekday));
+
+    let summary: string;
+    if (isWeekdays && rule.interval === 1 && (rule.freq === "WEEKLY" || rule.freq === "DAILY")) {
+        summary = "Weekdays";
+    } else if (rule.freq === "WEEKLY" && rule.byDay?.length) {
+        summary = `${every()} on ${rule.byDay.map((day) => WEEKDAY_NAMES[day.weekday]).join(", ")}`;
+    } else if (rule.freq === "MONTHLY" && rule.byDay?.length) {
+        const described = rule.byDay.map((day) =>
+            day.ordinal === undefined
+                ? `every ${WEEKDAY_NAMES[day.weekday]}`
+                : `the ${day.ordinal === -1 ? "last" : ordinalSuffix(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}`
+        );
+        summary = `${every()} on ${described.join(", ")}`;
+    } else if (rule.freq === "MONTHLY" && rule.byMonthDay?.length) {
+        const described = rule.byMonthDay.map((day) => (day === -1 ? "last day" : day < 0 ? `${ordinalSuffix(day)} to last day` : `the ${ordinalSuffix(day)}`));
+        summary = `${every()} on ${described.join(", ")}`;
+    } else {
+        summary = every();
+    }
+
+    if (rule.count !== undefined) summary += `, ${rule.count} occurrence${rule.count === 1 ? "" : "s"} left`;
+    if (rule.until) summary += `, until ${rule.until}`;
+    return summary;
+};
@@ -0,0 +1,209 @@
+// List sharing helpers: member roles, the permission checks todo and list functions go through,
+// and loading todos across every list a user can see
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader } from '../_generated/server';
+import { LIST_ROLES } from '../schema';
+import { codedError } from './errors';
+
+export type ListRole = (typeof LIST_ROLES)[number];
+
+// What a function is about to do with a list, or with the todos in it
+export type ListAccess = 'view' | 'edit' | 'manage';
+
+const ALLOWED_ROLES: Record<ListAccess, ListRole[]> = {
+    view: ['owner', 'editor', 'viewer'],
+    edit: ['owner', 'editor'],
+    manage: ['owner'],
+};
+
+const ACCESS_DENIED_MESSAGES: Record<ListAccess, string> = {
+    view: 'Not authorized: List belongs to a different user',
+    edit: 'Not authorized: You can only view this list',
+    manage: 'Not authorized: Only the list owner can do that',
+};
+
+/**
+ * Look up the user's role on a list: "owner" for its creator, the member role for people
+ * it was shared with, or null when the user has no access
+ */
+export const getListRole = async (db: DatabaseReader, list: Doc<'lists'>, userId: Id<'users'>): Promise<ListRole | null> => {
+    if (list.userId === userId) {
+        return 'owner';
+    }
+
+    const membership = await db
+        .query('listMembers')
+        .withIndex("by_list_user", (q) => q.eq("listId", list._id).eq("userId", userId))
+        .unique();
+    return membership?.role ?? null;
+};
+
+/**
+ * Verify that a list exists and the signed-in user's role allows the given access
+ * Returns the list and the role; queries pass allowMissing so a list deleted elsewhere
+ * reads as empty (null) instead of failing
+ */
+export const assertListAccess = async (
+    db: DatabaseReader,
+    listId: Id<'lists'>,
+    userId: Id<'users'>,
+    access: ListAccess,
+    allowMissing = false,
+) => {
+    const list = await db.get(listId);
+
+    if (!list) {
+        if (allowMissing) return null;
+        throw codedError('NOT_FOUND', 'List not found');
+    }
+
+    const role = await getListRole(db, list, userId);
+    if (!role) {
+        throw codedError('FORBIDDEN', ACCESS_DENIED_MESSAGES.view);
+    }
+    if (!ALLOWED_ROLES[access].includes(role)) {
+        throw codedError('FORBIDDEN', ACCESS_DENIED_MESSAGES[access]);
+    }
+
+    return { list, role };
+};
+
+/**
+ * Check whether the user may view or edit a todo
+ * Todos in a list follow the user's role on that list; todos outside any list are private to their creator
+ */
+export const canAccessTodo = async (db: DatabaseReader, todo: Doc<'todos'>, userId: Id<'users'>, access: 'view' | 'edit') => {
+    const list = todo.listId ? await db.get(todo.listId) : null;
+    if (!list) {
+        return todo.userId === userId;
+    }
+
+    const role = await getListRole(db, list, userId);
+    return role !== null && ALLOWED_ROLES[access].includes(role);
+};
+
+/**
+ * Throwing form of canAccessTodo, used before reading or changing a single todo
+ */
+export const assertTodoAccess = async (db: DatabaseReader, todo: Doc<'todos'>, userId: Id<'users'>, access: 'view' | 'edit') => {
+    if (await canAccessTodo(db, todo, userId, access)) {
+        return;
+    }
+
+    // Viewers get a clearer message than people with no access at all
+    if (access === 'edit' && await canAccessTodo(db, todo, userId, 'view')) {
+        throw codedError('FORBIDDEN', ACCESS_DENIED_MESSAGES.edit);
+    }
+    throw codedError('FORBIDDEN', 'Not authorized: Todo belongs to a different user');
+};
+
+/**
+ * Work out which lists the user can see and who they share them with
+ * accessibleListIds covers owned and joined lists; sharedListIds only those with more than one person;
+ * collaboratorIds is everyone else on those lists
+ */
+export const getSharingContext = async (db: DatabaseReader, userId: Id<'users'>) => {
+    const accessibleListIds = new Set<Id<'lists'>>();
+    const sharedListIds = new Set<Id<'lists'>>();
+    const collaboratorIds = new Set<Id<'users'>>();
+
+    const addMembers = (members: Doc<'listMembers'>[]) => {
+        for (const member of members) {
+            if (member.userId !== userId) collaboratorIds.add(member.userId);
+        }
+    };
+
+    const ownedLists = await db
+        .query('lists')
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+
+    for (const list of ownedLists) {
+        accessibleListIds.add(list._id);
+        const members = await db
+            .query('listMembers')
+            .withIndex("by_list", (q) => q.eq("listId", list._id))
+            .collect();
+        if (members.length > 0) {
+            sharedListIds.add(list._id);
+            addMembers(members);
+        }
+    }
+
+    const memberships = await db
+        .query('listMembers')
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+
+    for (const membership of memberships) {
+        const list = await db.get(membership.listId);
+        if (!list) continue;
+
+        accessibleListIds.add(list._id);
+        sharedListIds.add(list._id);
+        if (list.userId) collaboratorIds.add(list.userId);
+        addMembers(
+            await db
+                .query('listMembers')
+                .withIndex("by_list", (q) => q.eq("listId", list._id))
+                .collect()
+        );
+    }
+
+    return { accessibleListIds, sharedListIds, collaboratorIds: [...collaboratorIds] };
+};
+
+/**
+ * Load every todo the user can see, newest first, trash included (callers filter it)
+ * Scoped to one list when listId is given, returning [] when that list no longer exists;
+ * otherwise the user's own todos plus everything in lists shared with them
+ */
+export const loadAccessibleTodos = async (db: DatabaseReader, userId: Id<'users'>, listId?: Id<'lists'>) => {
+    if (listId) {
+        const access = await assertListAccess(db, listId, userId, 'view', true);
+        if (!access) return [];
+
+        return await db
+            .query('todos')
+            .withIndex("by_list", (q) => q.eq("listId", listId))
+            .order("desc")
+            .collect();
+    }
+
+    const { accessibleListIds, sharedListIds } = await getSharingContext(db, userId);
+
+    // The user's own todos, minus any left behind in a list they were removed from
+    const ownTodos = await db
+        .query('todos')
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+    const todos = ownTodos.filter((todo) => !todo.listId || accessibleListIds.has(todo.listId));
+
+    // Everyone else's todos in shared lists
+    for (const sharedListId of sharedListIds) {
+        const listTodos = await db
+            .query('todos')
+            .withIndex("by_list", (q) => q.eq("listId", sharedListId))
+            .collect();
+        todos.push(...listTodos.filter((todo) => todo.userId !== userId));
+    }
+
+    return todos.sort((a, b) => b._creationTime - a._creationTime);
+};
+
+/**
+ * Name shown for a person on shared todos and in member lists: the part of their email before the "@"
+ */
+export const getDisplayName = (user: Doc<'users'> | null) =>
+    user?.email?.split('@')[0] || user?.name || 'Someone';
+
+/**
+ * Load display names for a set of users, keyed by user id
+ */
+export const getDisplayNames = async (db: DatabaseReader, userIds: Id<'users'>[]) => {
+    const names = new Map<Id<'users'>, string>();
+    for (const userId of new Set(userIds)) {
+        names.set(userId, getDisplayName(await db.get(userId)));
+    }
+    return names;
+};
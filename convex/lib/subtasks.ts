@@ -0,0 +1,23 @@
+// Shared subtask helpers used by the todos and subtasks modules
+import { Id } from '../_generated/dataModel';
+import { DatabaseReader } from '../_generated/server';
+
+export interface SubtaskProgress {
+    total: number;
+    completed: number;
+}
+
+/**
+ * Load checklist progress for one todo
+ */
+export const getSubtaskProgress = async (db: DatabaseReader, todoId: Id<'todos'>): Promise<SubtaskProgress> => {
+    const subtasks = await db
+        .query('subtasks')
+        .withIndex("by_todo", (q) => q.eq("todoId", todoId))
+        .collect();
+
+    return {
+        total: subtasks.length,
+        completed: subtasks.filter((subtask) => subtask.isCompleted).length,
+    };
+};
@@ -0,0 +1,102 @@
+// Shared tag helpers used by the todos and tags modules
+import { ConvexError } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader, DatabaseWriter } from '../_generated/server';
+import { codedError } from './errors';
+
+export const MAX_TAG_NAME_LENGTH = 30;
+const TAG_NAME_PATTERN = /^[\p{L}\p{N}_-]+$/u;
+
+/**
+ * Normalize a tag name: strip a leading "#", trim, lowercase and join words with "-"
+ * Throws a ConvexError when the result is empty, too long or contains unsupported characters
+ */
+export const normalizeTagName = (name: string) => {
+    const normalized = name.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+    if (!normalized) {
+        throw codedError('INVALID_INPUT', 'Tag name cannot be empty');
+    }
+    if (normalized.length > MAX_TAG_NAME_LENGTH) {
+        throw codedError('INVALID_INPUT', `Tag name cannot be longer than ${MAX_TAG_NAME_LENGTH} characters`);
+    }
+    if (!TAG_NAME_PATTERN.test(normalized)) {
+        throw codedError('INVALID_INPUT', 'Tag names may only contain letters, numbers, "-" and "_"');
+    }
+    return normalized;
+};
+
+/**
+ * Verify that every tag exists and belongs to the signed-in user
+ */
+export const assertTagOwnership = async (db: DatabaseReader, tagIds: Id<'tags'>[], userId: Id<'users'>) => {
+    for (const tagId of tagIds) {
+        const tag = await db.get(tagId);
+
+        if (!tag) {
+            throw codedError('NOT_FOUND', 'Tag not found');
+        }
+
+        if (tag.userId !== userId) {
+            throw codedError('FORBIDDEN', 'Not authorized: Tag belongs to a different user');
+        }
+    }
+};
+
+/**
+ * Load every tag link for a user, grouped by todo id
+ */
+export const getTagIdsByTodo = async (db: DatabaseReader, userId: Id<'users'>) => {
+    const links = await db
+        .query('todoTags')
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+
+    const tagIdsByTodo = new Map<Id<'todos'>, Id<'tags'>[]>();
+    for (const link of links) {
+        const tagIds = tagIdsByTodo.get(link.todoId) ?? [];
+        tagIds.push(link.tagId);
+        tagIdsByTodo.set(link.todoId, tagIds);
+    }
+    return tagIdsByTodo;
+};
+
+/**
+ * Load the tag ids linked to one todo
+ */
+export const getTodoTagIds = async (db: DatabaseReader, todoId: Id<'todos'>) => {
+    const links = await db
+        .query('todoTags')
+        .withIndex("by_todo", (q) => q.eq("todoId", todoId))
+        .collect();
+
+    return links.map((link) => link.tagId);
+};
+
+/**
+ * Replace a todo's tags with the given set
+ * Callers are responsible for validating ownership of the todo and tags first
+ */
+export const setTodoTagLinks = async (db: DatabaseWriter, todo: Doc<'todos'>, tagIds: Id<'tags'>[]) => {
+    const existing = await db
+        .query('todoTags')
+        .withIndex("by_todo", (q) => q.eq("todoId", todo._id))
+        .collect();
+
+    const wanted = new Set(tagIds);
+    const kept = new Set<Id<'tags'>>();
+
+    for (const link of existing) {
+        if (wanted.has(link.tagId) && !kept.has(link.tagId)) {
+            kept.add(link.tagId);
+        } else {
+            await db.delete(link._id);
+        }
+    }
+
+    for (const tagId of wanted) {
+        if (!kept.has(tagId)) {
+            await db.insert('todoTags', { todoId: todo._id, tagId, userId: todo.userId });
+        }
+    }
+};
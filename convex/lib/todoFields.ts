@@ -0,0 +1,128 @@
+// Validation of todo fields, shared by every mutation that writes todos
+// The app uses the same rules to check imports before sending them
+import { Infer } from 'convex/values';
+import { reminderValidator } from '../schema';
+import { codedError } from './errors';
+import { formatRecurrence, parseRecurrence } from './recurrence';
+
+// Longest todo text accepted, after trimming
+export const MAX_TODO_TEXT_LENGTH = 200;
+
+// Bounds on the extension fields an import can attach to a todo
+const MAX_METADATA_ENTRIES = 20;
+const MAX_METADATA_VALUE_LENGTH = 200;
+const METADATA_KEY_PATTERN = /^[A-Za-z][\w-]{0,39}$/;
+const METADATA_VALUE_PATTERN = /^[^\s:/][^\s:]*$/;
+
+// Due dates are stored as plain calendar values so the device decides what "today" means
+export const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+export const DUE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Longest supported "before" reminder offset: one week
+const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+/**
+ * Validate an optional due date/time pair
+ * Throws a ConvexError when the values are malformed or a time is given without a date
+ */
+export const validateDueFields = (dueDate?: string | null, dueTime?: string | null) => {
+    if (dueDate && !DUE_DATE_PATTERN.test(dueDate)) {
+        throw codedError('INVALID_INPUT', 'Due date must use the YYYY-MM-DD format');
+    }
+    if (dueTime && !DUE_TIME_PATTERN.test(dueTime)) {
+        throw codedError('INVALID_INPUT', 'Due time must use the HH:mm format');
+    }
+    if (dueTime && !dueDate) {
+        throw codedError('INVALID_INPUT', 'Due time requires a due date');
+    }
+};
+
+/**
+ * Validate an optional reminder against the todo's resulting due date
+ * Relative reminders only make sense for todos that have a due date
+ */
+export const validateReminder = (reminder: Infer<typeof reminderValidator> | undefined, dueDate?: string) => {
+    if (!reminder) return;
+
+    if (reminder.type === 'at' && !DUE_TIME_PATTERN.test(reminder.time)) {
+        throw codedError('INVALID_INPUT', 'Reminder time must use the HH:mm format');
+    }
+
+    if (reminder.type === 'before') {
+        if (!Number.isInteger(reminder.minutes) || reminder.minutes < 0 || reminder.minutes > MAX_REMINDER_MINUTES) {
+            throw codedError('INVALID_INPUT', 'Reminder offset must be between 0 minutes and 7 days');
+        }
+        if (!dueDate) {
+            throw codedError('INVALID_INPUT', 'Reminders relative to the due date require a due date');
+        }
+    }
+};
+
+/**
+ * Validate a recurrence rule and return its canonical RRULE form
+ * Repeating todos are anchored to their due date, so a rule requires one
+ */
+export const validateRecurrence = (recurrence: string | undefined, dueDate?: string) => {
+    if (!recurrence) return undefined;
+
+    if (!dueDate) {
+        throw codedError('INVALID_INPUT', 'Repeating todos require a due date');
+    }
+
+    try {
+        return formatRecurrence(parseRecurrence(recurrence));
+    } catch (error) {
+        throw codedError('INVALID_INPUT', `Invalid repeat rule: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+/**
+ * Why a todo text would be rejected, or null when it is acceptable
+ */
+export const getTodoTextError = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return 'Todo text cannot be empty';
+    }
+    if (trimmed.length > MAX_TODO_TEXT_LENGTH) {
+        return `Todo text cannot be longer than ${MAX_TODO_TEXT_LENGTH} characters`;
+    }
+    return null;
+};
+
+/**
+ * Validate a todo text and return it trimmed
+ * Throws a ConvexError when it is empty or too long
+ */
+export const validateTodoText = (text: string) => {
+    const error = getTodoTextError(text);
+    if (error) {
+        throw codedError('INVALID_INPUT', error);
+    }
+    return text.trim();
+};
+
+/**
+ * Validate imported extension fields
+ * Keys are short identifiers and values single words, so they can be written back as todo.txt
+ * key:value pairs or iCalendar properties
+ */
+export const validateMetadata = (metadata: Record<string, string> | undefined) => {
+    if (!metadata) return;
+
+    const entries = Object.entries(metadata);
+    if (entries.length > MAX_METADATA_ENTRIES) {
+        throw codedError('INVALID_INPUT', `A todo can keep at most ${MAX_METADATA_ENTRIES} extra fields`);
+    }
+    for (const [key, value] of entries) {
+        if (!METADATA_KEY_PATTERN.test(key)) {
+            throw codedError('INVALID_INPUT', `Unsupported extra field name: ${key}`);
+        }
+        if (!METADATA_VALUE_PATTERN.test(value)) {
+            throw codedError('INVALID_INPUT', `Extra field ${key} must be one word, without ":" or a leading "/"`);
+        }
+        if (value.length > MAX_METADATA_VALUE_LENGTH) {
+            throw codedError('INVALID_INPUT', `Extra field ${key} cannot be longer than ${MAX_METADATA_VALUE_LENGTH} characters`);
+        }
+    }
+};
@@ -0,0 +1,91 @@
+// Helpers that keep rows related to a todo consistent with the todo itself
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader, DatabaseWriter } from '../_generated/server';
+import { getDisplayNames, getSharingContext } from './sharing';
+import { getSubtaskProgress } from './subtasks';
+import { getTodoTagIds } from './tags';
+
+/**
+ * Attach tag ids and checklist progress to todos
+ * Related rows are read through the by_todo indexes, for just the todos being returned
+ * Todos in shared lists also get the names of who created and who completed them
+ */
+export const decorateTodos = async (db: DatabaseReader, userId: Id<'users'>, todos: Doc<'todos'>[]) => {
+    const { sharedListIds } = await getSharingContext(db, userId);
+    const isShared = (todo: Doc<'todos'>) => !!todo.listId && sharedListIds.has(todo.listId);
+
+    const names = await getDisplayNames(
+        db,
+        todos.filter(isShared).flatMap((todo) => [todo.userId, todo.completedBy].filter((id) => id !== undefined)),
+    );
+    const nameOf = (id?: Id<'users'>) => (id ? names.get(id) ?? 'Someone' : undefined);
+
+    const decorated = [];
+    for (const todo of todos) {
+        decorated.push({
+            ...todo,
+            tagIds: await getTodoTagIds(db, todo._id),
+            subtaskProgress: await getSubtaskProgress(db, todo._id),
+            createdByName: isShared(todo) ? nameOf(todo.userId) : undefined,
+            completedByName: isShared(todo) && todo.isCompleted ? nameOf(todo.completedBy) : undefined,
+        });
+    }
+    return decorated;
+};
+
+/**
+ * Delete the rows that hang off a todo (tag links and subtasks)
+ * Must be called before the todo itself is deleted; its history is kept for the productivity stats
+ */
+export const deleteTodoRelations = async (db: DatabaseWriter, todoId: Id<'todos'>) => {
+    const links = await db
+        .query('todoTags')
+        .withIndex("by_todo", (q) => q.eq("todoId", todoId))
+        .collect();
+
+    for (const link of links) {
+        await db.delete(link._id);
+    }
+
+    const subtasks = await db
+        .query('subtasks')
+        .withIndex("by_todo", (q) => q.eq("todoId", todoId))
+        .collect();
+
+    for (const subtask of subtasks) {
+        await db.delete(subtask._id);
+    }
+};
+
+/**
+ * Copy tag links and the checklist from one todo onto another
+ * Used when a repeating todo spawns its next occurrence; copied subtasks start unchecked
+ * Returns the copied tag ids
+ */
+export const copyTodoRelations = async (db: DatabaseWriter, fromId: Id<'todos'>, to: Doc<'todos'>) => {
+    const links = await db
+        .query('todoTags')
+        .withIndex("by_todo", (q) => q.eq("todoId", fromId))
+        .collect();
+
+    for (const link of links) {
+        await db.insert('todoTags', { todoId: to._id, tagId: link.tagId, userId: to.userId });
+    }
+
+    const subtasks = await db
+        .query('subtasks')
+        .withIndex("by_todo", (q) => q.eq("todoId", fromId))
+        .collect();
+
+    for (const subtask of subtasks) {
+        await db.insert('subtasks', {
+            todoId: to._id,
+            text: subtask.text,
+            isCompleted: false,
+            rank: subtask.rank,
+            userId: to.userId,
+        });
+    }
+
+    return links.map((link) => link.tagId);
+};
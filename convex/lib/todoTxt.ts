@@ -0,0 +1,249 @@
+// todo.txt format (https://github.com/todotxt/todo.txt): one task per line
+// Shared by the backend (the todo.txt export) and the app (import and "Copy as todo.txt")
+//
+// How todo fields map onto a line:
+//   completed        "x" and the completion date, followed by the creation date
+//   priority         "(A)" urgent, "(B)" high, "(C)" medium, "(D)" low; completed tasks keep it as "pri:A"
+//   list             "+Project", spaces in the name written as "_"; a literal "_" or "\" is escaped with "\"
+//   tags             "@context"
+//   due date, time   "due:2026-10-19", "time:0930"
+//   reminder         "remind:0900" at a time of day, "remind:30m" minutes before due
+//   repeat rule      "rrule:FREQ=WEEKLY;BYDAY=MO"; "rec:2w"-style rules are read as well
+// Any other key:value pair is kept in metadata and written back unchanged
+// Words of the text that would read as one of the above get a leading "\", which is dropped on import
+
+import { PRIORITY_LEVELS } from "../schema";
+
+type Priority = (typeof PRIORITY_LEVELS)[number];
+
+export type TodoTxtReminder = { type: "at"; time: string } | { type: "before"; minutes: number };
+
+export interface TodoTxtTask {
+    text: string;
+    isCompleted: boolean;
+    priority?: Priority;
+    createdOn?: string;         // "YYYY-MM-DD"
+    completedOn?: string;       // "YYYY-MM-DD", only written together with createdOn
+    dueDate?: string;
+    dueTime?: string;           // "HH:mm"
+    reminder?: TodoTxtReminder;
+    recurrence?: string;
+    list?: string;
+    tags: string[];
+    metadata: Record<string, string>;
+}
+
+const PRIORITY_LETTERS: Record<Exclude<Priority, "none">, string> = {
+    urgent: "A",
+    high: "B",
+    medium: "C",
+    low: "D",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COMPACT_TIME_PATTERN = /^([01]\d|2[0-3])([0-5]\d)$/;
+const PRIORITY_PATTERN = /^\(([A-Z])\)$/;
+
+// key:value extensions; values starting with "/" are left alone so URLs stay part of the text
+const EXTENSION_PATTERN = /^([A-Za-z][\w-]*):([^\s:/][^\s:]*)$/;
+
+// Contexts that can become tags as they are; others stay in the text
+const TAG_PATTERN = /^[\p{L}\p{N}_-]+$/u;
+
+/**
+ * Whether a word would be read as a list, tag or key:value pair, ignoring any leading "\"
+ * The first word of the text is also read as a date or priority, or as "x" at the start of a line
+ */
+const needsEscape = (word: string, isFirst: boolean) => {
+    const bare = word.replace(/^\\+/, "");
+    return (bare.length > 1 && bare.startsWith("+"))
+        || (bare.length > 1 && bare.startsWith("@") && TAG_PATTERN.test(bare.slice(1)))
+        || EXTENSION_PATTERN.test(bare)
+        || (isFirst && (bare === "x" || PRIORITY_PATTERN.test(bare) || DATE_PATTERN.test(bare)));
+};
+
+const escapeText = (text: string) =>
+    text.trim().split(/\s+/).filter(Boolean)
+        .map((word, index) => (needsEscape(word, index === 0) ? `\\${word}` : word))
+        .join(" ");
+
+const escapeListName = (name: string) => name.trim().replace(/[\\_]/g, "\\$&").replace(/\s/g, "_");
+
+const unescapeListName = (value: string) =>
+    value.replace(/\\(.)|_/g, (_, escaped?: string) => escaped ?? " ");
+
+const REC_FREQUENCIES: Record<string, string> = { d: "DAILY", w: "WEEKLY", m: "MONTHLY", y: "YEARLY" };
+
+const toCompactTime = (time: string) => time.replace(":", "");
+
+const fromCompactTime = (value: string) => {
+    const match = COMPACT_TIME_PATTERN.exec(value);
+    return match ? `${match[1]}:${match[2]}` : undefined;
+};
+
+const priorityFromLetter = (letter: string): Priority =>
+    (Object.keys(PRIORITY_LETTERS) as Exclude<Priority, "none">[]).find((level) => PRIORITY_LETTERS[level] === letter)
+    ?? "low"; // E to Z are below everything the app distinguishes
+
+/**
+ * Read a "rec:" value such as "1d", "+2w" or "1b" (business days) as an RRULE
+ */
+const recurrenceFromRec = (value: string) => {
+    const match = /^\+?(\d+)([dwmyb])$/.exec(value);
+    if (!match) return undefined;
+    if (match[2] === "b") return "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR";
+
+    const interval = Number(match[1]);
+    if (interval < 1) return undefined;
+    return `FREQ=${REC_FREQUENCIES[match[2]]}${interval > 1 ? `;INTERVAL=${interval}` : ""}`;
+};
+
+/**
+ * Read a "remind:" value, "0900" for a time of day or "30m" for minutes before due
+ */
+const reminderFromValue = (value: string): TodoTxtReminder | undefined => {
+    const time = fromCompactTime(value);
+    if (time) return { type: "at", time };
+
+    const match = /^(\d+)m$/.exec(value);
+    return match ? { type: "before", minutes: Number(match[1]) } : undefined;
+};
+
+/**
+ * Copy a key:value extension the app has a field for onto the task
+ * Returns false for unknown keys and unreadable values, which the caller keeps in metadata
+ */
+const applyExtension = (task: TodoTxtTask, key: string, value: string) => {
+    switch (key) {
+        case "due":
+            if (!DATE_PATTERN.test(value)) return false;
+            task.dueDate = value;
+            return true;
+        case "time":
+            task.dueTime = fromCompactTime(value);
+            return task.dueTime !== undefined;
+        case "pri":
+            if (!/^[A-Z]$/.test(value)) return false;
+            task.priority = priorityFromLetter(value);
+            return true;
+        case "remind":
+            task.reminder = reminderFromValue(value);
+            return task.reminder !== undefined;
+        case "rrule":
+            task.recurrence = value;
+            return true;
+        case "rec":
+            task.recurrence = recurrenceFromRec(value);
+            return task.recurrence !== undefined;
+        default:
+            return false;
+    }
+};
+
+/**
+ * Write one task as a todo.txt line
+ */
+export const formatTodoTxtLine = (task: TodoTxtTask) => {
+    const parts: string[] = [];
+    const letter = task.priority && task.priority !== "none" ? PRIORITY_LETTERS[task.priority] : undefined;
+
+    if (task.isCompleted) {
+        parts.push("x");
+        if (task.completedOn && task.createdOn) parts.push(task.completedOn, task.createdOn);
+    } else {
+        if (letter) parts.push(`(${letter})`);
+        if (task.createdOn) parts.push(task.createdOn);
+    }
+
+    parts.push(escapeText(task.text));
+    if (task.list) parts.push(`+${escapeListName(task.list)}`);
+    parts.push(...task.tags.map((tag) => `@${tag}`));
+
+    if (task.isCompleted && letter) parts.push(`pri:${letter}`);
+    if (task.dueDate) parts.push(`due:${task.dueDate}`);
+    if (task.dueDate && task.dueTime) parts.push(`time:${toCompactTime(task.dueTime)}`);
+    if (task.reminder) {
+        parts.push(`remind:${task.reminder.type === "at" ? toCompactTime(task.reminder.time) : `${task.reminder.minutes}m`}`);
+    }
+    if (task.recurrence) parts.push(`rrule:${task.recurrence}`);
+    for (const [key, value] of Object.entries(task.metadata)) parts.push(`${key}:${value}`);
+
+    return parts.join(" ");
+};
+
+/**
+ * Write tasks as todo.txt content, one line each
+ */
+export const formatTodoTxt = (tasks: TodoTxtTask[]) => tasks.map((task) => `${formatTodoTxtLine(task)}\n`).join("");
+
+/**
+ * Read one todo.txt line; returns null for a blank line
+ * The first +project becomes the list and every usable @context a tag; other projects and
+ * contexts stay in the text, which is where todo.txt keeps them anyway
+ */
+export const parseTodoTxtLine = (line: string): TodoTxtTask | null => {
+    const tokens = line.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return null;
+
+    const task: TodoTxtTask = { text: "", isCompleted: false, tags: [], metadata: {} };
+
+    if (tokens[0] === "x") {
+        task.isCompleted = true;
+        tokens.shift();
+        if (DATE_PATTERN.test(tokens[0] ?? "")) task.completedOn = tokens.shift();
+    } else {
+        const priority = PRIORITY_PATTERN.exec(tokens[0]);
+        if (priority) {
+            task.priority = priorityFromLetter(priority[1]);
+            tokens.shift();
+        }
+    }
+    if (DATE_PATTERN.test(tokens[0] ?? "")) task.createdOn = tokens.shift();
+
+    const words: string[] = [];
+    for (const token of tokens) {
+        if (token.length > 1 && token.startsWith("+") && task.list === undefined) {
+            task.list = unescapeListName(token.slice(1));
+            continue;
+        }
+        if (token.startsWith("\\") && needsEscape(token, words.length === 0)) {
+            words.push(token.slice(1));
+            continue;
+        }
+        if (token.length > 1 && token.startsWith("@") && TAG_PATTERN.test(token.slice(1))) {
+            task.tags.push(token.slice(1).toLowerCase());
+            continue;
+        }
+
+        const extension = EXTENSION_PATTERN.exec(token);
+        if (!extension) {
+            words.push(token);
+            continue;
+        }
+
+        const [, key, value] = extension;
+        if (!applyExtension(task, key.toLowerCase(), value)) task.metadata[key] = value;
+    }
+
+    // Times and relative reminders only mean something with a due date; without one they are kept as written
+    if (task.dueTime && !task.dueDate) {
+        task.metadata.time = toCompactTime(task.dueTime);
+        task.dueTime = undefined;
+    }
+    if (task.reminder?.type === "before" && !task.dueDate) {
+        task.metadata.remind = `${task.reminder.minutes}m`;
+        task.reminder = undefined;
+    }
+
+    task.text = words.join(" ");
+    return task;
+};
+
+/**
+ * Read todo.txt content, remembering the line each task came from
+ */
+export const parseTodoTxt = (content: string) =>
+    content.split(/\r?\n/).flatMap((line, index) => {
+        const task = parseTodoTxtLine(line);
+        return task ? [{ line: index + 1, task }] : [];
+    });
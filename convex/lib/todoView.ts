@@ -0,0 +1,51 @@
+// Filtering and ordering shared by the todo list queries
+import { Infer } from 'convex/values';
+import { PRIORITY_LEVELS, todoFilterValidator, todoSortValidator } from '../schema';
+
+export type TodoFilter = Infer<typeof todoFilterValidator>;
+export type TodoSort = Infer<typeof todoSortValidator>;
+
+interface SortableTodo {
+    text: string;
+    isCompleted: boolean;
+    dueDate?: string;
+    dueTime?: string;
+    priority?: (typeof PRIORITY_LEVELS)[number];
+    rank?: string;
+    _creationTime: number;
+}
+
+const newestFirst = (a: SortableTodo, b: SortableTodo) => b._creationTime - a._creationTime;
+
+const COMPARATORS: Record<TodoSort, (a: SortableTodo, b: SortableTodo) => number> = {
+    // Hand-arranged order; todos never reordered (and so unranked) follow the ranked ones
+    manual: (a, b) => {
+        if (!a.rank || !b.rank) return Number(!a.rank) - Number(!b.rank);
+        return a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0;
+    },
+    newest: newestFirst,
+    oldest: (a, b) => a._creationTime - b._creationTime,
+    alphabetical: (a, b) => a.text.localeCompare(b.text, undefined, { sensitivity: 'base' }),
+    completedLast: (a, b) => Number(a.isCompleted) - Number(b.isCompleted),
+    // By day, then time of day; untimed todos follow timed ones on the same day, undated todos go last
+    dueDate: (a, b) => {
+        if (!a.dueDate || !b.dueDate) return Number(!a.dueDate) - Number(!b.dueDate);
+        return a.dueDate.localeCompare(b.dueDate) || (a.dueTime ?? '99:99').localeCompare(b.dueTime ?? '99:99');
+    },
+    // Highest priority first
+    priority: (a, b) => PRIORITY_LEVELS.indexOf(b.priority ?? 'none') - PRIORITY_LEVELS.indexOf(a.priority ?? 'none'),
+};
+
+/**
+ * Keep only active or completed todos; "all" (or no filter) keeps everything
+ */
+export const filterTodos = <T extends SortableTodo>(todos: T[], filter: TodoFilter = 'all') => {
+    if (filter === 'all') return todos;
+    return todos.filter((todo) => todo.isCompleted === (filter === 'completed'));
+};
+
+/**
+ * Sort todos by the given order, breaking ties newest first
+ */
+export const sortTodos = <T extends SortableTodo>(todos: T[], sortBy: TodoSort) =>
+    [...todos].sort((a, b) => COMPARATORS[sortBy](a, b) || newestFirst(a, b));
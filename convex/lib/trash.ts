@@ -0,0 +1,63 @@
+// Soft delete helpers shared by the todos, lists and trash modules
+import { Doc, Id } from '../_generated/dataModel';
+import { DatabaseReader, DatabaseWriter } from '../_generated/server';
+import { deleteTodoRelations } from './todoRelations';
+
+// Days a deleted todo stays in the trash unless TRASH_RETENTION_DAYS is set on the deployment
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention period in days, read from the TRASH_RETENTION_DAYS environment variable
+ * Falls back to the default when the variable is missing or not a positive number
+ */
+export const getTrashRetentionDays = () => {
+    const configured = Number(process.env.TRASH_RETENTION_DAYS);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+/**
+ * Time at which a todo deleted at the given time is purged for good
+ */
+export const getPurgeTime = (deletedAt: number, retentionDays = getTrashRetentionDays()) =>
+    deletedAt + retentionDays * DAY_MS;
+
+/**
+ * Todos deleted before this time have outlived the retention period
+ */
+export const getTrashCutoff = (now = Date.now()) => now - getTrashRetentionDays() * DAY_MS;
+
+/**
+ * Drop todos that are in the trash
+ * Every query that lists todos runs its results through this
+ */
+export const withoutDeleted = <T extends Doc<'todos'>>(todos: T[]) =>
+    todos.filter((todo) => todo.deletedAt === undefined);
+
+/**
+ * Load the user's trashed todos, most recently deleted first
+ */
+export const getDeletedTodos = async (db: DatabaseReader, userId: Id<'users'>) =>
+    await db
+        .query('todos')
+        // Missing values sort first, so gte(0) skips todos that are not deleted
+        .withIndex("by_user_deleted", (q) => q.eq("userId", userId).gte("deletedAt", 0))
+        .order("desc")
+        .collect();
+
+/**
+ * Permanently delete a todo along with its tag links and subtasks
+ * Its history stays, with a purgedTodos row standing in for the todo in the productivity stats
+ */
+export const purgeTodo = async (db: DatabaseWriter, todo: Doc<'todos'>) => {
+    await deleteTodoRelations(db, todo._id);
+    await db.insert('purgedTodos', {
+        todoId: todo._id,
+        userId: todo.userId,
+        deviceId: todo.deviceId,
+        listId: todo.listId,
+        createdAt: todo._creationTime,
+    });
+    await db.delete(todo._id);
+};
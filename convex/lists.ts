@@ -0,0 +1,221 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { Doc, Id } from './_generated/dataModel';
+import { mutation, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { codedError } from './lib/errors';
+import { diffTodoSnapshots, recordTodoEvent, snapshotTodo } from './lib/events';
+import { validateListFields } from './lib/lists';
+import { assertListAccess, getListRole, ListRole } from './lib/sharing';
+
+/**
+ * Query: Get User-Specific Lists
+ * Returns empty array when signed out (handles loading states)
+ * Includes lists shared with the user; each list carries the user's role and how many people share it
+ * The user's own lists come first, each group in creation order so the switcher stays stable
+ */
+export const getLists = query({
+    args: {},
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return [];
+        }
+
+        try {
+            const ownedLists = await ctx.db
+                .query('lists')
+                .withIndex("by_user", (q) => q.eq("userId", userId))
+                .collect();
+
+            const memberships = await ctx.db
+                .query('listMembers')
+                .withIndex("by_user", (q) => q.eq("userId", userId))
+                .collect();
+
+            const lists: { list: Doc<'lists'>; role: ListRole }[] = ownedLists.map((list) => ({ list, role: 'owner' }));
+            for (const membership of memberships) {
+                const list = await ctx.db.get(membership.listId);
+                if (list) lists.push({ list, role: membership.role });
+            }
+
+            const result = [];
+            for (const { list, role } of lists) {
+                const members = await ctx.db
+                    .query('listMembers')
+                    .withIndex("by_list", (q) => q.eq("listId", list._id))
+                    .collect();
+                result.push({ ...list, role, memberCount: members.length + 1 });
+            }
+            return result;
+        } catch (error) {
+            console.error('Error fetching lists for user:', userId, error);
+            throw new ConvexError('Failed to fetch lists');
+        }
+    },
+});
+
+/**
+ * Mutation: Add New User-Specific List
+ */
+export const addList = mutation({
+    args: {
+        name: v.string(),
+        color: v.string(),
+        icon: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const name = validateListFields(args.name, args.color, args.icon);
+
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            return await ctx.db.insert('lists', {
+                name,
+                color: args.color,
+                icon: args.icon.trim(),
+                userId,
+            });
+        } catch (error) {
+            console.error('Error adding list for user:', userId, error);
+            throw new ConvexError('Failed to add list');
+        }
+    },
+});
+
+/**
+ * Mutation: Update User's List
+ * Only the list's owner can rename or restyle it
+ */
+export const updateList = mutation({
+    args: {
+        id: v.id('lists'),
+        name: v.string(),
+        color: v.string(),
+        icon: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const name = validateListFields(args.name, args.color, args.icon);
+
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            // Critical security check: Verify the list exists and the user owns it
+            await assertListAccess(ctx.db, args.id, userId, 'manage');
+
+            await ctx.db.patch(args.id, {
+                name,
+                color: args.color,
+                icon: args.icon.trim(),
+            });
+
+            return { success: true, updatedListId: args.id };
+        } catch (error) {
+            console.error('Error updating list for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to update list');
+        }
+    },
+});
+
+/**
+ * Mutation: Delete User's List
+ * The list's todos are either moved (to another list, or out of any list) or moved to the trash
+ * Only the owner can delete a list; they must also be able to edit the move target
+ * Everyone's todos in a shared list go the same way, except that a todo whose creator has no access to the
+ * move target is taken out of any list instead, so it stays visible to them; members and invites are removed
+ */
+export const deleteList = mutation({
+    args: {
+        id: v.id('lists'),
+        todoAction: v.union(v.literal("move"), v.literal("delete")),
+        targetListId: v.optional(v.id('lists')), // Destination for "move"; omitted means no list
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            // Critical security check: Verify the list exists and the user owns it
+            if (!(await ctx.db.get(args.id))) {
+                throw codedError('NOT_FOUND', 'List not found or already deleted');
+            }
+            await assertListAccess(ctx.db, args.id, userId, 'manage');
+
+            // Verify the move target as well, if one was given
+            let targetList: Doc<'lists'> | null = null;
+            if (args.todoAction === 'move' && args.targetListId) {
+                if (args.targetListId === args.id) {
+                    throw codedError('INVALID_INPUT', 'Cannot move todos into the list being deleted');
+                }
+                await assertListAccess(ctx.db, args.targetListId, userId, 'edit');
+                targetList = await ctx.db.get(args.targetListId);
+            }
+
+            // Whether each todo creator can see the move target, looked up once per person
+            const canSeeTarget = new Map<Id<'users'>, boolean>();
+            const targetListIdFor = async (todo: Doc<'todos'>) => {
+                const ownerId = todo.userId;
+                if (!targetList || !ownerId) return targetList?._id;
+                if (!canSeeTarget.has(ownerId)) {
+                    canSeeTarget.set(ownerId, (await getListRole(ctx.db, targetList, ownerId)) !== null);
+                }
+                return canSeeTarget.get(ownerId) ? targetList._id : undefined;
+            };
+
+            const listTodos = await ctx.db
+                .query('todos')
+                .withIndex("by_list", (q) => q.eq("listId", args.id))
+                .collect();
+
+            // Deleted todos go to the trash without the list, which is about to disappear
+            const deletedAt = Date.now();
+            for (const todo of listTodos) {
+                const listId = args.todoAction === 'delete' ? undefined : await targetListIdFor(todo);
+                const changes = diffTodoSnapshots(snapshotTodo(todo), snapshotTodo({ ...todo, listId }));
+                if (args.todoAction === 'delete') {
+                    await ctx.db.patch(todo._id, { listId: undefined, deletedAt: todo.deletedAt ?? deletedAt });
+                    if (todo.deletedAt === undefined) {
+                        await recordTodoEvent(ctx.db, todo, 'deleted', changes, deletedAt);
+                    }
+                } else {
+                    await ctx.db.patch(todo._id, { listId });
+                    await recordTodoEvent(ctx.db, todo, 'edited', changes);
+                }
+            }
+
+            // Sharing goes away with the list
+            const members = await ctx.db
+                .query('listMembers')
+                .withIndex("by_list", (q) => q.eq("listId", args.id))
+                .collect();
+            const invites = await ctx.db
+                .query('listInvites')
+                .withIndex("by_list", (q) => q.eq("listId", args.id))
+                .collect();
+            for (const row of [...members, ...invites]) {
+                await ctx.db.delete(row._id);
+            }
+
+            await ctx.db.delete(args.id);
+
+            return {
+                success: true,
+                deletedListId: args.id,
+                affectedTodoCount: listTodos.length,
+            };
+        } catch (error) {
+            console.error('Error deleting list for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to delete list');
+        }
+    },
+});
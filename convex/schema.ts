@@ -1,10 +1,274 @@
+import { authTables } from '@convex-dev/auth/server';
 import { defineSchema, defineTable } from 'convex/server';
 import { v } from 'convex/values';
 
+/**
+ * Priority Levels
+ * Ordered from lowest to highest; todos without a priority are treated as "none"
+ */
+export const PRIORITY_LEVELS = ["none", "low", "medium", "high", "urgent"] as const;
+
+export const priorityValidator = v.union(
+    v.literal("none"),
+    v.literal("low"),
+    v.literal("medium"),
+    v.literal("high"),
+    v.literal("urgent"),
+);
+
+/**
+ * Reminder Validator
+ * "at" fires at a time of day on the due date (or the creation day for undated todos)
+ * "before" fires a number of minutes before the todo is due
+ */
+export const reminderValidator = v.union(
+    v.object({ type: v.literal("at"), time: v.string() }),          // Time of day "HH:mm"
+    v.object({ type: v.literal("before"), minutes: v.number() }),   // Minutes before the due time
+);
+
+/**
+ * Todo List Views
+ * Status filters and sort orders accepted by the todo list queries
+ */
+export const TODO_FILTERS = ["all", "active", "completed"] as const;
+
+export const todoFilterValidator = v.union(
+    v.literal("all"),
+    v.literal("active"),
+    v.literal("completed"),
+);
+
+export const TODO_SORTS = ["manual", "newest", "oldest", "alphabetical", "completedLast", "dueDate", "priority"] as const;
+
+export const todoSortValidator = v.union(
+    v.literal("manual"),
+    v.literal("newest"),
+    v.literal("oldest"),
+    v.literal("alphabetical"),
+    v.literal("completedLast"),
+    v.literal("dueDate"),
+    v.literal("priority"),
+);
+
+/**
+ * Todo History Events
+ * One entry per change to a todo, written by every mutation that touches one
+ */
+export const TODO_EVENT_TYPES = ["created", "edited", "completed", "reopened", "deleted", "restored"] as const;
+
+export const todoEventTypeValidator = v.union(
+    v.literal("created"),
+    v.literal("edited"),
+    v.literal("completed"),
+    v.literal("reopened"),
+    v.literal("deleted"),
+    v.literal("restored"),
+);
+
+// Old and new value of one field; values are JSON-encoded and missing when the field was unset
+export const todoFieldChangeValidator = v.object({
+    field: v.string(),
+    from: v.optional(v.string()),
+    to: v.optional(v.string()),
+});
+
+/**
+ * Productivity Analytics
+ * Time ranges the charts in Settings can be drawn for
+ */
+export const STATS_RANGES = ["week", "month", "quarter", "year"] as const;
+
+export const statsRangeValidator = v.union(
+    v.literal("week"),
+    v.literal("month"),
+    v.literal("quarter"),
+    v.literal("year"),
+);
+
+/**
+ * Shared List Roles
+ * The owner created the list; editors can add, edit and complete its todos; viewers can only read them
+ * Only editors and viewers are stored as members, the owner is the list's userId
+ */
+export const LIST_ROLES = ["owner", "editor", "viewer"] as const;
+
+export const listMemberRoleValidator = v.union(
+    v.literal("editor"),
+    v.literal("viewer"),
+);
+
+/**
+ * Data Import and Export
+ * JSON is a full, versioned backup; CSV, Markdown, todo.txt and iCalendar are for other tools
+ */
+export const EXPORT_FORMATS = ["json", "csv", "markdown", "todotxt", "ical"] as const;
+
+// Marks a JSON export as one of ours; the version is bumped whenever its shape changes
+export const EXPORT_APP_NAME = "todo-app";
+export const EXPORT_VERSION = 1;
+
+// Rows accepted by one import; the app sends larger files in several batches
+export const MAX_IMPORT_ROWS = 500;
+
+export const exportFormatValidator = v.union(
+    v.literal("json"),
+    v.literal("csv"),
+    v.literal("markdown"),
+    v.literal("todotxt"),
+    v.literal("ical"),
+);
+
+// Extension fields from imported files (e.g. todo.txt key:value pairs), kept so exports can write them back
+export const todoMetadataValidator = v.record(v.string(), v.string());
+
 export default defineSchema({
+    // Users, accounts and sessions managed by Convex Auth
+    ...authTables,
+
     todos: defineTable({
         text: v.string(),        
         isCompleted: v.boolean(), 
-        deviceId: v.string(),   // Required field for todos
-    }).index("by_device", ["deviceId"]),
-});
\ No newline at end of file
+        userId: v.optional(v.id("users")),    // Owner (the creator); missing only on anonymous data not yet claimed by an account
+        deviceId: v.optional(v.string()),       // Anonymous device that created the todo before accounts; cleared once claimed
+        dueDate: v.optional(v.string()),   // Calendar day "YYYY-MM-DD" in the device's local time zone
+        dueTime: v.optional(v.string()),   // Optional time of day "HH:mm", only set together with dueDate
+        reminder: v.optional(reminderValidator), // Optional local notification reminder
+        priority: v.optional(priorityValidator), // Missing means "none"
+        listId: v.optional(v.id("lists")),       // Named list the todo belongs to, if any
+        recurrence: v.optional(v.string()),      // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO,TH"; requires dueDate
+        rank: v.optional(v.string()),            // Lexicographic key for the manual order; older todos are ranked lazily
+        deletedAt: v.optional(v.number()),       // Set when moved to the trash; purged after the retention period
+        completedBy: v.optional(v.id("users")),  // Who checked it off, shown on todos in shared lists
+        clientId: v.optional(v.string()),        // Id given by the offline outbox, so a replayed add isn't inserted twice
+        metadata: v.optional(todoMetadataValidator), // Imported key:value extensions the app has no field for, written back on export
+    })
+        .index("by_user", ["userId"])
+        .index("by_user_due", ["userId", "dueDate"])
+        .index("by_user_list", ["userId", "listId"])
+        .index("by_user_rank", ["userId", "rank"])
+        .index("by_user_deleted", ["userId", "deletedAt"])
+        .index("by_deleted", ["deletedAt"])
+        .index("by_device", ["deviceId"])
+        .index("by_list", ["listId"])
+        .index("by_user_client", ["userId", "clientId"])
+        .searchIndex("search_text", { searchField: "text", filterFields: ["userId", "listId"] }),
+
+    lists: defineTable({
+        name: v.string(),
+        color: v.string(),      // Hex color used for the list chip and icon
+        icon: v.string(),       // Ionicons glyph name
+        userId: v.optional(v.id("users")),  // Owner, same isolation rules as todos
+        deviceId: v.optional(v.string()),   // Anonymous creator, until claimed
+    })
+        .index("by_user", ["userId"])
+        .index("by_device", ["deviceId"]),
+
+    tags: defineTable({
+        name: v.string(),       // Normalized tag name without the leading "#", e.g. "work"
+        color: v.string(),      // Hex color used for tag chips
+        userId: v.optional(v.id("users")),  // Owner
+        deviceId: v.optional(v.string()),   // Anonymous creator, until claimed
+    })
+        .index("by_user", ["userId"])
+        .index("by_user_name", ["userId", "name"])
+        .index("by_device", ["deviceId"]),
+
+    // Checklist items inside a todo, ordered by rank within their parent
+    subtasks: defineTable({
+        todoId: v.id("todos"),
+        text: v.string(),
+        isCompleted: v.boolean(),
+        rank: v.number(),       // Sort position within the parent todo
+        userId: v.optional(v.id("users")),  // Denormalized owner, same isolation rules as todos
+        deviceId: v.optional(v.string()),   // Anonymous creator, until claimed
+    })
+        .index("by_todo", ["todoId", "rank"])
+        .index("by_user", ["userId"])
+        .index("by_device", ["deviceId"]),
+
+    // Join table between todos and tags, so a tag can be renamed or recolored in one place
+    todoTags: defineTable({
+        todoId: v.id("todos"),
+        tagId: v.id("tags"),
+        userId: v.optional(v.id("users")),  // Denormalized owner for account-wide lookups
+        deviceId: v.optional(v.string()),   // Anonymous creator, until claimed
+    })
+        .index("by_todo", ["todoId"])
+        .index("by_tag", ["tagId"])
+        .index("by_user", ["userId"])
+        .index("by_device", ["deviceId"]),
+
+    // Append-only history of each todo; rows outlive their todo when it is purged from the trash
+    todoEvents: defineTable({
+        todoId: v.id("todos"),
+        userId: v.optional(v.id("users")),  // Denormalized owner, same isolation rules as todos
+        deviceId: v.optional(v.string()),   // Anonymous creator, until claimed
+        actorId: v.optional(v.id("users")), // Who checked it off, on "completed" events; the stats credit them
+        type: todoEventTypeValidator,
+        changes: v.array(todoFieldChangeValidator),
+        at: v.number(),         // Milliseconds since the epoch
+    })
+        .index("by_todo", ["todoId", "at"])
+        .index("by_user", ["userId", "at"])
+        .index("by_actor", ["actorId", "at"])
+        .index("by_device", ["deviceId", "at"]),
+
+    // What the productivity stats need from todos purged from the trash, next to their kept history
+    purgedTodos: defineTable({
+        todoId: v.id("todos"),                  // The purged todo, as its history events refer to it
+        userId: v.optional(v.id("users")),      // Same isolation rules as todos
+        deviceId: v.optional(v.string()),       // Anonymous creator, until claimed
+        listId: v.optional(v.id("lists")),      // List the todo was in when purged
+        createdAt: v.number(),                  // The todo's _creationTime
+    })
+        .index("by_todo", ["todoId"])
+        .index("by_user", ["userId"])
+        .index("by_user_list", ["userId", "listId"])
+        .index("by_device", ["deviceId"]),
+
+    // Devices signed in to an account, one row per installation; removing a row signs that device out
+    devices: defineTable({
+        userId: v.id("users"),
+        deviceId: v.string(),                   // The installation's stored ID
+        name: v.string(),                       // Human-readable model name, e.g. "Pixel 8"
+        platform: v.string(),                   // "ios", "android" or "web"
+        sessionId: v.id("authSessions"),        // Session the device is currently signed in with
+        linkedAt: v.number(),                   // First sign-in on this installation
+        lastSeenAt: v.number(),
+        calendarToken: v.optional(v.string()), // Secret in the device's calendar feed URL; missing while the feed is off
+    })
+        .index("by_user", ["userId", "lastSeenAt"])
+        .index("by_user_device", ["userId", "deviceId"])
+        .index("by_session", ["sessionId"])
+        .index("by_calendar_token", ["calendarToken"]),
+
+    // One-time codes that sign another device in to the account that created them
+    pairingCodes: defineTable({
+        userId: v.id("users"),
+        code: v.string(),
+        expiresAt: v.number(),  // Milliseconds since the epoch; the code is rejected afterwards
+    })
+        .index("by_code", ["code"])
+        .index("by_user", ["userId"]),
+
+    // People a list is shared with, besides its owner
+    listMembers: defineTable({
+        listId: v.id("lists"),
+        userId: v.id("users"),
+        role: listMemberRoleValidator,
+        joinedAt: v.number(),
+    })
+        .index("by_list", ["listId"])
+        .index("by_user", ["userId"])
+        .index("by_list_user", ["listId", "userId"]),
+
+    // Invite codes for joining a list; one per role, valid until the owner replaces or revokes it
+    listInvites: defineTable({
+        listId: v.id("lists"),
+        code: v.string(),
+        role: listMemberRoleValidator,
+        createdAt: v.number(),
+    })
+        .index("by_code", ["code"])
+        .index("by_list", ["listId"]),
+});
@@ -0,0 +1,281 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { mutation, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { generateCode, normalizeCode } from './lib/codes';
+import { codedError } from './lib/errors';
+import { assertListAccess, getDisplayName, getListRole } from './lib/sharing';
+import { listMemberRoleValidator } from './schema';
+
+// Invite codes are longer than pairing codes since they don't expire
+const INVITE_CODE_LENGTH = 10;
+
+/**
+ * Query: Get a List's Members
+ * Returns everyone on the list (owner first) and the user's own role; the owner also gets
+ * the current invite codes. Returns null when signed out or the list no longer exists
+ */
+export const getListMembers = query({
+    args: {
+        listId: v.id('lists'),
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return null;
+        }
+
+        try {
+            const access = await assertListAccess(ctx.db, args.listId, userId, 'view', true);
+            if (!access) {
+                return null;
+            }
+
+            const members = await ctx.db
+                .query('listMembers')
+                .withIndex("by_list", (q) => q.eq("listId", args.listId))
+                .collect();
+
+            const people = [];
+            if (access.list.userId) {
+                people.push({
+                    userId: access.list.userId,
+                    name: getDisplayName(await ctx.db.get(access.list.userId)),
+                    role: 'owner' as const,
+                    isCurrentUser: access.list.userId === userId,
+                });
+            }
+            for (const member of members) {
+                people.push({
+                    userId: member.userId,
+                    name: getDisplayName(await ctx.db.get(member.userId)),
+                    role: member.role,
+                    isCurrentUser: member.userId === userId,
+                });
+            }
+
+            // Only the owner hands out invites
+            const invites = access.role === 'owner'
+                ? await ctx.db
+                    .query('listInvites')
+                    .withIndex("by_list", (q) => q.eq("listId", args.listId))
+                    .collect()
+                : [];
+
+            return {
+                role: access.role,
+                members: people,
+                invites: invites.map((invite) => ({ role: invite.role, code: invite.code })),
+            };
+        } catch (error) {
+            console.error('Error fetching list members for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to fetch list members');
+        }
+    },
+});
+
+/**
+ * Mutation: Create an Invite Code
+ * Anyone who enters the code joins the list with the given role; only the owner can invite
+ * Each role has one code at a time, so creating a new one replaces (and disables) the old one
+ */
+export const createListInvite = mutation({
+    args: {
+        listId: v.id('lists'),
+        role: listMemberRoleValidator,
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            await assertListAccess(ctx.db, args.listId, userId, 'manage');
+
+            const existing = await ctx.db
+                .query('listInvites')
+                .withIndex("by_list", (q) => q.eq("listId", args.listId))
+                .collect();
+            for (const invite of existing) {
+                if (invite.role === args.role) await ctx.db.delete(invite._id);
+            }
+
+            // Regenerate on the rare collision with another list's code
+            let code = generateCode(INVITE_CODE_LENGTH);
+            while (await ctx.db.query('listInvites').withIndex("by_code", (q) => q.eq("code", code)).first()) {
+                code = generateCode(INVITE_CODE_LENGTH);
+            }
+
+            await ctx.db.insert('listInvites', { listId: args.listId, code, role: args.role, createdAt: Date.now() });
+
+            return { code, role: args.role };
+        } catch (error) {
+            console.error('Error creating list invite for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to create invite');
+        }
+    },
+});
+
+/**
+ * Mutation: Revoke an Invite Code
+ * The code stops working; people who already joined stay on the list
+ */
+export const revokeListInvite = mutation({
+    args: {
+        listId: v.id('lists'),
+        role: listMemberRoleValidator,
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            await assertListAccess(ctx.db, args.listId, userId, 'manage');
+
+            const invites = await ctx.db
+                .query('listInvites')
+                .withIndex("by_list", (q) => q.eq("listId", args.listId))
+                .collect();
+            for (const invite of invites) {
+                if (invite.role === args.role) await ctx.db.delete(invite._id);
+            }
+
+            return { success: true };
+        } catch (error) {
+            console.error('Error revoking list invite for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to revoke invite');
+        }
+    },
+});
+
+/**
+ * Mutation: Join a List With an Invite Code
+ * Adds the user as a member with the invite's role and returns the list, so the app can switch to it
+ * Joining a list the user is already on keeps their current role
+ */
+export const joinList = mutation({
+    args: {
+        code: v.string(),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const code = normalizeCode(args.code);
+            const invite = code
+                ? await ctx.db.query('listInvites').withIndex("by_code", (q) => q.eq("code", code)).first()
+                : null;
+            const list = invite ? await ctx.db.get(invite.listId) : null;
+            if (!invite || !list) {
+                throw codedError('NOT_FOUND', 'Invite code not found. Ask the list owner for a new one');
+            }
+
+            const currentRole = await getListRole(ctx.db, list, userId);
+            if (!currentRole) {
+                await ctx.db.insert('listMembers', {
+                    listId: list._id,
+                    userId,
+                    role: invite.role,
+                    joinedAt: Date.now(),
+                });
+            }
+
+            return { listId: list._id, name: list.name, role: currentRole ?? invite.role };
+        } catch (error) {
+            console.error('Error joining list for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to join list');
+        }
+    },
+});
+
+/**
+ * Mutation: Change a Member's Role
+ * Only the owner can promote viewers to editors or the other way round
+ */
+export const updateListMemberRole = mutation({
+    args: {
+        listId: v.id('lists'),
+        userId: v.id('users'),
+        role: listMemberRoleValidator,
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            await assertListAccess(ctx.db, args.listId, userId, 'manage');
+
+            const membership = await ctx.db
+                .query('listMembers')
+                .withIndex("by_list_user", (q) => q.eq("listId", args.listId).eq("userId", args.userId))
+                .unique();
+            if (!membership) {
+                throw codedError('NOT_FOUND', 'Member not found');
+            }
+
+            await ctx.db.patch(membership._id, { role: args.role });
+
+            return { success: true };
+        } catch (error) {
+            console.error('Error updating list member for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to update member');
+        }
+    },
+});
+
+/**
+ * Mutation: Remove a Member From a List
+ * The owner can remove anyone else; any member can remove themselves to leave the list
+ * Todos the member created stay in the list
+ */
+export const removeListMember = mutation({
+    args: {
+        listId: v.id('lists'),
+        userId: v.id('users'),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            await assertListAccess(ctx.db, args.listId, userId, args.userId === userId ? 'view' : 'manage');
+
+            const membership = await ctx.db
+                .query('listMembers')
+                .withIndex("by_list_user", (q) => q.eq("listId", args.listId).eq("userId", args.userId))
+                .unique();
+            if (!membership) {
+                throw args.userId === userId
+                    ? codedError('INVALID_INPUT', 'The owner cannot leave their own list')
+                    : codedError('NOT_FOUND', 'Member not found');
+            }
+
+            await ctx.db.delete(membership._id);
+
+            return { success: true };
+        } catch (error) {
+            console.error('Error removing list member for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to remove member');
+        }
+    },
+});
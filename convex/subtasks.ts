@@ -0,0 +1,267 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+import { Id } from './_generated/dataModel';
+// Import Convex server functions to define database operations
+import { DatabaseReader, mutation, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { codedError } from './lib/errors';
+import { assertTodoAccess } from './lib/sharing';
+import { MAX_TODO_TEXT_LENGTH } from './lib/todoFields';
+
+// Same limit as todo text
+const MAX_SUBTASK_LENGTH = MAX_TODO_TEXT_LENGTH;
+
+/**
+ * Verify that a parent todo exists and the signed-in user may edit it (their own, or in a shared list)
+ * Returns the todo for further checks
+ */
+const getEditableTodo = async (db: DatabaseReader, todoId: Id<'todos'>, userId: Id<'users'>) => {
+    const todo = await db.get(todoId);
+
+    if (!todo) {
+        throw codedError('NOT_FOUND', 'Todo not found');
+    }
+
+    // Critical security check: Verify the user may edit the parent todo
+    await assertTodoAccess(db, todo, userId, 'edit');
+
+    return todo;
+};
+
+/**
+ * Verify that a subtask exists and the signed-in user may edit its parent todo
+ * Returns the subtask for further checks
+ */
+const getEditableSubtask = async (db: DatabaseReader, subtaskId: Id<'subtasks'>, userId: Id<'users'>) => {
+    const subtask = await db.get(subtaskId);
+
+    if (!subtask) {
+        throw codedError('NOT_FOUND', 'Subtask not found');
+    }
+
+    await getEditableTodo(db, subtask.todoId, userId);
+
+    return subtask;
+};
+
+/**
+ * Validate and clean subtask text
+ */
+const cleanSubtaskText = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        throw codedError('INVALID_INPUT', 'Subtask text cannot be empty');
+    }
+    if (trimmed.length > MAX_SUBTASK_LENGTH) {
+        throw codedError('INVALID_INPUT', `Subtask text cannot be longer than ${MAX_SUBTASK_LENGTH} characters`);
+    }
+    return trimmed;
+};
+
+/**
+ * Query: Get A Todo's Checklist
+ * Returns the subtasks of one todo in their manual order
+ */
+export const getSubtasks = query({
+    args: {
+        todoId: v.id('todos'),
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return [];
+        }
+
+        try {
+            // A parent deleted elsewhere simply has no checklist any more
+            const todo = await ctx.db.get(args.todoId);
+            if (!todo) {
+                return [];
+            }
+            await assertTodoAccess(ctx.db, todo, userId, 'view');
+
+            return await ctx.db
+                .query('subtasks')
+                .withIndex("by_todo", (q) => q.eq("todoId", args.todoId))
+                .collect();
+        } catch (error) {
+            console.error('Error fetching subtasks for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to fetch subtasks');
+        }
+    },
+});
+
+/**
+ * Mutation: Add Subtask To A Todo
+ * New items go to the end of the checklist
+ */
+export const addSubtask = mutation({
+    args: {
+        todoId: v.id('todos'),
+        text: v.string(),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        const text = cleanSubtaskText(args.text);
+
+        try {
+            const todo = await getEditableTodo(ctx.db, args.todoId, userId);
+
+            const last = await ctx.db
+                .query('subtasks')
+                .withIndex("by_todo", (q) => q.eq("todoId", args.todoId))
+                .order("desc")
+                .first();
+
+            return await ctx.db.insert('subtasks', {
+                todoId: args.todoId,
+                text,
+                isCompleted: false,
+                rank: last ? last.rank + 1 : 0,
+                userId: todo.userId, // Same owner as the parent, so the checklist follows it in shared lists
+            });
+        } catch (error) {
+            console.error('Error adding subtask for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to add subtask');
+        }
+    },
+});
+
+/**
+ * Mutation: Toggle Subtask Completion Status
+ */
+export const toggleSubtask = mutation({
+    args: {
+        id: v.id('subtasks'),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const subtask = await getEditableSubtask(ctx.db, args.id, userId);
+
+            await ctx.db.patch(args.id, { isCompleted: !subtask.isCompleted });
+
+            return { success: true, newStatus: !subtask.isCompleted };
+        } catch (error) {
+            console.error('Error toggling subtask for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to toggle subtask');
+        }
+    },
+});
+
+/**
+ * Mutation: Update Subtask Text
+ */
+export const updateSubtask = mutation({
+    args: {
+        id: v.id('subtasks'),
+        text: v.string(),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        const text = cleanSubtaskText(args.text);
+
+        try {
+            await getEditableSubtask(ctx.db, args.id, userId);
+
+            await ctx.db.patch(args.id, { text });
+
+            return { success: true, updatedText: text };
+        } catch (error) {
+            console.error('Error updating subtask for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to update subtask');
+        }
+    },
+});
+
+/**
+ * Mutation: Move Subtask Up Or Down
+ * Swaps ranks with the neighbouring item, so only two documents change
+ */
+export const moveSubtask = mutation({
+    args: {
+        id: v.id('subtasks'),
+        direction: v.union(v.literal("up"), v.literal("down")),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const subtask = await getEditableSubtask(ctx.db, args.id, userId);
+
+            const neighbour = args.direction === "up"
+                ? await ctx.db
+                    .query('subtasks')
+                    .withIndex("by_todo", (q) => q.eq("todoId", subtask.todoId).lt("rank", subtask.rank))
+                    .order("desc")
+                    .first()
+                : await ctx.db
+                    .query('subtasks')
+                    .withIndex("by_todo", (q) => q.eq("todoId", subtask.todoId).gt("rank", subtask.rank))
+                    .first();
+
+            // Already at the top or bottom of the checklist
+            if (!neighbour) {
+                return { success: true, moved: false };
+            }
+
+            await ctx.db.patch(subtask._id, { rank: neighbour.rank });
+            await ctx.db.patch(neighbour._id, { rank: subtask.rank });
+
+            return { success: true, moved: true };
+        } catch (error) {
+            console.error('Error moving subtask for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to move subtask');
+        }
+    },
+});
+
+/**
+ * Mutation: Delete Subtask
+ */
+export const deleteSubtask = mutation({
+    args: {
+        id: v.id('subtasks'),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            await getEditableSubtask(ctx.db, args.id, userId);
+
+            await ctx.db.delete(args.id);
+
+            return { success: true, deletedSubtaskId: args.id };
+        } catch (error) {
+            console.error('Error deleting subtask for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to delete subtask');
+        }
+    },
+});
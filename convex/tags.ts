@@ -0,0 +1,178 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { mutation, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { codedError } from './lib/errors';
+import { normalizeTagName } from './lib/tags';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Query: Get User-Specific Tags
+ * Returns empty array when signed out (handles loading states)
+ * Sorted alphabetically for the filter bar and tag picker
+ */
+export const getTags = query({
+    args: {},
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return [];
+        }
+
+        try {
+            return await ctx.db
+                .query('tags')
+                .withIndex("by_user_name", (q) => q.eq("userId", userId))
+                .collect();
+        } catch (error) {
+            console.error('Error fetching tags for user:', userId, error);
+            throw new ConvexError('Failed to fetch tags');
+        }
+    },
+});
+
+/**
+ * Mutation: Add New User-Specific Tag
+ * Tag names are unique per user after normalization ("#Work" and "work" are the same tag)
+ */
+export const addTag = mutation({
+    args: {
+        name: v.string(),
+        color: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const name = normalizeTagName(args.name);
+
+        if (!COLOR_PATTERN.test(args.color)) {
+            throw codedError('INVALID_INPUT', 'Tag color must be a hex color like #3b82f6');
+        }
+
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const existing = await ctx.db
+                .query('tags')
+                .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("name", name))
+                .first();
+
+            if (existing) {
+                throw codedError('INVALID_INPUT', `Tag #${name} already exists`);
+            }
+
+            return await ctx.db.insert('tags', { name, color: args.color, userId });
+        } catch (error) {
+            console.error('Error adding tag for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to add tag');
+        }
+    },
+});
+
+/**
+ * Mutation: Rename Or Recolor User's Tag
+ * Every todo carrying the tag picks up the change through the join table
+ */
+export const updateTag = mutation({
+    args: {
+        id: v.id('tags'),
+        name: v.string(),
+        color: v.string(),
+    },
+    handler: async (ctx, args) => {
+        const name = normalizeTagName(args.name);
+
+        if (!COLOR_PATTERN.test(args.color)) {
+            throw codedError('INVALID_INPUT', 'Tag color must be a hex color like #3b82f6');
+        }
+
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            // Get the tag and verify it exists
+            const tag = await ctx.db.get(args.id);
+
+            if (!tag) {
+                throw codedError('NOT_FOUND', 'Tag not found');
+            }
+
+            // Critical security check: Verify the tag belongs to the signed-in user
+            if (tag.userId !== userId) {
+                throw codedError('FORBIDDEN', 'Not authorized: Tag belongs to a different user');
+            }
+
+            // Renaming onto another existing tag would create a duplicate
+            const clash = await ctx.db
+                .query('tags')
+                .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("name", name))
+                .first();
+
+            if (clash && clash._id !== args.id) {
+                throw codedError('INVALID_INPUT', `Tag #${name} already exists`);
+            }
+
+            await ctx.db.patch(args.id, { name, color: args.color });
+
+            return { success: true, updatedTagId: args.id };
+        } catch (error) {
+            console.error('Error updating tag for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to update tag');
+        }
+    },
+});
+
+/**
+ * Mutation: Delete User's Tag
+ * Removes the tag from every todo; the todos themselves are kept
+ */
+export const deleteTag = mutation({
+    args: {
+        id: v.id('tags'),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            // Get the tag and verify it exists
+            const tag = await ctx.db.get(args.id);
+
+            if (!tag) {
+                throw codedError('NOT_FOUND', 'Tag not found or already deleted');
+            }
+
+            // Critical security check: Verify the tag belongs to the signed-in user
+            if (tag.userId !== userId) {
+                throw codedError('FORBIDDEN', 'Not authorized: Tag belongs to a different user');
+            }
+
+            const links = await ctx.db
+                .query('todoTags')
+                .withIndex("by_tag", (q) => q.eq("tagId", args.id))
+                .collect();
+
+            for (const link of links) {
+                await ctx.db.delete(link._id);
+            }
+
+            await ctx.db.delete(args.id);
+
+            return { success: true, deletedTagId: args.id, untaggedCount: links.length };
+        } catch (error) {
+            console.error('Error deleting tag for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to delete tag');
+        }
+    },
+});
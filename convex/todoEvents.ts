@@ -0,0 +1,42 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { query } from './_generated/server';
+import { getTodoEventsFor } from './lib/events';
+import { assertTodoAccess } from './lib/sharing';
+
+/**
+ * Query: Get a Todo's History
+ * Returns the todo's events newest first, for the timeline on the todo detail screen
+ * Returns empty array when signed out (handles loading states)
+ */
+export const getTodoEvents = query({
+    args: {
+        todoId: v.id('todos'),
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return [];
+        }
+
+        try {
+            const todo = await ctx.db.get(args.todoId);
+            if (!todo) {
+                return [];
+            }
+
+            // Critical security check: Verify the todo is the user's own or in a list shared with them
+            await assertTodoAccess(ctx.db, todo, userId, 'view');
+
+            return await getTodoEventsFor(ctx.db, args.todoId);
+        } catch (error) {
+            console.error('Error fetching todo history for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to fetch todo history');
+        }
+    },
+});
@@ -1,114 +1,417 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
 // Import Convex utilities for database operations and input validation
 import { ConvexError, v } from 'convex/values';
 // Import Convex server functions to define database operations
+import { Doc, Id } from './_generated/dataModel';
 import { mutation, query } from './_generated/server';
+import { buildProductivityStats } from './lib/analytics';
+import { requireUserId } from './lib/auth';
+import { setTodoCompletion } from './lib/completion';
+import { codedError } from './lib/errors';
+import { diffTodoSnapshots, recordTodoEvent, snapshotTodo } from './lib/events';
+import { ensureRanks, rankAfter, rankBetween, rankForNewTodo } from './lib/rank';
+import { assertListAccess, assertTodoAccess, canAccessTodo, getSharingContext, loadAccessibleTodos } from './lib/sharing';
+import { assertTagOwnership, getTodoTagIds, setTodoTagLinks } from './lib/tags';
+import { decorateTodos } from './lib/todoRelations';
+import { filterTodos, sortTodos } from './lib/todoView';
+import { DUE_DATE_PATTERN, validateDueFields, validateRecurrence, validateReminder, validateTodoText } from './lib/todoFields';
+import { withoutDeleted } from './lib/trash';
+import { priorityValidator, reminderValidator, statsRangeValidator, todoFilterValidator, todoSortValidator } from './schema';
+
+// Upper bound on search results returned to the app
+const MAX_SEARCH_RESULTS = 50;
 
 /**
- * Query: Get Device-Specific Todos
- * Returns empty array if no deviceId provided (handles loading states)
- * Provides complete data isolation between devices
+ * Query: Get User-Specific Todos
+ * Returns empty array when signed out (handles loading states)
+ * Covers the user's own todos and every todo in lists shared with them
+ * Ordered newest first unless another sortBy order is given
+ * Optionally scoped to a single list and narrowed to active or completed todos
+ * Each todo carries the ids of its tags and its checklist progress
+ * Todos in the trash are left out
  */
 export const getTodos = query({
-    args: { deviceId: v.optional(v.string()) }, // Make deviceId optional for loading states
+    args: {
+        listId: v.optional(v.id('lists')),
+        filter: v.optional(todoFilterValidator),
+        sortBy: v.optional(todoSortValidator),
+    },
     handler: async (ctx, args) => {
-        // Return empty array if no device ID provided (during app initialization)
-        if (!args.deviceId) {
+        // Return empty array when signed out (during app initialization)
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
             return [];
         }
 
-        // Store deviceId in variable for better type safety and readability
-        const deviceId = args.deviceId;
+        try {
+            // Todos the user can see (in the list, if given), most recent first
+            const todos = await loadAccessibleTodos(ctx.db, userId, args.listId);
+
+            const visible = await decorateTodos(ctx.db, userId, filterTodos(withoutDeleted(todos), args.filter));
+            return args.sortBy ? sortTodos(visible, args.sortBy) : visible;
+        } catch (error) {
+            console.error('Error fetching todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to fetch todos');
+        }
+    },
+});
+
+/**
+ * Query: Get One User Todo
+ * Used by the todo detail screen; todos in the trash are returned too, with their deletedAt set
+ * Returns null while signed out or when the todo no longer exists
+ */
+export const getTodo = query({
+    args: {
+        id: v.id('todos'),
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return null;
+        }
+
+        try {
+            const todo = await ctx.db.get(args.id);
+            if (!todo) {
+                return null;
+            }
+
+            // Critical security check: Verify the todo is the user's own or in a list shared with them
+            await assertTodoAccess(ctx.db, todo, userId, 'view');
+
+            const [decorated] = await decorateTodos(ctx.db, userId, [todo]);
+            return decorated;
+        } catch (error) {
+            console.error('Error fetching todo for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to fetch todo');
+        }
+    },
+});
+
+/**
+ * Query: Get User Todos Filtered By Tags
+ * Returns todos carrying any (or all) of the given tags, newest first unless another sortBy order is given
+ * Matching happens on the todoTags join table so the client never filters the full collection
+ */
+export const getTodosByTags = query({
+    args: {
+        tagIds: v.array(v.id('tags')),
+        match: v.union(v.literal("any"), v.literal("all")),
+        listId: v.optional(v.id('lists')),
+        filter: v.optional(todoFilterValidator),
+        sortBy: v.optional(todoSortValidator),
+    },
+    handler: async (ctx, args) => {
+        // Return empty array when signed out or no tags provided
+        const userId = await getAuthUserId(ctx);
+        if (!userId || args.tagIds.length === 0) {
+            return [];
+        }
 
         try {
-            // Query todos that belong specifically to this device
-            const todos = await ctx.db
+            await assertTagOwnership(ctx.db, args.tagIds, userId);
+
+            // Count how many of the selected tags each todo carries
+            const matchCounts = new Map<Id<'todos'>, number>();
+            for (const tagId of new Set(args.tagIds)) {
+                const links = await ctx.db
+                    .query('todoTags')
+                    .withIndex("by_tag", (q) => q.eq("tagId", tagId))
+                    .collect();
+
+                for (const link of links) {
+                    matchCounts.set(link.todoId, (matchCounts.get(link.todoId) ?? 0) + 1);
+                }
+            }
+
+            const required = args.match === "all" ? new Set(args.tagIds).size : 1;
+            const todos = [];
+            for (const [todoId, count] of matchCounts) {
+                if (count < required) continue;
+
+                const todo = await ctx.db.get(todoId);
+                if (!todo || todo.deletedAt !== undefined || !(await canAccessTodo(ctx.db, todo, userId, 'view'))) continue;
+                if (args.listId && todo.listId !== args.listId) continue;
+
+                todos.push(todo);
+            }
+
+            // Most recent todos first by default, matching getTodos
+            return sortTodos(await decorateTodos(ctx.db, userId, filterTodos(todos, args.filter)), args.sortBy ?? "newest");
+        } catch (error) {
+            console.error('Error fetching tagged todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to fetch todos');
+        }
+    },
+});
+
+/**
+ * Query: Search User Todos By Text
+ * Full-text search over todo text in the todos the user can see: their own and those in lists shared with them,
+ * or only those in a list when given
+ * Results come back in relevance order within each search (or the given sortBy order), capped at MAX_SEARCH_RESULTS
+ * Returns empty array for a blank search or while signed out
+ */
+export const searchTodos = query({
+    args: {
+        query: v.string(),
+        listId: v.optional(v.id('lists')),
+        filter: v.optional(todoFilterValidator),
+        sortBy: v.optional(todoSortValidator),
+    },
+    handler: async (ctx, args) => {
+        const searchText = args.query.trim();
+        const userId = await getAuthUserId(ctx);
+        if (!userId || !searchText) {
+            return [];
+        }
+
+        const listId = args.listId;
+
+        try {
+            if (listId && !(await assertListAccess(ctx.db, listId, userId, 'view', true))) {
+                return [];
+            }
+
+            // Within a list every member's todos match; otherwise the user's own, then each shared list's
+            const searchBy = (field: 'listId' | 'userId', value: Id<'lists'> | Id<'users'>) => ctx.db
                 .query('todos')
-                .withIndex("by_device", (q) => q.eq("deviceId", deviceId))
-                .order("desc") // Most recent todos first
-                .collect();
-            
-            return todos;
+                .withSearchIndex("search_text", (q) => q.search("text", searchText).eq(field, value))
+                .take(MAX_SEARCH_RESULTS);
+
+            const todos = listId ? await searchBy('listId', listId) : await searchBy('userId', userId);
+            if (!listId) {
+                const { sharedListIds } = await getSharingContext(ctx.db, userId);
+                for (const sharedListId of sharedListIds) {
+                    todos.push(...await searchBy('listId', sharedListId));
+                }
+            }
+
+            // Leave out the user's todos in lists they were removed from, and own todos found twice
+            const accessible: Doc<'todos'>[] = [];
+            const seen = new Set<Id<'todos'>>();
+            for (const todo of withoutDeleted(todos)) {
+                if (accessible.length === MAX_SEARCH_RESULTS) break;
+                if (seen.has(todo._id)) continue;
+                seen.add(todo._id);
+                if (await canAccessTodo(ctx.db, todo, userId, 'view')) accessible.push(todo);
+            }
+
+            const visible = await decorateTodos(ctx.db, userId, filterTodos(accessible, args.filter));
+            return args.sortBy ? sortTodos(visible, args.sortBy) : visible;
         } catch (error) {
-            console.error('Error fetching todos for device:', deviceId, error);
+            console.error('Error searching todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to search todos');
+        }
+    },
+});
+
+/**
+ * Query: Get User Todos Grouped By Due Date
+ * Splits todos into Overdue, Today, Upcoming and No date sections
+ * The client passes its local "today" so grouping follows the device time zone
+ * Covers the same todos as getTodos, shared lists included
+ * Sections are in due order (No date newest first) unless another sortBy order is given
+ */
+export const getTodoSections = query({
+    args: {
+        today: v.string(),                // Device-local calendar day "YYYY-MM-DD"
+        listId: v.optional(v.id('lists')),
+        filter: v.optional(todoFilterValidator),
+        sortBy: v.optional(todoSortValidator),
+    },
+    handler: async (ctx, args) => {
+        // Return empty sections when signed out (during app initialization)
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return { overdue: [], today: [], upcoming: [], noDate: [] };
+        }
+
+        if (!DUE_DATE_PATTERN.test(args.today)) {
+            throw codedError('INVALID_INPUT', 'Today must use the YYYY-MM-DD format');
+        }
+
+        const today = args.today;
+        const listId = args.listId;
+
+        try {
+            const sortDated = <T extends Doc<'todos'>>(todos: T[]) => sortTodos(todos, args.sortBy ?? "dueDate");
+            const sortUndated = <T extends Doc<'todos'>>(todos: T[]) => sortTodos(todos, args.sortBy ?? "newest");
+
+            // Shared lists mix several owners, so sections are split in memory rather than by index range
+            const todos = await decorateTodos(
+                ctx.db,
+                userId,
+                filterTodos(withoutDeleted(await loadAccessibleTodos(ctx.db, userId, listId)), args.filter),
+            );
+
+            return {
+                overdue: sortDated(todos.filter((todo) => todo.dueDate && todo.dueDate < today)),
+                today: sortDated(todos.filter((todo) => todo.dueDate === today)),
+                upcoming: sortDated(todos.filter((todo) => todo.dueDate && todo.dueDate > today)),
+                noDate: sortUndated(todos.filter((todo) => !todo.dueDate)),
+            };
+        } catch (error) {
+            console.error('Error fetching todo sections for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
             throw new ConvexError('Failed to fetch todos');
         }
     },
 });
 
+
 /**
- * Mutation: Add New Device-Specific Todo
- * Creates a new todo item linked to the specific device
- * Ensures device isolation from the moment of creation
+ * Mutation: Add New User-Specific Todo
+ * Creates a new todo item owned by the signed-in user
+ * Ensures user isolation from the moment of creation
+ * Records a "created" event holding the initial values
+ * Todos queued offline carry a clientId; replaying the same add returns the todo already inserted
  */
 export const addTodo = mutation({
     args: { 
         text: v.string(),
-        deviceId: v.string() // Required for creating todos
+        dueDate: v.optional(v.string()),
+        dueTime: v.optional(v.string()),
+        reminder: v.optional(reminderValidator),
+        priority: v.optional(priorityValidator),
+        listId: v.optional(v.id('lists')),
+        tagIds: v.optional(v.array(v.id('tags'))),
+        recurrence: v.optional(v.string()),
+        position: v.optional(v.union(v.literal("top"), v.literal("bottom"))), // Place in the manual order, top by default
+        clientId: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
         // Validate input text
-        if (!args.text.trim()) {
-            throw new ConvexError('Todo text cannot be empty');
-        }
+        const text = validateTodoText(args.text);
 
-        // Validate device ID
-        if (!args.deviceId) {
-            throw new ConvexError('Device ID is required');
-        }
+        // Validate optional due date, time, reminder and repeat rule
+        validateDueFields(args.dueDate, args.dueTime);
+        validateReminder(args.reminder, args.dueDate);
+        const recurrence = validateRecurrence(args.recurrence, args.dueDate);
+
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
 
         try {
-            // Insert new todo with device association
+            // An add replayed from the offline outbox after its first attempt went through
+            if (args.clientId) {
+                const existing = await ctx.db
+                    .query('todos')
+                    .withIndex("by_user_client", (q) => q.eq("userId", userId).eq("clientId", args.clientId))
+                    .first();
+                if (existing) {
+                    return existing._id;
+                }
+            }
+
+            // The user must be able to edit the target list (their own, or one shared with them as editor)
+            if (args.listId) {
+                await assertListAccess(ctx.db, args.listId, userId, 'edit');
+            }
+
+            // Tags must belong to the same user as well
+            if (args.tagIds) {
+                await assertTagOwnership(ctx.db, args.tagIds, userId);
+            }
+
+            // Insert new todo owned by the user
             const todoId = await ctx.db.insert('todos', { 
-                text: args.text.trim(),    // Clean the text input
+                text,                      // Trimmed input text
                 isCompleted: false,        // Default to incomplete status
-                deviceId: args.deviceId    // Link to specific device for isolation
+                userId,   // Owner, for isolation between users
+                dueDate: args.dueDate,
+                dueTime: args.dueDate ? args.dueTime : undefined,
+                reminder: args.reminder,
+                priority: args.priority === 'none' ? undefined : args.priority,
+                listId: args.listId,
+                recurrence,
+                rank: await rankForNewTodo(ctx.db, userId, args.position ?? 'top'),
+                clientId: args.clientId,
             });
+
+            const todo = await ctx.db.get(todoId);
+            if (todo) {
+                if (args.tagIds && args.tagIds.length > 0) {
+                    await setTodoTagLinks(ctx.db, todo, args.tagIds);
+                }
+                await recordTodoEvent(ctx.db, todo, 'created', diffTodoSnapshots({}, snapshotTodo(todo, args.tagIds)));
+            }
             
             return todoId;
         } catch (error) {
-            console.error('Error adding todo for device:', args.deviceId, error);
+            console.error('Error adding todo for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
             throw new ConvexError('Failed to add todo');
         }
     },
 });
 
 /**
- * Mutation: Toggle Device's Todo Completion Status
- * Only allows modification of todos belonging to the same device
- * Provides security through device ID verification
+ * Mutation: Toggle User's Todo Completion Status
+ * Allowed on the user's own todos and on todos in lists shared with them as editor
+ * Remembers who completed it, for the "done by" label on shared lists
+ * When completing, completeSubtasks also checks off every checklist item
+ * Completing a repeating todo creates its next occurrence, returned as nextTodoId
+ * isCompleted names the state the user asked for; when the todo is already there nothing changes,
+ * so a toggle replayed from the offline outbox can't flip it back
  */
 export const toggleTodo = mutation({
     args: { 
         id: v.id('todos'),
-        deviceId: v.string() // Required for authorization
+        completeSubtasks: v.optional(v.boolean()),
+        today: v.optional(v.string()), // Device's local "YYYY-MM-DD", keeps late completions from spawning past dates
+        isCompleted: v.optional(v.boolean()),
     },
     handler: async (ctx, args) => {
-        // Validate device ID
-        if (!args.deviceId) {
-            throw new ConvexError('Device ID is required for authorization');
-        }
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
 
         try {
-            // Get the todo and verify it exists
+            // Get the todo and verify it exists outside the trash
             const todo = await ctx.db.get(args.id);
             
-            if (!todo) {
-                throw new ConvexError('Todo not found');
+            if (!todo || todo.deletedAt !== undefined) {
+                throw codedError('NOT_FOUND', 'Todo not found');
             }
 
-            // Critical security check: Verify the todo belongs to the requesting device
-            if (todo.deviceId !== args.deviceId) {
-                throw new ConvexError('Not authorized: Todo belongs to a different device');
-            }
+            // Critical security check: Verify the user may edit the todo, directly or through a shared list
+            await assertTodoAccess(ctx.db, todo, userId, 'edit');
             
-            // Update the todo's completion status
-            await ctx.db.patch(args.id, { 
-                isCompleted: !todo.isCompleted 
+            if (args.today && !DUE_DATE_PATTERN.test(args.today)) {
+                throw codedError('INVALID_INPUT', 'Today must use the YYYY-MM-DD format');
+            }
+
+            if (args.isCompleted === todo.isCompleted) {
+                return { success: true, newStatus: todo.isCompleted, nextTodoId: null };
+            }
+
+            // Update the todo's completion status, spawning the next occurrence of a repeating todo
+            const nextTodoId = await setTodoCompletion(ctx.db, todo, !todo.isCompleted, {
+                completeSubtasks: args.completeSubtasks,
+                today: args.today,
+                completedBy: userId,
             });
 
-            return { success: true, newStatus: !todo.isCompleted };
+            return { success: true, newStatus: !todo.isCompleted, nextTodoId };
         } catch (error) {
-            console.error('Error toggling todo for device:', args.deviceId, error);
+            console.error('Error toggling todo for user:', userId, error);
             if (error instanceof ConvexError) {
                 throw error; // Re-throw ConvexErrors as-is
             }
@@ -118,40 +421,39 @@ export const toggleTodo = mutation({
 });
 
 /**
- * Mutation: Delete Device's Todo
- * Only allows deletion of todos belonging to the same device
+ * Mutation: Delete User's Todo
+ * Allowed on the user's own todos and on todos in lists shared with them as editor
  * Includes comprehensive authorization checks
+ * Moves the todo to the trash; it can be restored until the retention period runs out
+ * Records a "deleted" event
  */
 export const deleteTodo = mutation({
     args: { 
         id: v.id('todos'),
-        deviceId: v.string() // Required for authorization
     },
     handler: async (ctx, args) => {
-        // Validate device ID
-        if (!args.deviceId) {
-            throw new ConvexError('Device ID is required for authorization');
-        }
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
 
         try {
             // Get the todo and verify it exists
             const todo = await ctx.db.get(args.id);
             
-            if (!todo) {
-                throw new ConvexError('Todo not found or already deleted');
+            if (!todo || todo.deletedAt !== undefined) {
+                throw codedError('NOT_FOUND', 'Todo not found or already deleted');
             }
 
-            // Critical security check: Verify the todo belongs to the requesting device
-            if (todo.deviceId !== args.deviceId) {
-                throw new ConvexError('Not authorized: Todo belongs to a different device');
-            }
+            // Critical security check: Verify the user may edit the todo, directly or through a shared list
+            await assertTodoAccess(ctx.db, todo, userId, 'edit');
 
-            // Delete the todo
-            await ctx.db.delete(args.id);
+            // Soft delete: tag links and subtasks stay in place so a restore brings everything back
+            const deletedAt = Date.now();
+            await ctx.db.patch(args.id, { deletedAt });
+            await recordTodoEvent(ctx.db, todo, 'deleted', [], deletedAt);
 
-            return { success: true, deletedTodoId: args.id };
+            return { success: true, deletedTodoId: args.id, deletedAt };
         } catch (error) {
-            console.error('Error deleting todo for device:', args.deviceId, error);
+            console.error('Error deleting todo for user:', userId, error);
             if (error instanceof ConvexError) {
                 throw error; // Re-throw ConvexErrors as-is
             }
@@ -161,48 +463,104 @@ export const deleteTodo = mutation({
 });
 
 /**
- * Mutation: Update Device's Todo Text
- * Only allows updating todos belonging to the same device
+ * Mutation: Update User's Todo Text
+ * Allowed on the user's own todos and on todos in lists shared with them as editor
  * Validates both authorization and input data
+ * Only the creator can move a todo to another list
+ * Text, due date, time, reminder, priority, list and tags are left untouched when omitted,
+ * so an edit replayed from the offline outbox only overwrites the fields the user changed
+ * Due fields, reminder and list are cleared with null, priority with "none", tags with []
+ * Records an "edited" event with the old and new value of every field that changed
  */
 export const updateTodo = mutation({
     args: { 
         id: v.id('todos'), 
-        text: v.string(),
-        deviceId: v.string() // Required for authorization
+        text: v.optional(v.string()),
+        dueDate: v.optional(v.union(v.string(), v.null())),
+        dueTime: v.optional(v.union(v.string(), v.null())),
+        reminder: v.optional(v.union(reminderValidator, v.null())),
+        priority: v.optional(priorityValidator),
+        listId: v.optional(v.union(v.id('lists'), v.null())),
+        tagIds: v.optional(v.array(v.id('tags'))),
+        recurrence: v.optional(v.union(v.string(), v.null())), // null stops repeating
     },
     handler: async (ctx, args) => {
         // Validate input text
-        if (!args.text.trim()) {
-            throw new ConvexError('Todo text cannot be empty');
-        }
+        const newText = args.text === undefined ? undefined : validateTodoText(args.text);
 
-        // Validate device ID
-        if (!args.deviceId) {
-            throw new ConvexError('Device ID is required for authorization');
-        }
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
 
         try {
-            // Get the todo and verify it exists
+            // Get the todo and verify it exists outside the trash
             const todo = await ctx.db.get(args.id);
             
-            if (!todo) {
-                throw new ConvexError('Todo not found');
+            if (!todo || todo.deletedAt !== undefined) {
+                throw codedError('NOT_FOUND', 'Todo not found');
+            }
+
+            // Critical security check: Verify the user may edit the todo, directly or through a shared list
+            await assertTodoAccess(ctx.db, todo, userId, 'edit');
+
+            const text = newText ?? todo.text;
+
+            // Resolve the resulting due fields so a time never outlives its date
+            const dueDate = args.dueDate === undefined ? todo.dueDate : args.dueDate ?? undefined;
+            const dueTime = dueDate
+                ? (args.dueTime === undefined ? todo.dueTime : args.dueTime ?? undefined)
+                : undefined;
+            validateDueFields(dueDate, dueTime);
+
+            const reminder = args.reminder === undefined ? todo.reminder : args.reminder ?? undefined;
+            validateReminder(reminder, dueDate);
+
+            // A kept rule is dropped along with the due date it was anchored to; a new rule must have one
+            const recurrence = args.recurrence === undefined
+                ? (dueDate ? todo.recurrence : undefined)
+                : validateRecurrence(args.recurrence ?? undefined, dueDate);
+
+            const priority = args.priority === undefined ? todo.priority : args.priority;
+
+            // Moving requires being the creator and able to edit the destination list
+            const listId = args.listId === undefined ? todo.listId : args.listId ?? undefined;
+            if (listId !== todo.listId && todo.userId !== userId) {
+                throw codedError('FORBIDDEN', 'Not authorized: Only the creator can move this todo');
+            }
+            if (args.listId && listId !== todo.listId) {
+                await assertListAccess(ctx.db, args.listId, userId, 'edit');
             }
 
-            // Critical security check: Verify the todo belongs to the requesting device
-            if (todo.deviceId !== args.deviceId) {
-                throw new ConvexError('Not authorized: Todo belongs to a different device');
+            // Update the todo text, due fields, reminder, priority, list and repeat rule
+            const patch = {
+                text,
+                dueDate,
+                dueTime,
+                reminder,
+                priority: priority === 'none' ? undefined : priority,
+                listId,
+                recurrence,
+            };
+            await ctx.db.patch(args.id, patch);
+
+            // Replace the todo's tags when a new set was provided
+            const previousTagIds = args.tagIds ? await getTodoTagIds(ctx.db, args.id) : undefined;
+            if (args.tagIds && previousTagIds) {
+                // Tags a collaborator already put on a shared todo can stay; new ones must be the user's
+                await assertTagOwnership(ctx.db, args.tagIds.filter((tagId) => !previousTagIds.includes(tagId)), userId);
+                await setTodoTagLinks(ctx.db, todo, args.tagIds);
             }
 
-            // Update the todo text
-            await ctx.db.patch(args.id, { 
-                text: args.text.trim() 
-            });
+            const changes = diffTodoSnapshots(
+                snapshotTodo(todo, previousTagIds),
+                snapshotTodo({ ...todo, ...patch }, args.tagIds),
+            );
+            if (changes.length > 0) {
+                await recordTodoEvent(ctx.db, todo, 'edited', changes);
+            }
 
-            return { success: true, updatedText: args.text.trim() };
+            return { success: true, updatedText: text };
         } catch (error) {
-            console.error('Error updating todo for device:', args.deviceId, error);
+            console.error('Error updating todo for user:', userId, error);
             if (error instanceof ConvexError) {
                 throw error; // Re-throw ConvexErrors as-is
             }
@@ -212,70 +570,150 @@ export const updateTodo = mutation({
 });
 
 /**
- * Mutation: Clear All Device's Todos (Device-Specific Danger Zone)
- * Only deletes todos belonging to the current device
- * Provides bulk deletion with device isolation
+ * Mutation: Move a Todo in the Manual Order
+ * The client names the todos that should end up directly above (beforeId) and below (afterId) it;
+ * only the moved todo is written, with a rank between those neighbours
+ * Todos that predate manual ordering are ranked the first time anything is moved
+ * Anyone who can edit the todo can move it, including in lists shared with them
  */
-export const clearAllTodos = mutation({
-    args: { deviceId: v.string() }, // Required for device identification
+export const reorderTodo = mutation({
+    args: {
+        id: v.id('todos'),
+        beforeId: v.optional(v.id('todos')),
+        afterId: v.optional(v.id('todos')),
+    },
     handler: async (ctx, args) => {
-        // Validate device ID
-        if (!args.deviceId) {
-            throw new ConvexError('Device ID is required');
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            // Get the todo and verify it exists outside the trash
+            const todo = await ctx.db.get(args.id);
+
+            if (!todo || todo.deletedAt !== undefined) {
+                throw codedError('NOT_FOUND', 'Todo not found');
+            }
+
+            // Critical security check: Verify the user may edit the todo (shared lists included) and see its new neighbours
+            await assertTodoAccess(ctx.db, todo, userId, 'edit');
+
+            const ownerIds = new Set([todo.userId ?? userId]);
+            for (const neighbourId of [args.beforeId, args.afterId]) {
+                if (!neighbourId) continue;
+                const neighbour = await ctx.db.get(neighbourId);
+                if (!neighbour || neighbour.deletedAt !== undefined) {
+                    throw codedError('NOT_FOUND', 'Todo not found');
+                }
+                await assertTodoAccess(ctx.db, neighbour, userId, 'view');
+                ownerIds.add(neighbour.userId ?? userId);
+            }
+
+            // A shared list mixes several people's orders, so every owner involved gets ranked
+            const ranked: Doc<'todos'>[] = [];
+            for (const ownerId of ownerIds) {
+                ranked.push(...await ensureRanks(ctx.db, ownerId));
+            }
+            const rankOf = (id?: Id<'todos'>) => (id ? ranked.find((candidate) => candidate._id === id)?.rank : undefined);
+
+            const lower = rankOf(args.beforeId);
+            let upper = rankOf(args.afterId);
+
+            // Without neighbours there is nowhere to move to
+            if (lower === undefined && upper === undefined) {
+                return { success: true, rank: todo.rank };
+            }
+
+            // Neighbours that moved meanwhile: fall back to directly after the todo above
+            if (lower !== undefined && upper !== undefined && lower >= upper) {
+                upper = undefined;
+            }
+
+            const rank = lower !== undefined && upper === undefined
+                ? await rankAfter(ctx.db, todo.userId ?? userId, lower)
+                : rankBetween(lower, upper);
+
+            await ctx.db.patch(args.id, { rank });
+
+            return { success: true, rank };
+        } catch (error) {
+            console.error('Error reordering todo for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to reorder todo');
         }
+    },
+});
+
+/**
+ * Mutation: Clear All User's Todos (Account Danger Zone)
+ * Only deletes todos belonging to the current user
+ * Provides bulk deletion with user isolation
+ * Moves every todo to the trash and returns their ids so the whole clear can be undone
+ * Records a "deleted" event for each todo
+ */
+export const clearAllTodos = mutation({
+    args: {},
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
 
         try {
-            // Get only the todos belonging to this specific device
-            const deviceTodos = await ctx.db
+            // Get only the todos belonging to this user that are not in the trash yet
+            const userTodos = await ctx.db
                 .query('todos')
-                .withIndex("by_device", (q) => q.eq("deviceId", args.deviceId))
+                .withIndex("by_user_deleted", (q) => q.eq("userId", userId).eq("deletedAt", undefined))
                 .collect();
             
-            // Delete each todo belonging to the device
-            for (const todo of deviceTodos) {
-                await ctx.db.delete(todo._id);
+            // Soft delete each todo with one shared timestamp; relations stay for a restore
+            const deletedAt = Date.now();
+            for (const todo of userTodos) {
+                await ctx.db.patch(todo._id, { deletedAt });
+                await recordTodoEvent(ctx.db, todo, 'deleted', [], deletedAt);
             }
             
             // Return detailed result for user feedback
             return { 
                 success: true, 
-                deletedCount: deviceTodos.length,
-                deviceId: args.deviceId 
+                deletedCount: userTodos.length,
+                deletedTodoIds: userTodos.map((todo) => todo._id),
+                userId
             };
         } catch (error) {
-            console.error('Error clearing todos for device:', args.deviceId, error);
+            console.error('Error clearing todos for user:', userId, error);
             throw new ConvexError('Failed to clear todos');
         }
     },
 });
 
 /**
- * Query: Get Device Statistics
- * Provides summary statistics for a specific device's todos
+ * Query: Get User Statistics
+ * Provides summary statistics for a specific user's todos
  * Useful for dashboard and progress tracking
+ * Counts the same todos as getTodos, shared lists included
+ * Optionally scoped to a single list; todos in the trash are not counted
  */
-export const getDeviceStats = query({
-    args: { deviceId: v.optional(v.string()) },
+export const getUserStats = query({
+    args: { listId: v.optional(v.id('lists')) },
     handler: async (ctx, args) => {
-        // Return default stats if no device ID provided
-/*         if (!args.deviceId) {
+        // Return default stats when signed out
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
             return {
                 total: 0,
                 completed: 0,
                 pending: 0,
                 completionRate: 0
             };
-        } */
+        }
 
         try {
-            // Get all todos for this device
-            const todos = await ctx.db
-                .query('todos')
-                .withIndex("by_device", (q) => q.eq("deviceId", args.deviceId as string))
-                .collect();
+            // Get every todo the user can see, or those in one list
+            const todos = await loadAccessibleTodos(ctx.db, userId, args.listId);
 
-            const total = todos.length;
-            const completed = todos.filter(todo => todo.isCompleted).length;
+            const activeTodos = withoutDeleted(todos);
+            const total = activeTodos.length;
+            const completed = activeTodos.filter(todo => todo.isCompleted).length;
             const pending = total - completed;
             const completionRate = total > 0 ? Math.round((completed / total) * 100) : 0;
 
@@ -284,11 +722,132 @@ export const getDeviceStats = query({
                 completed,
                 pending,
                 completionRate,
-                deviceId: args.deviceId
+                userId,
+                listId: args.listId,
             };
         } catch (error) {
-            console.error('Error getting stats for device:', args.deviceId, error);
-            throw new ConvexError('Failed to get device statistics');
+            console.error('Error getting stats for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to get statistics');
+        }
+    },
+});
+
+/**
+ * Query: Get Productivity Analytics
+ * Companion to getUserStats with time-bucketed series for the charts in Settings:
+ * completions and new todos per day, completions per week and per weekday,
+ * the current and longest completion streak, and the average time from creation to completion
+ * Built from the todo history, so todos in the trash, and ones since purged from it, still count towards past days
+ * In shared lists a completion is credited to the member who checked the todo off, not the todo's creator
+ * The client passes its local "today" and UTC offset so days follow the device time zone
+ */
+export const getProductivityStats = query({
+    args: {
+        listId: v.optional(v.id('lists')),
+        range: statsRangeValidator,
+        today: v.string(),                // Device-local calendar day "YYYY-MM-DD"
+        utcOffsetMinutes: v.number(),     // Device offset from UTC, e.g. 120 for UTC+2
+    },
+    handler: async (ctx, args) => {
+        if (!DUE_DATE_PATTERN.test(args.today)) {
+            throw codedError('INVALID_INPUT', 'Today must use the YYYY-MM-DD format');
+        }
+        if (!Number.isInteger(args.utcOffsetMinutes) || Math.abs(args.utcOffsetMinutes) > 14 * 60) {
+            throw codedError('INVALID_INPUT', 'UTC offset must be a whole number of minutes between -840 and 840');
+        }
+
+        // Return empty series when signed out
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return buildProductivityStats([], new Map(), args.range, args.today, args.utcOffsetMinutes);
+        }
+
+        const listId = args.listId;
+
+        try {
+            if (listId) {
+                await assertListAccess(ctx.db, listId, userId, 'view', true);
+            }
+
+            // Charts track the user's own productivity: their todos count as created, and completions
+            // count for whoever checked the todo off, even in shared lists
+            const todos = listId
+                ? await ctx.db
+                    .query('todos')
+                    .withIndex("by_user_list", (q) => q.eq("userId", userId).eq("listId", listId))
+                    .collect()
+                : await ctx.db
+                    .query('todos')
+                    .withIndex("by_user", (q) => q.eq("userId", userId))
+                    .collect();
+
+            // Purged todos keep their history; their stand-ins supply the creation time
+            const purgedTodos = listId
+                ? await ctx.db
+                    .query('purgedTodos')
+                    .withIndex("by_user_list", (q) => q.eq("userId", userId).eq("listId", listId))
+                    .collect()
+                : await ctx.db
+                    .query('purgedTodos')
+                    .withIndex("by_user", (q) => q.eq("userId", userId))
+                    .collect();
+
+            // The whole history is needed for the longest streak
+            const ownEvents = await ctx.db
+                .query('todoEvents')
+                .withIndex("by_user", (q) => q.eq("userId", userId))
+                .collect();
+            const completedByUser = await ctx.db
+                .query('todoEvents')
+                .withIndex("by_actor", (q) => q.eq("actorId", userId))
+                .collect();
+
+            // Completions count for whoever checked the todo off: collaborators' go to them, and the
+            // user's completions of other people's todos in shared lists come to the user
+            const othersTodoEvents = completedByUser.filter((event) => event.userId !== userId);
+            const events = [
+                ...ownEvents.filter((event) => event.type !== 'completed' || !event.actorId || event.actorId === userId),
+                ...othersTodoEvents,
+            ].sort((a, b) => a.at - b.at);
+
+            const todosById = new Map<Id<'todos'>, { _creationTime: number; isOwn: boolean }>(
+                todos.map((todo) => [todo._id, { _creationTime: todo._creationTime, isOwn: true }]),
+            );
+            for (const purged of purgedTodos) {
+                todosById.set(purged.todoId, { _creationTime: purged.createdAt, isOwn: true });
+            }
+
+            // Other people's todos the user checked off, from their stand-in once purged
+            for (const todoId of new Set(othersTodoEvents.map((event) => event.todoId))) {
+                const todo = await ctx.db.get(todoId);
+                const purged = todo ? null : await ctx.db
+                    .query('purgedTodos')
+                    .withIndex("by_todo", (q) => q.eq("todoId", todoId))
+                    .unique();
+
+                const createdAt = todo?._creationTime ?? purged?.createdAt;
+                const todoListId = todo ? todo.listId : purged?.listId;
+                if (createdAt !== undefined && (!listId || todoListId === listId)) {
+                    todosById.set(todoId, { _creationTime: createdAt, isOwn: false });
+                }
+            }
+
+            return buildProductivityStats(
+                events,
+                todosById,
+                args.range,
+                args.today,
+                args.utcOffsetMinutes,
+            );
+        } catch (error) {
+            console.error('Error getting productivity stats for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to get productivity statistics');
         }
     },
 });
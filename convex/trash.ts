@@ -0,0 +1,183 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { internal } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import { DatabaseReader, internalMutation, mutation, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { diffTodoSnapshots, recordTodoEvent, snapshotTodo } from './lib/events';
+import { assertTodoAccess } from './lib/sharing';
+import { getDeletedTodos, getPurgeTime, getTrashCutoff, getTrashRetentionDays, purgeTodo } from './lib/trash';
+
+// Todos purged per run of the scheduled cleanup; larger backlogs continue in a follow-up run
+const PURGE_BATCH_SIZE = 200;
+
+/**
+ * Load trashed todos by id, verifying the signed-in user may edit each one
+ * That covers todos they deleted from a shared list, so the Undo snackbar works there too
+ * Ids that no longer exist or are not in the trash are skipped, so repeated taps are harmless
+ */
+const getEditableDeletedTodos = async (db: DatabaseReader, ids: Id<'todos'>[], userId: Id<'users'>) => {
+    const todos = [];
+    for (const id of new Set(ids)) {
+        const todo = await db.get(id);
+        if (!todo || todo.deletedAt === undefined) continue;
+
+        // Critical security check: Verify the user may edit the todo, directly or through a shared list
+        await assertTodoAccess(db, todo, userId, 'edit');
+        todos.push(todo);
+    }
+    return todos;
+};
+
+/**
+ * Query: Get User's Trash
+ * Returns the user's deleted todos, most recently deleted first, each with the time it will be purged
+ * Also reports the retention period so the Trash screen can explain it
+ */
+export const getTrash = query({
+    args: {},
+    handler: async (ctx, args) => {
+        const retentionDays = getTrashRetentionDays();
+
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return { todos: [], retentionDays };
+        }
+
+        try {
+            const todos = await getDeletedTodos(ctx.db, userId);
+
+            return {
+                todos: todos.map((todo) => ({
+                    ...todo,
+                    purgeAt: getPurgeTime(todo.deletedAt ?? 0, retentionDays),
+                })),
+                retentionDays,
+            };
+        } catch (error) {
+            console.error('Error fetching trash for user:', userId, error);
+            throw new ConvexError('Failed to fetch trash');
+        }
+    },
+});
+
+/**
+ * Mutation: Restore Todos From the Trash
+ * Used by the Undo snackbar and the Trash screen
+ * A todo whose list was deleted in the meantime comes back without a list
+ * Records a "restored" event, including the list change if there was one
+ */
+export const restoreTodos = mutation({
+    args: {
+        ids: v.array(v.id('todos')),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const todos = await getEditableDeletedTodos(ctx.db, args.ids, userId);
+
+            for (const todo of todos) {
+                const list = todo.listId ? await ctx.db.get(todo.listId) : null;
+                const listId = list ? todo.listId : undefined;
+                await ctx.db.patch(todo._id, { deletedAt: undefined, listId });
+                await recordTodoEvent(ctx.db, todo, 'restored', diffTodoSnapshots(snapshotTodo(todo), snapshotTodo({ ...todo, listId })));
+            }
+
+            return { success: true, restoredCount: todos.length };
+        } catch (error) {
+            console.error('Error restoring todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to restore todos');
+        }
+    },
+});
+
+/**
+ * Mutation: Permanently Delete Todos From the Trash
+ * Only todos already in the trash can be purged; tag links and subtasks go with them
+ */
+export const purgeTodos = mutation({
+    args: {
+        ids: v.array(v.id('todos')),
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const todos = await getEditableDeletedTodos(ctx.db, args.ids, userId);
+
+            for (const todo of todos) {
+                await purgeTodo(ctx.db, todo);
+            }
+
+            return { success: true, purgedCount: todos.length };
+        } catch (error) {
+            console.error('Error purging todos for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to purge todos');
+        }
+    },
+});
+
+/**
+ * Mutation: Empty User's Trash
+ * Permanently deletes every trashed todo belonging to the user
+ */
+export const emptyTrash = mutation({
+    args: {},
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        try {
+            const todos = await getDeletedTodos(ctx.db, userId);
+
+            for (const todo of todos) {
+                await purgeTodo(ctx.db, todo);
+            }
+
+            return { success: true, purgedCount: todos.length };
+        } catch (error) {
+            console.error('Error emptying trash for user:', userId, error);
+            throw new ConvexError('Failed to empty trash');
+        }
+    },
+});
+
+/**
+ * Internal Mutation: Purge Expired Trash
+ * Run daily by the cron in crons.ts; permanently deletes todos trashed longer than the retention period
+ * Works in batches and schedules itself again while expired todos remain
+ */
+export const purgeExpiredTodos = internalMutation({
+    args: {},
+    handler: async (ctx): Promise<{ purgedCount: number; hasMore: boolean }> => {
+        const cutoff = getTrashCutoff();
+
+        // Missing values sort first, so gte(0) skips todos that are not deleted
+        const expired = await ctx.db
+            .query('todos')
+            .withIndex("by_deleted", (q) => q.gte("deletedAt", 0).lt("deletedAt", cutoff))
+            .take(PURGE_BATCH_SIZE);
+
+        for (const todo of expired) {
+            await purgeTodo(ctx.db, todo);
+        }
+
+        const hasMore = expired.length === PURGE_BATCH_SIZE;
+        if (hasMore) {
+            await ctx.scheduler.runAfter(0, internal.trash.purgeExpiredTodos, {});
+        }
+
+        return { purgedCount: expired.length, hasMore };
+    },
+});
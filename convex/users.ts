@@ -0,0 +1,137 @@
+import { getAuthUserId } from '@convex-dev/auth/server';
+// Import Convex utilities for database operations and input validation
+import { ConvexError, v } from 'convex/values';
+// Import Convex server functions to define database operations
+import { internal } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import { internalMutation, mutation, MutationCtx, query } from './_generated/server';
+import { requireUserId } from './lib/auth';
+import { codedError } from './lib/errors';
+
+// Tables whose rows were owned by an anonymous device before accounts existed
+const CLAIMED_TABLES = ['todos', 'lists', 'subtasks', 'todoTags', 'todoEvents', 'purgedTodos'] as const;
+
+// Rows moved per transaction while claiming; the rest follow in scheduled runs
+const CLAIM_BATCH_SIZE = 200;
+
+/**
+ * Query: Get the Signed-In User
+ * Returns the account shown in Settings, or null when signed out
+ */
+export const getViewer = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) {
+            return null;
+        }
+
+        const user = await ctx.db.get(userId);
+        return user ? { _id: user._id, email: user.email } : null;
+    },
+});
+
+/**
+ * Move up to CLAIM_BATCH_SIZE of a device's rows over to a user, and schedule another run
+ * while rows remain. Tags go first so links to merged tags can be pointed at the surviving tag
+ * Claimed rows no longer match the by_device indexes, so each run picks up where the last stopped
+ */
+const claimDeviceBatch = async (ctx: MutationCtx, userId: Id<'users'>, deviceId: string) => {
+    let budget = CLAIM_BATCH_SIZE;
+
+    const tags = await ctx.db
+        .query('tags')
+        .withIndex("by_device", (q) => q.eq("deviceId", deviceId))
+        .take(budget);
+    budget -= tags.length;
+
+    for (const tag of tags) {
+        const existing = await ctx.db
+            .query('tags')
+            .withIndex("by_user_name", (q) => q.eq("userId", userId).eq("name", tag.name))
+            .unique();
+
+        if (!existing) {
+            await ctx.db.patch(tag._id, { userId, deviceId: undefined });
+            continue;
+        }
+
+        const links = await ctx.db
+            .query('todoTags')
+            .withIndex("by_tag", (q) => q.eq("tagId", tag._id))
+            .collect();
+        for (const link of links) {
+            await ctx.db.patch(link._id, { tagId: existing._id });
+        }
+        await ctx.db.delete(tag._id);
+    }
+
+    for (const table of CLAIMED_TABLES) {
+        if (budget === 0) break;
+
+        const rows = await ctx.db
+            .query(table)
+            .withIndex("by_device", (q) => q.eq("deviceId", deviceId))
+            .take(budget);
+        budget -= rows.length;
+
+        for (const row of rows) {
+            await ctx.db.patch(row._id, { userId, deviceId: undefined });
+        }
+    }
+
+    // A full batch may have left rows behind; an empty follow-up run simply ends the chain
+    const hasMore = budget === 0;
+    if (hasMore) {
+        await ctx.scheduler.runAfter(0, internal.users.continueDeviceClaim, { userId, deviceId });
+    }
+    return hasMore;
+};
+
+/**
+ * Mutation: Claim an Anonymous Device's Data
+ * Moves every todo, list, tag, checklist item and history event the device created before
+ * accounts existed over to the signed-in user. Tags whose name the user already has are merged
+ * into the existing tag. The first batch is moved right away and the rest in scheduled runs,
+ * so large histories stay within a mutation's limits
+ * Safe to call after every sign-in: once claimed there's nothing left to move
+ */
+export const claimDeviceData = mutation({
+    args: {
+        deviceId: v.string(), // The anonymous ID the device stored before signing in
+    },
+    handler: async (ctx, args) => {
+        // Identify the signed-in user; throws when signed out
+        const userId = await requireUserId(ctx);
+
+        if (!args.deviceId) {
+            throw codedError('INVALID_INPUT', 'Device ID is required');
+        }
+
+        try {
+            const hasMore = await claimDeviceBatch(ctx, userId, args.deviceId);
+            return { success: true, hasMore };
+        } catch (error) {
+            console.error('Error claiming device data for user:', userId, error);
+            if (error instanceof ConvexError) {
+                throw error; // Re-throw ConvexErrors as-is
+            }
+            throw new ConvexError('Failed to move your existing todos to your account');
+        }
+    },
+});
+
+/**
+ * Internal Mutation: Continue Claiming a Device's Data
+ * Scheduled by claimDeviceData; moves the next batch and schedules itself again while rows remain
+ */
+export const continueDeviceClaim = internalMutation({
+    args: {
+        userId: v.id('users'),
+        deviceId: v.string(),
+    },
+    handler: async (ctx, args): Promise<{ hasMore: boolean }> => {
+        const hasMore = await claimDeviceBatch(ctx, args.userId, args.deviceId);
+        return { hasMore };
+    },
+});
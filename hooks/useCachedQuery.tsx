@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useConvexAuth, useQuery } from 'convex/react';
+import { FunctionArgs, FunctionReference, FunctionReturnType, getFunctionName } from 'convex/server';
+import { useEffect, useState } from 'react';
+
+const CACHE_STORAGE_KEY = 'query_cache';
+
+// Results kept across launches; older ones are dropped first
+const MAX_CACHED_RESULTS = 12;
+
+type CacheEntries = Record<string, { value: unknown; savedAt: number }>;
+
+// Loaded once and shared by every cached query, so their writes don't overwrite each other
+let cacheEntries: Promise<CacheEntries> | null = null;
+
+const loadCache = () => {
+  cacheEntries ??= AsyncStorage.getItem(CACHE_STORAGE_KEY)
+    .then((value) => (value ? (JSON.parse(value) as CacheEntries) : {}))
+    .catch((error) => {
+      console.error('Error loading query cache:', error);
+      return {};
+    });
+  return cacheEntries;
+};
+
+const saveCacheEntry = async (key: string, value: unknown) => {
+  const entries = await loadCache();
+  entries[key] = { value, savedAt: Date.now() };
+
+  const stale = Object.keys(entries)
+    .sort((a, b) => entries[b].savedAt - entries[a].savedAt)
+    .slice(MAX_CACHED_RESULTS);
+  for (const staleKey of stale) delete entries[staleKey];
+
+  await AsyncStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(entries));
+};
+
+/**
+ * Forget every cached result, e.g. when signing out
+ */
+export const clearQueryCache = async () => {
+  cacheEntries = Promise.resolve({});
+  await AsyncStorage.removeItem(CACHE_STORAGE_KEY);
+};
+
+/**
+ * Cached Query Hook
+ * useQuery that also keeps its last result in AsyncStorage, per query and arguments
+ * Until the backend answers (e.g. the app started without a connection) the last-known result
+ * is returned instead; the query itself waits until the user is signed in
+ */
+const useCachedQuery = <Query extends FunctionReference<'query'>>(
+  query: Query,
+  args: FunctionArgs<Query> | 'skip'
+): FunctionReturnType<Query> | undefined => {
+  const { isAuthenticated } = useConvexAuth();
+  const live = useQuery(query, isAuthenticated ? args : 'skip');
+
+  const key = args === 'skip' ? null : `${getFunctionName(query)}:${JSON.stringify(args)}`;
+  const [cached, setCached] = useState<{ key: string; value: FunctionReturnType<Query> } | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+    let isCurrent = true;
+    loadCache().then((entries) => {
+      if (isCurrent && entries[key]) setCached({ key, value: entries[key].value as FunctionReturnType<Query> });
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [key]);
+
+  useEffect(() => {
+    if (!key || live === undefined) return;
+    saveCacheEntry(key, live).catch((error) => {
+      console.error('Error saving query cache:', error);
+    });
+  }, [key, live]);
+
+  if (live !== undefined) return live;
+  return cached && cached.key === key ? cached.value : undefined;
+};
+
+export default useCachedQuery;
@@ -0,0 +1,38 @@
+import { api } from '@/convex/_generated/api';
+import useDeviceId from '@/hooks/useDeviceId';
+import { useConvexAuth, useMutation } from 'convex/react';
+import { useEffect, useRef } from 'react';
+
+/**
+ * Claim Device Data Hook
+ * Moves todos, lists and tags this installation created before accounts existed
+ * into the signed-in user's account
+ * Runs once per sign-in; the backend makes repeat claims a no-op
+ */
+const useClaimDeviceData = () => {
+  const { isAuthenticated } = useConvexAuth();
+  const { deviceId } = useDeviceId();
+
+  const claimDeviceData = useMutation(api.users.claimDeviceData);
+
+  // Device id claimed during the current session, so re-renders do not claim again
+  const claimedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      // Signing out lets the next account claim again (nothing is left after the first claim)
+      claimedRef.current = null;
+      return;
+    }
+    if (!deviceId || claimedRef.current === deviceId) return;
+
+    claimedRef.current = deviceId;
+    claimDeviceData({ deviceId }).catch((error) => {
+      console.error('Error claiming device data:', error);
+      // Retry on the next sign-in or app launch
+      claimedRef.current = null;
+    });
+  }, [isAuthenticated, deviceId, claimDeviceData]);
+};
+
+export default useClaimDeviceData;
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Debounced Value Hook
+ * Returns the value once it has stopped changing for `delay` milliseconds
+ * Used to keep live search from querying on every keystroke
+ */
+const useDebouncedValue = <T,>(value: T, delay = 300) => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+export default useDebouncedValue;
@@ -6,7 +6,8 @@ import { useEffect, useState } from 'react';
 
 /**
  * Device ID Hook
- * Generates and manages a unique device identifier for user data isolation
+ * Generates and manages a unique identifier for this installation
+ * Todos made before accounts existed were owned by this ID; they move into the account on sign-in
  * Combines device info with a generated UUID for uniqueness and persistence
  */
 const useDeviceId = () => {
@@ -0,0 +1,60 @@
+import { api } from '@/convex/_generated/api';
+import useDeviceId from '@/hooks/useDeviceId';
+import useOfflineSync from '@/hooks/useOfflineSync';
+import { useAuthActions } from '@convex-dev/auth/react';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import * as Device from 'expo-device';
+import { useEffect, useState } from 'react';
+import { Platform } from 'react-native';
+
+/**
+ * Device Registration Hook
+ * Adds this installation to the account's device list after signing in,
+ * and signs out once another device unlinks it, clearing the offline cache, outbox and reminders
+ */
+const useDeviceRegistration = () => {
+  const { isAuthenticated } = useConvexAuth();
+  const { deviceId } = useDeviceId();
+  const { signOut } = useAuthActions();
+  const { clearOfflineData } = useOfflineSync();
+
+  const registerDevice = useMutation(api.devices.registerDevice);
+
+  // Only trust the linked check once this session's registration has landed
+  const [isRegistered, setIsRegistered] = useState(false);
+  const isLinked = useQuery(api.devices.isCurrentDeviceLinked, isRegistered ? {} : "skip");
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setIsRegistered(false);
+      return;
+    }
+    if (!deviceId) return;
+
+    registerDevice({
+      deviceId,
+      name: Device.deviceName ?? Device.modelName ?? 'Unknown device',
+      platform: Platform.OS,
+    })
+      .then(() => setIsRegistered(true))
+      .catch((error) => {
+        console.error('Error registering device:', error);
+      });
+  }, [isAuthenticated, deviceId, registerDevice]);
+
+  useEffect(() => {
+    if (isLinked !== false) return;
+
+    signOut()
+      .catch((error) => {
+        console.error('Error signing out unlinked device:', error);
+      })
+      // Clear even if signing out failed, so the removed account's todos and reminders leave this device
+      .then(clearOfflineData)
+      .catch((error) => {
+        console.error('Error clearing data on unlinked device:', error);
+      });
+  }, [isLinked, signOut, clearOfflineData]);
+};
+
+export default useDeviceRegistration;
@@ -0,0 +1,291 @@
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { ErrorCode, getErrorCode } from '@/convex/lib/errors';
+import { clearQueryCache } from '@/hooks/useCachedQuery';
+import usePreferences from '@/hooks/usePreferences';
+import useToast from '@/hooks/useToast';
+import { clearReminders } from '@/utils/notificationScheduler';
+import { optimisticAddTodo, optimisticDeleteTodo, optimisticToggleTodo, optimisticUpdateTodo } from '@/utils/optimisticTodos';
+import {
+    AddTodoArgs,
+    addToOutbox,
+    completeOutboxEntry,
+    createClientId,
+    describeRejectedEntry,
+    dropOutboxEntry,
+    MAX_SYNC_ATTEMPTS,
+    OutboxEntry,
+    recordFailedAttempt,
+    TodoChanges,
+} from '@/utils/outbox';
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useConvexAuth, useConvexConnectionState, useMutation } from 'convex/react';
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+
+const OUTBOX_STORAGE_KEY = "sync_outbox";
+
+/**
+ * Offline Sync Context Type Definition
+ * Todo changes go through the outbox so they keep working without a connection
+ */
+interface OfflineSyncContextType {
+    outbox: OutboxEntry[];                                   // Changes not confirmed by the backend yet, oldest first
+    isOnline: boolean;                                       // Whether the backend connection is up
+    isSyncing: boolean;                                      // Whether the outbox is being sent right now
+    queueAdd: (args: AddTodoArgs) => string;                 // Returns the pending todo's temporary id
+    queueSetCompleted: (todoId: string, isCompleted: boolean, options: { completeSubtasks: boolean; today: string }) => void;
+    queueUpdate: (todoId: string, changes: TodoChanges) => void;
+    queueDelete: (todoId: string) => void;
+    cancelQueuedDeletes: (todoIds: Id<"todos">[]) => Id<"todos">[]; // Returns the ids whose delete was already sent
+    syncNow: () => Promise<void>;
+    clearOfflineData: () => Promise<void>;                   // Also cancels the signed-out account's reminders
+}
+
+const OfflineSyncContext = createContext<undefined | OfflineSyncContextType>(undefined);
+
+// Codes the backend uses to turn a change down for good
+const REJECTION_CODES: ErrorCode[] = ['NOT_FOUND', 'FORBIDDEN', 'INVALID_INPUT'];
+
+/**
+ * Whether the backend turned a change down for good (gone, no access, bad input), as opposed to
+ * a failure worth retrying later, like a dropped session or an unexpected "Failed to ..." error
+ */
+const isRejection = (error: unknown) => {
+    const code = getErrorCode(error);
+    return code !== undefined && REJECTION_CODES.includes(code);
+};
+
+/**
+ * Offline Sync Provider Component
+ * Keeps the outbox of queued todo changes in AsyncStorage and replays it in order whenever
+ * the connection is up, the session is confirmed and Auto Sync is on (or when asked to)
+ * The conflict rules live with the outbox helpers in utils/outbox
+ * While a change is being sent its optimistic update keeps the lists current; a change the
+ * backend rejects is rolled back and reported with a toast
+ */
+export const OfflineSyncProvider = ({ children }: { children: ReactNode }) => {
+    const { isAuthenticated } = useConvexAuth();
+    const { isWebSocketConnected } = useConvexConnectionState();
+    const { autoSync } = usePreferences();
+    const { showToast } = useToast();
+
+    // Todo mutations with optimistic updates, so the lists change before the round trip completes
+    const addTodoMutation = useMutation(api.todos.addTodo);
+    const toggleTodoMutation = useMutation(api.todos.toggleTodo);
+    const updateTodoMutation = useMutation(api.todos.updateTodo);
+    const deleteTodoMutation = useMutation(api.todos.deleteTodo);
+    const addTodo = useMemo(() => addTodoMutation.withOptimisticUpdate(optimisticAddTodo), [addTodoMutation]);
+    const toggleTodo = useMemo(() => toggleTodoMutation.withOptimisticUpdate(optimisticToggleTodo), [toggleTodoMutation]);
+    const updateTodo = useMemo(() => updateTodoMutation.withOptimisticUpdate(optimisticUpdateTodo), [updateTodoMutation]);
+    const deleteTodo = useMemo(() => deleteTodoMutation.withOptimisticUpdate(optimisticDeleteTodo), [deleteTodoMutation]);
+
+    const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    // The flush loop reads and writes the latest outbox without waiting for a render
+    const outboxRef = useRef<OutboxEntry[]>([]);
+    const isFlushingRef = useRef(false);
+
+    /**
+     * Change the outbox and persist it right away, so queued changes survive the app closing
+     */
+    const updateOutbox = useCallback((change: (current: OutboxEntry[]) => OutboxEntry[]) => {
+        outboxRef.current = change(outboxRef.current);
+        setOutbox(outboxRef.current);
+        AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(outboxRef.current)).catch((error) => {
+            console.error("Error saving sync outbox:", error);
+        });
+    }, []);
+
+    /**
+     * Effect Hook: Load the Saved Outbox
+     * Changes queued before loading finished go after the saved ones
+     */
+    useEffect(() => {
+        AsyncStorage.getItem(OUTBOX_STORAGE_KEY)
+            .then((value) => {
+                if (value) updateOutbox((current) => [...(JSON.parse(value) as OutboxEntry[]), ...current]);
+            })
+            .catch((error) => console.error("Error loading sync outbox:", error))
+            .finally(() => setIsLoaded(true));
+    }, [updateOutbox]);
+
+    /**
+     * Send one queued change; returns the new todo's id for an add
+     */
+    const sendEntry = useCallback(async (entry: OutboxEntry) => {
+        switch (entry.type) {
+            case "add":
+                return await addTodo({ ...entry.args, clientId: entry.todoId });
+            case "complete":
+                await toggleTodo({
+                    id: entry.todoId as Id<"todos">,
+                    isCompleted: entry.isCompleted,
+                    completeSubtasks: entry.completeSubtasks,
+                    today: entry.today,
+                });
+                return undefined;
+            case "update":
+                await updateTodo({ id: entry.todoId as Id<"todos">, ...entry.changes });
+                return undefined;
+            case "delete":
+                await deleteTodo({ id: entry.todoId as Id<"todos"> });
+                return undefined;
+        }
+    }, [addTodo, toggleTodo, updateTodo, deleteTodo]);
+
+    /**
+     * Replay the outbox oldest first, one change at a time
+     * Stops at the first failure that may be temporary and tries again on the next flush;
+     * a change that fails MAX_SYNC_ATTEMPTS times is dropped like a rejected one
+     */
+    const flush = useCallback(async () => {
+        if (isFlushingRef.current) return;
+        isFlushingRef.current = true;
+        setIsSyncing(true);
+
+        const rejections: string[] = [];
+        try {
+            while (outboxRef.current.length > 0) {
+                const entry = outboxRef.current[0];
+                try {
+                    const insertedId = await sendEntry(entry);
+                    updateOutbox((current) => completeOutboxEntry(current, entry, insertedId));
+                } catch (error) {
+                    if (!isRejection(error)) {
+                        // A dropped session doesn't count against the change; it is sent again once signed in
+                        const isSignedOut = getErrorCode(error) === 'UNAUTHENTICATED';
+                        if (isSignedOut || (entry.failedAttempts ?? 0) + 1 < MAX_SYNC_ATTEMPTS) {
+                            console.error("Error syncing change, will retry:", error);
+                            if (!isSignedOut) updateOutbox((current) => recordFailedAttempt(current, entry));
+                            break;
+                        }
+                        console.error("Dropping change after repeated failures:", error);
+                    } else {
+                        // The todo is gone (deletes win), or the backend refused the change
+                        console.error("Dropping rejected change:", error);
+                    }
+
+                    updateOutbox((current) => dropOutboxEntry(current, entry));
+                    const message = describeRejectedEntry(entry, getErrorCode(error) === 'NOT_FOUND');
+                    if (message) rejections.push(message);
+                }
+            }
+        } finally {
+            isFlushingRef.current = false;
+            setIsSyncing(false);
+        }
+
+        if (rejections.length === 1) {
+            showToast(rejections[0]);
+        } else if (rejections.length > 1) {
+            showToast(`${rejections.length} changes couldn't be saved and were undone.`);
+        }
+    }, [sendEntry, updateOutbox, showToast]);
+
+    const canSync = isLoaded && isAuthenticated && isWebSocketConnected;
+
+    /**
+     * Effect Hook: Auto Sync
+     * Sends queued changes as soon as they are made, or once the connection comes back
+     */
+    useEffect(() => {
+        if (canSync && autoSync && outbox.length > 0) {
+            flush();
+        }
+    }, [canSync, autoSync, outbox.length, flush]);
+
+    const queue = (entry: OutboxEntry) => updateOutbox((current) => addToOutbox(current, entry));
+
+    const queueAdd = (args: AddTodoArgs) => {
+        const todoId = createClientId();
+        queue({ id: createClientId(), queuedAt: Date.now(), type: "add", todoId, args });
+        return todoId;
+    };
+
+    const queueSetCompleted = (todoId: string, isCompleted: boolean, options: { completeSubtasks: boolean; today: string }) =>
+        queue({ id: createClientId(), queuedAt: Date.now(), type: "complete", todoId, isCompleted, ...options });
+
+    const queueUpdate = (todoId: string, changes: TodoChanges) => {
+        if (Object.keys(changes).length === 0) return;
+        queue({ id: createClientId(), queuedAt: Date.now(), type: "update", todoId, changes });
+    };
+
+    const queueDelete = (todoId: string) =>
+        queue({ id: createClientId(), queuedAt: Date.now(), type: "delete", todoId });
+
+    /**
+     * Undo deletes that haven't been sent yet by taking them off the queue
+     * The entry being sent right now can't be taken back; its todo is restored like any other
+     */
+    const cancelQueuedDeletes = (todoIds: Id<"todos">[]) => {
+        const inFlight = isFlushingRef.current ? outboxRef.current[0] : undefined;
+        const cancelled = new Set(
+            outboxRef.current.flatMap((entry) =>
+                entry.type === "delete" && entry !== inFlight && todoIds.some((todoId) => todoId === entry.todoId) ? [entry.todoId] : []
+            )
+        );
+        if (cancelled.size > 0) {
+            updateOutbox((current) => current.filter((entry) => !(entry.type === "delete" && cancelled.has(entry.todoId))));
+        }
+        return todoIds.filter((todoId) => !cancelled.has(todoId));
+    };
+
+    /**
+     * Send the outbox now, regardless of Auto Sync
+     */
+    const syncNow = async () => {
+        if (!canSync) {
+            showToast("You're offline. Your changes will be sent once you're back online.", "info");
+            return;
+        }
+        await flush();
+    };
+
+    /**
+     * Forget queued changes, cached todos and scheduled reminders, e.g. when signing out
+     */
+    const clearOfflineData = useCallback(async () => {
+        updateOutbox(() => []);
+        await clearQueryCache();
+        // The reminders hook unmounts with the signed-in screens, so cancel its notifications here
+        await clearReminders();
+    }, [updateOutbox]);
+
+    return (
+        <OfflineSyncContext.Provider
+            value={{
+                outbox,
+                isOnline: isWebSocketConnected,
+                isSyncing,
+                queueAdd,
+                queueSetCompleted,
+                queueUpdate,
+                queueDelete,
+                cancelQueuedDeletes,
+                syncNow,
+                clearOfflineData,
+            }}
+        >
+            {children}
+        </OfflineSyncContext.Provider>
+    );
+};
+
+/**
+ * useOfflineSync Custom Hook
+ * Provides the outbox and its queueing functions from any component
+ */
+const useOfflineSync = () => {
+    const context = useContext(OfflineSyncContext);
+
+    // Error handling: ensure hook is used within OfflineSyncProvider
+    if (context === undefined) {
+        throw new Error("useOfflineSync must be used within an OfflineSyncProvider");
+    }
+
+    return context;
+};
+
+export default useOfflineSync;
@@ -0,0 +1,151 @@
+import {
+    DEFAULT_NEW_TODO_POSITION,
+    DEFAULT_TODO_FILTER,
+    DEFAULT_TODO_SORT,
+    NewTodoPosition,
+    TodoFilter,
+    TodoSort,
+    toTodoFilter,
+    toTodoSort,
+} from '@/utils/todoView';
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { createContext, ReactNode, useContext, useEffect, useState } from 'react';
+
+/**
+ * Preferences Context Type Definition
+ * App behaviour settings that are persisted across sessions
+ */
+interface PreferencesContextType {
+    isLoaded: boolean;                                       // Whether the saved preferences have been read yet
+    notificationsEnabled: boolean;                           // Whether todo reminders are delivered
+    setNotificationsEnabled: (enabled: boolean) => Promise<void>;
+    todoFilter: TodoFilter;                                  // Status filter for the home list
+    setTodoFilter: (filter: TodoFilter) => Promise<void>;
+    todoSort: TodoSort;                                      // Sort order for the home list
+    setTodoSort: (sort: TodoSort) => Promise<void>;
+    newTodoPosition: NewTodoPosition;                        // Where new todos land in the manual order
+    setNewTodoPosition: (position: NewTodoPosition) => Promise<void>;
+    autoSync: boolean;                                       // Whether offline changes upload as soon as the connection returns
+    setAutoSync: (enabled: boolean) => Promise<void>;
+}
+
+const PreferencesContext = createContext<undefined | PreferencesContextType>(undefined);
+
+/**
+ * Preferences Provider Component
+ * Loads and persists user preferences with AsyncStorage, like ThemeProvider does for dark mode
+ */
+export const PreferencesProvider = ({ children }: { children: ReactNode }) => {
+    const [notificationsEnabled, setNotificationsEnabledState] = useState(true);
+    const [todoFilter, setTodoFilterState] = useState<TodoFilter>(DEFAULT_TODO_FILTER);
+    const [todoSort, setTodoSortState] = useState<TodoSort>(DEFAULT_TODO_SORT);
+    const [newTodoPosition, setNewTodoPositionState] = useState<NewTodoPosition>(DEFAULT_NEW_TODO_POSITION);
+    const [autoSync, setAutoSyncState] = useState(true);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    /**
+     * Effect Hook: Load Saved Preferences
+     * Runs on mount to restore the user's previous choices
+     */
+    useEffect(() => {
+        Promise.all([
+            AsyncStorage.getItem("notificationsEnabled").then((value) => {
+                if (value) setNotificationsEnabledState(JSON.parse(value));
+            }),
+            AsyncStorage.getItem("todoFilter").then((value) => {
+                if (value) setTodoFilterState(toTodoFilter(JSON.parse(value)));
+            }),
+            AsyncStorage.getItem("todoSort").then((value) => {
+                if (value) setTodoSortState(toTodoSort(JSON.parse(value)));
+            }),
+            AsyncStorage.getItem("newTodoPosition").then((value) => {
+                if (value) setNewTodoPositionState(JSON.parse(value) === "bottom" ? "bottom" : "top");
+            }),
+            AsyncStorage.getItem("autoSync").then((value) => {
+                if (value) setAutoSyncState(JSON.parse(value));
+            }),
+        ])
+            .catch((error) => {
+                console.error("Error loading preferences:", error);
+            })
+            // Reminders wait for this, so a saved "off" is never overridden by the default
+            .finally(() => setIsLoaded(true));
+    }, []);
+
+    /**
+     * Enable or pause all reminder notifications and persist the choice
+     */
+    const setNotificationsEnabled = async (enabled: boolean) => {
+        setNotificationsEnabledState(enabled);
+        await AsyncStorage.setItem("notificationsEnabled", JSON.stringify(enabled));
+    };
+
+    /**
+     * Change the home list's status filter and persist the choice
+     */
+    const setTodoFilter = async (filter: TodoFilter) => {
+        setTodoFilterState(filter);
+        await AsyncStorage.setItem("todoFilter", JSON.stringify(filter));
+    };
+
+    /**
+     * Change the home list's sort order and persist the choice
+     */
+    const setTodoSort = async (sort: TodoSort) => {
+        setTodoSortState(sort);
+        await AsyncStorage.setItem("todoSort", JSON.stringify(sort));
+    };
+
+    /**
+     * Choose whether new todos are added at the top or bottom of the manual order and persist the choice
+     */
+    const setNewTodoPosition = async (position: NewTodoPosition) => {
+        setNewTodoPositionState(position);
+        await AsyncStorage.setItem("newTodoPosition", JSON.stringify(position));
+    };
+
+    /**
+     * Choose whether queued offline changes upload automatically or only on "Sync Now", and persist the choice
+     */
+    const setAutoSync = async (enabled: boolean) => {
+        setAutoSyncState(enabled);
+        await AsyncStorage.setItem("autoSync", JSON.stringify(enabled));
+    };
+
+    return (
+        <PreferencesContext.Provider
+            value={{
+                isLoaded,
+                notificationsEnabled,
+                setNotificationsEnabled,
+                todoFilter,
+                setTodoFilter,
+                todoSort,
+                setTodoSort,
+                newTodoPosition,
+                setNewTodoPosition,
+                autoSync,
+                setAutoSync,
+            }}
+        >
+            {children}
+        </PreferencesContext.Provider>
+    );
+};
+
+/**
+ * usePreferences Custom Hook
+ * Provides access to persisted preferences from any component
+ */
+const usePreferences = () => {
+    const context = useContext(PreferencesContext);
+
+    // Error handling: ensure hook is used within PreferencesProvider
+    if (context === undefined) {
+        throw new Error("usePreferences must be used within a PreferencesProvider");
+    }
+
+    return context;
+};
+
+export default usePreferences;
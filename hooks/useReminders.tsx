@@ -0,0 +1,34 @@
+import { api } from '@/convex/_generated/api';
+import useCachedQuery from '@/hooks/useCachedQuery';
+import usePreferences from '@/hooks/usePreferences';
+import { reminderSync } from '@/utils/notificationScheduler';
+import { useEffect } from 'react';
+
+/**
+ * Reminders Hook
+ * Keeps local reminder notifications in step with the user's todos
+ * Creating or editing a todo schedules its reminder, completing or deleting it cancels it,
+ * and turning off the Notifications preference pauses every reminder
+ * Only the user's own todos get reminders, not other members' todos in shared lists
+ */
+const useReminders = () => {
+  const { isLoaded, notificationsEnabled } = usePreferences();
+
+  // Cached, so reminders stay in step when the app starts without a connection
+  const todos = useCachedQuery(api.todos.getTodos, {});
+  const viewer = useCachedQuery(api.users.getViewer, {});
+
+  useEffect(() => {
+    // Wait for the first results and the saved preference, so loading neither cancels nor schedules anything
+    if (!isLoaded || todos === undefined || !viewer) return;
+
+    // Todos still waiting in the outbox have no owner yet, and are always the user's own
+    const ownTodos = todos.filter((todo) => todo.userId === undefined || todo.userId === viewer._id);
+
+    reminderSync.sync(ownTodos, notificationsEnabled).catch((error) => {
+      console.error('Error syncing reminders:', error);
+    });
+  }, [isLoaded, todos, viewer, notificationsEnabled]);
+};
+
+export default useReminders;
@@ -0,0 +1,52 @@
+import Toast, { ToastMessage } from '@/components/Toast';
+import { createContext, ReactNode, useCallback, useContext, useRef, useState } from 'react';
+
+/**
+ * Toast Context Type Definition
+ * Lets any component report something without interrupting the user
+ */
+interface ToastContextType {
+    showToast: (message: string, type?: ToastMessage["type"]) => void;
+}
+
+const ToastContext = createContext<undefined | ToastContextType>(undefined);
+
+/**
+ * Toast Provider Component
+ * Shows one toast at a time above every screen; a new one replaces the current one
+ */
+export const ToastProvider = ({ children }: { children: ReactNode }) => {
+    const [toast, setToast] = useState<ToastMessage | null>(null);
+    const nextIdRef = useRef(0);
+
+    const showToast = useCallback((message: string, type: ToastMessage["type"] = "error") => {
+        nextIdRef.current += 1;
+        setToast({ id: nextIdRef.current, message, type });
+    }, []);
+
+    const dismissToast = useCallback(() => setToast(null), []);
+
+    return (
+        <ToastContext.Provider value={{ showToast }}>
+            {children}
+            <Toast toast={toast} onDismiss={dismissToast} />
+        </ToastContext.Provider>
+    );
+};
+
+/**
+ * useToast Custom Hook
+ * Provides showToast from any component
+ */
+const useToast = () => {
+    const context = useContext(ToastContext);
+
+    // Error handling: ensure hook is used within ToastProvider
+    if (context === undefined) {
+        throw new Error("useToast must be used within a ToastProvider");
+    }
+
+    return context;
+};
+
+export default useToast;
@@ -0,0 +1,24 @@
+import { toDateKey } from '@/utils/dates';
+import { useEffect, useState } from 'react';
+
+/**
+ * Today Hook
+ * Returns the device-local calendar day as "YYYY-MM-DD"
+ * Re-renders just after midnight so due date sections roll over without a restart
+ */
+const useToday = () => {
+  const [today, setToday] = useState(() => toDateKey(new Date()));
+
+  useEffect(() => {
+    // Schedule an update for the start of the next local day
+    const now = new Date();
+    const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    const timeout = setTimeout(() => setToday(toDateKey(new Date())), nextMidnight.getTime() - now.getTime() + 1000);
+
+    return () => clearTimeout(timeout);
+  }, [today]);
+
+  return today;
+};
+
+export default useToday;
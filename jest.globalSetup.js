@@ -0,0 +1,5 @@
+// Runs once before the test workers start, so they inherit the time zone
+// Date tests resolve "today" and times in local time; a fixed zone (with DST) keeps them repeatable
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
@@ -0,0 +1,153 @@
+import { hasQuickAddFields, parseQuickAdd, QuickAddResult } from "@/utils/quickAdd";
+
+// Monday 2026-10-19, 10:00 local time
+const MONDAY_MORNING = new Date(2026, 9, 19, 10, 0);
+
+type Case = [input: string, expected: Partial<QuickAddResult>, now?: Date];
+
+/**
+ * Parse every case and compare only the fields the case names; undefined means the field is unset
+ */
+const runCases = (cases: Case[]) =>
+  it.each(cases)("%s", (input, expected, now = MONDAY_MORNING) => {
+    const result = parseQuickAdd(input, now);
+    expect(Object.fromEntries(Object.keys(expected).map((key) => [key, result[key as keyof QuickAddResult]])))
+      .toEqual(expected);
+  });
+
+describe("parseQuickAdd", () => {
+  describe("relative dates", () => {
+    runCases([
+      ["Buy milk today", { text: "Buy milk", dueDate: "2026-10-19" }],
+      ["Buy milk tomorrow", { text: "Buy milk", dueDate: "2026-10-20" }],
+      ["Buy milk tmrw", { text: "Buy milk", dueDate: "2026-10-20" }],
+      ["Watch film tonight", { text: "Watch film", dueDate: "2026-10-19", dueTime: "20:00" }],
+      ["Pay rent in 3 days", { text: "Pay rent", dueDate: "2026-10-22" }],
+      ["Trip in 2 weeks", { text: "Trip", dueDate: "2026-11-02" }],
+      ["Call back in a week", { text: "Call back", dueDate: "2026-10-26" }],
+      ["Plan next week", { text: "Plan", dueDate: "2026-10-26" }],
+      ["Budget next month", { text: "Budget", dueDate: "2026-11-01" }],
+      ["Tax return 2026-11-05", { text: "Tax return", dueDate: "2026-11-05" }],
+      ["Party 25 december", { text: "Party", dueDate: "2026-12-25" }],
+      ["Party dec 25th", { text: "Party", dueDate: "2026-12-25" }],
+    ]);
+  });
+
+  describe("times", () => {
+    runCases([
+      ["Call mom at 3pm", { text: "Call mom", dueDate: "2026-10-19", dueTime: "15:00" }],
+      ["Call mom 3:30 pm", { text: "Call mom", dueDate: "2026-10-19", dueTime: "15:30" }],
+      ["Lunch noon", { text: "Lunch", dueDate: "2026-10-19", dueTime: "12:00" }],
+      ["Report 17:45", { text: "Report", dueDate: "2026-10-19", dueTime: "17:45" }],
+      ["Midnight snack 12am", { text: "Midnight snack", dueDate: "2026-10-20", dueTime: "00:00" }],
+      // Times already past today roll over to tomorrow
+      ["Standup 9am", { text: "Standup", dueDate: "2026-10-20", dueTime: "09:00" }],
+      ["Standup 10:00", { text: "Standup", dueDate: "2026-10-20", dueTime: "10:00" }],
+      ["Drinks friday 6pm", { text: "Drinks", dueDate: "2026-10-23", dueTime: "18:00" }],
+      ["Not a time 13pm", { text: "Not a time 13pm" }],
+    ]);
+  });
+
+  describe("weekdays and next", () => {
+    runCases([
+      ["Gym friday", { text: "Gym", dueDate: "2026-10-23" }],
+      // A bare weekday is the next one after today, never today itself
+      ["Gym monday", { text: "Gym", dueDate: "2026-10-26" }],
+      ["Gym tuesday", { text: "Gym", dueDate: "2026-10-20" }],
+      ["Review next friday", { text: "Review", dueDate: "2026-10-30" }],
+      ["Review next monday", { text: "Review", dueDate: "2026-10-26" }],
+      ["Dentist on sun", { text: "Dentist", dueDate: "2026-10-25" }],
+      ["Dentist by wed", { text: "Dentist", dueDate: "2026-10-21" }],
+      // Short names need "on" or "by" so ordinary words stay in the text
+      ["Sun hat", { text: "Sun hat", dueDate: undefined }],
+      ["Gym sunday", { text: "Gym", dueDate: "2026-10-25" }, new Date(2026, 9, 24, 9, 0)],
+    ]);
+  });
+
+  describe("month and day rollover", () => {
+    runCases([
+      ["Pay bills tomorrow", { dueDate: "2026-02-01" }, new Date(2026, 0, 31, 9, 0)],
+      ["Pay bills tomorrow", { dueDate: "2028-02-29" }, new Date(2028, 1, 28, 9, 0)],
+      ["New year in 1 day", { dueDate: "2027-01-01" }, new Date(2026, 11, 31, 9, 0)],
+      ["Budget next month", { dueDate: "2027-01-01" }, new Date(2026, 11, 15, 9, 0)],
+      ["Late call 11pm", { dueDate: "2027-01-01", dueTime: "23:00" }, new Date(2026, 11, 31, 23, 30)],
+      // Dates already past this year mean next year
+      ["Party mar 14", { text: "Party", dueDate: "2027-03-14" }],
+      ["Party oct 19", { text: "Party", dueDate: "2026-10-19" }],
+      // Impossible dates stay part of the text
+      ["Invalid feb 30", { text: "Invalid feb 30", dueDate: undefined }],
+    ]);
+  });
+
+  describe("repeat rules", () => {
+    runCases([
+      ["Water plants daily", { text: "Water plants", dueDate: "2026-10-19", recurrence: "FREQ=DAILY" }],
+      ["Stretch every other week", { text: "Stretch", dueDate: "2026-10-19", recurrence: "FREQ=WEEKLY;INTERVAL=2" }],
+      ["Backup every 3 days", { text: "Backup", recurrence: "FREQ=DAILY;INTERVAL=3" }],
+      ["Team sync every mon and thu", {
+        text: "Team sync",
+        dueDate: "2026-10-19",
+        recurrence: "FREQ=WEEKLY;BYDAY=MO,TH",
+      }],
+      ["Bread and butter every fri and", { text: "Bread and butter and", recurrence: "FREQ=WEEKLY;BYDAY=FR" }],
+      ["Report every 15th", { text: "Report", dueDate: "2026-11-15", recurrence: "FREQ=MONTHLY;BYMONTHDAY=15" }],
+      ["Clean weekends every saturday", { dueDate: "2026-10-24", recurrence: "FREQ=WEEKLY;BYDAY=SA" }],
+      // The due date moves onto the rule's first day, so it is an occurrence itself
+      ["Call Sam tomorrow 3pm every monday", {
+        text: "Call Sam",
+        dueDate: "2026-10-26",
+        dueTime: "15:00",
+        recurrence: "FREQ=WEEKLY;BYDAY=MO",
+      }],
+      ["Clean friday every saturday", { text: "Clean", dueDate: "2026-10-24", recurrence: "FREQ=WEEKLY;BYDAY=SA" }],
+      // A time already past today starts the series tomorrow
+      ["every day at 7am", { text: "", dueDate: "2026-10-20", dueTime: "07:00", recurrence: "FREQ=DAILY" }],
+      ["Standup weekdays 9am", {
+        dueDate: "2026-10-20",
+        dueTime: "09:00",
+        recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+      }],
+      ["Standup weekdays 9am", { dueDate: "2026-10-26" }, new Date(2026, 9, 23, 10, 0)],
+      ["every day at 11am", { dueDate: "2026-10-19", dueTime: "11:00" }],
+    ]);
+  });
+
+  describe("tags and priority", () => {
+    runCases([
+      ["Ship it #work #Work !high", { text: "Ship it", tagNames: ["work"], priority: "high" }],
+      ["Fix bug !1 !low", { text: "Fix bug !low", priority: "urgent" }],
+      ["Plain text", { text: "Plain text", tagNames: [], priority: undefined }],
+    ]);
+  });
+
+  describe("time zones", () => {
+    // Tests run in America/New_York (see jest.globalSetup.js)
+
+    it("uses the local calendar day, not the UTC one", () => {
+      // 03:30 UTC on the 20th is still 23:30 on the 19th in New York
+      const now = new Date("2026-10-20T03:30:00Z");
+      expect(parseQuickAdd("Read today", now).dueDate).toBe("2026-10-19");
+      expect(parseQuickAdd("Read tomorrow", now).dueDate).toBe("2026-10-20");
+    });
+
+    it("compares times against the local clock", () => {
+      const now = new Date("2026-10-20T03:30:00Z");
+      expect(parseQuickAdd("Sleep 11pm", now)).toMatchObject({ dueDate: "2026-10-20", dueTime: "23:00" });
+      expect(parseQuickAdd("Sleep 11:45pm", now)).toMatchObject({ dueDate: "2026-10-19", dueTime: "23:45" });
+    });
+
+    it("counts calendar days across a daylight saving change", () => {
+      // Clocks spring forward on Sunday 2026-03-08 and fall back on Sunday 2026-11-01
+      expect(parseQuickAdd("Plan in 2 days", new Date(2026, 2, 7, 0, 30)).dueDate).toBe("2026-03-09");
+      expect(parseQuickAdd("Plan tomorrow", new Date(2026, 9, 31, 23, 30)).dueDate).toBe("2026-11-01");
+      expect(parseQuickAdd("Plan next week", new Date(2026, 10, 1, 23, 30)).dueDate).toBe("2026-11-02");
+    });
+  });
+});
+
+describe("hasQuickAddFields", () => {
+  it("is false for plain text and true once anything was recognised", () => {
+    expect(hasQuickAddFields(parseQuickAdd("Just words", MONDAY_MORNING))).toBe(false);
+    expect(hasQuickAddFields(parseQuickAdd("Words #tag", MONDAY_MORNING))).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import {
+  createReminderSync,
+  formatReminderLabel,
+  getReminderDate,
+  PlannedReminder,
+  planReminders,
+  Reminder,
+  ReminderScheduler,
+  reminderIdForTodo,
+} from "@/utils/reminders";
+
+type Todo = Doc<"todos">;
+
+// Monday 2026-10-19, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const makeTodo = (id: string, fields: Partial<Todo> = {}): Todo => ({
+  _id: id as Id<"todos">,
+  _creationTime: NOW.getTime(),
+  text: `Todo ${id}`,
+  isCompleted: false,
+  ...fields,
+});
+
+/**
+ * In-memory ReminderScheduler that records every call
+ */
+const createFakeScheduler = ({ granted = true, existingIds = [] as string[] } = {}) => {
+  const pending = new Map<string, PlannedReminder>(existingIds.map((id) => [id, {} as PlannedReminder]));
+  const calls: string[] = [];
+
+  const scheduler: ReminderScheduler = {
+    requestPermission: async () => {
+      calls.push("requestPermission");
+      return granted;
+    },
+    schedule: async (reminder) => {
+      calls.push(`schedule ${reminder.id}`);
+      pending.set(reminder.id, reminder);
+    },
+    cancel: async (id) => {
+      calls.push(`cancel ${id}`);
+      pending.delete(id);
+    },
+    getScheduledIds: async () => Array.from(pending.keys()),
+  };
+
+  return { scheduler, pending, calls };
+};
+
+describe("getReminderDate", () => {
+  it.each<[string, Partial<Todo>, Date | null]>([
+    ["no reminder", { dueDate: "2026-10-20" }, null],
+    ["before a due time", { dueDate: "2026-10-20", dueTime: "15:00", reminder: { type: "before", minutes: 30 } }, new Date(2026, 9, 20, 14, 30)],
+    ["before an all-day due date", { dueDate: "2026-10-20", reminder: { type: "before", minutes: 24 * 60 } }, new Date(2026, 9, 19, 9, 0)],
+    ["before without a due date", { reminder: { type: "before", minutes: 30 } }, null],
+    ["at a time on the due date", { dueDate: "2026-10-22", reminder: { type: "at", time: "08:15" } }, new Date(2026, 9, 22, 8, 15)],
+    ["at a time later on the day it was created", { reminder: { type: "at", time: "18:00" } }, new Date(2026, 9, 19, 18, 0)],
+    ["at a time already past when it was created", { reminder: { type: "at", time: "09:00" } }, new Date(2026, 9, 20, 9, 0)],
+  ])("%s", (_, fields, expected) => {
+    expect(getReminderDate(makeTodo("a", fields))).toEqual(expected);
+  });
+});
+
+describe("formatReminderLabel", () => {
+  it.each<[Reminder, string]>([
+    [{ type: "at", time: "09:00" }, "At 09:00"],
+    [{ type: "before", minutes: 0 }, "At due time"],
+    [{ type: "before", minutes: 15 }, "15 min before"],
+    [{ type: "before", minutes: 60 }, "1 hour before"],
+    [{ type: "before", minutes: 180 }, "3 hours before"],
+    [{ type: "before", minutes: 2 * 24 * 60 }, "2 days before"],
+  ])("%j", (reminder, label) => {
+    expect(formatReminderLabel(reminder)).toBe(label);
+  });
+});
+
+describe("planReminders", () => {
+  it("leaves out completed todos and reminders in the past", () => {
+    const todos = [
+      makeTodo("due", { dueDate: "2026-10-20", reminder: { type: "at", time: "09:00" } }),
+      makeTodo("done", { dueDate: "2026-10-20", reminder: { type: "at", time: "09:00" }, isCompleted: true }),
+      makeTodo("past", { dueDate: "2026-10-19", reminder: { type: "at", time: "08:00" } }),
+      makeTodo("none", { dueDate: "2026-10-20" }),
+    ];
+
+    expect(planReminders(todos, NOW)).toEqual([{
+      id: reminderIdForTodo("due"),
+      title: "Todo reminder",
+      body: "Todo due",
+      date: new Date(2026, 9, 20, 9, 0),
+    }]);
+  });
+});
+
+describe("createReminderSync", () => {
+  const withReminder = (id: string, fields: Partial<Todo> = {}) =>
+    makeTodo(id, { dueDate: "2026-10-20", dueTime: "15:00", reminder: { type: "before", minutes: 10 }, ...fields });
+
+  it("schedules a reminder when a todo is created", async () => {
+    const { scheduler, pending, calls } = createFakeScheduler();
+    const { sync } = createReminderSync(scheduler);
+
+    await sync([], true, NOW);
+    expect(calls).toEqual([]);
+
+    await sync([withReminder("a")], true, NOW);
+    expect(calls).toEqual(["requestPermission", `schedule ${reminderIdForTodo("a")}`]);
+    expect(pending.get(reminderIdForTodo("a"))?.date).toEqual(new Date(2026, 9, 20, 14, 50));
+  });
+
+  it("reschedules only the todos whose reminder changed when edited", async () => {
+    const { scheduler, pending, calls } = createFakeScheduler();
+    const { sync } = createReminderSync(scheduler);
+
+    await sync([withReminder("a"), withReminder("b")], true, NOW);
+    calls.length = 0;
+
+    await sync([withReminder("a", { dueTime: "16:00" }), withReminder("b")], true, NOW);
+    expect(calls).toEqual([`schedule ${reminderIdForTodo("a")}`]);
+    expect(pending.get(reminderIdForTodo("a"))?.date).toEqual(new Date(2026, 9, 20, 15, 50));
+
+    await sync([withReminder("a", { dueTime: "16:00" }), withReminder("b", { text: "Renamed" })], true, NOW);
+    expect(calls).toEqual([`schedule ${reminderIdForTodo("a")}`, `schedule ${reminderIdForTodo("b")}`]);
+    expect(pending.get(reminderIdForTodo("b"))?.body).toBe("Renamed");
+  });
+
+  it("cancels the reminder when a todo is completed or its reminder removed", async () => {
+    const { scheduler, pending } = createFakeScheduler();
+    const { sync } = createReminderSync(scheduler);
+
+    await sync([withReminder("a"), withReminder("b")], true, NOW);
+    await sync([withReminder("a", { isCompleted: true }), withReminder("b", { reminder: undefined })], true, NOW);
+    expect(pending.size).toBe(0);
+  });
+
+  it("cancels the reminder when a todo is deleted", async () => {
+    const { scheduler, pending, calls } = createFakeScheduler();
+    const { sync } = createReminderSync(scheduler);
+
+    await sync([withReminder("a"), withReminder("b")], true, NOW);
+    calls.length = 0;
+
+    await sync([withReminder("b")], true, NOW);
+    expect(calls).toEqual([`cancel ${reminderIdForTodo("a")}`]);
+    expect(Array.from(pending.keys())).toEqual([reminderIdForTodo("b")]);
+  });
+
+  it("pauses every reminder while notifications are off and restores them when turned back on", async () => {
+    const { scheduler, pending } = createFakeScheduler();
+    const { sync } = createReminderSync(scheduler);
+    const todos = [withReminder("a"), withReminder("b")];
+
+    await sync(todos, true, NOW);
+    await sync(todos, false, NOW);
+    expect(pending.size).toBe(0);
+
+    await sync(todos, true, NOW);
+    expect(Array.from(pending.keys()).sort()).toEqual([reminderIdForTodo("a"), reminderIdForTodo("b")]);
+  });
+
+  it("cancels reminders left over from a previous session, but not other notifications", async () => {
+    const { scheduler, pending } = createFakeScheduler({
+      existingIds: [reminderIdForTodo("gone"), "other-notification"],
+    });
+    const { sync } = createReminderSync(scheduler);
+
+    await sync([withReminder("a")], true, NOW);
+    expect(Array.from(pending.keys()).sort()).toEqual(["other-notification", reminderIdForTodo("a")]);
+  });
+
+  it("schedules nothing without permission, and asks again on the next sync", async () => {
+    const { scheduler, pending, calls } = createFakeScheduler({ granted: false });
+    const { sync } = createReminderSync(scheduler);
+
+    await sync([withReminder("a")], true, NOW);
+    await sync([withReminder("a")], true, NOW);
+    expect(pending.size).toBe(0);
+    expect(calls).toEqual(["requestPermission", "requestPermission"]);
+  });
+
+  it("runs overlapping syncs one after another", async () => {
+    const { scheduler, pending } = createFakeScheduler();
+    const { sync } = createReminderSync(scheduler);
+
+    await Promise.all([
+      sync([withReminder("a")], true, NOW),
+      sync([], true, NOW),
+      sync([withReminder("b")], true, NOW),
+    ]);
+    expect(Array.from(pending.keys())).toEqual([reminderIdForTodo("b")]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Analytics Utilities
+ * Labels and formatting for the productivity charts in Settings
+ */
+import { STATS_RANGES } from "@/convex/schema";
+import { fromDueFields } from "@/utils/dates";
+
+export type StatsRange = (typeof STATS_RANGES)[number];
+
+export const STATS_RANGE_LABELS: Record<StatsRange, string> = {
+  week: "7 days",
+  month: "30 days",
+  quarter: "90 days",
+  year: "Year",
+};
+
+export const DEFAULT_STATS_RANGE: StatsRange = "month";
+
+// Monday first, matching the weekday series returned by the backend
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * The device's offset from UTC in minutes, e.g. 120 for UTC+2
+ */
+export const getUtcOffsetMinutes = (now: Date = new Date()) => -now.getTimezoneOffset();
+
+/**
+ * Short label for a calendar day on a chart axis, e.g. "Mar 3"
+ */
+export const formatChartDay = (dateKey: string) =>
+  fromDueFields(dateKey).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+/**
+ * Short weekday name of a calendar day, e.g. "Mon"
+ */
+export const weekdayLabelOf = (dateKey: string) => WEEKDAY_LABELS[(fromDueFields(dateKey).getDay() + 6) % 7];
+
+/**
+ * Rough human friendly duration, e.g. "12 min", "5 h" or "2.5 days"
+ */
+export const formatDuration = (ms: number) => {
+  if (ms < HOUR_MS) return `${Math.max(1, Math.round(ms / 60000))} min`;
+  if (ms < DAY_MS) return `${Math.round(ms / HOUR_MS)} h`;
+
+  const days = Math.round((ms / DAY_MS) * 10) / 10;
+  return `${days} day${days === 1 ? "" : "s"}`;
+};
@@ -0,0 +1,7 @@
+import * as Clipboard from "expo-clipboard";
+
+/**
+ * Put text on the clipboard
+ * Resolves to false when the clipboard couldn't be written, e.g. a browser without clipboard access
+ */
+export const copyText = (text: string) => Clipboard.setStringAsync(text);
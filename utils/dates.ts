@@ -0,0 +1,72 @@
+/**
+ * Date Utilities
+ * Helpers for converting between JavaScript dates and the calendar strings stored on todos
+ * All conversions use the device's local time zone
+ */
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+/**
+ * Format a date as a "YYYY-MM-DD" calendar key in local time
+ */
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Format a date as an "HH:mm" time key in local time
+ */
+export const toTimeKey = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/**
+ * Build a local Date from stored due fields
+ * Falls back to midnight when no time is set
+ */
+export const fromDueFields = (dueDate: string, dueTime?: string) => {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  const [hours, minutes] = (dueTime ?? "00:00").split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+/**
+ * Add a number of days to a date, keeping the local time of day
+ */
+export const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Human friendly label for a due date, e.g. "Today", "Tomorrow 09:30" or "Mon, Mar 3"
+ */
+export const formatDueLabel = (dueDate: string, dueTime?: string, now: Date = new Date()) => {
+  const todayKey = toDateKey(now);
+  let dayLabel: string;
+
+  if (dueDate === todayKey) {
+    dayLabel = "Today";
+  } else if (dueDate === toDateKey(addDays(now, 1))) {
+    dayLabel = "Tomorrow";
+  } else if (dueDate === toDateKey(addDays(now, -1))) {
+    dayLabel = "Yesterday";
+  } else {
+    const date = fromDueFields(dueDate);
+    dayLabel = date.toLocaleDateString(undefined, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      ...(date.getFullYear() !== now.getFullYear() && { year: "numeric" }),
+    });
+  }
+
+  return dueTime ? `${dayLabel} ${dueTime}` : dayLabel;
+};
+
+// Due date sections of the home list, split the same way by getTodoSections on the backend
+export type DueSection = "overdue" | "today" | "upcoming" | "noDate";
+
+/**
+ * Section a todo belongs in for the given device-local day
+ */
+export const getDueSection = (dueDate: string | undefined, today: string): DueSection =>
+  !dueDate ? "noDate" : dueDate < today ? "overdue" : dueDate === today ? "today" : "upcoming";
@@ -0,0 +1,35 @@
+import { ListIconName } from "@/utils/lists";
+
+/**
+ * Show a pairing code in two halves so it's easier to read out, e.g. "ABCD-EFGH"
+ */
+export const formatPairingCode = (code: string) =>
+  code.length > 4 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+
+/**
+ * Icon for a device row, by the platform it reported
+ */
+export const devicePlatformIcon = (platform: string): ListIconName => {
+  if (platform === "ios" || platform === "android") return "phone-portrait-outline";
+  if (platform === "web") return "globe-outline";
+  return "hardware-chip-outline";
+};
+
+/**
+ * Rough "last active" label for the device list, e.g. "Active 5 min ago"
+ */
+export const formatLastSeen = (at: number, now: number = Date.now()) => {
+  const minutes = Math.floor((now - at) / 60_000);
+  if (minutes < 1) return "Active just now";
+  if (minutes < 60) return `Active ${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `Active ${days} day${days === 1 ? "" : "s"} ago`;
+};
+
+/**
+ * Whole minutes left before a pairing code expires, never below zero
+ */
+export const minutesUntil = (at: number, now: number = Date.now()) =>
+  Math.max(0, Math.ceil((at - now) / 60_000));
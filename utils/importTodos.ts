@@ -0,0 +1,374 @@
+import { api } from "@/convex/_generated/api";
+import type { TodoExport } from "@/convex/lib/exports";
+import { getErrorMessage } from "@/convex/lib/errors";
+import { validateDueFields, validateMetadata, validateRecurrence, validateReminder, validateTodoText } from "@/convex/lib/todoFields";
+import { parseICalendar } from "@/convex/lib/ical";
+import { parseTodoTxt } from "@/convex/lib/todoTxt";
+import { EXPORT_APP_NAME, EXPORT_VERSION, PRIORITY_LEVELS } from "@/convex/schema";
+import { FunctionArgs } from "convex/server";
+import { ConvexError } from "convex/values";
+
+// One todo as sent to the importTodos mutation
+export type ImportRow = FunctionArgs<typeof api.imports.importTodos>["rows"][number];
+
+export const IMPORT_FORMATS = ["json", "csv", "markdown", "todotxt", "ical", "text"] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  json: "JSON",
+  csv: "CSV",
+  markdown: "Markdown",
+  todotxt: "todo.txt",
+  ical: "iCalendar",
+  text: "Plain text",
+};
+
+/**
+ * A parsed row as shown in the import preview
+ * line is where it starts in the file; error is why it would be skipped, if it would be
+ */
+export interface PreviewRow {
+  line: number;
+  row: ImportRow;
+  error: string | null;
+}
+
+// Columns a CSV file can be mapped onto
+export const CSV_FIELDS = ["text", "completed", "dueDate", "dueTime", "priority", "list", "tags", "repeat"] as const;
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  text: "Text",
+  completed: "Completed",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  priority: "Priority",
+  list: "List",
+  tags: "Tags",
+  repeat: "Repeat rule",
+};
+
+// Column index for each field, or null when the file has no such column
+export type CsvMapping = Record<CsvField, number | null>;
+
+// Header names recognized for each field, normalized like normalizeHeader does; our own export comes first
+const CSV_HEADER_ALIASES: Record<CsvField, string[]> = {
+  text: ["text", "title", "name", "task", "todo", "summary", "subject", "content"],
+  completed: ["completed", "done", "is_completed", "complete", "checked", "status"],
+  dueDate: ["due_date", "due", "deadline", "date"],
+  dueTime: ["due_time", "time"],
+  priority: ["priority", "importance"],
+  list: ["list", "project", "category", "folder"],
+  tags: ["tags", "tag", "labels", "label"],
+  repeat: ["repeat", "recurrence", "rrule"],
+};
+
+const TRUE_VALUES = ["true", "yes", "y", "x", "1", "done", "completed", "complete"];
+const FALSE_VALUES = ["", "false", "no", "n", "0", "open", "active", "todo", "pending", "incomplete"];
+
+const CHECKLIST_ITEM_PATTERN = /^(\s*)[-*+]\s+\[([ xX])\]\s?(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+
+// Lines that only todo.txt writes: a completion mark with a date, a leading "(A)" priority or a due: extension
+const TODO_TXT_LINE_PATTERN = /^(x \d{4}-\d{2}-\d{2} |\([A-Z]\) )|(^|\s)due:\d{4}-\d{2}-\d{2}(\s|$)/;
+
+// Leading "YYYY-MM-DD", optionally followed by a time as in ISO 8601 ("2026-10-19T09:30")
+const CSV_DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}))?/;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+/**
+ * Guess the format of pasted or picked content
+ */
+export const detectImportFormat = (content: string): ImportFormat => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) return "json";
+  if (/^BEGIN:VCALENDAR/i.test(trimmed)) return "ical";
+
+  const lines = trimmed.split(/\r?\n/);
+  if (lines.some((line) => CHECKLIST_ITEM_PATTERN.test(line))) return "markdown";
+  if (lines.some((line) => TODO_TXT_LINE_PATTERN.test(line))) return "todotxt";
+
+  const header = parseCsvTable(lines[0] ?? "")[0] ?? [];
+  const knownHeaders = Object.values(CSV_HEADER_ALIASES).flat();
+  if (header.length > 1 && header.some((cell) => knownHeaders.includes(normalizeHeader(cell)))) return "csv";
+
+  return "text";
+};
+
+/**
+ * Split CSV content into rows of cells (RFC 4180: quoted fields may hold separators, quotes and line breaks)
+ * Tab-separated files are recognized by a first line with tabs and no commas
+ */
+export const parseCsvTable = (content: string) => {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const separator = firstLine.includes("\t") && !firstLine.includes(",") ? "\t" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) rows.push([...row, cell]);
+
+  return rows;
+};
+
+/**
+ * Map CSV columns onto todo fields by their header names; text falls back to the first column
+ */
+export const guessCsvMapping = (header: string[]): CsvMapping => {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+
+  const mapping = {} as CsvMapping;
+  for (const field of CSV_FIELDS) {
+    const aliases = CSV_HEADER_ALIASES[field];
+    const index = aliases
+      .map((alias) => normalized.findIndex((name, column) => name === alias && !used.has(column)))
+      .find((column) => column >= 0);
+    mapping[field] = index ?? null;
+    if (index !== undefined) used.add(index);
+  }
+  mapping.text ??= header.length > 0 && !used.has(0) ? 0 : null;
+
+  return mapping;
+};
+
+/**
+ * Read our own JSON export, keeping lists, tags, reminders and checklists
+ * Throws an Error with a message for the user when the content isn't an export this app can read
+ */
+const parseJsonExport = (content: string): Omit<PreviewRow, "error">[] => {
+  let data: TodoExport;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("This isn't valid JSON.");
+  }
+
+  if (data?.app !== EXPORT_APP_NAME || typeof data.version !== "number" || !Array.isArray(data.todos)) {
+    throw new Error("This JSON file isn't an export from this app.");
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error("This export was made by a newer version of the app. Please update to import it.");
+  }
+
+  const lists = new Map((data.lists ?? []).map((list) => [list.id, list]));
+  const tags = new Map((data.tags ?? []).map((tag) => [tag.id, tag]));
+
+  return data.todos.map((todo, index) => {
+    const list = todo.listId ? lists.get(todo.listId) : undefined;
+    return {
+      line: index + 1,
+      row: {
+        text: String(todo.text ?? ""),
+        isCompleted: !!todo.isCompleted,
+        dueDate: todo.dueDate,
+        dueTime: todo.dueTime,
+        reminder: todo.reminder,
+        priority: PRIORITY_LEVELS.find((level) => level === todo.priority),
+        recurrence: todo.recurrence,
+        list: list && { name: list.name, color: list.color, icon: list.icon },
+        tags: (todo.tagIds ?? []).flatMap((tagId) => {
+          const tag = tags.get(tagId);
+          return tag ? [{ name: tag.name, color: tag.color }] : [];
+        }),
+        subtasks: (todo.subtasks ?? []).map((subtask) => ({ text: String(subtask.text ?? ""), isCompleted: !!subtask.isCompleted })),
+        metadata: todo.metadata,
+      },
+    };
+  });
+};
+
+/**
+ * Read CSV rows through a column mapping; the first row is the header
+ * Values that can't be understood are reported on the row instead of being dropped quietly
+ */
+const parseCsvRows = (content: string, mapping: CsvMapping): PreviewRow[] => {
+  const table = parseCsvTable(content);
+
+  return table.slice(1).flatMap((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return [];
+
+    const value = (field: CsvField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] ?? "").trim();
+    };
+    const problems: string[] = [];
+
+    const completed = value("completed").toLowerCase();
+    const isCompleted = TRUE_VALUES.includes(completed);
+    if (!isCompleted && !FALSE_VALUES.includes(completed)) problems.push(`Unknown completed value "${value("completed")}"`);
+
+    const dateMatch = value("dueDate").match(CSV_DATE_PATTERN);
+    if (value("dueDate") && !dateMatch) problems.push("Due date must use the YYYY-MM-DD format");
+
+    const priorityValue = value("priority").toLowerCase();
+    const priority = PRIORITY_LEVELS.find((level) => level === priorityValue);
+    if (priorityValue && !priority) problems.push(`Unknown priority "${value("priority")}"`);
+
+    const listName = value("list");
+    const tagNames = value("tags").split(/[\s,;]+/).map((name) => name.replace(/^#+/, "")).filter(Boolean);
+
+    return [{
+      line: index + 2,
+      row: {
+        text: value("text"),
+        isCompleted,
+        dueDate: dateMatch?.[1],
+        dueTime: value("dueTime") || dateMatch?.[2] || undefined,
+        priority,
+        recurrence: value("repeat") || undefined,
+        list: listName ? { name: listName } : undefined,
+        tags: tagNames.map((name) => ({ name })),
+      },
+      error: problems[0] ?? null,
+    }];
+  });
+};
+
+/**
+ * Read a Markdown checklist
+ * Indented items become checklist items of the todo above them, and "##" headings name the list
+ * the items below them go into, which is how the Markdown export is laid out; other lines are ignored
+ */
+const parseMarkdownChecklist = (content: string): Omit<PreviewRow, "error">[] => {
+  const rows: Omit<PreviewRow, "error">[] = [];
+  let listName: string | undefined;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      listName = heading[1].length > 1 ? heading[2].trim() : undefined;
+      return;
+    }
+
+    const item = line.match(CHECKLIST_ITEM_PATTERN);
+    if (!item) return;
+
+    const [, indent, mark, text] = item;
+    const isCompleted = mark !== " ";
+    const parent = rows.at(-1);
+    if (indent.length > 0 && parent) {
+      parent.row.subtasks = [...(parent.row.subtasks ?? []), { text, isCompleted }];
+      return;
+    }
+
+    rows.push({
+      line: index + 1,
+      row: { text, isCompleted, list: listName ? { name: listName } : undefined },
+    });
+  });
+
+  return rows;
+};
+
+/**
+ * Read todo.txt lines; creation and completion dates can't be set on new todos and are dropped
+ */
+const parseTodoTxtRows = (content: string): Omit<PreviewRow, "error">[] =>
+  parseTodoTxt(content).map(({ line, task }) => ({
+    line,
+    row: {
+      text: task.text,
+      isCompleted: task.isCompleted,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      dueTime: task.dueTime,
+      reminder: task.reminder,
+      recurrence: task.recurrence,
+      list: task.list ? { name: task.list } : undefined,
+      tags: task.tags.map((name) => ({ name })),
+      metadata: Object.keys(task.metadata).length > 0 ? task.metadata : undefined,
+    },
+  }));
+
+/**
+ * Read the VTODOs of an .ics file; events and other components are left out
+ */
+const parseICalendarRows = (content: string): Omit<PreviewRow, "error">[] =>
+  parseICalendar(content).map(({ line, todo }) => ({
+    line,
+    row: {
+      text: todo.text,
+      isCompleted: todo.isCompleted,
+      priority: todo.priority,
+      dueDate: todo.dueDate,
+      dueTime: todo.dueTime,
+      recurrence: todo.recurrence,
+      tags: todo.tags.map((name) => ({ name })),
+      metadata: todo.metadata,
+    },
+  }));
+
+/**
+ * One todo per non-blank line
+ */
+const parsePlainText = (content: string): Omit<PreviewRow, "error">[] =>
+  content.split(/\r?\n/).flatMap((line, index) => (line.trim() ? [{ line: index + 1, row: { text: line } }] : []));
+
+/**
+ * Why the backend would skip a row, checked with the same rules the import mutation applies
+ */
+const getRowError = (row: ImportRow) => {
+  try {
+    validateTodoText(row.text);
+    validateDueFields(row.dueDate, row.dueTime);
+    validateReminder(row.reminder, row.dueDate);
+    validateRecurrence(row.recurrence, row.dueDate);
+    validateMetadata(row.metadata);
+    for (const subtask of row.subtasks ?? []) validateTodoText(subtask.text);
+    return null;
+  } catch (error) {
+    return error instanceof ConvexError ? getErrorMessage(error) : String(error);
+  }
+};
+
+/**
+ * Parse content in the given format into preview rows, each checked against the import rules
+ * CSV needs a column mapping; see guessCsvMapping
+ * Throws an Error with a message for the user when the content can't be read at all
+ */
+export const parseImport = (content: string, format: ImportFormat, csvMapping?: CsvMapping): PreviewRow[] => {
+  if (format === "csv") {
+    return parseCsvRows(content, csvMapping ?? guessCsvMapping(parseCsvTable(content)[0] ?? []))
+      .map((preview) => ({ ...preview, error: preview.error ?? getRowError(preview.row) }));
+  }
+
+  const parsers: Record<Exclude<ImportFormat, "csv">, (content: string) => Omit<PreviewRow, "error">[]> = {
+    json: parseJsonExport,
+    markdown: parseMarkdownChecklist,
+    todotxt: parseTodoTxtRows,
+    ical: parseICalendarRows,
+    text: parsePlainText,
+  };
+  const rows = parsers[format](content);
+
+  return rows.map((preview) => ({ ...preview, error: getRowError(preview.row) }));
+};
@@ -0,0 +1,54 @@
+import { Ionicons } from "@expo/vector-icons";
+import { ComponentProps } from "react";
+
+export type ListIconName = ComponentProps<typeof Ionicons>["name"];
+
+// Preset swatches offered when creating or editing a list
+export const LIST_COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+  "#64748b",
+];
+
+// Preset icons offered when creating or editing a list
+export const LIST_ICONS: ListIconName[] = [
+  "list",
+  "briefcase",
+  "home",
+  "cart",
+  "school",
+  "fitness",
+  "airplane",
+  "heart",
+  "code-slash",
+  "star",
+];
+
+export const DEFAULT_LIST_COLOR = LIST_COLORS[0];
+export const DEFAULT_LIST_ICON: ListIconName = "list";
+
+/**
+ * Narrow a stored icon name to a known Ionicons glyph, falling back to the default
+ */
+export const toListIcon = (icon: string): ListIconName =>
+  icon in Ionicons.glyphMap ? (icon as ListIconName) : DEFAULT_LIST_ICON;
+
+// Roles a list can be shared with, mirroring LIST_ROLES in the Convex schema
+export type ListRole = "owner" | "editor" | "viewer";
+export type ListMemberRole = Exclude<ListRole, "owner">;
+
+export const LIST_ROLE_LABELS: Record<ListRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+/**
+ * Show an invite code in groups of five so it's easier to read out, e.g. "ABCDE-FGHJK"
+ */
+export const formatInviteCode = (code: string) => code.match(/.{1,5}/g)?.join("-") ?? code;
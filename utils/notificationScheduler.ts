@@ -0,0 +1,75 @@
+import { createReminderSync, ReminderScheduler } from "@/utils/reminders";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+
+// Android notification channel used for todo reminders
+const REMINDER_CHANNEL_ID = "todo-reminders";
+
+/**
+ * Expo Notification Scheduler
+ * ReminderScheduler implementation backed by expo-notifications local notifications
+ */
+export const expoNotificationScheduler: ReminderScheduler = {
+  requestPermission: async () => {
+    if (Platform.OS === "android") {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: "Reminders",
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+
+  schedule: async (reminder) => {
+    // Scheduling with an existing identifier replaces the previous notification
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.date,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  },
+
+  cancel: async (id) => {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  },
+
+  getScheduledIds: async () => {
+    const requests = await Notifications.getAllScheduledNotificationsAsync();
+    return requests.map((request) => request.identifier);
+  },
+};
+
+/**
+ * No-op scheduler for platforms without local notification support (web)
+ */
+export const noopNotificationScheduler: ReminderScheduler = {
+  requestPermission: async () => false,
+  schedule: async () => {},
+  cancel: async () => {},
+  getScheduledIds: async () => [],
+};
+
+/**
+ * Scheduler for the current platform
+ */
+export const notificationScheduler = Platform.OS === "web" ? noopNotificationScheduler : expoNotificationScheduler;
+
+// One synchroniser per app session so scheduled state is shared across mounts and sign-out
+export const reminderSync = createReminderSync(notificationScheduler);
+
+/**
+ * Cancel every pending todo reminder, e.g. when the account signs out of this device
+ */
+export const clearReminders = () => reminderSync.sync([], false);
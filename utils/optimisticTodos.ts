@@ -0,0 +1,89 @@
+/**
+ * Optimistic Todo Updates
+ * Local versions of the todo mutations, applied to the cached getTodos and getTodoSections results
+ * the moment a mutation is sent; Convex rolls them back on its own if the mutation fails
+ */
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { DueSection, getDueSection } from "@/utils/dates";
+import { applyTodoChanges, createPendingTodo } from "@/utils/outbox";
+import { matchesTodoFilter } from "@/utils/todoView";
+import { OptimisticLocalStore } from "convex/browser";
+import { FunctionArgs, FunctionReturnType } from "convex/server";
+
+type LoadedTodo = FunctionReturnType<typeof api.todos.getTodos>[number];
+
+// The arguments both home queries scope their todos by
+type TodoQueryScope = { listId?: Id<"lists">; filter?: FunctionArgs<typeof api.todos.getTodos>["filter"] };
+
+const SECTION_KEYS: DueSection[] = ["overdue", "today", "upcoming", "noDate"];
+
+/**
+ * Whether a todo still belongs in a query's results after a local change
+ */
+const matchesScope = (todo: LoadedTodo, scope: TodoQueryScope) =>
+  (!scope.listId || todo.listId === scope.listId) && matchesTodoFilter(todo.isCompleted, scope.filter);
+
+/**
+ * Rewrite every loaded getTodos and getTodoSections result
+ * Sections are rebuilt from the changed todos, so a new due date moves a todo to its new section
+ */
+const updateTodoQueries = (localStore: OptimisticLocalStore, change: (todos: LoadedTodo[]) => LoadedTodo[]) => {
+  for (const { args, value } of localStore.getAllQueries(api.todos.getTodos)) {
+    if (value === undefined) continue;
+    localStore.setQuery(api.todos.getTodos, args, change(value).filter((todo) => matchesScope(todo, args)));
+  }
+
+  for (const { args, value } of localStore.getAllQueries(api.todos.getTodoSections)) {
+    if (value === undefined) continue;
+    const todos = change(SECTION_KEYS.flatMap((key) => value[key])).filter((todo) => matchesScope(todo, args));
+    localStore.setQuery(api.todos.getTodoSections, args, {
+      overdue: todos.filter((todo) => getDueSection(todo.dueDate, args.today) === "overdue"),
+      today: todos.filter((todo) => getDueSection(todo.dueDate, args.today) === "today"),
+      upcoming: todos.filter((todo) => getDueSection(todo.dueDate, args.today) === "upcoming"),
+      noDate: todos.filter((todo) => getDueSection(todo.dueDate, args.today) === "noDate"),
+    });
+  }
+};
+
+/**
+ * Show a new todo in the lists it belongs in, under the client id it was sent with
+ * It goes at the top, or at the bottom when added to the end of the manual order
+ * Adds without a client id aren't shown; there would be no id to key the row by
+ */
+export const optimisticAddTodo = (localStore: OptimisticLocalStore, args: FunctionArgs<typeof api.todos.addTodo>) => {
+  if (!args.clientId) return;
+
+  const todo: LoadedTodo = {
+    ...createPendingTodo(args.clientId, args, Date.now()),
+    createdByName: undefined,
+    completedByName: undefined,
+  };
+  updateTodoQueries(localStore, (todos) => (args.position === "bottom" ? [...todos, todo] : [todo, ...todos]));
+};
+
+/**
+ * Flip a todo's completion state, or set the state the outbox asked for
+ */
+export const optimisticToggleTodo = (localStore: OptimisticLocalStore, args: FunctionArgs<typeof api.todos.toggleTodo>) => {
+  updateTodoQueries(localStore, (todos) =>
+    todos.map((todo) => (todo._id === args.id ? { ...todo, isCompleted: args.isCompleted ?? !todo.isCompleted } : todo))
+  );
+};
+
+/**
+ * Show an edited todo's new fields
+ */
+export const optimisticUpdateTodo = (localStore: OptimisticLocalStore, args: FunctionArgs<typeof api.todos.updateTodo>) => {
+  const { id, ...changes } = args;
+  updateTodoQueries(localStore, (todos) =>
+    todos.map((todo) => (todo._id === id ? applyTodoChanges(todo, { ...changes, text: changes.text?.trim() ?? todo.text }) : todo))
+  );
+};
+
+/**
+ * Take a deleted todo out of the lists right away
+ */
+export const optimisticDeleteTodo = (localStore: OptimisticLocalStore, args: FunctionArgs<typeof api.todos.deleteTodo>) => {
+  updateTodoQueries(localStore, (todos) => todos.filter((todo) => todo._id !== args.id));
+};
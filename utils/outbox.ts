@@ -0,0 +1,235 @@
+/**
+ * Offline Outbox Utilities
+ * Todo changes are queued here first and replayed against the backend in order once connected
+ *
+ * Conflict rules:
+ * - Adds carry a client id; the backend returns the existing todo when an add is replayed,
+ *   and later changes to the pending todo are rewritten to its real id once it is inserted
+ * - Completion is queued as the state the user picked, not as a toggle, so a replay can't flip it back
+ * - Edits only send the fields the user changed; those fields overwrite whatever is on the server
+ *   (last writer wins), every other field keeps changes made elsewhere meanwhile
+ * - Deletes win: changes to a todo deleted elsewhere are dropped, and deleting a todo that is
+ *   already in the trash counts as done
+ * - Anything else the backend rejects with an error code (e.g. access to a shared list was removed) is dropped and
+ *   reported; the todo then shows the server's version again
+ * - A change that keeps failing for other reasons is given up after MAX_SYNC_ATTEMPTS tries and
+ *   reported the same way, so it can't hold back the changes queued after it
+ */
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { matchesTodoFilter, TodoFilter } from "@/utils/todoView";
+import { FunctionArgs } from "convex/server";
+
+export type AddTodoArgs = Omit<FunctionArgs<typeof api.todos.addTodo>, "clientId">;
+export type TodoChanges = Omit<FunctionArgs<typeof api.todos.updateTodo>, "id">;
+
+// Queued changes refer to todos by id; todos added offline use their client id until they are inserted
+// failedAttempts counts sends that failed without a verdict from the backend
+export type OutboxEntry = (
+  | { id: string; queuedAt: number; type: "add"; todoId: string; args: AddTodoArgs }
+  | { id: string; queuedAt: number; type: "complete"; todoId: string; isCompleted: boolean; completeSubtasks: boolean; today: string }
+  | { id: string; queuedAt: number; type: "update"; todoId: string; changes: TodoChanges }
+  | { id: string; queuedAt: number; type: "delete"; todoId: string }
+) & { failedAttempts?: number };
+
+// Sends that may fail before a change is given up
+export const MAX_SYNC_ATTEMPTS = 5;
+
+// The todo fields the home screen renders, as the backend returns them
+export type OutboxTodo = Doc<"todos"> & {
+  tagIds: Id<"tags">[];
+  subtaskProgress: { total: number; completed: number };
+  isPendingSync?: boolean;   // Changed locally and not confirmed by the backend yet
+};
+
+const TEMPORARY_ID_PREFIX = "pending-";
+
+/**
+ * Create a unique id for a queued change or a todo added offline
+ */
+export const createClientId = () =>
+  `${TEMPORARY_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Whether a todo id belongs to a todo that only exists in the outbox so far
+ */
+export const isTemporaryTodoId = (todoId: string) => todoId.startsWith(TEMPORARY_ID_PREFIX);
+
+/**
+ * Fold an edit into the arguments of an add that hasn't been sent yet
+ * null (cleared) becomes undefined, since a new todo simply leaves the field out
+ */
+const mergeIntoAdd = (args: AddTodoArgs, changes: TodoChanges): AddTodoArgs => {
+  const merged: Record<string, unknown> = { ...args };
+  for (const [field, value] of Object.entries(changes)) {
+    merged[field] = value === null ? undefined : value;
+  }
+  return merged as AddTodoArgs;
+};
+
+/**
+ * Show an edit on a loaded todo; cleared fields and a "none" priority are left out like the backend does
+ */
+export const applyTodoChanges = <T extends OutboxTodo>(todo: T, changes: TodoChanges): T => {
+  const updated: Record<string, unknown> = { ...todo };
+  for (const [field, value] of Object.entries(changes)) {
+    updated[field] = value === null || (field === "priority" && value === "none") ? undefined : value;
+  }
+  return updated as T;
+};
+
+/**
+ * Queue a change, combining it with earlier changes to the same todo where possible
+ * Changes to a todo that hasn't been added yet are folded into its add, edits to the same todo
+ * are merged, and only the latest completion state is kept
+ */
+export const addToOutbox = (outbox: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] => {
+  const pendingAdd = outbox.find((queued) => queued.type === "add" && queued.todoId === entry.todoId);
+  const isDeleted = outbox.some((queued) => queued.type === "delete" && queued.todoId === entry.todoId);
+
+  switch (entry.type) {
+    case "add":
+      return [...outbox, entry];
+
+    case "update": {
+      if (isDeleted) return outbox;
+      if (pendingAdd?.type === "add") {
+        return outbox.map((queued) => (queued === pendingAdd ? { ...pendingAdd, args: mergeIntoAdd(pendingAdd.args, entry.changes) } : queued));
+      }
+      const pendingUpdate = outbox.find((queued) => queued.type === "update" && queued.todoId === entry.todoId);
+      if (pendingUpdate?.type === "update") {
+        return outbox.map((queued) => (queued === pendingUpdate ? { ...pendingUpdate, changes: { ...pendingUpdate.changes, ...entry.changes } } : queued));
+      }
+      return [...outbox, entry];
+    }
+
+    case "complete":
+      if (isDeleted) return outbox;
+      return [...outbox.filter((queued) => !(queued.type === "complete" && queued.todoId === entry.todoId)), entry];
+
+    case "delete":
+      // A todo that never reached the backend is simply forgotten
+      if (pendingAdd) return outbox.filter((queued) => queued.todoId !== entry.todoId);
+      if (isDeleted) return outbox;
+      return [...outbox, entry];
+  }
+};
+
+/**
+ * Take a sent entry off the queue; for an add, point later changes at the todo's real id
+ */
+export const completeOutboxEntry = (outbox: OutboxEntry[], entry: OutboxEntry, insertedId?: Id<"todos">): OutboxEntry[] =>
+  outbox
+    .filter((queued) => queued.id !== entry.id)
+    .map((queued) => (insertedId && queued.todoId === entry.todoId ? { ...queued, todoId: insertedId } : queued));
+
+/**
+ * Drop an entry the backend rejected; a rejected add takes the changes queued after it along
+ */
+export const dropOutboxEntry = (outbox: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] =>
+  outbox.filter((queued) => queued.id !== entry.id && !(entry.type === "add" && queued.todoId === entry.todoId));
+
+/**
+ * Count a failed send against an entry
+ */
+export const recordFailedAttempt = (outbox: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] =>
+  outbox.map((queued) => (queued.id === entry.id ? { ...queued, failedAttempts: (queued.failedAttempts ?? 0) + 1 } : queued));
+
+/**
+ * Show queued edits, completions and deletes on todos loaded from the backend (or the cache)
+ * Changed todos are flagged with isPendingSync; deleted ones are left out
+ */
+export const applyOutbox = <T extends OutboxTodo>(todos: T[], outbox: OutboxEntry[]): T[] => {
+  if (outbox.length === 0) return todos;
+
+  return todos.flatMap((todo) => {
+    const entries = outbox.filter((entry) => entry.todoId === todo._id);
+    if (entries.length === 0) return [todo];
+    if (entries.some((entry) => entry.type === "delete")) return [];
+
+    let pending: T = { ...todo, isPendingSync: true };
+    for (const entry of entries) {
+      if (entry.type === "complete") {
+        pending = { ...pending, isCompleted: entry.isCompleted };
+      }
+      if (entry.type === "update") {
+        pending = applyTodoChanges(pending, entry.changes);
+      }
+    }
+    return [pending];
+  });
+};
+
+/**
+ * Build the row for a todo that hasn't been inserted yet, from the arguments of its add
+ */
+export const createPendingTodo = (todoId: string, args: AddTodoArgs, createdAt: number): OutboxTodo => ({
+  _id: todoId as Id<"todos">,
+  _creationTime: createdAt,
+  text: args.text,
+  isCompleted: false,
+  dueDate: args.dueDate,
+  dueTime: args.dueDate ? args.dueTime : undefined,
+  reminder: args.reminder,
+  priority: args.priority === "none" ? undefined : args.priority,
+  listId: args.listId,
+  recurrence: args.recurrence,
+  tagIds: args.tagIds ?? [],
+  subtaskProgress: { total: 0, completed: 0 },
+  isPendingSync: true,
+});
+
+/**
+ * Build rows for todos added offline, newest first
+ * Scoped like the home list: to one list when listId is given, and by the status filter
+ */
+export const getPendingTodos = (outbox: OutboxEntry[], listId: Id<"lists"> | undefined, filter: TodoFilter): OutboxTodo[] => {
+  const added = outbox.flatMap((entry) =>
+    entry.type === "add" && (!listId || entry.args.listId === listId) ? [createPendingTodo(entry.todoId, entry.args, entry.queuedAt)] : []
+  );
+
+  return applyOutbox(added, outbox)
+    .filter((todo) => matchesTodoFilter(todo.isCompleted, filter))
+    .reverse();
+};
+
+/**
+ * The fields of an edit that differ from the todo as it was shown, so only those are queued
+ */
+export const diffTodoChanges = (todo: OutboxTodo, changes: TodoChanges): TodoChanges => {
+  const current: Record<string, unknown> = {
+    text: todo.text,
+    dueDate: todo.dueDate ?? null,
+    dueTime: todo.dueTime ?? null,
+    reminder: todo.reminder ?? null,
+    priority: todo.priority ?? "none",
+    listId: todo.listId ?? null,
+    tagIds: todo.tagIds,
+    recurrence: todo.recurrence ?? null,
+  };
+
+  return Object.fromEntries(
+    Object.entries(changes).filter(([field, value]) => JSON.stringify(value) !== JSON.stringify(current[field]))
+  ) as TodoChanges;
+};
+
+/**
+ * Message for a queued change the backend turned down; by then the change is undone on screen
+ * Returns null when there is nothing to tell, i.e. a delete of a todo that was already gone
+ */
+export const describeRejectedEntry = (entry: OutboxEntry, wasDeleted: boolean) => {
+  if (wasDeleted) {
+    return entry.type === "delete" ? null : "That todo was deleted on another device, so your change was dropped.";
+  }
+
+  switch (entry.type) {
+    case "add":
+      return `Couldn't add "${entry.args.text}".`;
+    case "complete":
+      return "Couldn't update the todo. It's back the way it was.";
+    case "update":
+      return "Couldn't save your edit. The todo is back the way it was.";
+    case "delete":
+      return "Couldn't delete the todo. It's back in the list.";
+  }
+};
@@ -0,0 +1,25 @@
+import { Platform } from "react-native";
+
+// Picking files is only available in the browser; on devices, file contents are pasted instead
+export const canPickFiles = Platform.OS === "web";
+
+/**
+ * Let the user choose a text file in the browser and read it
+ * Resolves to null when the dialog is cancelled
+ */
+export const pickTextFile = (accept: string) =>
+  new Promise<{ name: string; content: string } | null>((resolve, reject) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("cancel", () => resolve(null));
+    input.addEventListener("change", () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then((content) => resolve({ name: file.name, content }), reject);
+    });
+    input.click();
+  });
@@ -0,0 +1,34 @@
+import { PRIORITY_LEVELS } from "@/convex/schema";
+import { ColorScheme } from "@/hooks/useTheme";
+
+export type Priority = (typeof PRIORITY_LEVELS)[number];
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  none: "No priority",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+  urgent: "Urgent",
+};
+
+/**
+ * Marker color for a priority level using the theme's semantic tokens
+ * Returns null for "none" so callers can skip rendering a marker
+ */
+export const getPriorityColor = (priority: Priority | undefined, colors: ColorScheme) => {
+  switch (priority) {
+    case "urgent":
+      return colors.danger;
+    case "high":
+      return colors.warning;
+    case "medium":
+      return colors.primary;
+    case "low":
+      return colors.textMuted;
+    default:
+      return null;
+  }
+};
+
+// Highest priority first, for pickers
+export const PRIORITY_OPTIONS = [...PRIORITY_LEVELS].reverse();
@@ -0,0 +1,324 @@
+/**
+ * Quick-Add Parser
+ * Pulls structured fields out of a typed todo, e.g.
+ * "Call Sam tomorrow 3pm #work !high every monday"
+ *   → text "Call Sam", due tomorrow 15:00, tag "work", high priority, repeats weekly on Monday
+ * Pure and clock-injected: relative dates are resolved against `now` in the device's local time zone
+ */
+import {
+  formatRecurrence,
+  nextOccurrence,
+  RecurrenceRule,
+  Weekday,
+  WEEKDAYS,
+} from "@/convex/lib/recurrence";
+import { addDays, fromDueFields, toDateKey } from "@/utils/dates";
+import { Priority } from "@/utils/priority";
+
+export interface QuickAddResult {
+  text: string;             // What remains once every recognised phrase is removed
+  dueDate?: string;         // "YYYY-MM-DD"
+  dueTime?: string;         // "HH:mm"
+  tagNames: string[];       // Lowercase, without the leading "#"
+  priority?: Priority;
+  recurrence?: string;      // Canonical RRULE
+}
+
+const WEEKDAY_WORDS: Record<string, Weekday> = {
+  mon: "MO", monday: "MO",
+  tue: "TU", tues: "TU", tuesday: "TU",
+  wed: "WE", wednesday: "WE",
+  thu: "TH", thur: "TH", thurs: "TH", thursday: "TH",
+  fri: "FR", friday: "FR",
+  sat: "SA", saturday: "SA",
+  sun: "SU", sunday: "SU",
+};
+
+const MONTH_WORDS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+  "!low": "low", "!4": "low",
+  "!medium": "medium", "!med": "medium", "!3": "medium",
+  "!high": "high", "!2": "high",
+  "!urgent": "urgent", "!1": "urgent",
+};
+
+const UNIT_FREQUENCIES: Record<string, RecurrenceRule["freq"]> = {
+  day: "DAILY", days: "DAILY",
+  week: "WEEKLY", weeks: "WEEKLY",
+  month: "MONTHLY", months: "MONTHLY",
+  year: "YEARLY", years: "YEARLY",
+};
+
+const TAG_PATTERN = /^#([\p{L}\p{N}_-]+)$/u;
+const NUMBER_PATTERN = /^\d{1,3}$/;
+const ORDINAL_PATTERN = /^(\d{1,2})(st|nd|rd|th)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_12H_PATTERN = /^(\d{1,2})(?::([0-5]\d))?(am|pm)$/;
+const TIME_24H_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+// Comparison form of a word: lowercase, without trailing punctuation
+const normalize = (word: string) => word.toLowerCase().replace(/[,.;]+$/, "");
+
+// Monday-based weekday index of a local date, matching WEEKDAYS
+const weekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+
+/**
+ * Build a local calendar day, rejecting impossible dates such as Feb 30
+ */
+const calendarDay = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? toDateKey(date) : null;
+};
+
+/**
+ * A phrase match: how many words it consumed and the fields it produced
+ */
+type Match = { length: number } & Partial<Omit<QuickAddResult, "text" | "tagNames">> & {
+  rule?: RecurrenceRule;
+  tagName?: string;
+};
+
+type Matcher = (words: string[], now: Date) => Match | null;
+
+/**
+ * "3pm", "3:30 pm", "15:00", "noon", optionally introduced by "at"
+ */
+const matchTime: Matcher = (words) => {
+  const offset = words[0] === "at" ? 1 : 0;
+  const word = words[offset];
+  if (!word) return null;
+
+  if (word === "noon") return { length: offset + 1, dueTime: "12:00" };
+
+  // Allow a detached meridiem: "3 pm"
+  const next = words[offset + 1];
+  const joined = next === "am" || next === "pm" ? `${word}${next}` : word;
+  const consumed = joined === word ? 1 : 2;
+
+  const twelveHour = TIME_12H_PATTERN.exec(joined);
+  if (twelveHour) {
+    const hours = Number(twelveHour[1]);
+    if (hours < 1 || hours > 12) return null;
+    const hours24 = (hours % 12) + (twelveHour[3] === "pm" ? 12 : 0);
+    return { length: offset + consumed, dueTime: `${pad(hours24)}:${twelveHour[2] ?? "00"}` };
+  }
+
+  const twentyFourHour = TIME_24H_PATTERN.exec(word);
+  if (twentyFourHour) {
+    return { length: offset + 1, dueTime: `${pad(Number(twentyFourHour[1]))}:${twentyFourHour[2]}` };
+  }
+
+  return null;
+};
+
+/**
+ * "today", "tonight", "tomorrow", "friday", "next friday", "in 3 days", "next week",
+ * "2025-03-14", "mar 14", "14 march", optionally introduced by "on" or "by"
+ */
+const matchDate: Matcher = (words, now) => {
+  const offset = words[0] === "on" || words[0] === "by" ? 1 : 0;
+  const [first, second, third] = words.slice(offset);
+  if (!first) return null;
+
+  const found = (length: number, dueDate: string | null, dueTime?: string): Match | null =>
+    dueDate ? { length: offset + length, dueDate, ...(dueTime && { dueTime }) } : null;
+
+  if (first === "today") return found(1, toDateKey(now));
+  if (first === "tonight") return found(1, toDateKey(now), "20:00");
+  if (first === "tomorrow" || first === "tmr" || first === "tmrw") return found(1, toDateKey(addDays(now, 1)));
+
+  // "friday" is the next friday after today; "next friday" is the friday of next week
+  // Bare abbreviations ("sun", "sat") are too common in ordinary text, so they need "on" or "by"
+  const weekday = WEEKDAY_WORDS[first];
+  if (weekday && (offset > 0 || first.endsWith("day"))) {
+    const days = ((WEEKDAYS.indexOf(weekday) - weekdayIndex(now) + 6) % 7) + 1;
+    return found(1, toDateKey(addDays(now, days)));
+  }
+  if (first === "next" && second && WEEKDAY_WORDS[second]) {
+    const days = 7 - weekdayIndex(now) + WEEKDAYS.indexOf(WEEKDAY_WORDS[second]);
+    return found(2, toDateKey(addDays(now, days)));
+  }
+  if (first === "next" && second === "week") {
+    return found(2, toDateKey(addDays(now, 7 - weekdayIndex(now))));
+  }
+  if (first === "next" && second === "month") {
+    return found(2, toDateKey(new Date(now.getFullYear(), now.getMonth() + 1, 1)));
+  }
+
+  // "in 3 days", "in 2 weeks", "in a week"
+  if (first === "in" && second && third) {
+    const amount = second === "a" || second === "an" ? 1 : NUMBER_PATTERN.test(second) ? Number(second) : null;
+    if (amount !== null && (third === "day" || third === "days")) return found(3, toDateKey(addDays(now, amount)));
+    if (amount !== null && (third === "week" || third === "weeks")) return found(3, toDateKey(addDays(now, amount * 7)));
+  }
+
+  const iso = ISO_DATE_PATTERN.exec(first);
+  if (iso) return found(1, calendarDay(Number(iso[1]), Number(iso[2]), Number(iso[3])));
+
+  // Month and day in either order; dates already past this year roll over to next year
+  const monthFirst = MONTH_WORDS[first] && second ? ORDINAL_PATTERN.exec(second) : null;
+  const dayFirst = second && MONTH_WORDS[second] ? ORDINAL_PATTERN.exec(first) : null;
+  if (monthFirst || dayFirst) {
+    const month = monthFirst ? MONTH_WORDS[first] : MONTH_WORDS[second];
+    const day = Number((monthFirst ?? dayFirst)![1]);
+    const thisYear = calendarDay(now.getFullYear(), month, day);
+    if (!thisYear) return null;
+    return found(2, thisYear >= toDateKey(now) ? thisYear : calendarDay(now.getFullYear() + 1, month, day));
+  }
+
+  return null;
+};
+
+/**
+ * "daily", "weekdays", "weekly", "monthly", "yearly", "every day", "every other week",
+ * "every 3 days", "every monday", "every mon and thu", "every 15th"
+ */
+const matchRecurrence: Matcher = (words) => {
+  const [first, second, third] = words;
+
+  const simple: Record<string, RecurrenceRule> = {
+    daily: { freq: "DAILY", interval: 1 },
+    weekly: { freq: "WEEKLY", interval: 1 },
+    monthly: { freq: "MONTHLY", interval: 1 },
+    yearly: { freq: "YEARLY", interval: 1 },
+    annually: { freq: "YEARLY", interval: 1 },
+    weekdays: { freq: "WEEKLY", interval: 1, byDay: WEEKDAYS.slice(0, 5).map((weekday) => ({ weekday })) },
+  };
+  if (simple[first]) return { length: 1, rule: simple[first] };
+
+  if (first !== "every" || !second) return null;
+
+  if (second === "weekday") return { length: 2, rule: simple.weekdays };
+
+  const unit = UNIT_FREQUENCIES[second];
+  if (unit) return { length: 2, rule: { freq: unit, interval: 1 } };
+
+  // "every other week" / "every 3 days"
+  const interval = second === "other" ? 2 : NUMBER_PATTERN.test(second) ? Number(second) : null;
+  if (interval !== null && third && UNIT_FREQUENCIES[third] && interval >= 1) {
+    return { length: 3, rule: { freq: UNIT_FREQUENCIES[third], interval } };
+  }
+
+  // "every monday", "every mon, wed and fri"
+  if (WEEKDAY_WORDS[second]) {
+    const days: Weekday[] = [];
+    let length = 1;
+    for (const word of words.slice(1)) {
+      if (WEEKDAY_WORDS[word]) {
+        if (!days.includes(WEEKDAY_WORDS[word])) days.push(WEEKDAY_WORDS[word]);
+        length += 1;
+      } else if (word === "and" || word === "&") {
+        length += 1;
+      } else {
+        break;
+      }
+    }
+    // Do not swallow a trailing "and" that belongs to the text
+    if (words[length - 1] === "and" || words[length - 1] === "&") length -= 1;
+    const byDay = WEEKDAYS.filter((day) => days.includes(day)).map((weekday) => ({ weekday }));
+    return { length, rule: { freq: "WEEKLY", interval: 1, byDay } };
+  }
+
+  // "every 15th" repeats monthly on that day of the month
+  const ordinal = /^(\d{1,2})(st|nd|rd|th)$/.exec(second);
+  if (ordinal && Number(ordinal[1]) >= 1 && Number(ordinal[1]) <= 31) {
+    return { length: 2, rule: { freq: "MONTHLY", interval: 1, byMonthDay: [Number(ordinal[1])] } };
+  }
+
+  return null;
+};
+
+/**
+ * "#work" tags and "!high" / "!1" priorities
+ */
+const matchMarker: Matcher = (words) => {
+  const tag = TAG_PATTERN.exec(words[0]);
+  if (tag) return { length: 1, tagName: tag[1].toLowerCase() };
+
+  const priority = PRIORITY_WORDS[words[0]];
+  if (priority) return { length: 1, priority };
+
+  return null;
+};
+
+const MATCHERS: Matcher[] = [matchRecurrence, matchDate, matchTime, matchMarker];
+
+/**
+ * Parse a typed todo into its text and structured fields
+ * Only the first phrase of each kind is used; repeats stay part of the text
+ * A time without a date means today, or tomorrow once that time has passed
+ * With a repeat rule the due date moves to the rule's first occurrence on or after that day,
+ * so "tomorrow every monday" is due on the next Monday and "every day 7am" typed at 10:00 tomorrow
+ */
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  const rawWords = input.trim().split(/\s+/).filter(Boolean);
+  const words = rawWords.map(normalize);
+
+  const result: QuickAddResult = { text: "", tagNames: [] };
+  let rule: RecurrenceRule | undefined;
+  const kept: string[] = [];
+
+  let index = 0;
+  while (index < words.length) {
+    const rest = words.slice(index);
+    let consumed = 0;
+
+    for (const matcher of MATCHERS) {
+      const match = matcher(rest, now);
+      if (!match) continue;
+
+      // Skip fields that were already filled by an earlier phrase
+      if (match.rule && rule) continue;
+      if (match.dueDate && result.dueDate) continue;
+      if (match.dueTime && !match.dueDate && result.dueTime) continue;
+      if (match.priority && result.priority) continue;
+
+      if (match.rule) rule = match.rule;
+      if (match.dueDate) result.dueDate = match.dueDate;
+      if (match.dueTime && !result.dueTime) result.dueTime = match.dueTime;
+      if (match.priority) result.priority = match.priority;
+      if (match.tagName && !result.tagNames.includes(match.tagName)) result.tagNames.push(match.tagName);
+
+      consumed = match.length;
+      break;
+    }
+
+    if (consumed > 0) {
+      index += consumed;
+    } else {
+      kept.push(rawWords[index]);
+      index += 1;
+    }
+  }
+
+  if (result.dueTime && !result.dueDate) {
+    const [hours, minutes] = result.dueTime.split(":").map(Number);
+    const isPast = hours * 60 + minutes <= now.getHours() * 60 + now.getMinutes();
+    result.dueDate = toDateKey(isPast ? addDays(now, 1) : now);
+  }
+
+  if (rule) {
+    // Repeating todos need a due date to anchor on, and it has to be one of the rule's own days
+    const earliest = result.dueDate ?? toDateKey(now);
+    const dayBefore = toDateKey(addDays(fromDueFields(earliest), -1));
+    result.dueDate = nextOccurrence(rule, earliest, dayBefore) ?? earliest;
+    result.recurrence = formatRecurrence(rule);
+  }
+
+  // Tidy up punctuation left dangling by removed phrases
+  result.text = kept.join(" ").replace(/[\s,;]+$/, "").trim();
+  return result;
+};
+
+/**
+ * Whether a parse produced anything beyond plain text
+ */
+export const hasQuickAddFields = (result: QuickAddResult) =>
+  !!(result.dueDate || result.dueTime || result.priority || result.recurrence || result.tagNames.length > 0);
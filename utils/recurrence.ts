@@ -0,0 +1,76 @@
+/**
+ * Recurrence Utilities
+ * App-side helpers around the shared RRULE module: editor presets and row hints
+ */
+import {
+  describeRecurrence,
+  formatRecurrence,
+  nextOccurrence,
+  parseRecurrence,
+  RecurrenceRule,
+  weekdayName,
+  weekdayOf,
+  WEEKDAYS,
+} from "@/convex/lib/recurrence";
+import { fromDueFields } from "@/utils/dates";
+
+export interface RecurrencePreset {
+  label: string;
+  rule: string;
+}
+
+/**
+ * Parse a stored rule, returning null instead of throwing for unreadable values
+ */
+export const safeParseRecurrence = (recurrence?: string): RecurrenceRule | null => {
+  if (!recurrence) return null;
+  try {
+    return parseRecurrence(recurrence);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Short summary for a stored rule, e.g. "Weekly on Mon, Thu"
+ */
+export const formatRecurrenceLabel = (recurrence: string) => {
+  const rule = safeParseRecurrence(recurrence);
+  return rule ? describeRecurrence(rule) : "Repeats";
+};
+
+/**
+ * One-tap rules offered by the editor, phrased around the todo's due date
+ */
+export const getRecurrencePresets = (dueDate: string): RecurrencePreset[] => {
+  const weekday = weekdayOf(dueDate);
+  const dayOfMonth = Number(dueDate.slice(8, 10));
+
+  const presets: RecurrenceRule[] = [
+    { freq: "DAILY", interval: 1 },
+    { freq: "WEEKLY", interval: 1, byDay: WEEKDAYS.slice(0, 5).map((day) => ({ weekday: day })) },
+    { freq: "WEEKLY", interval: 1, byDay: [{ weekday }] },
+    { freq: "WEEKLY", interval: 2, byDay: [{ weekday }] },
+    { freq: "MONTHLY", interval: 1, byMonthDay: [dayOfMonth] },
+    { freq: "YEARLY", interval: 1 },
+  ];
+
+  return presets.map((rule) => ({ label: describeRecurrence(rule), rule: formatRecurrence(rule) }));
+};
+
+/**
+ * Hint for the occurrence after the current one: "next: Tue" within a week, otherwise "next: Mar 3"
+ * Returns "last time" when the rule has run out, or null when the todo does not repeat
+ */
+export const formatNextOccurrence = (recurrence: string | undefined, dueDate: string | undefined) => {
+  const rule = safeParseRecurrence(recurrence);
+  if (!rule || !dueDate) return null;
+
+  const next = nextOccurrence(rule, dueDate, dueDate);
+  if (!next) return "last time";
+
+  const days = Math.round((fromDueFields(next).getTime() - fromDueFields(dueDate).getTime()) / (24 * 60 * 60 * 1000));
+  if (days < 7) return `next: ${weekdayName(weekdayOf(next))}`;
+
+  return `next: ${fromDueFields(next).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+};
@@ -0,0 +1,173 @@
+import { Doc } from "@/convex/_generated/dataModel";
+import { fromDueFields } from "@/utils/dates";
+
+type Todo = Doc<"todos">;
+export type Reminder = NonNullable<Todo["reminder"]>;
+
+// Todos with a due date but no time are treated as due at this time of day for reminders
+export const ALL_DAY_REMINDER_TIME = "09:00";
+
+/**
+ * A single local notification that should be pending on the device
+ */
+export interface PlannedReminder {
+  id: string;      // Stable identifier, derived from the todo id
+  title: string;
+  body: string;
+  date: Date;      // When the notification should fire
+}
+
+/**
+ * ReminderScheduler Interface
+ * Thin boundary around the platform notification API
+ * The app uses the expo-notifications implementation; tests can supply an in-memory fake
+ */
+export interface ReminderScheduler {
+  requestPermission: () => Promise<boolean>;
+  schedule: (reminder: PlannedReminder) => Promise<void>;
+  cancel: (id: string) => Promise<void>;
+  getScheduledIds: () => Promise<string[]>;
+}
+
+// Prefix for notification identifiers so unrelated notifications are never touched
+const REMINDER_ID_PREFIX = "todo-reminder-";
+
+export const reminderIdForTodo = (todoId: string) => `${REMINDER_ID_PREFIX}${todoId}`;
+
+/**
+ * Compute when a todo's reminder should fire
+ * Returns null when the todo has no reminder or the reminder cannot be resolved
+ */
+export const getReminderDate = (todo: Pick<Todo, "reminder" | "dueDate" | "dueTime" | "_creationTime">) => {
+  const { reminder } = todo;
+  if (!reminder) return null;
+
+  if (reminder.type === "before") {
+    if (!todo.dueDate) return null;
+    const due = fromDueFields(todo.dueDate, todo.dueTime ?? ALL_DAY_REMINDER_TIME);
+    return new Date(due.getTime() - reminder.minutes * 60 * 1000);
+  }
+
+  // "at" reminders fire on the due date, or on the day the todo was created
+  if (todo.dueDate) {
+    return fromDueFields(todo.dueDate, reminder.time);
+  }
+
+  const created = new Date(todo._creationTime);
+  const [hours, minutes] = reminder.time.split(":").map(Number);
+  const date = new Date(created.getFullYear(), created.getMonth(), created.getDate(), hours, minutes);
+
+  // A time that had already passed at creation means the next day
+  if (date.getTime() <= todo._creationTime) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date;
+};
+
+/**
+ * Short description of a reminder for chips and row metadata
+ */
+export const formatReminderLabel = (reminder: Reminder) => {
+  if (reminder.type === "at") return `At ${reminder.time}`;
+  if (reminder.minutes === 0) return "At due time";
+  if (reminder.minutes % (24 * 60) === 0) {
+    const days = reminder.minutes / (24 * 60);
+    return `${days} day${days === 1 ? "" : "s"} before`;
+  }
+  if (reminder.minutes % 60 === 0) {
+    const hours = reminder.minutes / 60;
+    return `${hours} hour${hours === 1 ? "" : "s"} before`;
+  }
+  return `${reminder.minutes} min before`;
+};
+
+/**
+ * Work out which reminders should currently be pending
+ * Completed todos and reminders in the past are left out
+ */
+export const planReminders = (todos: Todo[], now: Date = new Date()): PlannedReminder[] => {
+  const planned: PlannedReminder[] = [];
+
+  for (const todo of todos) {
+    if (todo.isCompleted) continue;
+
+    const date = getReminderDate(todo);
+    if (!date || date.getTime() <= now.getTime()) continue;
+
+    planned.push({
+      id: reminderIdForTodo(todo._id),
+      title: "Todo reminder",
+      body: todo.text,
+      date,
+    });
+  }
+
+  return planned;
+};
+
+/**
+ * Create a reminder synchroniser bound to a scheduler
+ * Each sync call reconciles pending notifications with the latest todo list:
+ * new or edited todos are (re)scheduled, completed or deleted ones are cancelled,
+ * and everything is cancelled while reminders are disabled
+ */
+export const createReminderSync = (scheduler: ReminderScheduler) => {
+  // Fingerprint of what is currently scheduled, keyed by reminder id
+  let scheduled: Map<string, string> | null = null;
+
+  // Permission is only requested once there is something to schedule
+  // A denial is not cached, so enabling notifications in system settings takes effect
+  let hasPermission = false;
+
+  // Sync runs are chained so overlapping updates never interleave
+  let queue: Promise<void> = Promise.resolve();
+
+  const fingerprint = (reminder: PlannedReminder) => `${reminder.date.getTime()}|${reminder.body}`;
+
+  const run = async (todos: Todo[], enabled: boolean, now: Date) => {
+    // On the first run, pick up reminders left over from a previous app session
+    if (!scheduled) {
+      const existingIds = await scheduler.getScheduledIds();
+      scheduled = new Map(
+        existingIds.filter((id) => id.startsWith(REMINDER_ID_PREFIX)).map((id) => [id, ""])
+      );
+    }
+
+    let planned = enabled ? planReminders(todos, now) : [];
+
+    if (planned.length > 0 && !hasPermission) {
+      hasPermission = await scheduler.requestPermission();
+    }
+    if (!hasPermission) {
+      planned = [];
+    }
+
+    const plannedIds = new Set(planned.map((reminder) => reminder.id));
+
+    // Cancel anything that is no longer wanted
+    for (const id of Array.from(scheduled.keys())) {
+      if (!plannedIds.has(id)) {
+        await scheduler.cancel(id);
+        scheduled.delete(id);
+      }
+    }
+
+    // Schedule new reminders and reschedule changed ones
+    for (const reminder of planned) {
+      const print = fingerprint(reminder);
+      if (scheduled.get(reminder.id) === print) continue;
+
+      await scheduler.schedule(reminder);
+      scheduled.set(reminder.id, print);
+    }
+  };
+
+  const sync = (todos: Todo[], enabled: boolean, now: Date = new Date()) => {
+    const next = queue.then(() => run(todos, enabled, now));
+    // Keep the chain alive after a failed run; the caller still sees the error
+    queue = next.catch(() => {});
+    return next;
+  };
+
+  return { sync };
+};
@@ -0,0 +1,36 @@
+import { Platform, Share } from "react-native";
+
+export interface SharedFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+/**
+ * Save a file through the browser's download prompt
+ */
+const downloadFile = ({ filename, mimeType, content }: SharedFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Hand a text file to the system share sheet, or download it when running on web
+ * The share sheet takes the content as text, so it can be saved to Files, mailed or pasted anywhere
+ * Resolves to false when the user dismissed the share sheet
+ */
+export const shareFile = async (file: SharedFile) => {
+  if (Platform.OS === "web") {
+    downloadFile(file);
+    return true;
+  }
+
+  const result = await Share.share({ title: file.filename, message: file.content }, { subject: file.filename });
+  return result.action !== Share.dismissedAction;
+};
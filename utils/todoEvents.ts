@@ -0,0 +1,88 @@
+/**
+ * Todo History Utilities
+ * Turns stored todo events into the lines shown on the todo detail timeline
+ */
+import { Doc } from "@/convex/_generated/dataModel";
+import { TODO_EVENT_TYPES } from "@/convex/schema";
+import { formatDueLabel } from "@/utils/dates";
+import { Priority, PRIORITY_LABELS } from "@/utils/priority";
+import { formatRecurrenceLabel } from "@/utils/recurrence";
+import { formatReminderLabel, Reminder } from "@/utils/reminders";
+
+export type TodoEvent = Doc<"todoEvents">;
+export type TodoEventType = (typeof TODO_EVENT_TYPES)[number];
+
+export const TODO_EVENT_LABELS: Record<TodoEventType, string> = {
+  created: "Created",
+  edited: "Edited",
+  completed: "Completed",
+  reopened: "Reopened",
+  deleted: "Moved to trash",
+  restored: "Restored",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  text: "Text",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  reminder: "Reminder",
+  priority: "Priority",
+  listId: "List",
+  recurrence: "Repeat",
+  tagIds: "Tags",
+};
+
+// Names for ids stored in events; ids that are missing here belonged to deleted lists or tags
+export interface EventNameLookup {
+  listNames: Map<string, string>;
+  tagNames: Map<string, string>;
+}
+
+/**
+ * Decode one stored value and describe it for display
+ * Values are JSON-encoded by the backend; a missing value means the field was unset
+ */
+const formatFieldValue = (field: string, encoded: string | undefined, names: EventNameLookup) => {
+  if (encoded === undefined) return "none";
+
+  const value = JSON.parse(encoded);
+  switch (field) {
+    case "text":
+      return `"${value}"`;
+    case "dueDate":
+      return formatDueLabel(value);
+    case "reminder":
+      return formatReminderLabel(value as Reminder);
+    case "priority":
+      return PRIORITY_LABELS[value as Priority] ?? String(value);
+    case "listId":
+      return names.listNames.get(value) ?? "a deleted list";
+    case "recurrence":
+      return formatRecurrenceLabel(value);
+    case "tagIds":
+      return (value as string[]).map((tagId) => `#${names.tagNames.get(tagId) ?? "deleted"}`).join(" ");
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Describe the field changes of an event, one line per field, e.g. 'Due date: Today → Tomorrow'
+ * Completion changes are left out since the event type already says it
+ * A created event lists the initial values instead of before/after pairs
+ */
+export const describeEventChanges = (event: Pick<TodoEvent, "type" | "changes">, names: EventNameLookup) =>
+  event.changes
+    .filter((change) => change.field !== "isCompleted")
+    .map((change) => {
+      const label = FIELD_LABELS[change.field] ?? change.field;
+      const to = formatFieldValue(change.field, change.to, names);
+      if (event.type === "created") return `${label}: ${to}`;
+      return `${label}: ${formatFieldValue(change.field, change.from, names)} → ${to}`;
+    });
+
+/**
+ * Timestamp label for an event, e.g. "Mar 3, 2:15 PM"
+ */
+export const formatEventTime = (at: number) =>
+  new Date(at).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
@@ -0,0 +1,45 @@
+import { TODO_FILTERS, TODO_SORTS } from "@/convex/schema";
+
+export type TodoFilter = (typeof TODO_FILTERS)[number];
+export type TodoSort = (typeof TODO_SORTS)[number];
+
+export const TODO_FILTER_LABELS: Record<TodoFilter, string> = {
+  all: "All",
+  active: "Active",
+  completed: "Completed",
+};
+
+export const TODO_SORT_LABELS: Record<TodoSort, string> = {
+  manual: "Manual (drag to reorder)",
+  newest: "Newest first",
+  oldest: "Oldest first",
+  alphabetical: "Alphabetical",
+  completedLast: "Completed last",
+  dueDate: "Due date",
+  priority: "Priority",
+};
+
+export const DEFAULT_TODO_FILTER: TodoFilter = "all";
+export const DEFAULT_TODO_SORT: TodoSort = "dueDate";
+
+// Where newly added todos land in the manual order
+export type NewTodoPosition = "top" | "bottom";
+export const DEFAULT_NEW_TODO_POSITION: NewTodoPosition = "top";
+
+/**
+ * Narrow a persisted value to a known filter, falling back to the default
+ */
+export const toTodoFilter = (value: unknown): TodoFilter =>
+  TODO_FILTERS.find((filter) => filter === value) ?? DEFAULT_TODO_FILTER;
+
+/**
+ * Narrow a persisted value to a known sort order, falling back to the default
+ */
+export const toTodoSort = (value: unknown): TodoSort =>
+  TODO_SORTS.find((sort) => sort === value) ?? DEFAULT_TODO_SORT;
+
+/**
+ * Whether a todo with the given completion state passes a status filter, like filterTodos on the backend
+ */
+export const matchesTodoFilter = (isCompleted: boolean, filter: TodoFilter | undefined) =>
+  !filter || filter === "all" || (filter === "completed") === isCompleted;